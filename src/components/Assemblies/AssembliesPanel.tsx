@@ -3,15 +3,18 @@ import { useProjectStore } from '@/stores/projectStore';
 import { useUIStore } from '@/stores/uiStore';
 import { TreeNode } from './TreeNode';
 import { CreateAssemblyModal } from './CreateAssemblyModal';
+import { countComponentInstances } from '@/lib/hierarchy/components';
+import { ComponentDefinition } from '@/types';
 
 export function AssembliesPanel() {
   // Subscribe to active tab data with proper selectors
   const objects = useProjectStore((state) => state.tabs[state.activeTabIndex]?.objects || []);
   const assemblies = useProjectStore((state) => state.tabs[state.activeTabIndex]?.assemblies || []);
   const selectedObjectIds = useProjectStore((state) => state.tabs[state.activeTabIndex]?.selectedObjectIds || []);
+  const components = useProjectStore((state) => state.tabs[state.activeTabIndex]?.components || []);
 
   // Get actions
-  const { selectObject, reparentNode } = useProjectStore();
+  const { selectObject, reparentNode, placeComponentInstance, removeComponent } = useProjectStore();
   const { theme, assembliesPanelCollapsed, toggleAssembliesPanelCollapse } = useUIStore();
   const isCollapsed = assembliesPanelCollapsed;
   const [showCreateModal, setShowCreateModal] = useState(false);
@@ -39,6 +42,14 @@ export function AssembliesPanel() {
     ...rootObjects.map((o) => ({ id: o.id, type: 'object' as const, name: o.name })),
   ];
 
+  const instanceCounts = countComponentInstances(assemblies);
+
+  const handleRemoveComponent = (component: ComponentDefinition) => {
+    if (window.confirm(`Delete component "${component.name}"? Its instances are kept as ordinary assemblies.`)) {
+      removeComponent(component.id);
+    }
+  };
+
   // Handle object selection
   const handleSelectNode = (id: string, type: 'assembly' | 'object') => {
     if (type === 'object') {
@@ -147,6 +158,39 @@ export function AssembliesPanel() {
             )}
           </div>
 
+          {/* Component definitions */}
+          {components.length > 0 && (
+            <div className={`border-t ${colors.border} py-1`}>
+              <div className={`px-3 py-1 text-xs font-semibold ${colors.textMuted}`}>Components</div>
+              {components.map((component) => (
+                <div key={component.id} className="px-3 py-1 flex items-center gap-2">
+                  <div
+                    className="flex-shrink-0 w-3 h-3 rounded border border-gray-400"
+                    style={{ backgroundColor: component.color }}
+                  />
+                  <span className={`text-sm ${colors.text} truncate flex-1 min-w-0`}>{component.name}</span>
+                  <span className={`text-xs ${colors.textMuted} flex-shrink-0`} title="Instances">
+                    ×{instanceCounts.get(component.id) ?? 0}
+                  </span>
+                  <button
+                    onClick={() => placeComponentInstance(component.id)}
+                    className={`flex-shrink-0 px-2 py-0.5 text-xs border rounded ${colors.buttonBorder} ${colors.hover} ${colors.text}`}
+                    title="Place another linked instance"
+                  >
+                    + Place
+                  </button>
+                  <button
+                    onClick={() => handleRemoveComponent(component)}
+                    className={`flex-shrink-0 w-5 h-5 flex items-center justify-center rounded ${colors.hover} text-red-600 hover:text-red-700`}
+                    title="Delete component"
+                  >
+                    <span className="text-xs">🗑️</span>
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+
           {/* Footer Info */}
           <div className={`p-2 border-t ${colors.border} text-xs ${colors.textMuted}`}>
             {assemblies.length} {assemblies.length === 1 ? 'assembly' : 'assemblies'} • {objects.length} {objects.length === 1 ? 'object' : 'objects'}
@@ -16,6 +16,7 @@ export function TreeNode({ id, type, depth, onSelect }: TreeNodeProps) {
   // Subscribe to active tab data with proper selectors
   const objects = useProjectStore((state) => state.tabs[state.activeTabIndex]?.objects || []);
   const assemblies = useProjectStore((state) => state.tabs[state.activeTabIndex]?.assemblies || []);
+  const selectedAssemblyId = useProjectStore((state) => state.tabs[state.activeTabIndex]?.selectedAssemblyId ?? null);
 
   // Get actions
   const { toggleAssemblyVisibility, selectAssemblyObjects, toggleAssemblyExpansion, reparentNode, deleteNode } = useProjectStore();
@@ -41,6 +42,7 @@ export function TreeNode({ id, type, depth, onSelect }: TreeNodeProps) {
     textMuted: theme === 'dark' ? 'text-gray-400' : theme === 'blueprint' ? 'text-blue-200' : 'text-gray-500',
     hover: theme === 'dark' ? 'hover:bg-[#3a3a3a]' : theme === 'blueprint' ? 'hover:bg-[#2E4A9A]' : 'hover:bg-gray-100',
     itemBg: theme === 'dark' ? 'bg-[#2a2a2a]' : theme === 'blueprint' ? 'bg-[#1E3A8A]' : 'bg-white',
+    selected: theme === 'dark' ? 'bg-[#3a3a3a]' : theme === 'blueprint' ? 'bg-[#2E4A9A]' : 'bg-blue-50',
   };
 
   // Handle expand/collapse
@@ -178,6 +180,7 @@ export function TreeNode({ id, type, depth, onSelect }: TreeNodeProps) {
   // Get icon for item type
   const getIcon = () => {
     if (type === 'assembly') {
+      if ('componentId' in item && item.componentId) return '🧩'; // Component instance
       return hasChildren ? (isExpanded ? '📂' : '📁') : '📁';
     }
     return '📦'; // Object icon
@@ -203,6 +206,8 @@ export function TreeNode({ id, type, depth, onSelect }: TreeNodeProps) {
         onDragLeave={handleDragLeave}
         onDrop={handleDrop}
         className={`border-b ${colors.border} ${colors.hover} transition-colors cursor-pointer ${
+          type === 'assembly' && id === selectedAssemblyId ? colors.selected : ''
+        } ${
           isDragOver && type === 'assembly' ? 'bg-blue-500 bg-opacity-20 border-blue-500 border-2' : ''
         }`}
         onClick={handleClick}
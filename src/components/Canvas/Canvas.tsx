@@ -4,7 +4,7 @@ import { useProjectStore } from '@/stores/projectStore';
 import { exportCurrentViewAsPNG, exportMultiViewPDF } from '@/lib/export/canvasExport';
 import { useUIStore } from '@/stores/uiStore';
 import { createOrthographicCamera, setupCameraForView } from '@/lib/three/views';
-import { screenToWorld, snapVectorToGrid, screenDeltaToWorldDelta } from '@/lib/geometry/coordinates';
+import { screenToWorld, snapVectorToGrid, screenDeltaToWorldDelta, getWorldUnitsPerPixel } from '@/lib/geometry/coordinates';
 import { ViewType, DraftObject, LumberLibraryItem, Assembly, Vector3D } from '@/types';
 import { CanvasControls } from './CanvasControls';
 import { ViewCube } from '../Layout/ViewCube';
@@ -12,7 +12,25 @@ import { Rulers } from './Rulers';
 import { DimensionOverlay } from './DimensionOverlay';
 import { TransformGizmo } from './TransformGizmo';
 import { DimensionLines } from './DimensionLines';
+import { SheetPreviewOverlay } from './SheetPreviewOverlay';
+import { SectionLines } from './SectionLines';
+import { SnapIndicator } from './SnapIndicator';
+import { JointMarkers } from './JointMarkers';
+import { PartLabels } from './PartLabels';
 import { computeWorldTransform, isNodeVisible, getEffectiveColor, worldToLocalPosition } from '@/lib/hierarchy/transforms';
+import { buildSolids, Segment3D } from '@/lib/geometry/solids';
+import { getProfileOutline } from '@/lib/geometry/profiles';
+import { getRoundDiameters, getRoundStockEdges, ROUND_SEGMENTS } from '@/lib/geometry/roundStock';
+import { computeHiddenLines } from '@/lib/geometry/hiddenLines';
+import { explodeSolids } from '@/lib/hierarchy/explode';
+import { useExplodeOffsets } from '@/hooks/useExplodeOffsets';
+import { useInterferences } from '@/hooks/useInterferences';
+import { getCollidingObjectIds } from '@/lib/geometry/interference';
+import { sectionSolids, getClippingPlane, getSectionView, getSectionPlaneFromLine, getNextSectionName, hatchPolygon } from '@/lib/geometry/sections';
+import { projectPoint } from '@/lib/geometry/projection';
+import { getFaceExtents } from '@/lib/geometry/alignment';
+import { getSnapAxes, getSnapTargets, mergeExtents, snapExtents, snapPoint, SnapGuide } from '@/lib/geometry/snapping';
+import { getViewBasis } from '@/lib/three/views';
 
 export function Canvas() {
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -21,16 +39,36 @@ export function Canvas() {
   const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
   const gridRef = useRef<THREE.Group | null>(null);
   const objectMeshesRef = useRef<Map<string, THREE.Group>>(new Map());
+  const hiddenLineGroupRef = useRef<THREE.Group | null>(null);
+  const sectionCapGroupRef = useRef<THREE.Group | null>(null);
 
   // Subscribe to active tab data with proper selectors
   const camera = useProjectStore((state) => state.tabs[state.activeTabIndex]?.camera);
   const objects = useProjectStore((state) => state.tabs[state.activeTabIndex]?.objects || []);
   const assemblies = useProjectStore((state) => state.tabs[state.activeTabIndex]?.assemblies || []);
   const selectedObjectIds = useProjectStore((state) => state.tabs[state.activeTabIndex]?.selectedObjectIds || []);
+  const sectionPlanes = useProjectStore((state) => state.tabs[state.activeTabIndex]?.sectionPlanes || []);
+  const explodeOffsets = useExplodeOffsets();
+  const interferences = useInterferences();
+
+  // World transform of an object where it is drawn, including any exploded-view offset
+  const getDisplayedTransform = (id: string) => {
+    const transform = computeWorldTransform(id, objects, assemblies);
+    const offset = explodeOffsets.get(id);
+    if (!offset) return transform;
+    return {
+      ...transform,
+      position: {
+        x: transform.position.x + offset.x,
+        y: transform.position.y + offset.y,
+        z: transform.position.z + offset.z,
+      },
+    };
+  };
 
   // Get actions
-  const { addObject, updateObject, updateObjectPosition, removeObject, selectObject, clearSelection, undo, redo, pushToHistory, setZoom, setPanOffset, setView, addDimensionLine } = useProjectStore();
-  const { gridVisible, theme, controlsPanelOpen, libraryPanelOpen, propertiesPanelOpen, snapIncrement, exportPNGRequested, exportPDFRequested, clearExportRequests, gizmoVisible, dimensionLineMode, toggleDimensionLineMode } = useUIStore();
+  const { addObject, updateObject, updateObjectPosition, removeObject, selectObject, clearSelection, undo, redo, pushToHistory, setZoom, setPanOffset, setView, addDimensionLine, addSectionPlane } = useProjectStore();
+  const { gridVisible, theme, controlsPanelOpen, libraryPanelOpen, propertiesPanelOpen, snapIncrement, exportPNGRequested, exportPDFRequested, clearExportRequests, gizmoVisible, sheetPreviewVisible, jointMarkersVisible, partLabelsVisible, renderMode, dimensionLineMode, toggleDimensionLineMode, sectionPlacementMode, toggleSectionPlacementMode, activeSectionId, setActiveSection, objectSnap, objectSnapDistance } = useUIStore();
 
   const [isDragOver, setIsDragOver] = useState(false);
   const [isDragging, setIsDragging] = useState(false);
@@ -47,6 +85,8 @@ export function Canvas() {
   const [canvasDimensions, setCanvasDimensions] = useState({ width: 0, height: 0 });
   const [currentGridSpacing, setCurrentGridSpacing] = useState(1);
   const [dimensionLineStartPoint, setDimensionLineStartPoint] = useState<{ x: number; y: number; z: number } | null>(null);
+  const [sectionStartPoint, setSectionStartPoint] = useState<Vector3D | null>(null);
+  const [snapGuides, setSnapGuides] = useState<SnapGuide[]>([]);
   const lastGridUpdateRef = useRef({ zoom: 1, viewType: 'front' as ViewType });
   const dragStartPosRef = useRef<{ x: number; y: number } | null>(null);
   const panStartPosRef = useRef<{ x: number; y: number } | null>(null);
@@ -83,6 +123,7 @@ export function Canvas() {
       canvas: canvasRef.current,
       antialias: true,
     });
+    renderer.localClippingEnabled = true; // Section views clip object materials
     rendererRef.current = renderer;
 
     // Size renderer to container
@@ -234,7 +275,7 @@ export function Canvas() {
 
       const isCmdOrCtrl = e.metaKey || e.ctrlKey;
 
-      // Escape key: exit dimension line mode and clear start point
+      // Escape key: exit dimension line or section placement mode and clear start point
       if (e.key === 'Escape' && !isTyping) {
         if (dimensionLineMode) {
           e.preventDefault();
@@ -242,6 +283,12 @@ export function Canvas() {
           toggleDimensionLineMode();
           return;
         }
+        if (sectionPlacementMode) {
+          e.preventDefault();
+          setSectionStartPoint(null);
+          toggleSectionPlacementMode();
+          return;
+        }
       }
 
       // Undo (Cmd/Ctrl + Z, but not Shift+Z)
@@ -433,7 +480,7 @@ export function Canvas() {
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [selectedObjectIds, objects, removeObject, addObject, selectObject, clearSelection, undo, redo, pushToHistory, setZoom, setPanOffset, setView, updateObject, camera.currentView, dimensionLineMode, toggleDimensionLineMode]);
+  }, [selectedObjectIds, objects, removeObject, addObject, selectObject, clearSelection, undo, redo, pushToHistory, setZoom, setPanOffset, setView, updateObject, camera.currentView, dimensionLineMode, toggleDimensionLineMode, sectionPlacementMode, toggleSectionPlacementMode]);
 
   // Render objects from store
   useEffect(() => {
@@ -451,12 +498,16 @@ export function Canvas() {
     });
 
     // Add or update meshes for current objects
+    // Parts that overlap without being allowed to are drawn in red
+    const collidingIds = getCollidingObjectIds(interferences);
+
     objects.forEach((obj) => {
       const isSelected = selectedObjectIds.includes(obj.id);
       const isPreviewSelected = previewSelectedIds.includes(obj.id);
+      const isColliding = collidingIds.has(obj.id);
 
-      // Compute world transform from hierarchy
-      const worldTransform = computeWorldTransform(obj.id, objects, assemblies);
+      // Compute world transform from hierarchy, shifted when the view is exploded
+      const worldTransform = getDisplayedTransform(obj.id);
 
       // Check visibility (respects parent assembly visibility)
       const isVisible = isNodeVisible(obj.id, objects, assemblies);
@@ -471,7 +522,9 @@ export function Canvas() {
       const needsRecreate = existingMesh && (
         existingMesh.userData.width !== obj.dimensions.width ||
         existingMesh.userData.height !== obj.dimensions.height ||
-        existingMesh.userData.depth !== obj.dimensions.depth
+        existingMesh.userData.depth !== obj.dimensions.depth ||
+        existingMesh.userData.profile !== obj.profile ||
+        existingMesh.userData.round !== obj.round
       );
 
       if (!existingMesh || needsRecreate) {
@@ -487,11 +540,13 @@ export function Canvas() {
         }
 
         // Create new mesh
-        const mesh = createObjectMesh(obj, isSelected, effectiveColor);
+        const mesh = createObjectMesh(obj, isSelected, effectiveColor, isColliding);
         mesh.visible = isVisible;
         mesh.userData.width = obj.dimensions.width;
         mesh.userData.height = obj.dimensions.height;
         mesh.userData.depth = obj.dimensions.depth;
+        mesh.userData.profile = obj.profile;
+        mesh.userData.round = obj.round;
 
         // Set position and rotation immediately to avoid flicker
         mesh.position.set(
@@ -530,10 +585,142 @@ export function Canvas() {
         mesh.visible = isVisible;
 
         // Update selection highlight and color
-        updateMeshSelection(mesh, isSelected, isPreviewSelected, effectiveColor);
+        updateMeshSelection(mesh, isSelected, isPreviewSelected, effectiveColor, isColliding);
       }
     });
-  }, [objects, selectedObjectIds, previewSelectedIds, assemblies]);
+  }, [objects, selectedObjectIds, previewSelectedIds, assemblies, explodeOffsets, interferences]);
+
+  // Hidden-line mode: replace fills and box edges with visible edges and dashed hidden edges
+  useEffect(() => {
+    const scene = sceneRef.current;
+    if (!scene) return;
+
+    const hiddenLineMode = renderMode === 'hidden-line';
+    objectMeshesRef.current.forEach((group) => {
+      group.traverse((child) => {
+        if (child instanceof THREE.Mesh || child instanceof THREE.LineSegments) {
+          (child.material as THREE.Material).visible = !hiddenLineMode;
+        }
+      });
+    });
+
+    // Remove the previous line drawing
+    if (hiddenLineGroupRef.current) {
+      scene.remove(hiddenLineGroupRef.current);
+      hiddenLineGroupRef.current.traverse((child) => {
+        if (child instanceof THREE.LineSegments) {
+          child.geometry.dispose();
+          child.material.dispose();
+        }
+      });
+      hiddenLineGroupRef.current = null;
+    }
+
+    if (!hiddenLineMode) return;
+
+    const solids = explodeSolids(buildSolids(objects, assemblies), explodeOffsets);
+    const selectedSolids = solids.filter((solid) => selectedObjectIds.includes(solid.id));
+    const otherSolids = solids.filter((solid) => !selectedObjectIds.includes(solid.id));
+    const group = new THREE.Group();
+
+    const addSegments = (segments: Segment3D[], material: THREE.LineBasicMaterial | THREE.LineDashedMaterial) => {
+      if (segments.length === 0) return;
+      const geometry = new THREE.BufferGeometry().setFromPoints(
+        segments.flatMap(([a, b]) => [new THREE.Vector3(a.x, a.y, a.z), new THREE.Vector3(b.x, b.y, b.z)])
+      );
+      const lines = new THREE.LineSegments(geometry, material);
+      lines.computeLineDistances();
+      group.add(lines);
+    };
+
+    const others = computeHiddenLines(solids, camera.currentView, otherSolids);
+    const selected = computeHiddenLines(solids, camera.currentView, selectedSolids);
+    addSegments(others.visible, new THREE.LineBasicMaterial({ color: 0x000000 }));
+    addSegments(selected.visible, new THREE.LineBasicMaterial({ color: 0x2563eb }));
+    addSegments(others.hidden, new THREE.LineDashedMaterial({ color: 0x666666, dashSize: 0.25, gapSize: 0.15 }));
+    addSegments(selected.hidden, new THREE.LineDashedMaterial({ color: 0x60a5fa, dashSize: 0.25, gapSize: 0.15 }));
+
+    hiddenLineGroupRef.current = group;
+    scene.add(group);
+  }, [renderMode, objects, assemblies, selectedObjectIds, camera.currentView, explodeOffsets]);
+
+  // Section view: clip everything at the active plane and cap the cut faces with hatching
+  useEffect(() => {
+    const scene = sceneRef.current;
+    if (!scene) return;
+
+    const activeSection = sectionPlanes.find((plane) => plane.id === activeSectionId);
+    const clippingPlanes = activeSection ? [getClippingPlane(activeSection)] : [];
+    const applyClipping = (object: THREE.Object3D) => {
+      object.traverse((child) => {
+        if (child instanceof THREE.Mesh || child instanceof THREE.LineSegments) {
+          (child.material as THREE.Material).clippingPlanes = clippingPlanes;
+        }
+      });
+    };
+    // Meshes and hidden-line drawings are rebuilt by the effects above, so this re-runs after them
+    objectMeshesRef.current.forEach(applyClipping);
+    if (hiddenLineGroupRef.current) applyClipping(hiddenLineGroupRef.current);
+
+    // Remove the previous caps
+    if (sectionCapGroupRef.current) {
+      scene.remove(sectionCapGroupRef.current);
+      sectionCapGroupRef.current.traverse((child) => {
+        if (child instanceof THREE.Mesh || child instanceof THREE.LineSegments) {
+          child.geometry.dispose();
+          child.material.dispose();
+        }
+      });
+      sectionCapGroupRef.current = null;
+    }
+
+    if (!activeSection || canvasDimensions.height === 0) return;
+
+    const basis = getViewBasis(getSectionView(activeSection));
+    const axis = new THREE.Vector3(
+      activeSection.axis === 'x' ? 1 : 0,
+      activeSection.axis === 'y' ? 1 : 0,
+      activeSection.axis === 'z' ? 1 : 0
+    );
+    // Caps sit a hair toward the viewer so they draw over the clipped boxes
+    const planeOrigin = axis.clone().multiplyScalar(activeSection.offset + (activeSection.flipped ? -0.001 : 0.001));
+    const toWorld = (p: { x: number; y: number }) =>
+      new THREE.Vector3(
+        basis.right.x * p.x + basis.up.x * p.y,
+        basis.right.y * p.x + basis.up.y * p.y,
+        basis.right.z * p.x + basis.up.z * p.y
+      ).add(planeOrigin);
+
+    // Hatch spacing of about 8 screen pixels (the camera shows 50 world units at zoom 1)
+    const hatchSpacing = (8 * 50) / (canvasDimensions.height * camera.zoom);
+    const fillColor = theme === 'dark' ? 0x3a3a3a : theme === 'blueprint' ? 0x1e3a8a : 0xffffff;
+    const lineColor = theme === 'light' ? 0x000000 : 0xe5e7eb;
+    const group = new THREE.Group();
+
+    sectionSolids(explodeSolids(buildSolids(objects, assemblies), explodeOffsets), activeSection)
+      .filter((section) => section.cutFaces.length > 0)
+      .forEach((section, i) => {
+        section.cutFaces.forEach((cutFace) => {
+          const face = cutFace.map((p) => projectPoint(p, basis));
+          const corners = face.map(toWorld);
+
+          // Cut faces of profiled parts can be concave, so triangulate them to fill
+          const triangles = THREE.ShapeUtils.triangulateShape(face.map((p) => new THREE.Vector2(p.x, p.y)), []);
+          const fill = new THREE.BufferGeometry().setFromPoints(triangles.flat().map((index) => corners[index]));
+          group.add(new THREE.Mesh(fill, new THREE.MeshBasicMaterial({ color: fillColor, side: THREE.DoubleSide })));
+
+          const outline = corners.flatMap((corner, j) => [corner, corners[(j + 1) % corners.length]]);
+          const hatch = hatchPolygon(face, hatchSpacing, i % 2 === 0 ? 45 : 135).flatMap(([a, b]) => [toWorld(a), toWorld(b)]);
+          group.add(new THREE.LineSegments(
+            new THREE.BufferGeometry().setFromPoints([...outline, ...hatch]),
+            new THREE.LineBasicMaterial({ color: lineColor })
+          ));
+        });
+      });
+
+    sectionCapGroupRef.current = group;
+    scene.add(group);
+  }, [sectionPlanes, activeSectionId, objects, assemblies, renderMode, selectedObjectIds, camera.currentView, camera.zoom, canvasDimensions, theme, explodeOffsets]);
 
   // Handle drop
   const handleDrop = (e: React.DragEvent) => {
@@ -582,6 +769,7 @@ export function Canvas() {
         rotationEnabled: false,
         notes: '',
         useAssemblyColor: false,
+        ...(libraryItem.round && { round: libraryItem.round }),
       };
 
       addObject(newObject);
@@ -599,11 +787,56 @@ export function Canvas() {
     setIsDragOver(false);
   };
 
+  // Snap a dimension-line endpoint to the faces, edges and corners of parts, else the grid
+  const snapDimensionPoint = (worldPos: Vector3D, canvasHeight: number) => {
+    const camera3D = cameraRef.current;
+    if (!objectSnap || !camera3D) {
+      return { point: snapVectorToGrid(worldPos, snapIncrement), guides: [] };
+    }
+
+    const tolerance = objectSnapDistance * getWorldUnitsPerPixel(camera3D, canvasHeight);
+    return snapPoint(worldPos, getSnapTargets(objects, assemblies), getSnapAxes(camera.currentView), tolerance, snapIncrement);
+  };
+
   const handleMouseDown = (e: React.MouseEvent) => {
     const canvas = canvasRef.current;
     const camera3D = cameraRef.current;
     if (!canvas || !camera3D) return;
 
+    // Handle section placement mode: two clicks draw the cutting-plane line
+    if (sectionPlacementMode && e.button === 0) {
+      e.preventDefault();
+      if (camera.currentView.startsWith('iso-')) return; // Planes are placed in orthographic views
+
+      const rect = canvas.getBoundingClientRect();
+      const worldPos = snapVectorToGrid(
+        screenToWorld(e.clientX - rect.left, e.clientY - rect.top, camera3D, camera.currentView, rect.width, rect.height),
+        snapIncrement
+      );
+
+      if (!sectionStartPoint) {
+        setSectionStartPoint(worldPos);
+      } else {
+        const { axis, offset } = getSectionPlaneFromLine(sectionStartPoint, worldPos, camera.currentView);
+        const plane = {
+          id: `section-${Date.now()}-${Math.random()}`,
+          name: getNextSectionName(sectionPlanes),
+          axis,
+          offset,
+          flipped: false,
+        };
+
+        addSectionPlane(plane);
+        setSectionStartPoint(null);
+        toggleSectionPlacementMode();
+
+        // Show the new section straight away
+        setActiveSection(plane.id);
+        setView(getSectionView(plane));
+      }
+      return;
+    }
+
     // Handle dimension line creation mode
     if (dimensionLineMode && e.button === 0) {
       e.preventDefault();
@@ -611,15 +844,12 @@ export function Canvas() {
       const screenX = e.clientX - rect.left;
       const screenY = e.clientY - rect.top;
 
-      // Convert screen coordinates to world coordinates
-      const worldPos = screenToWorld(
-        screenX,
-        screenY,
-        camera3D,
-        camera.currentView,
-        rect.width,
+      // Convert screen coordinates to world coordinates, snapped to parts or the grid
+      const worldPos = snapDimensionPoint(
+        screenToWorld(screenX, screenY, camera3D, camera.currentView, rect.width, rect.height),
         rect.height
-      );
+      ).point;
+      setSnapGuides([]);
 
       if (!dimensionLineStartPoint) {
         // First click: store start point
@@ -755,6 +985,20 @@ export function Canvas() {
       y: e.clientY - rect.top,
     };
 
+    // Preview what a dimension-line endpoint would snap to
+    if (dimensionLineMode && cameraRef.current) {
+      const worldPos = screenToWorld(
+        e.clientX - rect.left,
+        e.clientY - rect.top,
+        cameraRef.current,
+        camera.currentView,
+        rect.width,
+        rect.height
+      );
+      setSnapGuides(snapDimensionPoint(worldPos, rect.height).guides);
+      return;
+    }
+
     // Skip object dragging if we're in pan mode
     if (isPanning) return;
 
@@ -788,8 +1032,8 @@ export function Canvas() {
 
           // Find objects that intersect with the box
           objects.forEach((obj) => {
-            // Get world position from hierarchy
-            const worldTransform = computeWorldTransform(obj.id, objects, assemblies);
+            // Get world position as drawn (exploded views shift it)
+            const worldTransform = getDisplayedTransform(obj.id);
 
             // Calculate object's bounding box in world space
             const halfWidth = obj.dimensions.width / 2;
@@ -842,6 +1086,7 @@ export function Canvas() {
 
     setIsDragging(false);
     setIsPanning(false);
+    setSnapGuides([]);
     dragStartPosRef.current = null;
     panStartPosRef.current = null;
     draggedObjectIdsRef.current = [];
@@ -1008,8 +1253,8 @@ export function Canvas() {
         rect.height
       );
 
-      // Update all dragged objects from their initial world positions
-      // Skip history tracking during drag (we already pushed at drag start)
+      // Move all dragged objects from their initial world positions
+      const newPositions = new Map<string, Vector3D>();
       draggedObjectIdsRef.current.forEach((id) => {
         const initialWorldPos = initialObjectPositionsRef.current.get(id);
         if (!initialWorldPos) return;
@@ -1029,7 +1274,41 @@ export function Canvas() {
           newWorldPos = snapVectorToGrid(newWorldPos, snapIncrement);
         }
 
-        // Convert world position to local position and update
+        newPositions.set(id, newWorldPos);
+      });
+
+      // Snap the dragged parts flush with nearby parts (hold Alt to place freely)
+      let guides: SnapGuide[] = [];
+      if (objectSnap && !e.altKey && newPositions.size > 0) {
+        const moving = mergeExtents(
+          Array.from(newPositions, ([id, position]) => {
+            const obj = objects.find((o) => o.id === id)!;
+            return getFaceExtents(obj, { ...computeWorldTransform(id, objects, assemblies), position });
+          })
+        );
+        const tolerance = objectSnapDistance * getWorldUnitsPerPixel(camera3D, rect.height);
+        const snap = snapExtents(
+          moving,
+          getSnapTargets(objects, assemblies, draggedObjectIdsRef.current),
+          getSnapAxes(camera.currentView),
+          tolerance
+        );
+
+        guides = snap.guides;
+        newPositions.forEach((position, id) => {
+          newPositions.set(id, {
+            x: position.x + snap.offset.x,
+            y: position.y + snap.offset.y,
+            z: position.z + snap.offset.z,
+          });
+        });
+      }
+      setSnapGuides(guides);
+
+      // Convert world positions to local positions and update
+      // Skip history tracking during drag (we already pushed at drag start)
+      newPositions.forEach((newWorldPos, id) => {
+        const obj = objects.find((o) => o.id === id)!;
         const newLocalPos = worldToLocalPosition(newWorldPos, obj.parentId, objects, assemblies);
         updateObject(id, { localPosition: newLocalPos }, true); // skipHistory = true
       });
@@ -1040,7 +1319,12 @@ export function Canvas() {
     return () => {
       document.removeEventListener('mousemove', handleGlobalDragMove);
     };
-  }, [isDragging, camera.currentView, objects, assemblies, updateObject]);
+  }, [isDragging, camera.currentView, objects, assemblies, updateObject, objectSnap, objectSnapDistance]);
+
+  // Drop the snap preview when leaving dimension-line mode
+  useEffect(() => {
+    if (!dimensionLineMode) setSnapGuides([]);
+  }, [dimensionLineMode]);
 
   // Global mouse move handler for box selection
   useEffect(() => {
@@ -1091,8 +1375,8 @@ export function Canvas() {
     // Find objects that intersect with the box
     const previewIds: string[] = [];
     objects.forEach((obj) => {
-      // Get world position from hierarchy
-      const worldTransform = computeWorldTransform(obj.id, objects, assemblies);
+      // Get world position as drawn (exploded views shift it)
+      const worldTransform = getDisplayedTransform(obj.id);
 
       // Calculate object's bounding box in world space
       const halfWidth = obj.dimensions.width / 2;
@@ -1135,7 +1419,7 @@ export function Canvas() {
     });
 
     setPreviewSelectedIds(previewIds);
-  }, [isBoxSelecting, selectionBox, objects]);
+  }, [isBoxSelecting, selectionBox, objects, explodeOffsets]);
 
   // Global mouseup handler to ensure operations end properly
   useEffect(() => {
@@ -1161,8 +1445,8 @@ export function Canvas() {
 
             // Find objects that intersect with the box
             objects.forEach((obj) => {
-              // Get world position from hierarchy
-              const worldTransform = computeWorldTransform(obj.id, objects, assemblies);
+              // Get world position as drawn (exploded views shift it)
+              const worldTransform = getDisplayedTransform(obj.id);
 
               // Calculate object's bounding box in world space
               const halfWidth = obj.dimensions.width / 2;
@@ -1214,6 +1498,7 @@ export function Canvas() {
       setIsDragging(false);
       setIsPanning(false);
       setIsBoxSelecting(false);
+      setSnapGuides([]);
       dragStartPosRef.current = null;
       panStartPosRef.current = null;
       draggedObjectIdsRef.current = [];
@@ -1225,7 +1510,7 @@ export function Canvas() {
     return () => {
       document.removeEventListener('mouseup', handleGlobalMouseUp);
     };
-  }, [isBoxSelecting, selectionBox, objects, clearSelection, selectObject]);
+  }, [isBoxSelecting, selectionBox, objects, clearSelection, selectObject, explodeOffsets]);
 
   // Handle export requests
   useEffect(() => {
@@ -1317,6 +1602,56 @@ export function Canvas() {
         />
       )}
 
+      {/* Section Cutting-Plane Lines */}
+      {canvasDimensions.width > 0 && cameraRef.current && (
+        <SectionLines
+          canvasWidth={canvasDimensions.width}
+          canvasHeight={canvasDimensions.height}
+          currentView={camera.currentView}
+          camera={cameraRef.current}
+        />
+      )}
+
+      {/* Part Label Callouts */}
+      {partLabelsVisible && canvasDimensions.width > 0 && cameraRef.current && (
+        <PartLabels
+          canvasWidth={canvasDimensions.width}
+          canvasHeight={canvasDimensions.height}
+          camera={cameraRef.current}
+        />
+      )}
+
+      {/* Joint Markers */}
+      {jointMarkersVisible && canvasDimensions.width > 0 && cameraRef.current && (
+        <JointMarkers
+          canvasWidth={canvasDimensions.width}
+          canvasHeight={canvasDimensions.height}
+          currentView={camera.currentView}
+          camera={cameraRef.current}
+        />
+      )}
+
+      {/* Snap Indicator */}
+      {canvasDimensions.width > 0 && cameraRef.current && (
+        <SnapIndicator
+          guides={snapGuides}
+          canvasWidth={canvasDimensions.width}
+          canvasHeight={canvasDimensions.height}
+          currentView={camera.currentView}
+          camera={cameraRef.current}
+        />
+      )}
+
+      {/* Sheet Preview */}
+      {sheetPreviewVisible && canvasDimensions.width > 0 && cameraRef.current && (
+        <SheetPreviewOverlay
+          canvasWidth={canvasDimensions.width}
+          canvasHeight={canvasDimensions.height}
+          currentView={camera.currentView}
+          camera={cameraRef.current}
+        />
+      )}
+
       {/* Transform Gizmo */}
       {gizmoVisible && canvasDimensions.width > 0 && cameraRef.current && (
         <TransformGizmo
@@ -1353,7 +1688,7 @@ export function Canvas() {
 /**
  * Create a Three.js mesh for a DraftObject
  */
-function createObjectMesh(obj: DraftObject, isSelected: boolean = false, effectiveColor: string | null = null): THREE.Group {
+function createObjectMesh(obj: DraftObject, isSelected: boolean = false, effectiveColor: string | null = null, isColliding: boolean = false): THREE.Group {
   const group = new THREE.Group();
 
   // Ensure dimensions are valid (minimum 0.001 to avoid WebGL errors)
@@ -1362,13 +1697,33 @@ function createObjectMesh(obj: DraftObject, isSelected: boolean = false, effecti
   const height = Math.max(minDimension, obj.dimensions.height || minDimension);
   const depth = Math.max(minDimension, obj.dimensions.depth || minDimension);
 
-  // Create box geometry
-  const geometry = new THREE.BoxGeometry(width, height, depth);
+  // Round parts are cylinders along the depth, profiled parts extrude their outline
+  // through the depth, and everything else is a box
+  const diameters = getRoundDiameters(obj);
+  const outline = getProfileOutline(obj);
+  let geometry: THREE.BufferGeometry;
+  if (diameters) {
+    geometry = new THREE.CylinderGeometry(
+      Math.max(minDimension, diameters.end / 2),
+      Math.max(minDimension, diameters.start / 2),
+      depth,
+      ROUND_SEGMENTS
+    );
+    geometry.rotateX(Math.PI / 2); // Cylinder axis from Y to Z, top (end) toward +Z
+  } else if (outline) {
+    const shape = new THREE.Shape(outline.map((p) => new THREE.Vector2(p.x, p.y)));
+    geometry = new THREE.ExtrudeGeometry(shape, { depth, bevelEnabled: false });
+    geometry.translate(0, 0, -depth / 2);
+  } else {
+    geometry = new THREE.BoxGeometry(width, height, depth);
+  }
 
-  // Determine color: selected = blue, effectiveColor if set, otherwise gray
+  // Determine color: selected = blue, colliding = red, effectiveColor if set, otherwise gray
   let meshColor = 0x808080; // Default gray
   if (isSelected) {
     meshColor = 0x4A90E2; // Blue when selected
+  } else if (isColliding) {
+    meshColor = 0xF87171; // Red when overlapping another part
   } else if (effectiveColor) {
     meshColor = parseInt(effectiveColor.replace('#', ''), 16); // Assembly color
   }
@@ -1382,10 +1737,14 @@ function createObjectMesh(obj: DraftObject, isSelected: boolean = false, effecti
   // Create mesh
   const mesh = new THREE.Mesh(geometry, material);
 
-  // Create edges (black outlines or thicker blue if selected)
-  const edges = new THREE.EdgesGeometry(geometry);
+  // Create edges (black outlines, thicker blue if selected, red if colliding)
+  // Round parts draw their side outlines; EdgesGeometry would only find the end circles
+  const roundEdges = getRoundStockEdges(obj);
+  const edges = roundEdges
+    ? new THREE.BufferGeometry().setFromPoints(roundEdges.flat().map((p) => new THREE.Vector3(p.x, p.y, p.z)))
+    : new THREE.EdgesGeometry(geometry, 20); // Skip the facets of flattened arcs
   const lineMaterial = new THREE.LineBasicMaterial({
-    color: isSelected ? 0x2563eb : 0x000000,
+    color: isSelected ? 0x2563eb : isColliding ? 0xdc2626 : 0x000000,
     linewidth: isSelected ? 2 : 1,
   });
   const wireframe = new THREE.LineSegments(edges, lineMaterial);
@@ -1401,57 +1760,30 @@ function createObjectMesh(obj: DraftObject, isSelected: boolean = false, effecti
 /**
  * Update mesh selection state
  */
-function updateMeshSelection(group: THREE.Group, isSelected: boolean, isPreviewSelected: boolean = false, effectiveColor: string | null = null): void {
+function updateMeshSelection(group: THREE.Group, isSelected: boolean, isPreviewSelected: boolean = false, effectiveColor: string | null = null, isColliding: boolean = false): void {
   group.traverse((child) => {
     if (child instanceof THREE.Mesh && child.material instanceof THREE.MeshBasicMaterial) {
-      // Selected = blue, preview = light cyan, effectiveColor if set, otherwise gray
+      // Selected = blue, preview = light cyan, colliding = red, effectiveColor if set, otherwise gray
       let color = 0x808080; // Default gray
       if (isSelected) {
         color = 0x4A90E2; // Blue when selected
       } else if (isPreviewSelected) {
         color = 0x60D4F4; // Light cyan when preview selected
+      } else if (isColliding) {
+        color = 0xF87171; // Red when overlapping another part
       } else if (effectiveColor) {
         color = parseInt(effectiveColor.replace('#', ''), 16); // Assembly color
       }
       child.material.color.setHex(color);
     }
     if (child instanceof THREE.LineSegments && child.material instanceof THREE.LineBasicMaterial) {
-      // Selected = dark blue, preview = cyan, normal = black
-      const color = isSelected ? 0x2563eb : (isPreviewSelected ? 0x22D3EE : 0x000000);
+      // Selected = dark blue, preview = cyan, colliding = red, normal = black
+      const color = isSelected ? 0x2563eb : isPreviewSelected ? 0x22D3EE : isColliding ? 0xdc2626 : 0x000000;
       child.material.color.setHex(color);
     }
   });
 }
 
-/**
- * Determine grid spacing based on zoom level
- * Returns { major, minor } spacing in inches
- */
-function getGridSpacing(zoom: number): { major: number; minor: number } {
-  if (zoom > 8) {
-    // Very zoomed in: 1/16" minor, 1" major
-    return { major: 1, minor: 0.0625 };
-  } else if (zoom > 4) {
-    // Zoomed in: 1/8" minor, 1" major
-    return { major: 1, minor: 0.125 };
-  } else if (zoom > 2) {
-    // Medium-close: 1/4" minor, 1" major
-    return { major: 1, minor: 0.25 };
-  } else if (zoom > 1) {
-    // Medium: 1/2" minor, 1" major
-    return { major: 1, minor: 0.5 };
-  } else if (zoom > 0.5) {
-    // Medium-far: 1" minor, 12" major
-    return { major: 12, minor: 1 };
-  } else if (zoom > 0.25) {
-    // Far: 3" minor, 12" major
-    return { major: 12, minor: 3 };
-  } else {
-    // Very far: 12" minor, 24" major
-    return { major: 24, minor: 12 };
-  }
-}
-
 /**
  * Create an infinite adaptive grid based on visible viewport
  */
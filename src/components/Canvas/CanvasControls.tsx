@@ -1,5 +1,9 @@
 import { useState } from 'react';
 import { useUIStore } from '@/stores/uiStore';
+import { useProjectStore, useUnitSystem } from '@/stores/projectStore';
+import { SectionPlane } from '@/types';
+import { METRIC_GRID_SIZES, METRIC_SNAP_INCREMENTS } from '@/lib/units/units';
+import { getSectionView } from '@/lib/geometry/sections';
 
 interface CanvasControlsProps {
   onZoomIn: () => void;
@@ -39,7 +43,13 @@ export function CanvasControls({
   onPanEnd,
   gridSize,
 }: CanvasControlsProps) {
-  const { majorGridSize, setMajorGridSize, snapIncrement, setSnapIncrement, theme, dimensionLineMode, toggleDimensionLineMode } = useUIStore();
+  const { majorGridSize, setMajorGridSize, snapIncrement, setSnapIncrement, objectSnap, toggleObjectSnap, theme, dimensionLineMode, toggleDimensionLineMode, sectionPlacementMode, toggleSectionPlacementMode, activeSectionId, setActiveSection, explode, setExplodeFactor, setExplodeAxis } = useUIStore();
+  const units = useUnitSystem();
+  const gridSizes = units === 'metric' ? METRIC_GRID_SIZES : GRID_SIZES;
+  const snapIncrements = units === 'metric' ? METRIC_SNAP_INCREMENTS : SNAP_INCREMENTS;
+  const sectionPlanes = useProjectStore((state) => state.tabs[state.activeTabIndex]?.sectionPlanes || []);
+  const currentView = useProjectStore((state) => state.tabs[state.activeTabIndex]?.camera.currentView);
+  const { updateSectionPlane, removeSectionPlane, setView } = useProjectStore();
   const [isPanActive, setIsPanActive] = useState(false);
 
   // Theme-based colors
@@ -53,6 +63,31 @@ export function CanvasControls({
     hover: theme === 'dark' ? 'hover:bg-[#3a3a3a]' : theme === 'blueprint' ? 'hover:bg-[#2E4A9A]' : 'hover:bg-gray-100',
   };
 
+  // Showing a section clips the canvas and turns the camera to face the cut
+  const toggleSection = (plane: SectionPlane) => {
+    if (activeSectionId === plane.id) {
+      setActiveSection(null);
+    } else {
+      setActiveSection(plane.id);
+      setView(getSectionView(plane));
+    }
+  };
+
+  const flipSection = (plane: SectionPlane) => {
+    const flipped = { ...plane, flipped: !plane.flipped };
+    updateSectionPlane(plane.id, { flipped: flipped.flipped });
+    if (activeSectionId === plane.id) {
+      setView(getSectionView(flipped));
+    }
+  };
+
+  const deleteSection = (plane: SectionPlane) => {
+    if (activeSectionId === plane.id) {
+      setActiveSection(null);
+    }
+    removeSectionPlane(plane.id);
+  };
+
   const handlePanMouseDown = (e: React.MouseEvent) => {
     e.preventDefault();
     e.stopPropagation();
@@ -140,6 +175,87 @@ export function CanvasControls({
         📏 Dimension
       </button>
 
+      {/* Section Tool */}
+      <button
+        onClick={toggleSectionPlacementMode}
+        disabled={currentView?.startsWith('iso-')}
+        className={`w-full h-8 px-2 flex items-center justify-center border rounded transition-colors text-xs font-medium disabled:opacity-50 ${
+          sectionPlacementMode
+            ? 'bg-blue-500 border-blue-600 text-white'
+            : `${colors.buttonBorder} ${colors.hover} ${colors.text}`
+        }`}
+        title="Section Tool (Click two points across an orthographic view to place a cutting plane)"
+      >
+        ✂ Section
+      </button>
+
+      {/* Section planes */}
+      {sectionPlanes.length > 0 && (
+        <div className="flex flex-col gap-1">
+          {sectionPlanes.map((plane) => (
+            <div key={plane.id} className="flex items-center gap-1">
+              <button
+                onClick={() => toggleSection(plane)}
+                className={`flex-1 h-6 px-2 flex items-center justify-between border rounded transition-colors text-xs ${
+                  activeSectionId === plane.id
+                    ? 'bg-blue-500 border-blue-600 text-white'
+                    : `${colors.buttonBorder} ${colors.hover} ${colors.text}`
+                }`}
+                title={activeSectionId === plane.id ? 'Hide section' : 'Show section'}
+              >
+                <span>{plane.name}-{plane.name}</span>
+                <span className="opacity-75">{plane.axis.toUpperCase()} {Number(plane.offset.toFixed(3))}"</span>
+              </button>
+              <button
+                onClick={() => flipSection(plane)}
+                className={`w-6 h-6 flex items-center justify-center border ${colors.buttonBorder} rounded ${colors.hover} transition-colors text-xs ${colors.text}`}
+                title="Flip viewing direction"
+              >
+                ⇄
+              </button>
+              <button
+                onClick={() => deleteSection(plane)}
+                className={`w-6 h-6 flex items-center justify-center border ${colors.buttonBorder} rounded ${colors.hover} transition-colors text-xs ${colors.text}`}
+                title="Delete section"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Divider */}
+      <div className={`border-t ${colors.border} my-1`} />
+
+      {/* Exploded view */}
+      <div className="flex flex-col gap-2">
+        <div className="flex items-center justify-between gap-2">
+          <span className={`text-xs font-medium ${colors.text}`}>Explode:</span>
+          <select
+            value={explode.axis}
+            onChange={(e) => setExplodeAxis(e.target.value as 'x' | 'y' | 'z')}
+            className={`px-1 py-0.5 text-xs border ${colors.buttonBorder} ${colors.buttonBg} ${colors.text} rounded focus:outline-none focus:ring-1 focus:ring-blue-500`}
+            title="Explode direction"
+          >
+            <option value="x">X</option>
+            <option value="y">Y</option>
+            <option value="z">Z</option>
+          </select>
+        </div>
+        <input
+          type="range"
+          min={0}
+          max={2}
+          step={0.05}
+          value={explode.factor}
+          onChange={(e) => setExplodeFactor(Number(e.target.value))}
+          onDoubleClick={() => setExplodeFactor(0)}
+          className="w-full"
+          title="Spread assemblies apart (double-click to reassemble)"
+        />
+      </div>
+
       {/* Divider */}
       <div className={`border-t ${colors.border} my-1`} />
 
@@ -153,7 +269,7 @@ export function CanvasControls({
           onChange={(e) => setMajorGridSize(Number(e.target.value))}
           className={`w-full px-2 py-1 text-xs border ${colors.buttonBorder} ${colors.buttonBg} ${colors.text} rounded focus:outline-none focus:ring-1 focus:ring-blue-500`}
         >
-          {GRID_SIZES.map((size) => (
+          {gridSizes.map((size) => (
             <option key={size.value} value={size.value}>
               {size.label}
             </option>
@@ -171,12 +287,21 @@ export function CanvasControls({
           onChange={(e) => setSnapIncrement(Number(e.target.value))}
           className={`w-full px-2 py-1 text-xs border ${colors.buttonBorder} ${colors.buttonBg} ${colors.text} rounded focus:outline-none focus:ring-1 focus:ring-blue-500`}
         >
-          {SNAP_INCREMENTS.map((increment) => (
+          {snapIncrements.map((increment) => (
             <option key={increment.value} value={increment.value}>
               {increment.label}
             </option>
           ))}
         </select>
+        <label className="flex items-center gap-2 cursor-pointer" title="Snap parts and dimension points to other parts (hold Alt to skip)">
+          <input
+            type="checkbox"
+            checked={objectSnap}
+            onChange={toggleObjectSnap}
+            className="w-3 h-3"
+          />
+          <span className={`text-xs ${colors.text}`}>Snap to Parts</span>
+        </label>
       </div>
     </div>
   );
@@ -1,6 +1,7 @@
 import * as THREE from 'three';
 import { useProjectStore } from '@/stores/projectStore';
 import { useUIStore } from '@/stores/uiStore';
+import { useLengthFormat } from '@/hooks/useLengthFormat';
 import { ViewType } from '@/types';
 
 interface DimensionLinesProps {
@@ -14,6 +15,7 @@ export function DimensionLines({ canvasWidth, canvasHeight, currentView, camera
   // Subscribe to dimension lines
   const dimensionLines = useProjectStore((state) => state.tabs[state.activeTabIndex]?.dimensionLines || []);
   const { theme } = useUIStore();
+  const lengthFormat = useLengthFormat();
 
   // Don't render if no dimension lines
   if (dimensionLines.length === 0) {
@@ -61,6 +63,8 @@ export function DimensionLines({ canvasWidth, canvasHeight, currentView, camera
       line.endPoint.y,
       line.endPoint.z
     );
+    const label = lengthFormat.format(distance);
+    const labelWidth = Math.max(50, label.length * 7 + 8);
 
     // Calculate midpoint for text
     const midX = (startScreen.x + endScreen.x) / 2;
@@ -136,14 +140,14 @@ export function DimensionLines({ canvasWidth, canvasHeight, currentView, camera
           dominantBaseline="middle"
           pointerEvents="none"
         >
-          {distance.toFixed(2)}"
+          {label}
         </text>
 
         {/* Text background for better visibility */}
         <rect
-          x={textX - 25}
+          x={textX - labelWidth / 2}
           y={textY - 10}
-          width={50}
+          width={labelWidth}
           height={20}
           fill={theme === 'dark' ? '#1a1a1a' : theme === 'blueprint' ? '#1E3A8A' : 'white'}
           opacity={0.8}
@@ -162,7 +166,7 @@ export function DimensionLines({ canvasWidth, canvasHeight, currentView, camera
           dominantBaseline="middle"
           pointerEvents="none"
         >
-          {distance.toFixed(2)}"
+          {label}
         </text>
 
         {/* Endpoint markers for easier clicking */}
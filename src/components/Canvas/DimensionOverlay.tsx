@@ -1,7 +1,9 @@
 import * as THREE from 'three';
 import { DraftObject, ViewType, Assembly } from '@/types';
 import { useUIStore } from '@/stores/uiStore';
+import { useLengthFormat } from '@/hooks/useLengthFormat';
 import { computeWorldTransform } from '@/lib/hierarchy/transforms';
+import { useExplodeOffsets } from '@/hooks/useExplodeOffsets';
 
 interface DimensionOverlayProps {
   objects: DraftObject[];
@@ -21,6 +23,8 @@ export function DimensionOverlay({
   canvasHeight,
 }: DimensionOverlayProps) {
   const { theme } = useUIStore();
+  const lengthFormat = useLengthFormat();
+  const explodeOffsets = useExplodeOffsets();
 
   // Theme-based text color
   const textColor = theme === 'light' ? '#000000' : '#FFFFFF';
@@ -30,11 +34,12 @@ export function DimensionOverlay({
     // Get world position from hierarchy
     const worldTransform = computeWorldTransform(obj.id, objects, assemblies);
 
-    // Object position now represents the center in world space
+    // Object position now represents the center in world space (shifted in an exploded view)
+    const explodeOffset = explodeOffsets.get(obj.id) ?? { x: 0, y: 0, z: 0 };
     const worldPos = new THREE.Vector3(
-      worldTransform.position.x,
-      worldTransform.position.y,
-      worldTransform.position.z
+      worldTransform.position.x + explodeOffset.x,
+      worldTransform.position.y + explodeOffset.y,
+      worldTransform.position.z + explodeOffset.z
     );
 
     // Project to screen space
@@ -54,27 +59,22 @@ export function DimensionOverlay({
   const getDimensionText = (obj: DraftObject): string => {
     const { width, height, depth } = obj.dimensions;
 
-    // Format number to remove unnecessary decimals
-    const format = (num: number): string => {
-      // If it's a whole number, show no decimals
-      if (Number.isInteger(num)) return num.toString();
-      // Otherwise show up to 3 decimal places, removing trailing zeros
-      return num.toFixed(3).replace(/\.?0+$/, '');
-    };
+    // Format in the project's units, removing unnecessary decimals
+    const format = (num: number): string => lengthFormat.format(num);
 
     switch (currentView) {
       case 'front':
       case 'back':
         // Show Width × Height
-        return `${format(width)}" × ${format(height)}"`;
+        return `${format(width)} × ${format(height)}`;
       case 'left':
       case 'right':
         // Show Depth × Height
-        return `${format(depth)}" × ${format(height)}"`;
+        return `${format(depth)} × ${format(height)}`;
       case 'top':
       case 'bottom':
         // Show Width × Depth
-        return `${format(width)}" × ${format(depth)}"`;
+        return `${format(width)} × ${format(depth)}`;
       default:
         return '';
     }
@@ -0,0 +1,109 @@
+import { useMemo } from 'react';
+import * as THREE from 'three';
+import { useProjectStore } from '@/stores/projectStore';
+import { JOINT_TYPES, getJointGeometry, getJointLabel } from '@/lib/geometry/joinery';
+import { ViewType } from '@/types';
+
+interface JointMarkersProps {
+  canvasWidth: number;
+  canvasHeight: number;
+  currentView: ViewType;
+  camera: THREE.OrthographicCamera;
+}
+
+const MARKER_RADIUS = 9; // Screen pixels
+
+/**
+ * Draws each joint's cut as a dashed outline in the host, in orthographic views, and a
+ * labelled marker color-coded by joint type at the joint in every view
+ */
+export function JointMarkers({ canvasWidth, canvasHeight, currentView, camera }: JointMarkersProps) {
+  const joints = useProjectStore((state) => state.tabs[state.activeTabIndex]?.joints || []);
+  const objects = useProjectStore((state) => state.tabs[state.activeTabIndex]?.objects || []);
+  const assemblies = useProjectStore((state) => state.tabs[state.activeTabIndex]?.assemblies || []);
+
+  const geometries = useMemo(
+    () => joints.map((joint) => getJointGeometry(joint, objects, assemblies)),
+    [joints, objects, assemblies]
+  );
+
+  if (joints.length === 0) {
+    return null;
+  }
+
+  const isIso = currentView.startsWith('iso-');
+
+  // Convert world position to screen position using THREE.js camera projection
+  const worldToScreen = (point: THREE.Vector3) => {
+    const canvasOffset = 24; // Canvas offset from container (matches Canvas.tsx styling)
+    const screenPos = point.clone().project(camera);
+    return {
+      x: ((screenPos.x + 1) / 2) * canvasWidth + canvasOffset,
+      y: ((-screenPos.y + 1) / 2) * canvasHeight + canvasOffset,
+    };
+  };
+
+  return (
+    <svg
+      style={{
+        position: 'absolute',
+        left: 0,
+        top: 0,
+        width: canvasWidth,
+        height: canvasHeight,
+        pointerEvents: 'none',
+        zIndex: 55, // Above dimension lines, below snap guides (60)
+      }}
+    >
+      {joints.map((joint, index) => {
+        const geometry = geometries[index];
+        if (!geometry) return null;
+
+        const info = JOINT_TYPES[joint.type];
+        const { min, max } = geometry.cut;
+        const center = worldToScreen(new THREE.Vector3(geometry.center.x, geometry.center.y, geometry.center.z));
+
+        // Orthographic views see the cut box as a rectangle
+        let outline = null;
+        if (info.cut && !isIso) {
+          const corners = [min.x, max.x].flatMap((x) =>
+            [min.y, max.y].flatMap((y) => [min.z, max.z].map((z) => worldToScreen(new THREE.Vector3(x, y, z))))
+          );
+          const left = Math.min(...corners.map((c) => c.x));
+          const top = Math.min(...corners.map((c) => c.y));
+          outline = (
+            <rect
+              x={left}
+              y={top}
+              width={Math.max(...corners.map((c) => c.x)) - left}
+              height={Math.max(...corners.map((c) => c.y)) - top}
+              fill={info.color}
+              fillOpacity={0.15}
+              stroke={info.color}
+              strokeWidth={1.5}
+              strokeDasharray="4 2"
+            />
+          );
+        }
+
+        return (
+          <g key={joint.id}>
+            {outline}
+            <circle cx={center.x} cy={center.y} r={MARKER_RADIUS} fill="white" stroke={info.color} strokeWidth={2} />
+            <text
+              x={center.x}
+              y={center.y}
+              textAnchor="middle"
+              dominantBaseline="central"
+              fontSize={9}
+              fontWeight="bold"
+              fill={info.color}
+            >
+              {getJointLabel(index)}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
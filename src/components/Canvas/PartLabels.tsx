@@ -0,0 +1,93 @@
+import * as THREE from 'three';
+import { useProjectStore } from '@/stores/projectStore';
+import { usePartsList } from '@/hooks/usePartsList';
+import { useExplodeOffsets } from '@/hooks/useExplodeOffsets';
+import { getPartLetters } from '@/lib/cutlist/partsList';
+import { computeWorldTransform, isNodeVisible } from '@/lib/hierarchy/transforms';
+
+interface PartLabelsProps {
+  canvasWidth: number;
+  canvasHeight: number;
+  camera: THREE.OrthographicCamera;
+}
+
+const BUBBLE_RADIUS = 9; // Screen pixels
+const LEADER_OFFSET = { x: 28, y: -28 }; // Bubble position relative to the part's center
+const LABEL_COLOR = '#2563EB';
+
+/**
+ * Draws each part's parts-list letter in a bubble, with a leader line to the part's center,
+ * so the drawing and the cut list cross-reference
+ */
+export function PartLabels({ canvasWidth, canvasHeight, camera }: PartLabelsProps) {
+  const objects = useProjectStore((state) => state.tabs[state.activeTabIndex]?.objects || []);
+  const assemblies = useProjectStore((state) => state.tabs[state.activeTabIndex]?.assemblies || []);
+  const letters = getPartLetters(usePartsList());
+  const explodeOffsets = useExplodeOffsets();
+
+  if (objects.length === 0) {
+    return null;
+  }
+
+  // Convert world position to screen position using THREE.js camera projection
+  const worldToScreen = (point: THREE.Vector3) => {
+    const canvasOffset = 24; // Canvas offset from container (matches Canvas.tsx styling)
+    const screenPos = point.clone().project(camera);
+    return {
+      x: ((screenPos.x + 1) / 2) * canvasWidth + canvasOffset,
+      y: ((-screenPos.y + 1) / 2) * canvasHeight + canvasOffset,
+    };
+  };
+
+  return (
+    <svg
+      style={{
+        position: 'absolute',
+        left: 0,
+        top: 0,
+        width: canvasWidth,
+        height: canvasHeight,
+        pointerEvents: 'none',
+        zIndex: 54, // Below joint markers (55)
+      }}
+    >
+      {objects.map((obj) => {
+        const letter = letters.get(obj.id);
+        if (!letter || !isNodeVisible(obj.id, objects, assemblies)) return null;
+
+        // Object position is its center in world space (shifted in an exploded view)
+        const { position } = computeWorldTransform(obj.id, objects, assemblies);
+        const offset = explodeOffsets.get(obj.id) ?? { x: 0, y: 0, z: 0 };
+        const center = worldToScreen(new THREE.Vector3(position.x + offset.x, position.y + offset.y, position.z + offset.z));
+        if (isNaN(center.x) || isNaN(center.y)) return null;
+        const bubble = { x: center.x + LEADER_OFFSET.x, y: center.y + LEADER_OFFSET.y };
+
+        return (
+          <g key={obj.id}>
+            <circle cx={center.x} cy={center.y} r={2} fill={LABEL_COLOR} />
+            <line
+              x1={center.x}
+              y1={center.y}
+              x2={bubble.x - BUBBLE_RADIUS * Math.SQRT1_2}
+              y2={bubble.y + BUBBLE_RADIUS * Math.SQRT1_2}
+              stroke={LABEL_COLOR}
+              strokeWidth={1}
+            />
+            <circle cx={bubble.x} cy={bubble.y} r={BUBBLE_RADIUS} fill="white" stroke={LABEL_COLOR} strokeWidth={1.5} />
+            <text
+              x={bubble.x}
+              y={bubble.y}
+              textAnchor="middle"
+              dominantBaseline="central"
+              fontSize={letter.length > 1 ? 8 : 10}
+              fontWeight="bold"
+              fill={LABEL_COLOR}
+            >
+              {letter}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
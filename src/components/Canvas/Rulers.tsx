@@ -1,5 +1,10 @@
 import { useProjectStore } from '@/stores/projectStore';
 import { useUIStore } from '@/stores/uiStore';
+import { getGridSpacing, MM_PER_INCH } from '@/lib/units/units';
+import { useLengthFormat } from '@/hooks/useLengthFormat';
+
+// Whether a position falls on a grid line, allowing for float drift in metric spacings
+const isOnGrid = (value: number, spacing: number) => Math.abs(value / spacing - Math.round(value / spacing)) < 0.0001;
 
 interface RulersProps {
   canvasWidth: number;
@@ -10,6 +15,7 @@ export function Rulers({ canvasWidth, canvasHeight }: RulersProps) {
   // Subscribe to active tab data with proper selectors
   const camera = useProjectStore((state) => state.tabs[state.activeTabIndex]?.camera);
   const { rulersVisible, theme, gridVisible, majorGridSize, minorGridVisible } = useUIStore();
+  const lengthFormat = useLengthFormat();
 
   // Don't show rulers if disabled or if in isometric view (rulers not accurate in diagonal views)
   const isIsometricView = camera.currentView.startsWith('iso-');
@@ -32,8 +38,11 @@ export function Rulers({ canvasWidth, canvasHeight }: RulersProps) {
 
   // Calculate effective major grid size for ruler tick marks and grid degradation
   // At zoom < 2x, force grid to 1" minimum regardless of user setting
+  // Metric grids never get finer than the zoom's millimeter tier
   let effectiveMajorGridSize = majorGridSize;
-  if (zoom < 2 && majorGridSize < 1) {
+  if (lengthFormat.units === 'metric') {
+    effectiveMajorGridSize = Math.max(majorGridSize, getGridSpacing(zoom, 'metric').major);
+  } else if (zoom < 2 && majorGridSize < 1) {
     effectiveMajorGridSize = 1; // Degrade to 1" at low zoom levels
   }
 
@@ -76,8 +85,8 @@ export function Rulers({ canvasWidth, canvasHeight }: RulersProps) {
       />
     );
 
-    // Add label (whole number inches)
-    const label = x === 0 ? '0' : `${Math.abs(x)}`;
+    // Add label (whole number inches, or millimeters in metric projects)
+    const label = lengthFormat.formatValue(Math.abs(x));
     horizontalTicks.push(
       <text
         key={`h-label-${x}`}
@@ -115,8 +124,8 @@ export function Rulers({ canvasWidth, canvasHeight }: RulersProps) {
       />
     );
 
-    // Add label (whole number inches)
-    const label = y === 0 ? '0' : `${Math.abs(y)}`;
+    // Add label (whole number inches, or millimeters in metric projects)
+    const label = lengthFormat.formatValue(Math.abs(y));
     verticalTicks.push(
       <text
         key={`v-label-${y}`}
@@ -137,9 +146,9 @@ export function Rulers({ canvasWidth, canvasHeight }: RulersProps) {
   const minorGridColor = theme === 'dark' ? '#404040' : theme === 'blueprint' ? '#1E3A8A' : '#d0d0d0';
   const majorGridColor = theme === 'dark' ? '#606060' : theme === 'blueprint' ? '#3B82F6' : '#a0a0a0';
 
-  // MINOR GRID: Always 1/16" spacing
+  // MINOR GRID: Always 1/16" spacing, 1 mm in metric projects
   const minorGridLines = [];
-  const minorGridInterval = 0.0625; // 1/16"
+  const minorGridInterval = lengthFormat.units === 'metric' ? 1 / MM_PER_INCH : 0.0625; // 1/16"
 
   // Minor grid only visible at zoom levels above 8x (regardless of user setting)
   const showMinorGrid = gridVisible && minorGridVisible && zoom >= 8;
@@ -154,7 +163,7 @@ export function Rulers({ canvasWidth, canvasHeight }: RulersProps) {
       if (screenX < 0 || screenX > canvasWidth) continue;
 
       // Skip this line if it coincides with a major grid line
-      if (Math.abs(x % majorGridSize) < 0.0001) continue;
+      if (isOnGrid(x, majorGridSize)) continue;
 
       minorGridLines.push(
         <line
@@ -179,7 +188,7 @@ export function Rulers({ canvasWidth, canvasHeight }: RulersProps) {
       if (screenY < 0 || screenY > canvasHeight) continue;
 
       // Skip this line if it coincides with a major grid line
-      if (Math.abs(y % majorGridSize) < 0.0001) continue;
+      if (isOnGrid(y, majorGridSize)) continue;
 
       minorGridLines.push(
         <line
@@ -0,0 +1,142 @@
+import { useMemo } from 'react';
+import * as THREE from 'three';
+import { useProjectStore } from '@/stores/projectStore';
+import { useUIStore } from '@/stores/uiStore';
+import { ViewType, SectionPlane } from '@/types';
+import { getViewBasis } from '@/lib/three/views';
+import { buildSolids } from '@/lib/geometry/solids';
+
+interface SectionLinesProps {
+  canvasWidth: number;
+  canvasHeight: number;
+  currentView: ViewType;
+  camera: THREE.OrthographicCamera;
+}
+
+// How far the cutting-plane line runs past the model, in inches
+const LINE_OVERHANG = 2;
+const ARROW_LENGTH = 24; // Screen pixels
+
+/**
+ * Draws section cutting-plane lines in views that see the plane edge-on, with the section
+ * letter and an arrow at each end pointing in the direction of sight
+ */
+export function SectionLines({ canvasWidth, canvasHeight, currentView, camera }: SectionLinesProps) {
+  const sectionPlanes = useProjectStore((state) => state.tabs[state.activeTabIndex]?.sectionPlanes || []);
+  const objects = useProjectStore((state) => state.tabs[state.activeTabIndex]?.objects || []);
+  const assemblies = useProjectStore((state) => state.tabs[state.activeTabIndex]?.assemblies || []);
+  const { activeSectionId } = useUIStore();
+
+  const corners = useMemo(
+    () => buildSolids(objects, assemblies).flatMap((solid) => solid.corners),
+    [objects, assemblies]
+  );
+
+  if (sectionPlanes.length === 0 || currentView.startsWith('iso-')) {
+    return null;
+  }
+
+  const basis = getViewBasis(currentView);
+
+  // Convert world position to screen position using THREE.js camera projection
+  const worldToScreen = (point: THREE.Vector3) => {
+    const canvasOffset = 24; // Canvas offset from container (matches Canvas.tsx styling)
+    const screenPos = point.clone().project(camera);
+    return {
+      x: ((screenPos.x + 1) / 2) * canvasWidth + canvasOffset,
+      y: ((-screenPos.y + 1) / 2) * canvasHeight + canvasOffset,
+    };
+  };
+
+  const renderSectionLine = (plane: SectionPlane) => {
+    const normal = new THREE.Vector3(
+      plane.axis === 'x' ? 1 : 0,
+      plane.axis === 'y' ? 1 : 0,
+      plane.axis === 'z' ? 1 : 0
+    );
+    const forward = new THREE.Vector3(basis.forward.x, basis.forward.y, basis.forward.z);
+
+    // Only views looking along the plane see it as a line
+    if (Math.abs(normal.dot(forward)) > 0.5) return null;
+
+    const direction = new THREE.Vector3().crossVectors(normal, forward).normalize();
+    const along = corners.map((c) => c.x * direction.x + c.y * direction.y + c.z * direction.z);
+    const min = (along.length > 0 ? Math.min(...along) : -12) - LINE_OVERHANG;
+    const max = (along.length > 0 ? Math.max(...along) : 12) + LINE_OVERHANG;
+
+    const origin = normal.clone().multiplyScalar(plane.offset);
+    const start = worldToScreen(origin.clone().addScaledVector(direction, min));
+    const end = worldToScreen(origin.clone().addScaledVector(direction, max));
+
+    // The arrows point toward the material that is kept
+    const sight = worldToScreen(origin.clone().addScaledVector(normal, plane.flipped ? 1 : -1));
+    const center = worldToScreen(origin);
+    const sightLength = Math.hypot(sight.x - center.x, sight.y - center.y) || 1;
+    const sx = ((sight.x - center.x) / sightLength) * ARROW_LENGTH;
+    const sy = ((sight.y - center.y) / sightLength) * ARROW_LENGTH;
+
+    const isActive = plane.id === activeSectionId;
+    const color = isActive ? '#dc2626' : '#b91c1c';
+
+    const renderEnd = (p: { x: number; y: number }, key: string) => {
+      const tipX = p.x + sx;
+      const tipY = p.y + sy;
+      // Arrowhead sides, perpendicular to the direction of sight
+      const px = -sy / 3;
+      const py = sx / 3;
+      return (
+        <g key={key}>
+          <line x1={p.x} y1={p.y} x2={tipX} y2={tipY} stroke={color} strokeWidth={2} />
+          <polygon
+            points={`${tipX + sx / 3},${tipY + sy / 3} ${tipX + px},${tipY + py} ${tipX - px},${tipY - py}`}
+            fill={color}
+          />
+          <text
+            x={p.x - sx * 0.6}
+            y={p.y - sy * 0.6}
+            fill={color}
+            fontSize={14}
+            fontWeight="bold"
+            textAnchor="middle"
+            dominantBaseline="middle"
+          >
+            {plane.name}
+          </text>
+        </g>
+      );
+    };
+
+    return (
+      <g key={plane.id} opacity={isActive ? 1 : 0.8}>
+        {/* Chain line, the drafting convention for cutting planes */}
+        <line
+          x1={start.x}
+          y1={start.y}
+          x2={end.x}
+          y2={end.y}
+          stroke={color}
+          strokeWidth={isActive ? 2.5 : 2}
+          strokeDasharray="18 4 4 4"
+        />
+        {renderEnd(start, 'start')}
+        {renderEnd(end, 'end')}
+      </g>
+    );
+  };
+
+  return (
+    <svg
+      style={{
+        position: 'absolute',
+        left: 0,
+        top: 0,
+        width: canvasWidth,
+        height: canvasHeight,
+        pointerEvents: 'none',
+        zIndex: 50, // Below gizmo (100) but above canvas
+      }}
+    >
+      {sectionPlanes.map(renderSectionLine)}
+    </svg>
+  );
+}
@@ -0,0 +1,176 @@
+import { useMemo } from 'react';
+import * as THREE from 'three';
+import { useProjectStore } from '@/stores/projectStore';
+import { useUIStore } from '@/stores/uiStore';
+import { useTitleBlockStore } from '@/stores/titleBlockStore';
+import { ViewType } from '@/types';
+import { getViewBasis } from '@/lib/three/views';
+import { buildSolids } from '@/lib/geometry/solids';
+import { buildViewDrawing, getPageLayout, placeDrawing } from '@/lib/export/vectorExport';
+import { getTitleBlockValue, TITLE_BLOCK_FIELD_LABELS } from '@/lib/export/titleBlock';
+import { useLengthFormat } from '@/hooks/useLengthFormat';
+
+interface SheetPreviewOverlayProps {
+  canvasWidth: number;
+  canvasHeight: number;
+  currentView: ViewType;
+  camera: THREE.OrthographicCamera;
+}
+
+// Below this size (pixels per paper inch) title block text is unreadable, so it is left out
+const MIN_TEXT_SCALE = 40;
+
+/**
+ * Shows the paper, sheet border and title block of the PDF drawing export over the canvas,
+ * at the export scale, so the layout can be checked before exporting
+ */
+export function SheetPreviewOverlay({ canvasWidth, canvasHeight, currentView, camera }: SheetPreviewOverlayProps) {
+  const activeTab = useProjectStore((state) => state.tabs[state.activeTabIndex]);
+  const { theme, pdfPaperSize, pdfOrientation, pdfScaleId } = useUIStore();
+  const template = useTitleBlockStore((state) => state.getActiveTemplate());
+  const lengthFormat = useLengthFormat();
+
+  const layout = useMemo(
+    () => getPageLayout(pdfPaperSize, pdfOrientation, template),
+    [pdfPaperSize, pdfOrientation, template]
+  );
+
+  // Place the current view on the page exactly as the PDF export would
+  const sheet = useMemo(() => {
+    if (!activeTab) return null;
+    const solids = buildSolids(activeTab.objects, activeTab.assemblies);
+    const drawing = buildViewDrawing(currentView, solids, activeTab.dimensionLines, undefined, lengthFormat.format);
+    return { drawing, ...placeDrawing(drawing, layout, pdfScaleId) };
+  }, [activeTab, currentView, layout, pdfScaleId, lengthFormat]);
+
+  if (!activeTab || !sheet) return null;
+
+  const { drawing, placement, scaleLabel } = sheet;
+  const basis = getViewBasis(currentView);
+
+  // Convert a page point (inches from the top-left of the paper) to screen pixels
+  const pageToScreen = (pageX: number, pageY: number) => {
+    const canvasOffset = 24; // Canvas offset from container (matches Canvas.tsx styling)
+
+    // Page -> drawing coordinates (inches, Y up) -> world position on the view plane
+    const x = drawing.bounds.minX + (pageX - placement.x) / placement.scale;
+    const y = drawing.bounds.maxY - (pageY - placement.y) / placement.scale;
+    const worldPos = new THREE.Vector3(
+      basis.right.x * x + basis.up.x * y,
+      basis.right.y * x + basis.up.y * y,
+      basis.right.z * x + basis.up.z * y
+    );
+
+    const screenPos = worldPos.project(camera);
+    return {
+      x: ((screenPos.x + 1) / 2) * canvasWidth + canvasOffset,
+      y: ((-screenPos.y + 1) / 2) * canvasHeight + canvasOffset,
+    };
+  };
+
+  const rectPoints = (rect: { x: number; y: number; width: number; height: number }) =>
+    [
+      pageToScreen(rect.x, rect.y),
+      pageToScreen(rect.x + rect.width, rect.y),
+      pageToScreen(rect.x + rect.width, rect.y + rect.height),
+      pageToScreen(rect.x, rect.y + rect.height),
+    ]
+      .map((p) => `${p.x},${p.y}`)
+      .join(' ');
+
+  // Screen pixels per paper inch, for sizing text
+  const origin = pageToScreen(0, 0);
+  const unitX = pageToScreen(1, 0);
+  const pixelsPerInch = Math.hypot(unitX.x - origin.x, unitX.y - origin.y);
+  const showText = pixelsPerInch >= MIN_TEXT_SCALE;
+
+  const stroke = theme === 'dark' ? '#d1d5db' : theme === 'blueprint' ? '#ffffff' : '#374151';
+  const { titleBlock } = layout;
+  const context = {
+    projectInfo: activeTab.projectInfo,
+    scaleLabel,
+    sheet: 1,
+    totalSheets: 1,
+    partCount: activeTab.objects.length,
+    formatLength: lengthFormat.format,
+  };
+
+  return (
+    <svg
+      className="absolute inset-0 pointer-events-none"
+      style={{ width: '100%', height: '100%' }}
+    >
+      {/* Paper edge */}
+      <polygon
+        points={rectPoints({ x: 0, y: 0, width: layout.pageWidth, height: layout.pageHeight })}
+        fill="none"
+        stroke={stroke}
+        strokeWidth={1}
+        opacity={0.6}
+      />
+
+      {/* Drawing area */}
+      <polygon
+        points={rectPoints(layout.drawingArea)}
+        fill="none"
+        stroke="#3b82f6"
+        strokeWidth={1}
+        strokeDasharray="6 4"
+        opacity={0.6}
+      />
+
+      {/* Sheet border */}
+      {titleBlock.border && (
+        <polygon points={rectPoints(titleBlock.border)} fill="none" stroke={stroke} strokeWidth={2} opacity={0.8} />
+      )}
+
+      {/* Title block */}
+      {titleBlock.cells.map((cell) => {
+        const x = titleBlock.block.x + cell.x;
+        const y = titleBlock.block.y + cell.y;
+        const labelPos = pageToScreen(x + 0.05, y + 0.09);
+        const valuePos = pageToScreen(x + 0.05, y + cell.height - 0.05);
+        const centerPos = pageToScreen(x + cell.width / 2, y + cell.height / 2);
+
+        return (
+          <g key={cell.field}>
+            <polygon
+              points={rectPoints({ x, y, width: cell.width, height: cell.height })}
+              fill="none"
+              stroke={stroke}
+              strokeWidth={1}
+              opacity={0.8}
+            />
+            {showText && cell.field === 'company' && (
+              <text
+                x={centerPos.x}
+                y={centerPos.y}
+                fill={stroke}
+                fontSize={pixelsPerInch * 0.15}
+                textAnchor="middle"
+                dominantBaseline="middle"
+              >
+                {template.companyName}
+              </text>
+            )}
+            {showText && cell.field !== 'company' && (
+              <>
+                <text x={labelPos.x} y={labelPos.y} fill={stroke} fontSize={pixelsPerInch * 0.08} opacity={0.7}>
+                  {TITLE_BLOCK_FIELD_LABELS[cell.field].toUpperCase()}
+                </text>
+                <text
+                  x={valuePos.x}
+                  y={valuePos.y}
+                  fill={stroke}
+                  fontSize={pixelsPerInch * (cell.field === 'projectName' ? 0.15 : 0.125)}
+                >
+                  {getTitleBlockValue(cell.field, context)}
+                </text>
+              </>
+            )}
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
@@ -0,0 +1,99 @@
+import * as THREE from 'three';
+import { SnapGuide, getSnapAxes } from '@/lib/geometry/snapping';
+import { SectionAxis, ViewType } from '@/types';
+
+interface SnapIndicatorProps {
+  guides: SnapGuide[];
+  canvasWidth: number;
+  canvasHeight: number;
+  currentView: ViewType;
+  camera: THREE.OrthographicCamera;
+}
+
+const SNAP_COLOR = '#d946ef';
+const GUIDE_OVERHANG = 8; // Screen pixels past the snapped parts
+
+/**
+ * Shows what a drag or dimension point snapped to: a guide line along each face it
+ * snapped flush with, and a marker where two guides meet at an edge or corner
+ */
+export function SnapIndicator({ guides, canvasWidth, canvasHeight, currentView, camera }: SnapIndicatorProps) {
+  if (guides.length === 0) {
+    return null;
+  }
+
+  const viewAxes = getSnapAxes(currentView);
+
+  // Convert world position to screen position using THREE.js camera projection
+  const worldToScreen = (point: THREE.Vector3) => {
+    const canvasOffset = 24; // Canvas offset from container (matches Canvas.tsx styling)
+    const screenPos = point.clone().project(camera);
+    return {
+      x: ((screenPos.x + 1) / 2) * canvasWidth + canvasOffset,
+      y: ((-screenPos.y + 1) / 2) * canvasHeight + canvasOffset,
+    };
+  };
+
+  // Point on a guide's face: the guide axis at the face, others at the given values
+  const pointOnGuide = (guide: SnapGuide, values: Partial<Record<SectionAxis, number>>) => {
+    const center = (axis: SectionAxis) => (guide.span.min[axis] + guide.span.max[axis]) / 2;
+    const coordinate = (axis: SectionAxis) => (axis === guide.axis ? guide.value : values[axis] ?? center(axis));
+    return new THREE.Vector3(coordinate('x'), coordinate('y'), coordinate('z'));
+  };
+
+  const renderGuide = (guide: SnapGuide, index: number) => {
+    const along = viewAxes.find((axis) => axis !== guide.axis);
+    if (!along) return null;
+
+    const start = worldToScreen(pointOnGuide(guide, { [along]: guide.span.min[along] }));
+    const end = worldToScreen(pointOnGuide(guide, { [along]: guide.span.max[along] }));
+    const length = Math.hypot(end.x - start.x, end.y - start.y) || 1;
+    const dx = ((end.x - start.x) / length) * GUIDE_OVERHANG;
+    const dy = ((end.y - start.y) / length) * GUIDE_OVERHANG;
+
+    return (
+      <line
+        key={index}
+        x1={start.x - dx}
+        y1={start.y - dy}
+        x2={end.x + dx}
+        y2={end.y + dy}
+        stroke={SNAP_COLOR}
+        strokeWidth={1.5}
+        strokeDasharray="6 3"
+      />
+    );
+  };
+
+  // Two guides cross at the edge or corner that was snapped to
+  const corner = guides.length >= 2
+    ? worldToScreen(pointOnGuide(guides[0], { [guides[1].axis]: guides[1].value }))
+    : null;
+
+  return (
+    <svg
+      style={{
+        position: 'absolute',
+        left: 0,
+        top: 0,
+        width: canvasWidth,
+        height: canvasHeight,
+        pointerEvents: 'none',
+        zIndex: 60, // Above section lines, below gizmo (100)
+      }}
+    >
+      {guides.map(renderGuide)}
+      {corner && (
+        <rect
+          x={corner.x - 5}
+          y={corner.y - 5}
+          width={10}
+          height={10}
+          fill="none"
+          stroke={SNAP_COLOR}
+          strokeWidth={2}
+        />
+      )}
+    </svg>
+  );
+}
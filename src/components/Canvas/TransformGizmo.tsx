@@ -2,9 +2,10 @@ import { useState, useRef, useEffect } from 'react';
 import * as THREE from 'three';
 import { useProjectStore } from '@/stores/projectStore';
 import { useUIStore } from '@/stores/uiStore';
-import { computeWorldTransform } from '@/lib/hierarchy/transforms';
+import { computeWorldTransform, rotationToQuaternion } from '@/lib/hierarchy/transforms';
 import { screenDeltaToWorldDelta } from '@/lib/geometry/coordinates';
 import { ViewType } from '@/types';
+import { useExplodeOffsets } from '@/hooks/useExplodeOffsets';
 
 interface TransformGizmoProps {
   canvasWidth: number;
@@ -22,16 +23,24 @@ export function TransformGizmo({ canvasWidth, canvasHeight, zoom, panOffset, cur
   const objects = useProjectStore((state) => state.tabs[state.activeTabIndex]?.objects || []);
   const assemblies = useProjectStore((state) => state.tabs[state.activeTabIndex]?.assemblies || []);
   const selectedObjectIds = useProjectStore((state) => state.tabs[state.activeTabIndex]?.selectedObjectIds || []);
+  const selectedAssemblyId = useProjectStore((state) => state.tabs[state.activeTabIndex]?.selectedAssemblyId ?? null);
 
   // Get actions
-  const { updateObject, pushToHistory } = useProjectStore();
+  const { updateObject, updateAssembly, pushToHistory } = useProjectStore();
   const { theme } = useUIStore();
+  const explodeOffsets = useExplodeOffsets();
 
   // Get selected object (only show gizmo for single selection)
   const selectedObject = selectedObjectIds.length === 1
     ? objects.find(obj => obj.id === selectedObjectIds[0])
     : null;
 
+  // An assembly selected in the tree is moved as a unit from its pivot
+  const selectedAssembly = selectedAssemblyId
+    ? assemblies.find(asm => asm.id === selectedAssemblyId)
+    : null;
+  const target = selectedAssembly ?? selectedObject;
+
   // Drag state
   const [isDragging, setIsDragging] = useState(false);
   const [dragAxis, setDragAxis] = useState<Axis>(null);
@@ -39,18 +48,19 @@ export function TransformGizmo({ canvasWidth, canvasHeight, zoom, panOffset, cur
   const [dragDelta, setDragDelta] = useState(0);
   const dragStartWorldPosRef = useRef({ x: 0, y: 0, z: 0 });
   const dragStartLocalPosRef = useRef({ x: 0, y: 0, z: 0 });
+  const dragParentInverseRef = useRef(new THREE.Quaternion()); // Maps world moves into the parent's frame
 
-  // Use ref for selected object ID to avoid effect re-runs
-  const selectedObjectIdRef = useRef<string | null>(null);
+  // Use ref for the dragged node to avoid effect re-runs
+  const targetRef = useRef<{ id: string; isAssembly: boolean } | null>(null);
 
   // Keep ref updated
   useEffect(() => {
-    selectedObjectIdRef.current = selectedObject?.id || null;
-  }, [selectedObject?.id]);
+    targetRef.current = target ? { id: target.id, isAssembly: !!selectedAssembly } : null;
+  }, [target?.id, selectedAssembly]);
 
   // Get world transform
-  const worldTransform = selectedObject
-    ? computeWorldTransform(selectedObject.id, objects, assemblies)
+  const worldTransform = target
+    ? computeWorldTransform(target.id, objects, assemblies)
     : null;
 
   // Handle mouse move during drag
@@ -97,20 +107,29 @@ export function TransformGizmo({ canvasWidth, canvasHeight, zoom, panOffset, cur
 
       setDragDelta(delta);
 
-      // Use ref for object ID to avoid stale closures
-      const objId = selectedObjectIdRef.current;
-      if (!objId) return;
+      // Use ref for the node to avoid stale closures
+      const dragTarget = targetRef.current;
+      if (!dragTarget) return;
 
       // Calculate new local position by adding delta to initial local position
       // This avoids the stale data issue with worldToLocalPosition
+      const localDelta = new THREE.Vector3(
+        dragAxis === 'x' ? delta : 0,
+        dragAxis === 'y' ? delta : 0,
+        dragAxis === 'z' ? delta : 0
+      ).applyQuaternion(dragParentInverseRef.current);
       const newLocalPos = {
-        x: dragStartLocalPosRef.current.x + (dragAxis === 'x' ? delta : 0),
-        y: dragStartLocalPosRef.current.y + (dragAxis === 'y' ? delta : 0),
-        z: dragStartLocalPosRef.current.z + (dragAxis === 'z' ? delta : 0),
+        x: dragStartLocalPosRef.current.x + localDelta.x,
+        y: dragStartLocalPosRef.current.y + localDelta.y,
+        z: dragStartLocalPosRef.current.z + localDelta.z,
       };
 
-      // Update object with skipHistory=true to prevent undo stack pollution during drag
-      updateObject(objId, { localPosition: newLocalPos }, true);
+      // Update with skipHistory=true to prevent undo stack pollution during drag
+      if (dragTarget.isAssembly) {
+        updateAssembly(dragTarget.id, { localPosition: newLocalPos }, true);
+      } else {
+        updateObject(dragTarget.id, { localPosition: newLocalPos }, true);
+      }
     };
 
     const handleMouseUp = () => {
@@ -128,10 +147,10 @@ export function TransformGizmo({ canvasWidth, canvasHeight, zoom, panOffset, cur
       window.removeEventListener('mouseup', handleMouseUp);
       document.body.style.userSelect = ''; // Restore text selection on cleanup
     };
-  }, [isDragging, dragAxis, dragStartPos, camera, currentView, canvasWidth, canvasHeight, updateObject]);
+  }, [isDragging, dragAxis, dragStartPos, camera, currentView, canvasWidth, canvasHeight, updateObject, updateAssembly]);
 
   // Don't render if no selection or multiple selections
-  if (!selectedObject || !worldTransform) {
+  if (!target || !worldTransform) {
     return null;
   }
 
@@ -152,11 +171,12 @@ export function TransformGizmo({ canvasWidth, canvasHeight, zoom, panOffset, cur
     return { x: screenX, y: screenY };
   };
 
-  // Get gizmo center position on screen
+  // Get gizmo center position on screen, on the object as drawn in an exploded view
+  const explodeOffset = explodeOffsets.get(target.id) ?? { x: 0, y: 0, z: 0 };
   const gizmoScreenPos = worldToScreen(
-    worldTransform.position.x,
-    worldTransform.position.y,
-    worldTransform.position.z
+    worldTransform.position.x + explodeOffset.x,
+    worldTransform.position.y + explodeOffset.y,
+    worldTransform.position.z + explodeOffset.z
   );
 
   // Gizmo size (scales with zoom for consistency)
@@ -196,7 +216,7 @@ export function TransformGizmo({ canvasWidth, canvasHeight, zoom, panOffset, cur
 
   // Handle mouse down on axis
   const handleAxisMouseDown = (axis: Axis, e: React.MouseEvent) => {
-    if (!axis || !selectedObject || !worldTransform) return;
+    if (!axis || !target || !worldTransform) return;
     e.stopPropagation();
 
     // Push to history before starting drag
@@ -207,7 +227,10 @@ export function TransformGizmo({ canvasWidth, canvasHeight, zoom, panOffset, cur
     setDragStartPos({ x: e.clientX, y: e.clientY });
     setDragDelta(0);
     dragStartWorldPosRef.current = { ...worldTransform.position };
-    dragStartLocalPosRef.current = { ...selectedObject.localPosition };
+    dragStartLocalPosRef.current = { ...(target.localPosition ?? { x: 0, y: 0, z: 0 }) };
+    dragParentInverseRef.current = target.parentId
+      ? rotationToQuaternion(computeWorldTransform(target.parentId, objects, assemblies).rotation).invert()
+      : new THREE.Quaternion();
   };
 
   // Render arrow for an axis
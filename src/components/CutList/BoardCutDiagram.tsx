@@ -0,0 +1,85 @@
+import { StockBoard } from '@/lib/cutlist/optimizer';
+import { useUIStore } from '@/stores/uiStore';
+import { LengthDisplay, UnitSystem } from '@/types';
+import { formatLength, DECIMAL_DISPLAY } from '@/lib/units/units';
+import { useLengthFormat } from '@/hooks/useLengthFormat';
+
+interface BoardCutDiagramProps {
+  board: StockBoard;
+  index: number;
+}
+
+/**
+ * Format a stock length for display, e.g. 96 -> 8', or 2438.4 mm in metric projects
+ */
+export function formatStockLength(
+  inches: number,
+  units: UnitSystem = 'imperial',
+  display: LengthDisplay = DECIMAL_DISPLAY
+): string {
+  if (units === 'imperial' && inches % 12 === 0) return `${inches / 12}'`;
+  return formatLength(inches, units, display);
+}
+
+export function BoardCutDiagram({ board, index }: BoardCutDiagramProps) {
+  const { theme } = useUIStore();
+  const lengthFormat = useLengthFormat();
+
+  // Theme-based colors
+  const colors = {
+    text: theme === 'dark' ? 'text-white' : theme === 'blueprint' ? 'text-white' : 'text-gray-800',
+    textMuted: theme === 'dark' ? 'text-gray-400' : theme === 'blueprint' ? 'text-blue-200' : 'text-gray-600',
+    board: theme === 'dark' ? '#3a3a3a' : theme === 'blueprint' ? '#2E4A9A' : '#e5e7eb',
+    cut: theme === 'dark' ? '#8B6F47' : theme === 'blueprint' ? '#60A5FA' : '#D2B48C',
+    cutStroke: theme === 'dark' ? '#1a1a1a' : theme === 'blueprint' ? '#0A2463' : '#6b7280',
+  };
+
+  const height = 24;
+
+  return (
+    <div className="space-y-1">
+      <div className={`text-xs ${colors.textMuted} flex justify-between`}>
+        <span className={colors.text}>
+          Board {index + 1}: {formatStockLength(board.stockLength, lengthFormat.units, lengthFormat.display)}
+        </span>
+        <span>Offcut {lengthFormat.format(board.offcut)}</span>
+      </div>
+      <svg
+        viewBox={`0 0 ${board.stockLength} ${height}`}
+        preserveAspectRatio="none"
+        className="w-full"
+        style={{ height }}
+      >
+        <rect x={0} y={0} width={board.stockLength} height={height} fill={colors.board} />
+        {board.cuts.map((cut) => (
+          <rect
+            key={cut.pieceId}
+            x={cut.offset}
+            y={0}
+            width={cut.length}
+            height={height}
+            fill={colors.cut}
+            stroke={colors.cutStroke}
+            strokeWidth={0.3}
+          />
+        ))}
+      </svg>
+      {/* Labels outside the stretched SVG so text isn't distorted */}
+      <div className="relative h-4">
+        {board.cuts.map((cut) => (
+          <span
+            key={cut.pieceId}
+            className={`absolute text-[10px] ${colors.textMuted} truncate`}
+            style={{
+              left: `${(cut.offset / board.stockLength) * 100}%`,
+              width: `${(cut.length / board.stockLength) * 100}%`,
+            }}
+            title={`${cut.name} - ${lengthFormat.format(cut.length)}`}
+          >
+            {lengthFormat.format(cut.length)}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
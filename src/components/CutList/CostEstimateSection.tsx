@@ -0,0 +1,149 @@
+import { useProjectStore } from '@/stores/projectStore';
+import { useUIStore } from '@/stores/uiStore';
+import { CostEstimate, formatCurrency } from '@/lib/cutlist/pricing';
+import { CostLineItem, CostSettings } from '@/types';
+
+interface CostEstimateSectionProps {
+  estimate: CostEstimate;
+  settings: CostSettings;
+}
+
+/**
+ * Project cost: material totals, editable hardware and finish items, waste factor and tax
+ */
+export function CostEstimateSection({ estimate, settings }: CostEstimateSectionProps) {
+  const { theme } = useUIStore();
+  const setProjectInfo = useProjectStore((state) => state.setProjectInfo);
+
+  // Theme-based colors
+  const colors = {
+    border: theme === 'dark' ? 'border-[#333333]' : theme === 'blueprint' ? 'border-[#1E3A8A]' : 'border-gray-300',
+    text: theme === 'dark' ? 'text-white' : theme === 'blueprint' ? 'text-white' : 'text-gray-800',
+    textMuted: theme === 'dark' ? 'text-gray-400' : theme === 'blueprint' ? 'text-blue-200' : 'text-gray-600',
+    sectionBg: theme === 'dark' ? 'bg-[#1a1a1a]' : theme === 'blueprint' ? 'bg-[#0A2463]' : 'bg-gray-50',
+    input: theme === 'dark' ? 'bg-[#1a1a1a] border-[#444444] text-white' : theme === 'blueprint' ? 'bg-[#0A2463] border-[#3B82F6] text-white' : 'bg-white border-gray-300 text-gray-800',
+  };
+
+  const updateSettings = (updates: Partial<CostSettings>) => {
+    setProjectInfo({ costs: { ...settings, ...updates } });
+  };
+
+  const updateExtra = (id: string, updates: Partial<CostLineItem>) => {
+    updateSettings({ extras: settings.extras.map((item) => (item.id === id ? { ...item, ...updates } : item)) });
+  };
+
+  const addExtra = () => {
+    updateSettings({
+      extras: [...settings.extras, { id: `cost-${Date.now()}`, label: '', quantity: 1, unitPrice: 0 }],
+    });
+  };
+
+  const removeExtra = (id: string) => {
+    updateSettings({ extras: settings.extras.filter((item) => item.id !== id) });
+  };
+
+  const materialsCost = estimate.materials.reduce((sum, line) => sum + (line?.cost ?? 0), 0);
+
+  return (
+    <div className={`border-b ${colors.border}`}>
+      <div className={`px-4 py-3 text-sm font-medium ${colors.text}`}>Cost Estimate</div>
+
+      <div className={`px-4 py-3 space-y-3 text-xs ${colors.sectionBg}`}>
+        {/* Waste factor and tax */}
+        <div className={`flex items-center gap-4 ${colors.textMuted}`}>
+          <label className="flex items-center gap-2">
+            Waste factor
+            <input
+              type="number"
+              min={0}
+              step={5}
+              value={settings.wastePercent}
+              onChange={(e) => updateSettings({ wastePercent: Math.max(0, parseFloat(e.target.value) || 0) })}
+              className={`w-16 px-2 py-1 rounded border ${colors.input}`}
+            />
+            %
+          </label>
+          <label className="flex items-center gap-2">
+            Tax
+            <input
+              type="number"
+              min={0}
+              step={0.25}
+              value={settings.taxPercent}
+              onChange={(e) => updateSettings({ taxPercent: Math.max(0, parseFloat(e.target.value) || 0) })}
+              className={`w-16 px-2 py-1 rounded border ${colors.input}`}
+            />
+            %
+          </label>
+        </div>
+
+        {/* Hardware, finish and other items */}
+        <div className="space-y-1">
+          {settings.extras.map((item) => (
+            <div key={item.id} className="flex items-center gap-2">
+              <input
+                type="text"
+                placeholder="Hardware or finish"
+                value={item.label}
+                onChange={(e) => updateExtra(item.id, { label: e.target.value })}
+                className={`flex-1 px-2 py-1 rounded border ${colors.input}`}
+              />
+              <input
+                type="number"
+                min={0}
+                value={item.quantity}
+                onChange={(e) => updateExtra(item.id, { quantity: Math.max(0, parseFloat(e.target.value) || 0) })}
+                className={`w-16 px-2 py-1 rounded border ${colors.input}`}
+                title="Quantity"
+              />
+              <span className={colors.textMuted}>× $</span>
+              <input
+                type="number"
+                min={0}
+                step={0.01}
+                value={item.unitPrice}
+                onChange={(e) => updateExtra(item.id, { unitPrice: Math.max(0, parseFloat(e.target.value) || 0) })}
+                className={`w-20 px-2 py-1 rounded border ${colors.input}`}
+                title="Price each"
+              />
+              <span className={`w-20 text-right ${colors.text}`}>{formatCurrency(item.quantity * item.unitPrice)}</span>
+              <button onClick={() => removeExtra(item.id)} className="px-1 text-red-500" title="Remove">
+                ×
+              </button>
+            </div>
+          ))}
+          <button onClick={addExtra} className={`underline hover:no-underline ${colors.textMuted}`}>
+            + Add hardware or finish
+          </button>
+        </div>
+
+        {/* Totals */}
+        <div className={`pt-2 border-t ${colors.border} space-y-1 ${colors.text}`}>
+          <div className="flex justify-between">
+            <span>Materials</span>
+            <span>{formatCurrency(materialsCost)}</span>
+          </div>
+          {estimate.extras.length > 0 && (
+            <div className="flex justify-between">
+              <span>Hardware and finish</span>
+              <span>{formatCurrency(estimate.subtotal - materialsCost)}</span>
+            </div>
+          )}
+          <div className="flex justify-between">
+            <span>Tax ({estimate.taxPercent}%)</span>
+            <span>{formatCurrency(estimate.tax)}</span>
+          </div>
+          <div className="flex justify-between font-semibold">
+            <span>Project total</span>
+            <span>{formatCurrency(estimate.total)}</span>
+          </div>
+          {estimate.unpriced.length > 0 && (
+            <div className={colors.textMuted}>
+              Not priced: {estimate.unpriced.join(', ')}. Set prices in the Library panel.
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,15 +1,83 @@
+import { useState } from 'react';
 import { useProjectStore } from '@/stores/projectStore';
 import { useUIStore } from '@/stores/uiStore';
-import { aggregateByMaterial } from '@/lib/cutlist/aggregator';
+import { exportSheetLayoutsPDF } from '@/lib/export/cutListExport';
+import {
+  buildShoppingList,
+  shoppingListToCSV,
+  shoppingListToText,
+  downloadTextFile,
+  exportShoppingListPDF,
+} from '@/lib/export/shoppingList';
 import { MaterialGroupSection } from './MaterialGroupSection';
+import { JoinerySchedule } from './JoinerySchedule';
+import { CostEstimateSection } from './CostEstimateSection';
+import { PartsListTable } from './PartsListTable';
+import { useCutList } from '@/hooks/useCutList';
+import { usePartsList } from '@/hooks/usePartsList';
+import { useInterferences } from '@/hooks/useInterferences';
+import { getLengthUnit, toDisplayLength, fromDisplayLength } from '@/lib/units/units';
+import { useLengthFormat } from '@/hooks/useLengthFormat';
 
 export function CutListModal() {
   // Subscribe to active tab data with proper selectors
   const objects = useProjectStore((state) => state.tabs[state.activeTabIndex]?.objects || []);
-  const { theme, toggleCutListModal } = useUIStore();
+  const assemblies = useProjectStore((state) => state.tabs[state.activeTabIndex]?.assemblies || []);
+  const projectName = useProjectStore((state) => state.tabs[state.activeTabIndex]?.projectInfo.name || 'Untitled');
+  const lengthFormat = useLengthFormat();
+  const { units } = lengthFormat;
+  const {
+    theme,
+    toggleCutListModal,
+    sawKerf,
+    trimAllowance,
+    respectGrain,
+    setSawKerf,
+    setTrimAllowance,
+    toggleRespectGrain,
+    interferencePanelOpen,
+    toggleInterferencePanel,
+    cutListMode,
+    setCutListMode,
+  } = useUIStore();
+  const collisionCount = useInterferences().filter((i) => !i.allowedId).length;
+  const [copied, setCopied] = useState(false);
 
-  // Aggregate objects into material groups
-  const materialGroups = aggregateByMaterial(objects);
+  // Material groups with their stock layouts and prices
+  const { materialGroups, cutPlans, sheetPlans, jointRows, costSettings, estimate } = useCutList();
+  const partsList = usePartsList();
+
+  const handleExportSheets = () => {
+    const groups = materialGroups.flatMap((group, index) => {
+      const plan = sheetPlans[index];
+      return plan ? [{ label: `${group.material} ${group.nominalSize}`, plan }] : [];
+    });
+    exportSheetLayoutsPDF(projectName, groups, sawKerf, lengthFormat.format);
+  };
+
+  const getShoppingList = () =>
+    buildShoppingList(materialGroups, objects, assemblies, cutPlans, sheetPlans, lengthFormat.format);
+  const fileBase = projectName.replace(/[^a-z0-9]/gi, '_');
+
+  const handleExportCSV = () => {
+    downloadTextFile(shoppingListToCSV(getShoppingList(), lengthFormat.format), `${fileBase}_cut_list.csv`);
+  };
+
+  const handleExportShoppingPDF = () => {
+    exportShoppingListPDF(projectName, getShoppingList(), lengthFormat.format);
+  };
+
+  const handleCopyList = async () => {
+    try {
+      await navigator.clipboard.writeText(shoppingListToText(getShoppingList(), lengthFormat.format));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy shopping list:', error);
+    }
+  };
+
+  const hasSheetLayouts = sheetPlans.some((plan) => plan && plan.sheets.length > 0);
 
   // Theme-based colors
   const colors = {
@@ -18,6 +86,7 @@ export function CutListModal() {
     border: theme === 'dark' ? 'border-[#333333]' : theme === 'blueprint' ? 'border-[#1E3A8A]' : 'border-gray-300',
     text: theme === 'dark' ? 'text-white' : theme === 'blueprint' ? 'text-white' : 'text-gray-800',
     textMuted: theme === 'dark' ? 'text-gray-400' : theme === 'blueprint' ? 'text-blue-200' : 'text-gray-600',
+    input: theme === 'dark' ? 'bg-[#1a1a1a] border-[#444444] text-white' : theme === 'blueprint' ? 'bg-[#0A2463] border-[#3B82F6] text-white' : 'bg-white border-gray-300 text-gray-800',
   };
 
   // Close modal when clicking backdrop
@@ -41,7 +110,9 @@ export function CutListModal() {
               Materials Cut List
             </h2>
             <p className={`text-xs ${colors.textMuted} mt-1`}>
-              {materialGroups.length} material {materialGroups.length === 1 ? 'group' : 'groups'} | {objects.length} total {objects.length === 1 ? 'piece' : 'pieces'}
+              {cutListMode === 'parts'
+                ? `${partsList.length} distinct ${partsList.length === 1 ? 'part' : 'parts'}`
+                : `${materialGroups.length} material ${materialGroups.length === 1 ? 'group' : 'groups'}`} | {objects.length} total {objects.length === 1 ? 'piece' : 'pieces'}
             </p>
           </div>
           <button
@@ -53,6 +124,63 @@ export function CutListModal() {
           </button>
         </div>
 
+        {/* Cutting Settings */}
+        <div className={`px-6 py-2 border-b ${colors.border} flex items-center gap-4 text-xs ${colors.textMuted}`}>
+          <div className={`flex rounded border ${colors.border} overflow-hidden`}>
+            {([['materials', 'By material'], ['parts', 'Parts list']] as const).map(([mode, label]) => (
+              <button
+                key={mode}
+                onClick={() => setCutListMode(mode)}
+                className={`px-2 py-1 ${cutListMode === mode ? 'bg-blue-500 text-white' : colors.text}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center gap-2">
+            Saw kerf
+            <input
+              type="number"
+              min={0}
+              step={units === 'metric' ? 0.5 : 0.0625}
+              value={Number(toDisplayLength(sawKerf, units).toFixed(4))}
+              onChange={(e) => setSawKerf(Math.max(0, fromDisplayLength(parseFloat(e.target.value) || 0, units)))}
+              className={`w-20 px-2 py-1 rounded border ${colors.input}`}
+            />
+            {getLengthUnit(units)}
+          </label>
+          <label className="flex items-center gap-2">
+            Trim allowance
+            <input
+              type="number"
+              min={0}
+              step={units === 'metric' ? 5 : 0.25}
+              value={Number(toDisplayLength(trimAllowance, units).toFixed(4))}
+              onChange={(e) => setTrimAllowance(Math.max(0, fromDisplayLength(parseFloat(e.target.value) || 0, units)))}
+              className={`w-20 px-2 py-1 rounded border ${colors.input}`}
+            />
+            {getLengthUnit(units)} per board
+          </label>
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={respectGrain} onChange={toggleRespectGrain} />
+            Respect grain on sheets
+          </label>
+        </div>
+
+        {/* Overlapping parts make the piece list wrong */}
+        {collisionCount > 0 && (
+          <div className="px-6 py-2 border-b border-red-300 bg-red-50 text-xs text-red-700 flex items-center justify-between gap-4">
+            <span>
+              {collisionCount} {collisionCount === 1 ? 'pair of parts overlaps' : 'pairs of parts overlap'}, so some pieces may be sized wrong.
+            </span>
+            {!interferencePanelOpen && (
+              <button onClick={toggleInterferencePanel} className="underline hover:no-underline">
+                Review overlaps
+              </button>
+            )}
+          </div>
+        )}
+
         {/* Content - Scrollable */}
         <div className="flex-1 overflow-y-auto">
           {materialGroups.length === 0 ? (
@@ -60,11 +188,24 @@ export function CutListModal() {
               <p>No materials in project</p>
               <p className="text-xs mt-2">Add some objects to the canvas to see your cut list</p>
             </div>
+          ) : cutListMode === 'parts' ? (
+            <div>
+              <PartsListTable entries={partsList} />
+              {jointRows.length > 0 && <JoinerySchedule rows={jointRows} />}
+            </div>
           ) : (
             <div>
               {materialGroups.map((group, index) => (
-                <MaterialGroupSection key={`${group.material}-${group.nominalSize}-${index}`} group={group} />
+                <MaterialGroupSection
+                  key={`${group.material}-${group.nominalSize}-${index}`}
+                  group={group}
+                  cutPlan={cutPlans[index]}
+                  sheetPlan={sheetPlans[index]}
+                  cost={estimate.materials[index]}
+                />
               ))}
+              {jointRows.length > 0 && <JoinerySchedule rows={jointRows} />}
+              <CostEstimateSection estimate={estimate} settings={costSettings} />
             </div>
           )}
         </div>
@@ -72,10 +213,39 @@ export function CutListModal() {
         {/* Footer */}
         <div className={`px-6 py-3 border-t ${colors.border} flex items-center justify-between ${colors.textMuted} text-xs`}>
           <div>
-            Tip: Click on a material group to expand and see individual pieces
+            {cutListMode === 'parts'
+              ? 'Tip: Part letters match the callouts on the canvas'
+              : 'Tip: Click a material group to see its pieces'}
           </div>
-          <div>
-            Export feature coming soon
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handleCopyList}
+              disabled={materialGroups.length === 0}
+              className={`px-3 py-1 rounded border ${colors.border} ${colors.text} disabled:opacity-40`}
+            >
+              {copied ? 'Copied' : 'Copy List'}
+            </button>
+            <button
+              onClick={handleExportCSV}
+              disabled={materialGroups.length === 0}
+              className={`px-3 py-1 rounded border ${colors.border} ${colors.text} disabled:opacity-40`}
+            >
+              CSV
+            </button>
+            <button
+              onClick={handleExportShoppingPDF}
+              disabled={materialGroups.length === 0}
+              className={`px-3 py-1 rounded border ${colors.border} ${colors.text} disabled:opacity-40`}
+            >
+              Shopping List (PDF)
+            </button>
+            <button
+              onClick={handleExportSheets}
+              disabled={!hasSheetLayouts}
+              className={`px-3 py-1 rounded border ${colors.border} ${colors.text} disabled:opacity-40`}
+            >
+              Sheet Layouts (PDF)
+            </button>
           </div>
         </div>
       </div>
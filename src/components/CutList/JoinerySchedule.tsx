@@ -0,0 +1,66 @@
+import { JointScheduleRow, JOINT_TYPES } from '@/lib/geometry/joinery';
+import { useUIStore } from '@/stores/uiStore';
+import { useLengthFormat } from '@/hooks/useLengthFormat';
+
+interface JoineryScheduleProps {
+  rows: JointScheduleRow[];
+}
+
+/**
+ * Table of every joint: the parts it joins and the size of the cut
+ */
+export function JoinerySchedule({ rows }: JoineryScheduleProps) {
+  const { theme } = useUIStore();
+  const lengthFormat = useLengthFormat();
+
+  // Theme-based colors
+  const colors = {
+    border: theme === 'dark' ? 'border-[#333333]' : theme === 'blueprint' ? 'border-[#1E3A8A]' : 'border-gray-300',
+    text: theme === 'dark' ? 'text-white' : theme === 'blueprint' ? 'text-white' : 'text-gray-800',
+    textMuted: theme === 'dark' ? 'text-gray-400' : theme === 'blueprint' ? 'text-blue-200' : 'text-gray-600',
+    sectionBg: theme === 'dark' ? 'bg-[#1a1a1a]' : theme === 'blueprint' ? 'bg-[#0A2463]' : 'bg-gray-50',
+  };
+
+  const formatSize = (value: number | null) => (value === null ? '—' : lengthFormat.format(value));
+
+  return (
+    <div className={`border-b ${colors.border}`}>
+      <div className={`px-4 py-3 text-sm font-medium ${colors.text}`}>
+        Joinery Schedule
+        <span className={`ml-2 text-xs font-normal ${colors.textMuted}`}>
+          {rows.length} {rows.length === 1 ? 'joint' : 'joints'}
+        </span>
+      </div>
+      <div className={`px-4 py-2 ${colors.sectionBg} overflow-x-auto`}>
+        <table className={`w-full text-xs ${colors.text}`}>
+          <thead className={colors.textMuted}>
+            <tr className="text-left">
+              <th className="py-1 pr-2 font-medium">Joint</th>
+              <th className="py-1 pr-2 font-medium">Type</th>
+              <th className="py-1 pr-2 font-medium">Cut into</th>
+              <th className="py-1 pr-2 font-medium">Fits</th>
+              <th className="py-1 pr-2 font-medium">Depth</th>
+              <th className="py-1 pr-2 font-medium">Width</th>
+              <th className="py-1 pr-2 font-medium">Length</th>
+              <th className="py-1 font-medium">Notes</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.jointId} className={`border-t ${colors.border}`}>
+                <td className="py-1 pr-2 font-semibold" style={{ color: JOINT_TYPES[row.type].color }}>{row.label}</td>
+                <td className="py-1 pr-2">{JOINT_TYPES[row.type].label}</td>
+                <td className="py-1 pr-2">{row.hostName}</td>
+                <td className="py-1 pr-2">{row.insertName}</td>
+                <td className="py-1 pr-2">{formatSize(row.depth)}</td>
+                <td className="py-1 pr-2">{formatSize(row.width)}</td>
+                <td className="py-1 pr-2">{formatSize(row.length)}</td>
+                <td className={`py-1 ${colors.textMuted}`}>{row.notes}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -1,14 +1,26 @@
 import { useState } from 'react';
 import { MaterialGroup } from '@/lib/cutlist/aggregator';
+import { LinearCutPlan } from '@/lib/cutlist/optimizer';
+import { SheetNestingPlan } from '@/lib/cutlist/nesting';
+import { CostLine, formatCurrency, formatCostQuantity } from '@/lib/cutlist/pricing';
 import { useUIStore } from '@/stores/uiStore';
+import { BoardCutDiagram, formatStockLength } from './BoardCutDiagram';
+import { SheetLayoutDiagram } from './SheetLayoutDiagram';
+import { formatRoundSize } from '@/lib/geometry/roundStock';
+import { formatLumberVolume, formatLinearTotal, formatArea } from '@/lib/units/units';
+import { useLengthFormat } from '@/hooks/useLengthFormat';
 
 interface MaterialGroupSectionProps {
   group: MaterialGroup;
+  cutPlan?: LinearCutPlan; // Optimized stock layout (dimensional lumber and round stock)
+  sheetPlan?: SheetNestingPlan; // Nested sheet layout (sheet goods only)
+  cost?: CostLine | null; // Extended cost, null when the library has no price for the stock
 }
 
-export function MaterialGroupSection({ group }: MaterialGroupSectionProps) {
+export function MaterialGroupSection({ group, cutPlan, sheetPlan, cost }: MaterialGroupSectionProps) {
   const [isExpanded, setIsExpanded] = useState(false);
   const { theme } = useUIStore();
+  const lengthFormat = useLengthFormat();
 
   // Theme-based colors
   const colors = {
@@ -49,10 +61,37 @@ export function MaterialGroupSection({ group }: MaterialGroupSectionProps) {
       <div className={`px-4 py-2 text-xs ${colors.textMuted} ${colors.sectionBg}`}>
         <div>
           {group.quantity} {group.quantity === 1 ? 'piece' : 'pieces'}
-          {group.totalBoardFeet !== undefined && ` | ${formatNumber(group.totalBoardFeet)} board feet`}
-          {group.totalLinearFeet !== undefined && ` | ${formatNumber(group.totalLinearFeet)} linear feet`}
-          {group.sheetCount !== undefined && ` | ${group.sheetCount} ${group.sheetCount === 1 ? 'sheet' : 'sheets'}`}
+          {group.totalBoardFeet !== undefined && ` | ${formatLumberVolume(group.totalBoardFeet, lengthFormat.units)}`}
+          {group.totalLinearFeet !== undefined && ` | ${formatLinearTotal(group.totalLinearFeet, lengthFormat.units)}`}
+          {group.totalArea !== undefined && ` | ${formatArea(group.totalArea, lengthFormat.units)}`}
+          {group.sheetCount !== undefined && !sheetPlan && ` | ${group.sheetCount} ${group.sheetCount === 1 ? 'sheet' : 'sheets'}`}
+          {sheetPlan && ` | ${sheetPlan.sheets.length} ${sheetPlan.sheets.length === 1 ? 'sheet' : 'sheets'} | ${formatNumber(sheetPlan.wastePercent)}% waste`}
         </div>
+        {cutPlan && cutPlan.boards.length > 0 && (
+          <div className={`mt-1 ${colors.text}`}>
+            Buy: {cutPlan.boardsToBuy.map((b) => `${b.count} × ${formatStockLength(b.stockLength, lengthFormat.units, lengthFormat.display)}`).join(', ')}
+            <span className={colors.textMuted}> | {formatNumber(cutPlan.wastePercent)}% waste</span>
+          </div>
+        )}
+        {cost && (
+          <div className={`mt-1 ${colors.text}`}>
+            Cost: {formatCurrency(cost.cost)}
+            <span className={colors.textMuted}> | {formatCostQuantity(cost)} @ {formatCurrency(cost.unitPrice)}</span>
+          </div>
+        )}
+        {cost === null && (
+          <div className="mt-1">No price set for this stock in the library</div>
+        )}
+        {cutPlan && cutPlan.unplaced.length > 0 && (
+          <div className="mt-1 text-red-500">
+            {cutPlan.unplaced.length} {cutPlan.unplaced.length === 1 ? 'piece is' : 'pieces are'} longer than any stock length
+          </div>
+        )}
+        {sheetPlan && sheetPlan.unplaced.length > 0 && (
+          <div className="mt-1 text-red-500">
+            {sheetPlan.unplaced.length} {sheetPlan.unplaced.length === 1 ? 'part is' : 'parts are'} larger than the sheet
+          </div>
+        )}
       </div>
 
       {/* Piece List */}
@@ -61,12 +100,32 @@ export function MaterialGroupSection({ group }: MaterialGroupSectionProps) {
           {group.pieces.map((piece, index) => (
             <div key={piece.id} className={`text-xs ${colors.text}`}>
               <span className={colors.textMuted}>Piece {index + 1}:</span>{' '}
-              {piece.dimensions.width}" × {piece.dimensions.height}" × {piece.dimensions.depth}"
+              {piece.round
+                ? `${formatRoundSize(piece, lengthFormat.format)} × ${lengthFormat.format(piece.dimensions.depth)}`
+                : [piece.dimensions.width, piece.dimensions.height, piece.dimensions.depth].map((value) => lengthFormat.format(value)).join(' × ')}
               {piece.name && (
                 <span className={`ml-2 ${colors.textMuted}`}>({piece.name})</span>
               )}
             </div>
           ))}
+
+          {/* Cut Diagrams */}
+          {cutPlan && cutPlan.boards.length > 0 && (
+            <div className={`pt-3 mt-2 border-t ${colors.border} space-y-3`}>
+              {cutPlan.boards.map((board, index) => (
+                <BoardCutDiagram key={index} board={board} index={index} />
+              ))}
+            </div>
+          )}
+
+          {/* Sheet Layouts */}
+          {sheetPlan && sheetPlan.sheets.length > 0 && (
+            <div className={`pt-3 mt-2 border-t ${colors.border} space-y-3`}>
+              {sheetPlan.sheets.map((layout, index) => (
+                <SheetLayoutDiagram key={index} layout={layout} index={index} />
+              ))}
+            </div>
+          )}
         </div>
       )}
     </div>
@@ -0,0 +1,84 @@
+import { PartsListEntry, getSortedSize } from '@/lib/cutlist/partsList';
+import { formatRoundSize } from '@/lib/geometry/roundStock';
+import { useProjectStore } from '@/stores/projectStore';
+import { useUIStore } from '@/stores/uiStore';
+import { useLengthFormat } from '@/hooks/useLengthFormat';
+
+interface PartsListTableProps {
+  entries: PartsListEntry[];
+}
+
+/**
+ * Table of lettered parts: identical pieces share a row, with the assemblies they belong to
+ */
+export function PartsListTable({ entries }: PartsListTableProps) {
+  const { theme, partLabelsVisible, togglePartLabels } = useUIStore();
+  const objects = useProjectStore((state) => state.tabs[state.activeTabIndex]?.objects || []);
+  const lengthFormat = useLengthFormat();
+
+  // Theme-based colors
+  const colors = {
+    border: theme === 'dark' ? 'border-[#333333]' : theme === 'blueprint' ? 'border-[#1E3A8A]' : 'border-gray-300',
+    text: theme === 'dark' ? 'text-white' : theme === 'blueprint' ? 'text-white' : 'text-gray-800',
+    textMuted: theme === 'dark' ? 'text-gray-400' : theme === 'blueprint' ? 'text-blue-200' : 'text-gray-600',
+    sectionBg: theme === 'dark' ? 'bg-[#1a1a1a]' : theme === 'blueprint' ? 'bg-[#0A2463]' : 'bg-gray-50',
+  };
+
+  // Smallest dimension first, however the part is turned; round parts show their diameter
+  const formatSize = (entry: PartsListEntry) => {
+    const part = objects.find((obj) => obj.id === entry.objectIds[0]);
+    const roundSize = part && formatRoundSize(part, lengthFormat.format);
+    return roundSize
+      ? `${roundSize} × ${lengthFormat.format(entry.dimensions.depth)}`
+      : getSortedSize(entry.dimensions).map((value) => lengthFormat.format(value)).join(' × ');
+  };
+
+  return (
+    <div className={`border-b ${colors.border}`}>
+      <div className={`px-4 py-3 flex items-center justify-between text-sm font-medium ${colors.text}`}>
+        <span>
+          Parts List
+          <span className={`ml-2 text-xs font-normal ${colors.textMuted}`}>
+            {entries.length} distinct {entries.length === 1 ? 'part' : 'parts'}
+          </span>
+        </span>
+        <label className={`flex items-center gap-2 text-xs font-normal ${colors.textMuted}`}>
+          <input type="checkbox" checked={partLabelsVisible} onChange={togglePartLabels} />
+          Label parts on the canvas
+        </label>
+      </div>
+
+      <table className={`w-full text-xs ${colors.sectionBg}`}>
+        <thead>
+          <tr className={`text-left ${colors.textMuted}`}>
+            <th className="px-4 py-1 font-medium">Part</th>
+            <th className="px-2 py-1 font-medium">Name</th>
+            <th className="px-2 py-1 font-medium">Qty</th>
+            <th className="px-2 py-1 font-medium">T × W × L</th>
+            <th className="px-2 py-1 font-medium">Material</th>
+            <th className="px-4 py-1 font-medium">Assembly</th>
+          </tr>
+        </thead>
+        <tbody>
+          {entries.map((entry) => (
+            <tr key={entry.letter} className={`border-t ${colors.border} ${colors.text} align-top`}>
+              <td className="px-4 py-1 font-bold">{entry.letter}</td>
+              <td className="px-2 py-1">
+                {entry.name}
+                {entry.names.length > 1 && (
+                  <span className={colors.textMuted} title={entry.names.join(', ')}> +{entry.names.length - 1}</span>
+                )}
+              </td>
+              <td className="px-2 py-1">{entry.quantity}</td>
+              <td className="px-2 py-1 whitespace-nowrap">{formatSize(entry)}</td>
+              <td className="px-2 py-1">{entry.material}</td>
+              <td className={`px-4 py-1 ${entry.assemblies.length === 0 ? colors.textMuted : ''}`}>
+                {entry.assemblies.length > 0 ? entry.assemblies.join('; ') : '—'}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import { SheetLayout } from '@/lib/cutlist/nesting';
+import { useUIStore } from '@/stores/uiStore';
+import { useLengthFormat } from '@/hooks/useLengthFormat';
+
+interface SheetLayoutDiagramProps {
+  layout: SheetLayout;
+  index: number;
+}
+
+export function SheetLayoutDiagram({ layout, index }: SheetLayoutDiagramProps) {
+  const { theme } = useUIStore();
+  const lengthFormat = useLengthFormat();
+
+  // Theme-based colors
+  const colors = {
+    text: theme === 'dark' ? 'text-white' : theme === 'blueprint' ? 'text-white' : 'text-gray-800',
+    textMuted: theme === 'dark' ? 'text-gray-400' : theme === 'blueprint' ? 'text-blue-200' : 'text-gray-600',
+    sheet: theme === 'dark' ? '#3a3a3a' : theme === 'blueprint' ? '#2E4A9A' : '#e5e7eb',
+    part: theme === 'dark' ? '#8B6F47' : theme === 'blueprint' ? '#60A5FA' : '#D2B48C',
+    partStroke: theme === 'dark' ? '#1a1a1a' : theme === 'blueprint' ? '#0A2463' : '#6b7280',
+    label: theme === 'blueprint' ? '#0A2463' : '#1f2937',
+  };
+
+  // Draw the sheet landscape: grain (sheet length) runs left to right
+  const fontSize = Math.max(1.5, Math.min(layout.sheetWidth, layout.sheetLength) / 20);
+
+  return (
+    <div className="space-y-1">
+      <div className={`text-xs ${colors.textMuted} flex justify-between`}>
+        <span className={colors.text}>
+          Sheet {index + 1}: {lengthFormat.format(layout.sheetWidth)} × {lengthFormat.format(layout.sheetLength)}
+        </span>
+        <span>{layout.wastePercent.toFixed(1)}% waste</span>
+      </div>
+      <svg viewBox={`0 0 ${layout.sheetLength} ${layout.sheetWidth}`} className="w-full">
+        <rect x={0} y={0} width={layout.sheetLength} height={layout.sheetWidth} fill={colors.sheet} />
+        {layout.placements.map((placement) => (
+          <g key={placement.pieceId}>
+            <rect
+              x={placement.y}
+              y={placement.x}
+              width={placement.length}
+              height={placement.width}
+              fill={placement.outline ? 'none' : colors.part}
+              stroke={colors.partStroke}
+              strokeWidth={0.25}
+              strokeDasharray={placement.outline ? '1 1' : undefined}
+            />
+            {placement.outline && (
+              <polygon
+                points={placement.outline.map((p) => `${placement.y + p.y},${placement.x + p.x}`).join(' ')}
+                fill={colors.part}
+                stroke={colors.partStroke}
+                strokeWidth={0.25}
+              />
+            )}
+            <text
+              x={placement.y + placement.length / 2}
+              y={placement.x + placement.width / 2}
+              fontSize={fontSize}
+              fill={colors.label}
+              textAnchor="middle"
+              dominantBaseline="middle"
+            >
+              {lengthFormat.format(placement.length)} × {lengthFormat.format(placement.width)}{placement.rotated ? ' ↻' : ''}
+            </text>
+          </g>
+        ))}
+      </svg>
+      <div className={`text-[10px] ${colors.textMuted}`}>
+        Grain runs left to right{layout.placements.some((p) => p.rotated) ? ' | ↻ part rotated across the grain' : ''}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,309 @@
+import { useMemo, useState } from 'react';
+import { useProjectStore } from '@/stores/projectStore';
+import { useUIStore } from '@/stores/uiStore';
+import { useTitleBlockStore } from '@/stores/titleBlockStore';
+import { ViewType, RenderMode } from '@/types';
+import { buildSolids } from '@/lib/geometry/solids';
+import { computeExplodeOffsets, explodeSolids } from '@/lib/hierarchy/explode';
+import { getSectionDisplayName } from '@/lib/geometry/sections';
+import { buildViewDrawing, buildSectionDrawing, checkDrawingsFit, exportVectorPDF, DEFAULT_VECTOR_EXPORT_OPTIONS } from '@/lib/export/vectorExport';
+import { getViewDisplayName } from '@/lib/export/canvasExport';
+import { PAPER_SIZES, DRAWING_SCALES, PaperSizeId, PaperOrientation } from '@/lib/export/paper';
+import { DEFAULT_TITLE_BLOCK_TEMPLATES } from '@/lib/export/titleBlock';
+import { useLengthFormat } from '@/hooks/useLengthFormat';
+import { useCutList } from '@/hooks/useCutList';
+import { formatCurrency } from '@/lib/cutlist/pricing';
+
+const ALL_VIEWS: ViewType[] = [
+  'front', 'back', 'left', 'right', 'top', 'bottom',
+  'iso-front-right', 'iso-front-left', 'iso-back-right', 'iso-back-left',
+];
+
+export function ExportPDFModal() {
+  const activeTab = useProjectStore((state) => state.tabs[state.activeTabIndex]);
+  const {
+    theme,
+    pdfPaperSize,
+    pdfOrientation,
+    pdfScaleId,
+    renderMode: screenRenderMode,
+    explode: screenExplode,
+    setPDFPaperSize,
+    setPDFOrientation,
+    setPDFScaleId,
+    toggleExportPDFModal,
+  } = useUIStore();
+  const lengthFormat = useLengthFormat();
+  const { estimate } = useCutList();
+  const { customTemplates, activeTemplateId, setActiveTemplate, getActiveTemplate } = useTitleBlockStore();
+  const titleBlock = getActiveTemplate();
+
+  const [views, setViews] = useState<ViewType[]>(DEFAULT_VECTOR_EXPORT_OPTIONS.views);
+  const [renderMode, setRenderMode] = useState<RenderMode>(screenRenderMode);
+  const [exploded, setExploded] = useState(screenExplode.factor > 0);
+  const [includeEstimate, setIncludeEstimate] = useState(false);
+  const sectionPlanes = activeTab?.sectionPlanes ?? [];
+  const [sectionIds, setSectionIds] = useState<string[]>(sectionPlanes.map((plane) => plane.id));
+  const sections = useMemo(
+    () => sectionPlanes.filter((plane) => sectionIds.includes(plane.id)),
+    [sectionPlanes, sectionIds]
+  );
+
+  const options = { views, paper: pdfPaperSize, orientation: pdfOrientation, scaleId: pdfScaleId, renderMode, sections, explode: exploded ? screenExplode : undefined, formatLength: lengthFormat.format, estimate: includeEstimate ? estimate : undefined };
+  const pageCount = views.length + sections.length + (includeEstimate ? 1 : 0);
+
+  // Project each selected view and section so we can warn about ones that won't fit
+  const fitResults = useMemo(() => {
+    if (!activeTab) return [];
+    const solids = exploded
+      ? explodeSolids(buildSolids(activeTab.objects, activeTab.assemblies), computeExplodeOffsets(activeTab.objects, activeTab.assemblies, screenExplode))
+      : buildSolids(activeTab.objects, activeTab.assemblies);
+    const fitOptions = { views, paper: pdfPaperSize, orientation: pdfOrientation, scaleId: pdfScaleId };
+    const viewDrawings = views.map((view) => buildViewDrawing(view, solids, activeTab.dimensionLines, undefined, lengthFormat.format));
+    const sectionDrawings = sections.map((plane) => buildSectionDrawing(plane, solids, activeTab.dimensionLines, lengthFormat.format));
+    return [
+      ...checkDrawingsFit(viewDrawings, fitOptions, titleBlock).map((result) => ({ ...result, label: getViewDisplayName(result.view) })),
+      ...checkDrawingsFit(sectionDrawings, fitOptions, titleBlock).map((result, i) => ({ ...result, label: getSectionDisplayName(sections[i]) })),
+    ];
+  }, [activeTab, views, sections, exploded, screenExplode, pdfPaperSize, pdfOrientation, pdfScaleId, titleBlock, lengthFormat]);
+
+  const overflowing = fitResults.filter((result) => !result.fits);
+
+  // Theme-based colors
+  const colors = {
+    backdrop: 'bg-black bg-opacity-50',
+    modalBg: theme === 'dark' ? 'bg-[#2a2a2a]' : theme === 'blueprint' ? 'bg-[#1E3A8A]' : 'bg-white',
+    border: theme === 'dark' ? 'border-[#333333]' : theme === 'blueprint' ? 'border-[#1E3A8A]' : 'border-gray-300',
+    text: theme === 'dark' ? 'text-white' : theme === 'blueprint' ? 'text-white' : 'text-gray-800',
+    textMuted: theme === 'dark' ? 'text-gray-400' : theme === 'blueprint' ? 'text-blue-200' : 'text-gray-600',
+    sectionBg: theme === 'dark' ? 'bg-[#1f1f1f]' : theme === 'blueprint' ? 'bg-[#163567]' : 'bg-gray-50',
+    select: theme === 'dark' ? 'bg-[#1a1a1a]' : theme === 'blueprint' ? 'bg-[#0A2463]' : 'bg-white',
+  };
+
+  // Close modal when clicking backdrop
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget) {
+      toggleExportPDFModal();
+    }
+  };
+
+  const toggleView = (view: ViewType) => {
+    setViews((current) =>
+      current.includes(view)
+        ? current.filter((v) => v !== view)
+        : ALL_VIEWS.filter((v) => v === view || current.includes(v))
+    );
+  };
+
+  const toggleSection = (id: string) => {
+    setSectionIds((current) => (current.includes(id) ? current.filter((s) => s !== id) : [...current, id]));
+  };
+
+  const handleExport = () => {
+    if (!activeTab || pageCount === 0) return;
+    exportVectorPDF(activeTab.projectInfo, activeTab.objects, activeTab.assemblies, activeTab.dimensionLines, options, titleBlock);
+    toggleExportPDFModal();
+  };
+
+  return (
+    <div
+      className={`fixed inset-0 ${colors.backdrop} flex items-center justify-center z-50 p-4`}
+      onClick={handleBackdropClick}
+    >
+      <div className={`${colors.modalBg} rounded-lg shadow-2xl border ${colors.border} w-full max-w-lg max-h-[80vh] flex flex-col`}>
+        {/* Header */}
+        <div className={`px-6 py-4 border-b ${colors.border} flex items-center justify-between`}>
+          <div>
+            <h2 className={`text-lg font-semibold ${colors.text}`}>
+              Export PDF Drawings
+            </h2>
+            <p className={`text-xs ${colors.textMuted} mt-1`}>
+              Vector drawings, one view per page
+            </p>
+          </div>
+          <button
+            onClick={toggleExportPDFModal}
+            className={`w-8 h-8 flex items-center justify-center rounded ${colors.border} border hover:bg-opacity-10 hover:bg-white transition-colors ${colors.text}`}
+            title="Close"
+          >
+            ✕
+          </button>
+        </div>
+
+        {/* Content - Scrollable */}
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {/* Paper */}
+          <div className={`${colors.sectionBg} rounded-lg p-4 space-y-3`}>
+            <div className="flex gap-3">
+              <div className="flex-1">
+                <label className={`block text-xs font-medium ${colors.text} mb-2`}>Paper size</label>
+                <select
+                  value={pdfPaperSize}
+                  onChange={(e) => setPDFPaperSize(e.target.value as PaperSizeId)}
+                  className={`w-full px-3 py-2 text-sm rounded border ${colors.border} ${colors.text} ${colors.select} focus:outline-none focus:ring-1 focus:ring-blue-500`}
+                >
+                  {Object.values(PAPER_SIZES).map((paper) => (
+                    <option key={paper.id} value={paper.id}>{paper.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex-1">
+                <label className={`block text-xs font-medium ${colors.text} mb-2`}>Orientation</label>
+                <select
+                  value={pdfOrientation}
+                  onChange={(e) => setPDFOrientation(e.target.value as PaperOrientation)}
+                  className={`w-full px-3 py-2 text-sm rounded border ${colors.border} ${colors.text} ${colors.select} focus:outline-none focus:ring-1 focus:ring-blue-500`}
+                >
+                  <option value="landscape">Landscape</option>
+                  <option value="portrait">Portrait</option>
+                </select>
+              </div>
+            </div>
+
+            <div>
+              <label className={`block text-xs font-medium ${colors.text} mb-2`}>Drawing scale</label>
+              <select
+                value={pdfScaleId}
+                onChange={(e) => setPDFScaleId(e.target.value)}
+                className={`w-full px-3 py-2 text-sm rounded border ${colors.border} ${colors.text} ${colors.select} focus:outline-none focus:ring-1 focus:ring-blue-500`}
+              >
+                <option value="fit">Fit to page (not to scale)</option>
+                {DRAWING_SCALES.map((scale) => (
+                  <option key={scale.id} value={scale.id}>{scale.label}</option>
+                ))}
+              </select>
+              <p className={`text-xs ${colors.textMuted} mt-1`}>
+                Print at 100% ("Actual size") to measure drawings with a ruler
+              </p>
+            </div>
+
+            <div>
+              <label className={`block text-xs font-medium ${colors.text} mb-2`}>Line style</label>
+              <select
+                value={renderMode}
+                onChange={(e) => setRenderMode(e.target.value as RenderMode)}
+                className={`w-full px-3 py-2 text-sm rounded border ${colors.border} ${colors.text} ${colors.select} focus:outline-none focus:ring-1 focus:ring-blue-500`}
+              >
+                <option value="shaded">All edges solid</option>
+                <option value="hidden-line">Hidden edges dashed</option>
+              </select>
+            </div>
+
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={exploded}
+                onChange={(e) => setExploded(e.target.checked)}
+                disabled={screenExplode.factor === 0}
+                className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-1 focus:ring-blue-500"
+              />
+              <span className={`text-sm ${colors.text}`}>Exploded view</span>
+              <span className={`text-xs ${colors.textMuted}`}>
+                {screenExplode.factor > 0 ? `(as on the canvas, along ${screenExplode.axis.toUpperCase()})` : '(set the spread in the canvas controls)'}
+              </span>
+            </label>
+
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={includeEstimate}
+                onChange={(e) => setIncludeEstimate(e.target.checked)}
+                className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-1 focus:ring-blue-500"
+              />
+              <span className={`text-sm ${colors.text}`}>Cost estimate page</span>
+              <span className={`text-xs ${colors.textMuted}`}>
+                ({formatCurrency(estimate.total)} total, from the cut list)
+              </span>
+            </label>
+
+            <div>
+              <label className={`block text-xs font-medium ${colors.text} mb-2`}>Title block</label>
+              <select
+                value={activeTemplateId}
+                onChange={(e) => setActiveTemplate(e.target.value)}
+                className={`w-full px-3 py-2 text-sm rounded border ${colors.border} ${colors.text} ${colors.select} focus:outline-none focus:ring-1 focus:ring-blue-500`}
+              >
+                {[...DEFAULT_TITLE_BLOCK_TEMPLATES, ...customTemplates].map((template) => (
+                  <option key={template.id} value={template.id}>{template.name}</option>
+                ))}
+              </select>
+              <p className={`text-xs ${colors.textMuted} mt-1`}>
+                Edit title block templates in Settings
+              </p>
+            </div>
+          </div>
+
+          {/* Views */}
+          <div className={`${colors.sectionBg} rounded-lg p-4`}>
+            <label className={`block text-xs font-medium ${colors.text} mb-2`}>Views</label>
+            <div className="grid grid-cols-2 gap-2">
+              {ALL_VIEWS.map((view) => (
+                <label key={view} className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={views.includes(view)}
+                    onChange={() => toggleView(view)}
+                    className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-1 focus:ring-blue-500"
+                  />
+                  <span className={`text-sm ${colors.text}`}>{getViewDisplayName(view)}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {/* Sections */}
+          {sectionPlanes.length > 0 && (
+            <div className={`${colors.sectionBg} rounded-lg p-4`}>
+              <label className={`block text-xs font-medium ${colors.text} mb-2`}>Sections</label>
+              <div className="grid grid-cols-2 gap-2">
+                {sectionPlanes.map((plane) => (
+                  <label key={plane.id} className="flex items-center gap-2 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={sectionIds.includes(plane.id)}
+                      onChange={() => toggleSection(plane.id)}
+                      className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-1 focus:ring-blue-500"
+                    />
+                    <span className={`text-sm ${colors.text}`}>{getSectionDisplayName(plane)}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Fit Warnings */}
+          {overflowing.length > 0 && (
+            <div className="rounded-lg p-3 border border-yellow-500 bg-yellow-500 bg-opacity-10 text-xs text-yellow-600 space-y-1">
+              <div className="font-semibold">Some views won't fit on the page at this scale:</div>
+              {overflowing.map((result) => (
+                <div key={result.label}>
+                  {result.label}
+                  {result.suggestedScale
+                    ? ` - largest scale that fits is ${result.suggestedScale.label}`
+                    : ' - too large for any standard scale on this paper'}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className={`px-6 py-3 border-t ${colors.border} flex items-center justify-end gap-2`}>
+          <button
+            onClick={toggleExportPDFModal}
+            className={`px-4 py-2 text-sm rounded border ${colors.border} ${colors.text}`}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={pageCount === 0}
+            className="px-4 py-2 text-sm bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors disabled:opacity-50"
+          >
+            Export
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
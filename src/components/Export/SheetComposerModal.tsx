@@ -0,0 +1,332 @@
+import { useMemo, useRef, useState } from 'react';
+import { useProjectStore } from '@/stores/projectStore';
+import { useUIStore } from '@/stores/uiStore';
+import { useTitleBlockStore } from '@/stores/titleBlockStore';
+import { ViewType, RenderMode } from '@/types';
+import { Point2D } from '@/lib/geometry/projection';
+import { toPagePoint } from '@/lib/export/vectorExport';
+import { getViewDisplayName } from '@/lib/export/canvasExport';
+import { useLengthFormat } from '@/hooks/useLengthFormat';
+import { PAPER_SIZES, DRAWING_SCALES, PaperSizeId, PaperOrientation } from '@/lib/export/paper';
+import {
+  buildSheetDrawings,
+  composeSheet,
+  exportComposedSheetPDF,
+  ProjectionAngle,
+  ViewFrameOffsets,
+} from '@/lib/export/sheetLayout';
+
+const ISO_VIEWS: ViewType[] = ['iso-front-right', 'iso-front-left', 'iso-back-right', 'iso-back-left'];
+
+export function SheetComposerModal() {
+  const activeTab = useProjectStore((state) => state.tabs[state.activeTabIndex]);
+  const {
+    theme,
+    pdfPaperSize,
+    pdfOrientation,
+    pdfScaleId,
+    sheetProjection,
+    renderMode: screenRenderMode,
+    setPDFPaperSize,
+    setPDFOrientation,
+    setPDFScaleId,
+    setSheetProjection,
+    toggleSheetComposerModal,
+  } = useUIStore();
+  const lengthFormat = useLengthFormat();
+  const titleBlock = useTitleBlockStore((state) => state.getActiveTemplate());
+
+  const [isoView, setIsoView] = useState<ViewType | null>('iso-front-right');
+  const [renderMode, setRenderMode] = useState<RenderMode>(screenRenderMode);
+  const [offsets, setOffsets] = useState<ViewFrameOffsets>({});
+  const [dragging, setDragging] = useState<{ view: ViewType; start: Point2D; startOffset: Point2D } | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const options = {
+    paper: pdfPaperSize,
+    orientation: pdfOrientation,
+    projection: sheetProjection,
+    scaleId: pdfScaleId,
+    isoView,
+    renderMode,
+    formatLength: lengthFormat.format,
+  };
+
+  const drawings = useMemo(() => {
+    if (!activeTab) return [];
+    return buildSheetDrawings(activeTab.objects, activeTab.assemblies, activeTab.dimensionLines, isoView, renderMode, lengthFormat.format);
+  }, [activeTab, isoView, renderMode, lengthFormat]);
+
+  const sheet = useMemo(
+    () => drawings.length > 0
+      ? composeSheet(drawings, { paper: pdfPaperSize, orientation: pdfOrientation, projection: sheetProjection, scaleId: pdfScaleId, isoView, renderMode, formatLength: lengthFormat.format }, titleBlock, offsets)
+      : null,
+    [drawings, pdfPaperSize, pdfOrientation, sheetProjection, pdfScaleId, isoView, renderMode, lengthFormat, titleBlock, offsets]
+  );
+
+  // Theme-based colors
+  const colors = {
+    backdrop: 'bg-black bg-opacity-50',
+    modalBg: theme === 'dark' ? 'bg-[#2a2a2a]' : theme === 'blueprint' ? 'bg-[#1E3A8A]' : 'bg-white',
+    border: theme === 'dark' ? 'border-[#333333]' : theme === 'blueprint' ? 'border-[#1E3A8A]' : 'border-gray-300',
+    text: theme === 'dark' ? 'text-white' : theme === 'blueprint' ? 'text-white' : 'text-gray-800',
+    textMuted: theme === 'dark' ? 'text-gray-400' : theme === 'blueprint' ? 'text-blue-200' : 'text-gray-600',
+    sectionBg: theme === 'dark' ? 'bg-[#1f1f1f]' : theme === 'blueprint' ? 'bg-[#163567]' : 'bg-gray-50',
+    select: theme === 'dark' ? 'bg-[#1a1a1a]' : theme === 'blueprint' ? 'bg-[#0A2463]' : 'bg-white',
+  };
+
+  // Close modal when clicking backdrop
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget) {
+      toggleSheetComposerModal();
+    }
+  };
+
+  // Convert a mouse position to page inches
+  const toPageInches = (e: React.PointerEvent): Point2D | null => {
+    if (!svgRef.current || !sheet) return null;
+    const rect = svgRef.current.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * sheet.layout.pageWidth,
+      y: ((e.clientY - rect.top) / rect.height) * sheet.layout.pageHeight,
+    };
+  };
+
+  const handleFramePointerDown = (view: ViewType, e: React.PointerEvent) => {
+    const start = toPageInches(e);
+    if (!start) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragging({ view, start, startOffset: offsets[view] ?? { x: 0, y: 0 } });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!dragging) return;
+    const point = toPageInches(e);
+    if (!point) return;
+    setOffsets((current) => ({
+      ...current,
+      [dragging.view]: {
+        x: dragging.startOffset.x + point.x - dragging.start.x,
+        y: dragging.startOffset.y + point.y - dragging.start.y,
+      },
+    }));
+  };
+
+  const handleExport = () => {
+    if (!activeTab) return;
+    exportComposedSheetPDF(
+      activeTab.projectInfo,
+      activeTab.objects,
+      activeTab.assemblies,
+      activeTab.dimensionLines,
+      options,
+      titleBlock,
+      offsets
+    );
+    toggleSheetComposerModal();
+  };
+
+  const selectClass = `w-full px-3 py-2 text-sm rounded border ${colors.border} ${colors.text} ${colors.select} focus:outline-none focus:ring-1 focus:ring-blue-500`;
+
+  return (
+    <div
+      className={`fixed inset-0 ${colors.backdrop} flex items-center justify-center z-50 p-4`}
+      onClick={handleBackdropClick}
+    >
+      <div className={`${colors.modalBg} rounded-lg shadow-2xl border ${colors.border} w-full max-w-4xl max-h-[90vh] flex flex-col`}>
+        {/* Header */}
+        <div className={`px-6 py-4 border-b ${colors.border} flex items-center justify-between`}>
+          <div>
+            <h2 className={`text-lg font-semibold ${colors.text}`}>
+              Multi-View Sheet
+            </h2>
+            <p className={`text-xs ${colors.textMuted} mt-1`}>
+              Front, top and right views on one page at a shared scale. Drag views to adjust the layout.
+            </p>
+          </div>
+          <button
+            onClick={toggleSheetComposerModal}
+            className={`w-8 h-8 flex items-center justify-center rounded ${colors.border} border hover:bg-opacity-10 hover:bg-white transition-colors ${colors.text}`}
+            title="Close"
+          >
+            ✕
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-6 flex gap-4">
+          {/* Options */}
+          <div className={`${colors.sectionBg} rounded-lg p-4 space-y-3 w-56 flex-shrink-0`}>
+            <div>
+              <label className={`block text-xs font-medium ${colors.text} mb-2`}>Projection</label>
+              <select
+                value={sheetProjection}
+                onChange={(e) => {
+                  setSheetProjection(e.target.value as ProjectionAngle);
+                  setOffsets({});
+                }}
+                className={selectClass}
+              >
+                <option value="third-angle">Third-angle (ANSI)</option>
+                <option value="first-angle">First-angle (ISO)</option>
+              </select>
+            </div>
+            <div>
+              <label className={`block text-xs font-medium ${colors.text} mb-2`}>Paper size</label>
+              <select value={pdfPaperSize} onChange={(e) => setPDFPaperSize(e.target.value as PaperSizeId)} className={selectClass}>
+                {Object.values(PAPER_SIZES).map((paper) => (
+                  <option key={paper.id} value={paper.id}>{paper.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className={`block text-xs font-medium ${colors.text} mb-2`}>Orientation</label>
+              <select value={pdfOrientation} onChange={(e) => setPDFOrientation(e.target.value as PaperOrientation)} className={selectClass}>
+                <option value="landscape">Landscape</option>
+                <option value="portrait">Portrait</option>
+              </select>
+            </div>
+            <div>
+              <label className={`block text-xs font-medium ${colors.text} mb-2`}>Scale</label>
+              <select value={pdfScaleId} onChange={(e) => setPDFScaleId(e.target.value)} className={selectClass}>
+                <option value="fit">Largest that fits</option>
+                {DRAWING_SCALES.map((scale) => (
+                  <option key={scale.id} value={scale.id}>{scale.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className={`block text-xs font-medium ${colors.text} mb-2`}>Pictorial view</label>
+              <select
+                value={isoView ?? 'none'}
+                onChange={(e) => setIsoView(e.target.value === 'none' ? null : e.target.value as ViewType)}
+                className={selectClass}
+              >
+                <option value="none">None</option>
+                {ISO_VIEWS.map((view) => (
+                  <option key={view} value={view}>{getViewDisplayName(view)}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className={`block text-xs font-medium ${colors.text} mb-2`}>Line style</label>
+              <select value={renderMode} onChange={(e) => setRenderMode(e.target.value as RenderMode)} className={selectClass}>
+                <option value="shaded">All edges solid</option>
+                <option value="hidden-line">Hidden edges dashed</option>
+              </select>
+            </div>
+            <button
+              onClick={() => setOffsets({})}
+              className={`w-full px-3 py-2 text-sm rounded border ${colors.border} ${colors.text} hover:bg-opacity-10 hover:bg-white transition-colors`}
+            >
+              Reset Layout
+            </button>
+            {sheet && (
+              <p className={`text-xs ${colors.textMuted}`}>Scale: {sheet.scaleLabel}</p>
+            )}
+            {sheet && !sheet.fits && (
+              <div className="rounded p-2 border border-yellow-500 bg-yellow-500 bg-opacity-10 text-xs text-yellow-600">
+                The views don't fit the page at this scale
+              </div>
+            )}
+          </div>
+
+          {/* Sheet Preview */}
+          <div className="flex-1 min-w-0">
+            {sheet && (
+              <svg
+                ref={svgRef}
+                viewBox={`0 0 ${sheet.layout.pageWidth} ${sheet.layout.pageHeight}`}
+                className="w-full bg-white shadow border border-gray-300 select-none"
+                style={{ aspectRatio: `${sheet.layout.pageWidth} / ${sheet.layout.pageHeight}` }}
+                onPointerMove={handlePointerMove}
+                onPointerUp={() => setDragging(null)}
+              >
+                {/* Drawing area */}
+                <rect
+                  {...sheet.layout.drawingArea}
+                  fill="none"
+                  stroke="#93c5fd"
+                  strokeWidth={0.02}
+                  strokeDasharray="0.1 0.08"
+                />
+
+                {/* Sheet border and title block */}
+                {sheet.layout.titleBlock.border && (
+                  <rect {...sheet.layout.titleBlock.border} fill="none" stroke="#000" strokeWidth={0.03} />
+                )}
+                <rect {...sheet.layout.titleBlock.block} fill="#f3f4f6" stroke="#000" strokeWidth={0.015} />
+
+                {/* Views */}
+                {sheet.views.map(({ view, drawing, placement, frame }) => (
+                  <g
+                    key={view}
+                    onPointerDown={(e) => handleFramePointerDown(view, e)}
+                    className={dragging?.view === view ? 'cursor-grabbing' : 'cursor-grab'}
+                  >
+                    <rect
+                      {...frame}
+                      fill="rgba(59, 130, 246, 0.04)"
+                      stroke={dragging?.view === view ? '#2563eb' : '#9ca3af'}
+                      strokeWidth={0.015}
+                      strokeDasharray="0.06 0.04"
+                    />
+                    {drawing.lines.map((line, i) => {
+                      const start = toPagePoint(line.start, drawing, placement);
+                      const end = toPagePoint(line.end, drawing, placement);
+                      return (
+                        <line key={i} x1={start.x} y1={start.y} x2={end.x} y2={end.y} stroke="#000" strokeWidth={0.01} />
+                      );
+                    })}
+                    {drawing.hiddenLines.map((line, i) => {
+                      const start = toPagePoint(line.start, drawing, placement);
+                      const end = toPagePoint(line.end, drawing, placement);
+                      return (
+                        <line
+                          key={`hidden-${i}`}
+                          x1={start.x}
+                          y1={start.y}
+                          x2={end.x}
+                          y2={end.y}
+                          stroke="#6b7280"
+                          strokeWidth={0.007}
+                          strokeDasharray="0.06 0.03"
+                        />
+                      );
+                    })}
+                    <text
+                      x={frame.x + frame.width / 2}
+                      y={frame.y + frame.height + 0.15}
+                      fontSize={0.12}
+                      textAnchor="middle"
+                      fill="#374151"
+                    >
+                      {getViewDisplayName(view).toUpperCase()}
+                    </text>
+                  </g>
+                ))}
+              </svg>
+            )}
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className={`px-6 py-3 border-t ${colors.border} flex items-center justify-end gap-2`}>
+          <button
+            onClick={toggleSheetComposerModal}
+            className={`px-4 py-2 text-sm rounded border ${colors.border} ${colors.text}`}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={!sheet}
+            className="px-4 py-2 text-sm bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors disabled:opacity-50"
+          >
+            Export
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
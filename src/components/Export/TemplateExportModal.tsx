@@ -0,0 +1,160 @@
+import { useMemo, useState } from 'react';
+import { useProjectStore } from '@/stores/projectStore';
+import { useUIStore } from '@/stores/uiStore';
+import { ViewType } from '@/types';
+import { buildObjectTemplate, planTiles, exportTiledTemplate, DEFAULT_TEMPLATE_OPTIONS, getTileLabel } from '@/lib/export/templateExport';
+import { getViewDisplayName } from '@/lib/export/canvasExport';
+import { PAPER_SIZES, PaperSizeId, PaperOrientation } from '@/lib/export/paper';
+
+// Templates are flat patterns, so only the orthographic views make sense
+const TEMPLATE_VIEWS: ViewType[] = ['front', 'back', 'left', 'right', 'top', 'bottom'];
+const TEMPLATE_PAPERS: PaperSizeId[] = ['letter', 'a4'];
+
+export function TemplateExportModal() {
+  const activeTab = useProjectStore((state) => state.tabs[state.activeTabIndex]);
+  const { theme, toggleTemplateExportModal } = useUIStore();
+
+  const [view, setView] = useState<ViewType>(DEFAULT_TEMPLATE_OPTIONS.view);
+  const [paper, setPaper] = useState<PaperSizeId>(DEFAULT_TEMPLATE_OPTIONS.paper);
+  const [orientation, setOrientation] = useState<PaperOrientation>(DEFAULT_TEMPLATE_OPTIONS.orientation);
+
+  const selectedObject = activeTab?.objects.find((obj) => obj.id === activeTab.selectedObjectIds[0]);
+  const options = { ...DEFAULT_TEMPLATE_OPTIONS, view, paper, orientation };
+
+  // Preview how the part splits across pages
+  const grid = useMemo(() => {
+    if (!activeTab || !selectedObject) return null;
+    const drawing = buildObjectTemplate(selectedObject, activeTab.objects, activeTab.assemblies, view);
+    return planTiles(drawing, { ...DEFAULT_TEMPLATE_OPTIONS, view, paper, orientation });
+  }, [activeTab, selectedObject, view, paper, orientation]);
+
+  // Theme-based colors
+  const colors = {
+    backdrop: 'bg-black bg-opacity-50',
+    modalBg: theme === 'dark' ? 'bg-[#2a2a2a]' : theme === 'blueprint' ? 'bg-[#1E3A8A]' : 'bg-white',
+    border: theme === 'dark' ? 'border-[#333333]' : theme === 'blueprint' ? 'border-[#1E3A8A]' : 'border-gray-300',
+    text: theme === 'dark' ? 'text-white' : theme === 'blueprint' ? 'text-white' : 'text-gray-800',
+    textMuted: theme === 'dark' ? 'text-gray-400' : theme === 'blueprint' ? 'text-blue-200' : 'text-gray-600',
+    sectionBg: theme === 'dark' ? 'bg-[#1f1f1f]' : theme === 'blueprint' ? 'bg-[#163567]' : 'bg-gray-50',
+    select: theme === 'dark' ? 'bg-[#1a1a1a]' : theme === 'blueprint' ? 'bg-[#0A2463]' : 'bg-white',
+  };
+
+  // Close modal when clicking backdrop
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget) {
+      toggleTemplateExportModal();
+    }
+  };
+
+  const handleExport = () => {
+    if (!activeTab || !selectedObject) return;
+    exportTiledTemplate(selectedObject, activeTab.objects, activeTab.assemblies, options);
+    toggleTemplateExportModal();
+  };
+
+  const selectClass = `w-full px-3 py-2 text-sm rounded border ${colors.border} ${colors.text} ${colors.select} focus:outline-none focus:ring-1 focus:ring-blue-500`;
+
+  return (
+    <div
+      className={`fixed inset-0 ${colors.backdrop} flex items-center justify-center z-50 p-4`}
+      onClick={handleBackdropClick}
+    >
+      <div className={`${colors.modalBg} rounded-lg shadow-2xl border ${colors.border} w-full max-w-md max-h-[80vh] flex flex-col`}>
+        {/* Header */}
+        <div className={`px-6 py-4 border-b ${colors.border} flex items-center justify-between`}>
+          <div>
+            <h2 className={`text-lg font-semibold ${colors.text}`}>
+              Full-Size Template
+            </h2>
+            <p className={`text-xs ${colors.textMuted} mt-1`}>
+              {selectedObject ? `${selectedObject.name}, printed 1:1 across pages` : 'Select an object first'}
+            </p>
+          </div>
+          <button
+            onClick={toggleTemplateExportModal}
+            className={`w-8 h-8 flex items-center justify-center rounded ${colors.border} border hover:bg-opacity-10 hover:bg-white transition-colors ${colors.text}`}
+            title="Close"
+          >
+            ✕
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          <div className={`${colors.sectionBg} rounded-lg p-4 space-y-3`}>
+            <div>
+              <label className={`block text-xs font-medium ${colors.text} mb-2`}>Face (view)</label>
+              <select value={view} onChange={(e) => setView(e.target.value as ViewType)} className={selectClass}>
+                {TEMPLATE_VIEWS.map((v) => (
+                  <option key={v} value={v}>{getViewDisplayName(v)}</option>
+                ))}
+              </select>
+            </div>
+            <div className="flex gap-3">
+              <div className="flex-1">
+                <label className={`block text-xs font-medium ${colors.text} mb-2`}>Paper</label>
+                <select value={paper} onChange={(e) => setPaper(e.target.value as PaperSizeId)} className={selectClass}>
+                  {TEMPLATE_PAPERS.map((id) => (
+                    <option key={id} value={id}>{PAPER_SIZES[id].name}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex-1">
+                <label className={`block text-xs font-medium ${colors.text} mb-2`}>Orientation</label>
+                <select value={orientation} onChange={(e) => setOrientation(e.target.value as PaperOrientation)} className={selectClass}>
+                  <option value="portrait">Portrait</option>
+                  <option value="landscape">Landscape</option>
+                </select>
+              </div>
+            </div>
+          </div>
+
+          {/* Page Grid Preview */}
+          {grid && (
+            <div className={`${colors.sectionBg} rounded-lg p-4`}>
+              <div className={`text-xs ${colors.textMuted} mb-2`}>
+                {grid.rows * grid.cols} {grid.rows * grid.cols === 1 ? 'page' : 'pages'} ({grid.rows} × {grid.cols})
+              </div>
+              <div
+                className="grid gap-1"
+                style={{ gridTemplateColumns: `repeat(${Math.min(grid.cols, 12)}, minmax(0, 1fr))` }}
+              >
+                {Array.from({ length: Math.min(grid.rows, 12) * Math.min(grid.cols, 12) }, (_, i) => {
+                  const cols = Math.min(grid.cols, 12);
+                  return (
+                    <div
+                      key={i}
+                      className={`border ${colors.border} ${colors.text} text-[10px] text-center py-1 rounded`}
+                    >
+                      {getTileLabel(Math.floor(i / cols), i % cols)}
+                    </div>
+                  );
+                })}
+              </div>
+              <p className={`text-xs ${colors.textMuted} mt-2`}>
+                Print at 100% and check the 1" calibration square on each page before taping.
+              </p>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className={`px-6 py-3 border-t ${colors.border} flex items-center justify-end gap-2`}>
+          <button
+            onClick={toggleTemplateExportModal}
+            className={`px-4 py-2 text-sm rounded border ${colors.border} ${colors.text}`}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={!selectedObject}
+            className="px-4 py-2 text-sm bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors disabled:opacity-50"
+          >
+            Export
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
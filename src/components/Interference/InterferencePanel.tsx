@@ -0,0 +1,155 @@
+import { useState } from 'react';
+import { useProjectStore, useUnitSystem } from '@/stores/projectStore';
+import { useUIStore } from '@/stores/uiStore';
+import { useInterferences } from '@/hooks/useInterferences';
+import { Interference } from '@/lib/geometry/interference';
+import { formatVolume } from '@/lib/units/units';
+
+/**
+ * Lists parts whose boxes overlap, steps through them on the canvas, and lets
+ * intentional overlaps (joinery) be allowed so they stop being flagged
+ */
+export function InterferencePanel() {
+  const objects = useProjectStore((state) => state.tabs[state.activeTabIndex]?.objects || []);
+  const allowances = useProjectStore((state) => state.tabs[state.activeTabIndex]?.allowedInterferences || []);
+  const { selectObject, clearSelection, allowInterference, removeAllowedInterference } = useProjectStore();
+  const { theme, toggleInterferencePanel } = useUIStore();
+  const units = useUnitSystem();
+  const interferences = useInterferences();
+
+  const [currentKey, setCurrentKey] = useState<string | null>(null);
+  const [note, setNote] = useState('');
+
+  const colors = {
+    border: theme === 'dark' ? 'border-[#333333]' : theme === 'blueprint' ? 'border-[#1E3A8A]' : 'border-gray-300',
+    text: theme === 'dark' ? 'text-white' : theme === 'blueprint' ? 'text-white' : 'text-gray-800',
+    textMuted: theme === 'dark' ? 'text-gray-400' : theme === 'blueprint' ? 'text-blue-200' : 'text-gray-500',
+    bg: theme === 'dark' ? 'bg-[#1a1a1a]' : theme === 'blueprint' ? 'bg-[#0A2463]' : 'bg-white',
+    current: theme === 'dark' ? 'bg-[#3a3a3a]' : theme === 'blueprint' ? 'bg-[#2E4A9A]' : 'bg-blue-50',
+    hover: theme === 'dark' ? 'hover:bg-[#2a2a2a]' : theme === 'blueprint' ? 'hover:bg-[#1E3A8A]' : 'hover:bg-gray-50',
+    inputBg: theme === 'dark' ? 'bg-[#2a2a2a]' : theme === 'blueprint' ? 'bg-[#1E3A8A]' : 'bg-white',
+    inputBorder: theme === 'dark' ? 'border-[#444444]' : theme === 'blueprint' ? 'border-[#2E4A9A]' : 'border-gray-300',
+  };
+
+  const collisions = interferences.filter((i) => !i.allowedId);
+  const current = interferences.find((i) => i.key === currentKey) ?? null;
+  const nameOf = (id: string) => objects.find((obj) => obj.id === id)?.name ?? 'Unknown part';
+  const noteOf = (allowedId: string) => allowances.find((a) => a.id === allowedId)?.note ?? '';
+
+  // Show an overlap by selecting both parts
+  const show = (interference: Interference) => {
+    setCurrentKey(interference.key);
+    setNote('');
+    clearSelection();
+    selectObject(interference.objectIds[0]);
+    selectObject(interference.objectIds[1], true);
+  };
+
+  // Step through the collisions, wrapping around at either end
+  const step = (direction: 1 | -1) => {
+    if (collisions.length === 0) return;
+    const index = collisions.findIndex((i) => i.key === currentKey);
+    const next = index === -1
+      ? (direction === 1 ? 0 : collisions.length - 1)
+      : (index + direction + collisions.length) % collisions.length;
+    show(collisions[next]);
+  };
+
+  return (
+    <div className={`flex flex-col h-full ${colors.bg}`}>
+      {/* Header */}
+      <div className={`p-4 border-b ${colors.border} flex items-center justify-between`}>
+        <h2 className={`text-sm font-semibold ${colors.text}`}>
+          Interference
+          {collisions.length > 0 && (
+            <span className="ml-2 px-1.5 py-0.5 text-xs font-medium text-white bg-red-600 rounded">{collisions.length}</span>
+          )}
+        </h2>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => step(-1)}
+            disabled={collisions.length === 0}
+            className={`px-2 text-xs ${colors.textMuted} disabled:opacity-40`}
+            title="Previous collision"
+          >
+            ◀
+          </button>
+          <button
+            onClick={() => step(1)}
+            disabled={collisions.length === 0}
+            className={`px-2 text-xs ${colors.textMuted} disabled:opacity-40`}
+            title="Next collision"
+          >
+            ▶
+          </button>
+          <button onClick={toggleInterferencePanel} className={`px-1 text-xs ${colors.textMuted}`} title="Close">
+            ✕
+          </button>
+        </div>
+      </div>
+
+      {/* List */}
+      <div className="flex-1 overflow-y-auto">
+        {interferences.length === 0 ? (
+          <p className={`p-4 text-xs ${colors.textMuted}`}>No parts overlap.</p>
+        ) : (
+          <ul>
+            {interferences.map((interference) => (
+              <li key={interference.key}>
+                <button
+                  onClick={() => show(interference)}
+                  className={`w-full px-4 py-2 text-left text-xs border-b ${colors.border} ${
+                    interference.key === currentKey ? colors.current : colors.hover
+                  }`}
+                >
+                  <div className={`flex items-center justify-between gap-2 ${interference.allowedId ? colors.textMuted : 'text-red-600'}`}>
+                    <span className="truncate">
+                      {nameOf(interference.objectIds[0])} ↔ {nameOf(interference.objectIds[1])}
+                    </span>
+                    <span className="flex-none">{formatVolume(interference.volume, units)}</span>
+                  </div>
+                  {interference.allowedId && (
+                    <div className={`truncate ${colors.textMuted}`}>
+                      Allowed{noteOf(interference.allowedId) && `: ${noteOf(interference.allowedId)}`}
+                    </div>
+                  )}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Current overlap */}
+      {current && (
+        <div className={`p-4 border-t ${colors.border} space-y-2`}>
+          {current.allowedId ? (
+            <button
+              onClick={() => removeAllowedInterference(current.allowedId!)}
+              className={`w-full px-2 py-1 text-xs border ${colors.inputBorder} rounded ${colors.text} ${colors.hover}`}
+            >
+              Flag This Overlap Again
+            </button>
+          ) : (
+            <>
+              <input
+                type="text"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder="Reason, e.g. tenon in mortise"
+                className={`w-full px-2 py-1 text-xs border ${colors.inputBorder} ${colors.inputBg} ${colors.text} rounded focus:outline-none focus:ring-1 focus:ring-blue-500`}
+              />
+              <button
+                onClick={() => allowInterference(current.objectIds, note.trim())}
+                className={`w-full px-2 py-1 text-xs border ${colors.inputBorder} rounded ${colors.text} ${colors.hover}`}
+                title="Intentional overlaps such as joinery stop being flagged"
+              >
+                Allow This Overlap
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -10,7 +10,7 @@ export function AppMenu() {
   const [isHovered, setIsHovered] = useState(false);
   const [recentProjects, setRecentProjects] = useState<RecentProject[]>([]);
   const menuRef = useRef<HTMLDivElement>(null);
-  const { theme, requestExportPNG, requestExportPDF, toggleSettingsModal } = useUIStore();
+  const { theme, requestExportPNG, requestExportPDF, toggleExportPDFModal, toggleSheetComposerModal, toggleSettingsModal } = useUIStore();
 
   // Subscribe to specific state we need (proper reactivity)
   const projectInfo = useProjectStore((state) => state.tabs[state.activeTabIndex]?.projectInfo);
@@ -174,6 +174,16 @@ export function AppMenu() {
     requestExportPDF();
   };
 
+  const handleExportVectorPDF = () => {
+    setIsOpen(false);
+    toggleExportPDFModal();
+  };
+
+  const handleExportSheet = () => {
+    setIsOpen(false);
+    toggleSheetComposerModal();
+  };
+
   const handleSettings = () => {
     setIsOpen(false);
     toggleSettingsModal();
@@ -339,7 +349,21 @@ export function AppMenu() {
             onClick={handleExportPDF}
             className={`w-full text-left px-4 py-2 text-sm ${colors.menuText} ${colors.hover} transition-colors`}
           >
-            Export PDF
+            Export PDF (Screenshot)
+          </button>
+
+          <button
+            onClick={handleExportVectorPDF}
+            className={`w-full text-left px-4 py-2 text-sm ${colors.menuText} ${colors.hover} transition-colors`}
+          >
+            Export PDF Drawings...
+          </button>
+
+          <button
+            onClick={handleExportSheet}
+            className={`w-full text-left px-4 py-2 text-sm ${colors.menuText} ${colors.hover} transition-colors`}
+          >
+            Export Multi-View Sheet...
           </button>
 
           <div className={`border-t ${colors.border} my-1`} />
@@ -7,11 +7,16 @@ import { TabBar } from './TabBar';
 import { LibraryPanel } from '@/components/Library/LibraryPanel';
 import { PropertiesPanel } from '@/components/Properties/PropertiesPanel';
 import { AssembliesPanel } from '@/components/Assemblies/AssembliesPanel';
+import { InterferencePanel } from '@/components/Interference/InterferencePanel';
 import { ProjectDetailsPanel } from '@/components/ProjectDetails/ProjectDetailsPanel';
 import { CutListModal } from '@/components/CutList/CutListModal';
 import { SettingsModal } from '@/components/Settings/SettingsModal';
 import { RecoveryModal } from '@/components/Recovery/RecoveryModal';
 import { ArrayModal } from '@/components/Tools/ArrayModal';
+import { ProfileEditorModal } from '@/components/Tools/ProfileEditorModal';
+import { ExportPDFModal } from '@/components/Export/ExportPDFModal';
+import { TemplateExportModal } from '@/components/Export/TemplateExportModal';
+import { SheetComposerModal } from '@/components/Export/SheetComposerModal';
 import { useUIStore } from '@/stores/uiStore';
 import { useKeyboardShortcuts } from '@/hooks/useKeyboardShortcuts';
 import { useAutoSave } from '@/hooks/useAutoSave';
@@ -22,15 +27,22 @@ export function MainLayout() {
     libraryPanelOpen,
     propertiesPanelOpen,
     assembliesPanelOpen,
+    interferencePanelOpen,
     projectDetailsPanelOpen,
     cutListModalOpen,
     settingsModalOpen,
     arrayModalOpen,
+    exportPDFModalOpen,
+    templateExportModalOpen,
+    sheetComposerModalOpen,
+    profileEditorOpen,
+    profileEditorObjectId,
     projectDetailsPanelCollapsed,
     propertiesPanelCollapsed,
     assembliesPanelCollapsed,
     theme,
-    toggleArrayModal
+    toggleArrayModal,
+    closeProfileEditor
   } = useUIStore();
 
   // Enable global keyboard shortcuts
@@ -91,7 +103,7 @@ export function MainLayout() {
         </div>
 
         {/* Right Panel (Properties + Assemblies) */}
-        {(propertiesPanelOpen || assembliesPanelOpen) && (
+        {(propertiesPanelOpen || assembliesPanelOpen || interferencePanelOpen) && (
           <div className={`w-64 ${colors.panelBg} border-l ${colors.border} flex flex-col`}>
             {propertiesPanelOpen && (
               <div className={`${propertiesPanelCollapsed ? 'flex-none' : 'flex-1'} overflow-hidden`}>
@@ -103,6 +115,11 @@ export function MainLayout() {
                 <AssembliesPanel />
               </div>
             )}
+            {interferencePanelOpen && (
+              <div className={`h-72 flex-none overflow-hidden ${propertiesPanelOpen || assembliesPanelOpen ? `border-t ${colors.border}` : ''}`}>
+                <InterferencePanel />
+              </div>
+            )}
           </div>
         )}
       </div>
@@ -130,6 +147,18 @@ export function MainLayout() {
       {/* Array Modal */}
       {arrayModalOpen && <ArrayModal onClose={toggleArrayModal} />}
 
+      {/* Profile Editor Modal */}
+      {profileEditorOpen && <ProfileEditorModal objectId={profileEditorObjectId} onClose={closeProfileEditor} />}
+
+      {/* Export PDF Modal */}
+      {exportPDFModalOpen && <ExportPDFModal />}
+
+      {/* Template Export Modal */}
+      {templateExportModalOpen && <TemplateExportModal />}
+
+      {/* Sheet Composer Modal */}
+      {sheetComposerModalOpen && <SheetComposerModal />}
+
       {/* Recovery Modal */}
       {!isCheckingRecovery && recoveryAvailable && (
         <RecoveryModal
@@ -11,10 +11,15 @@ export function ViewOptionsMenu() {
     minorGridVisible,
     viewCubeVisible,
     gizmoVisible,
+    sheetPreviewVisible,
+    jointMarkersVisible,
+    partLabelsVisible,
+    renderMode,
     libraryPanelOpen,
     propertiesPanelOpen,
     controlsPanelOpen,
     assembliesPanelOpen,
+    interferencePanelOpen,
     projectDetailsPanelOpen,
     theme,
     toggleGrid,
@@ -22,10 +27,15 @@ export function ViewOptionsMenu() {
     toggleMinorGrid,
     toggleViewCube,
     toggleGizmo,
+    toggleSheetPreview,
+    toggleJointMarkers,
+    togglePartLabels,
+    setRenderMode,
     toggleLibraryPanel,
     togglePropertiesPanel,
     toggleControlsPanel,
     toggleAssembliesPanel,
+    toggleInterferencePanel,
     toggleProjectDetailsPanel,
     toggleCutListModal,
     setTheme,
@@ -121,6 +131,46 @@ export function ViewOptionsMenu() {
                 {gizmoVisible && '✓'}
               </span>
             </button>
+
+            <button
+              onClick={toggleSheetPreview}
+              className="w-full flex items-center justify-between px-2 py-1.5 text-sm hover:bg-gray-100 rounded transition-colors"
+            >
+              <span>Sheet Preview</span>
+              <span className="text-xs text-gray-500">
+                {sheetPreviewVisible && '✓'}
+              </span>
+            </button>
+
+            <button
+              onClick={toggleJointMarkers}
+              className="w-full flex items-center justify-between px-2 py-1.5 text-sm hover:bg-gray-100 rounded transition-colors"
+            >
+              <span>Joint Markers</span>
+              <span className="text-xs text-gray-500">
+                {jointMarkersVisible && '✓'}
+              </span>
+            </button>
+
+            <button
+              onClick={togglePartLabels}
+              className="w-full flex items-center justify-between px-2 py-1.5 text-sm hover:bg-gray-100 rounded transition-colors"
+            >
+              <span>Part Labels</span>
+              <span className="text-xs text-gray-500">
+                {partLabelsVisible && '✓'}
+              </span>
+            </button>
+
+            <button
+              onClick={() => setRenderMode(renderMode === 'hidden-line' ? 'shaded' : 'hidden-line')}
+              className="w-full flex items-center justify-between px-2 py-1.5 text-sm hover:bg-gray-100 rounded transition-colors"
+            >
+              <span>Hidden-Line Mode</span>
+              <span className="text-xs text-gray-500">
+                {renderMode === 'hidden-line' && '✓'}
+              </span>
+            </button>
           </div>
 
           {/* Panels Section */}
@@ -177,6 +227,16 @@ export function ViewOptionsMenu() {
               </span>
             </button>
 
+            <button
+              onClick={toggleInterferencePanel}
+              className="w-full flex items-center justify-between px-2 py-1.5 text-sm hover:bg-gray-100 rounded transition-colors"
+            >
+              <span>Interference Check</span>
+              <span className="text-xs text-gray-500">
+                {interferencePanelOpen && '✓'}
+              </span>
+            </button>
+
             <button
               onClick={toggleCutListModal}
               className="w-full flex items-center justify-between px-2 py-1.5 text-sm hover:bg-gray-100 rounded transition-colors"
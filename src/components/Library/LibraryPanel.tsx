@@ -3,16 +3,19 @@ import { LUMBER_LIBRARY, getCategories, getLumberByCategory } from '@/lib/data/l
 import { LumberLibraryItem } from '@/types';
 import { useUIStore } from '@/stores/uiStore';
 import { useCustomLumberStore } from '@/stores/customLumberStore';
+import { usePriceStore } from '@/stores/priceStore';
 import { AddCustomLumberModal } from './AddCustomLumberModal';
+import { PriceTable } from './PriceTable';
 
 export function LibraryPanel() {
-  const { theme } = useUIStore();
+  const { theme, openProfileEditor } = useUIStore();
   const { customItems } = useCustomLumberStore();
   const [searchQuery, setSearchQuery] = useState('');
   const [expandedCategories, setExpandedCategories] = useState<Set<string>>(
     new Set(['Dimensional Lumber']) // Dimensional Lumber expanded by default
   );
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
+  const [showPrices, setShowPrices] = useState(false);
   const [editingItem, setEditingItem] = useState<LumberLibraryItem | null>(null);
 
   // Combine static library with custom items
@@ -60,13 +63,31 @@ export function LibraryPanel() {
       <div className={`p-4 border-b ${colors.border}`}>
         <div className="flex items-center justify-between mb-2">
           <h2 className={`text-sm font-semibold ${colors.text}`}>Library</h2>
-          <button
-            onClick={() => setIsAddModalOpen(true)}
-            className={`px-2 py-1 text-xs bg-blue-600 hover:bg-blue-700 text-white rounded transition-colors`}
-            title="Add custom lumber item"
-          >
-            + Custom
-          </button>
+          <div className="flex gap-1">
+            <button
+              onClick={() => setShowPrices(!showPrices)}
+              className={`px-2 py-1 text-xs border ${colors.border} ${colors.hover} rounded transition-colors ${
+                showPrices ? 'bg-blue-600 text-white' : colors.text
+              }`}
+              title="Edit the prices used for cost estimates"
+            >
+              $ Prices
+            </button>
+            <button
+              onClick={() => openProfileEditor(null)}
+              className={`px-2 py-1 text-xs border ${colors.border} ${colors.text} ${colors.hover} rounded transition-colors`}
+              title="Draw a part with a curved or angled outline"
+            >
+              + Profile
+            </button>
+            <button
+              onClick={() => setIsAddModalOpen(true)}
+              className={`px-2 py-1 text-xs bg-blue-600 hover:bg-blue-700 text-white rounded transition-colors`}
+              title="Add custom lumber item"
+            >
+              + Custom
+            </button>
+          </div>
         </div>
 
         {/* Search */}
@@ -81,7 +102,10 @@ export function LibraryPanel() {
 
       {/* Library Items */}
       <div className="flex-1 overflow-y-auto">
-        {filteredItems ? (
+        {showPrices ? (
+          // Price table for the cost estimate
+          <PriceTable items={filteredItems ?? allItems} colors={colors} />
+        ) : filteredItems ? (
           // Search results
           <div className="p-2">
             {filteredItems.length === 0 ? (
@@ -176,6 +200,7 @@ interface LumberItemProps {
 
 function LumberItem({ item, colors, onEdit }: LumberItemProps) {
   const { deleteCustomItem } = useCustomLumberStore();
+  const setPrice = usePriceStore((state) => state.setPrice);
   const [showActions, setShowActions] = useState(false);
 
   const handleDragStart = (e: React.DragEvent) => {
@@ -188,6 +213,7 @@ function LumberItem({ item, colors, onEdit }: LumberItemProps) {
     e.stopPropagation();
     if (window.confirm(`Delete "${item.nominalName}"?`)) {
       deleteCustomItem(item.id);
+      setPrice(item.id, null);
     }
   };
 
@@ -215,7 +241,7 @@ function LumberItem({ item, colors, onEdit }: LumberItemProps) {
             )}
           </div>
           <div className={`text-xs ${colors.textMuted}`}>
-            {width}" × {height}" × {depth}"
+            {item.round ? `⌀${width}" × ${depth}"` : `${width}" × ${height}" × ${depth}"`}
           </div>
         </div>
 
@@ -0,0 +1,77 @@
+import { LumberLibraryItem, PriceUnit } from '@/types';
+import { usePriceStore } from '@/stores/priceStore';
+import { PRICE_UNITS } from '@/lib/cutlist/pricing';
+
+interface PriceTableProps {
+  items: LumberLibraryItem[];
+  colors: any;
+}
+
+/**
+ * Editable prices for library items, grouped by category
+ * Clearing a price leaves the item out of the cut list's cost estimate.
+ */
+export function PriceTable({ items, colors }: PriceTableProps) {
+  const { prices, setPrice } = usePriceStore();
+  const categories = Array.from(new Set(items.map((item) => item.category)));
+
+  const handleAmountChange = (item: LumberLibraryItem, text: string) => {
+    const amount = parseFloat(text);
+    if (text.trim() === '' || isNaN(amount)) {
+      setPrice(item.id, null);
+      return;
+    }
+    const unit = prices[item.id]?.unit ?? (item.category === 'Sheet Goods' ? 'sheet' : 'board');
+    setPrice(item.id, { amount: Math.max(0, amount), unit });
+  };
+
+  if (items.length === 0) {
+    return <p className={`text-xs ${colors.textMuted} text-center py-4`}>No items found</p>;
+  }
+
+  return (
+    <div>
+      {categories.map((category) => (
+        <div key={category} className={`border-b ${colors.border}`}>
+          <div className={`px-4 py-2 text-sm font-medium ${colors.text}`}>{category}</div>
+          <div className={colors.categoryBg}>
+            {items.filter((item) => item.category === category).map((item) => {
+              const price = prices[item.id];
+              return (
+                <div key={item.id} className={`px-4 py-1 flex items-center gap-2 border-b ${colors.border} last:border-b-0`}>
+                  <div className="flex-1 min-w-0">
+                    <div className={`text-xs font-medium ${colors.text} truncate`}>{item.nominalName}</div>
+                    <div className={`text-xs ${colors.textMuted}`}>{item.material}</div>
+                  </div>
+                  <span className={`text-xs ${colors.textMuted}`}>$</span>
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.01}
+                    placeholder="—"
+                    value={price ? price.amount : ''}
+                    onChange={(e) => handleAmountChange(item, e.target.value)}
+                    className={`w-16 px-1 py-0.5 text-xs border ${colors.border} ${colors.inputBg} ${colors.text} rounded`}
+                  />
+                  <select
+                    value={price?.unit ?? ''}
+                    onChange={(e) => price && setPrice(item.id, { ...price, unit: e.target.value as PriceUnit })}
+                    disabled={!price}
+                    className={`w-24 px-1 py-0.5 text-xs border ${colors.border} ${colors.inputBg} ${colors.text} rounded disabled:opacity-50`}
+                  >
+                    {!price && <option value="">per …</option>}
+                    {PRICE_UNITS.map((unit) => (
+                      <option key={unit.value} value={unit.value}>
+                        {unit.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,5 +1,7 @@
 import { useProjectStore } from '@/stores/projectStore';
 import { useUIStore } from '@/stores/uiStore';
+import { VariablesEditor } from './VariablesEditor';
+import { toDisplayLength, fromDisplayLength } from '@/lib/units/units';
 
 export function ProjectDetailsPanel() {
   // Subscribe to active tab data with proper selectors
@@ -9,6 +11,7 @@ export function ProjectDetailsPanel() {
   const { setProjectInfo } = useProjectStore();
   const { theme, projectDetailsPanelCollapsed, toggleProjectDetailsPanelCollapse } = useUIStore();
   const isCollapsed = projectDetailsPanelCollapsed;
+  const units = projectInfo.units || 'imperial';
 
   // Theme-based colors
   const colors = {
@@ -30,7 +33,7 @@ export function ProjectDetailsPanel() {
   };
 
   const handleDimensionChange = (dimension: 'width' | 'height' | 'depth', value: string) => {
-    const numValue = parseFloat(value);
+    const numValue = fromDisplayLength(parseFloat(value), units);
     if (!isNaN(numValue) && numValue > 0) {
       setProjectInfo({
         exteriorDimensions: {
@@ -89,6 +92,30 @@ export function ProjectDetailsPanel() {
           />
         </div>
 
+        {/* Designer and Revision */}
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className={`block text-xs font-medium ${colors.text} mb-1`}>Designer</label>
+            <input
+              type="text"
+              value={projectInfo.designer || ''}
+              onChange={(e) => setProjectInfo({ designer: e.target.value })}
+              placeholder="Name"
+              className={`w-full px-2 py-1 text-sm border ${colors.inputBorder} ${colors.inputBg} ${colors.text} rounded focus:outline-none focus:ring-1 focus:ring-blue-500`}
+            />
+          </div>
+          <div>
+            <label className={`block text-xs font-medium ${colors.text} mb-1`}>Revision</label>
+            <input
+              type="text"
+              value={projectInfo.revision || ''}
+              onChange={(e) => setProjectInfo({ revision: e.target.value })}
+              placeholder="A"
+              className={`w-full px-2 py-1 text-sm border ${colors.inputBorder} ${colors.inputBg} ${colors.text} rounded focus:outline-none focus:ring-1 focus:ring-blue-500`}
+            />
+          </div>
+        </div>
+
         {/* Dates */}
         <div className="grid grid-cols-2 gap-3">
           <div>
@@ -114,7 +141,7 @@ export function ProjectDetailsPanel() {
         {/* Exterior Dimensions */}
         <div>
           <label className={`block text-xs font-medium ${colors.text} mb-1`}>
-            Exterior Dimensions (inches)
+            Exterior Dimensions ({units === 'metric' ? 'mm' : 'inches'})
           </label>
           <p className={`text-xs ${colors.textMuted} mb-2`}>
             Optional: Overall project size
@@ -124,10 +151,10 @@ export function ProjectDetailsPanel() {
               <label className={`block text-xs ${colors.textMuted} mb-1`}>Width</label>
               <input
                 type="number"
-                value={projectInfo.exteriorDimensions?.width || ''}
+                value={projectInfo.exteriorDimensions?.width ? Number(toDisplayLength(projectInfo.exteriorDimensions.width, units).toFixed(2)) : ''}
                 onChange={(e) => handleDimensionChange('width', e.target.value)}
                 placeholder="0"
-                step="0.25"
+                step={units === 'metric' ? 1 : 0.25}
                 min="0"
                 className={`w-full px-2 py-1 text-sm border ${colors.inputBorder} ${colors.inputBg} ${colors.text} rounded focus:outline-none focus:ring-1 focus:ring-blue-500`}
               />
@@ -136,10 +163,10 @@ export function ProjectDetailsPanel() {
               <label className={`block text-xs ${colors.textMuted} mb-1`}>Height</label>
               <input
                 type="number"
-                value={projectInfo.exteriorDimensions?.height || ''}
+                value={projectInfo.exteriorDimensions?.height ? Number(toDisplayLength(projectInfo.exteriorDimensions.height, units).toFixed(2)) : ''}
                 onChange={(e) => handleDimensionChange('height', e.target.value)}
                 placeholder="0"
-                step="0.25"
+                step={units === 'metric' ? 1 : 0.25}
                 min="0"
                 className={`w-full px-2 py-1 text-sm border ${colors.inputBorder} ${colors.inputBg} ${colors.text} rounded focus:outline-none focus:ring-1 focus:ring-blue-500`}
               />
@@ -148,10 +175,10 @@ export function ProjectDetailsPanel() {
               <label className={`block text-xs ${colors.textMuted} mb-1`}>Length</label>
               <input
                 type="number"
-                value={projectInfo.exteriorDimensions?.depth || ''}
+                value={projectInfo.exteriorDimensions?.depth ? Number(toDisplayLength(projectInfo.exteriorDimensions.depth, units).toFixed(2)) : ''}
                 onChange={(e) => handleDimensionChange('depth', e.target.value)}
                 placeholder="0"
-                step="0.25"
+                step={units === 'metric' ? 1 : 0.25}
                 min="0"
                 className={`w-full px-2 py-1 text-sm border ${colors.inputBorder} ${colors.inputBg} ${colors.text} rounded focus:outline-none focus:ring-1 focus:ring-blue-500`}
               />
@@ -159,6 +186,9 @@ export function ProjectDetailsPanel() {
           </div>
         </div>
 
+        {/* Parametric Variables */}
+        <VariablesEditor />
+
         {/* Project Notes */}
         <div>
           <label className={`block text-xs font-medium ${colors.text} mb-1`}>Project Notes</label>
@@ -0,0 +1,210 @@
+import { useMemo, useState } from 'react';
+import { useProjectStore, useUnitSystem } from '@/stores/projectStore';
+import { useUIStore } from '@/stores/uiStore';
+import {
+  validateVariables,
+  evaluateModel,
+  renameVariableReferences,
+  findVariableReferences,
+} from '@/lib/parametric/variables';
+import { getLengthUnit } from '@/lib/units/units';
+import { ProjectVariable } from '@/types';
+
+interface VariableRowProps {
+  variable: ProjectVariable;
+  inputClass: string;
+  mutedClass: string;
+  onCommit: (updates: Partial<ProjectVariable>) => string | null;
+  onRemove: () => void;
+}
+
+/**
+ * One variable: name and expression are edited locally and applied on blur or Enter
+ */
+function VariableRow({ variable, inputClass, mutedClass, onCommit, onRemove }: VariableRowProps) {
+  const [name, setName] = useState(variable.name);
+  const [expression, setExpression] = useState(variable.expression);
+  const [error, setError] = useState<string | null>(null);
+
+  const commit = () => {
+    if (name.trim() === variable.name && expression.trim() === variable.expression) {
+      setError(null);
+      return;
+    }
+    setError(onCommit({ name: name.trim(), expression: expression.trim() }));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.currentTarget.blur();
+    } else if (e.key === 'Escape') {
+      setName(variable.name);
+      setExpression(variable.expression);
+      setError(null);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center gap-1">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onBlur={commit}
+          onKeyDown={handleKeyDown}
+          className={`w-2/5 font-mono ${inputClass}`}
+        />
+        <span className={`text-xs ${mutedClass}`}>=</span>
+        <input
+          type="text"
+          value={expression}
+          onChange={(e) => setExpression(e.target.value)}
+          onBlur={commit}
+          onKeyDown={handleKeyDown}
+          className={`flex-1 min-w-0 font-mono ${inputClass} ${error ? 'border-red-500' : ''}`}
+        />
+        <button
+          onClick={onRemove}
+          className={`px-1 text-xs ${mutedClass} hover:text-red-500`}
+          title="Remove variable"
+        >
+          ✕
+        </button>
+      </div>
+      {error ? (
+        <p className="mt-0.5 text-[10px] text-red-500">{error}</p>
+      ) : variable.expression !== variable.value.toString() && (
+        <p className={`mt-0.5 text-[10px] ${mutedClass}`}>= {Number(variable.value.toFixed(4))}</p>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Named project variables that dimension and position fields can refer to
+ */
+export function VariablesEditor() {
+  const storedVariables = useProjectStore((state) => state.tabs[state.activeTabIndex]?.variables);
+  const objects = useProjectStore((state) => state.tabs[state.activeTabIndex]?.objects);
+  const { addVariable, updateVariable, removeVariable } = useProjectStore();
+  const { theme } = useUIStore();
+  const units = useUnitSystem();
+  const variables = useMemo(() => storedVariables ?? [], [storedVariables]);
+
+  // Expressions that no longer evaluate, e.g. after a variable they used was removed
+  const modelErrors = useMemo(() => evaluateModel(objects ?? [], variables, units).errors, [objects, variables, units]);
+
+  const [newName, setNewName] = useState('');
+  const [newExpression, setNewExpression] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const colors = {
+    text: theme === 'dark' ? 'text-white' : theme === 'blueprint' ? 'text-white' : 'text-gray-800',
+    textMuted: theme === 'dark' ? 'text-gray-400' : theme === 'blueprint' ? 'text-blue-200' : 'text-gray-500',
+    inputBg: theme === 'dark' ? 'bg-[#2a2a2a]' : theme === 'blueprint' ? 'bg-[#1E3A8A]' : 'bg-white',
+    inputBorder: theme === 'dark' ? 'border-[#444444]' : theme === 'blueprint' ? 'border-[#2E4A9A]' : 'border-gray-300',
+  };
+  const inputClass = `px-2 py-1 text-sm border ${colors.inputBorder} ${colors.inputBg} ${colors.text} rounded focus:outline-none focus:ring-1 focus:ring-blue-500`;
+
+  const handleUpdate = (id: string, updates: Partial<ProjectVariable>): string | null => {
+    // Validate with other variables already pointing at the new name, as the store will rewrite them
+    const previous = variables.find((v) => v.id === id);
+    const renamed = previous && updates.name !== undefined && updates.name !== previous.name
+      ? renameVariableReferences([], variables, previous.name, updates.name).variables
+      : variables;
+    const proposed = renamed.map((v) => (v.id === id ? { ...v, ...updates } : v));
+    const result = validateVariables(proposed);
+    if (!result.valid) return result.error ?? 'Invalid variable';
+
+    updateVariable(id, updates);
+    return null;
+  };
+
+  const handleRemove = (variable: ProjectVariable) => {
+    const references = findVariableReferences(variable.name, objects ?? [], variables);
+    if (references.length > 0) {
+      const usedBy = references.length > 5 ? `${references.slice(0, 5).join(', ')}…` : references.join(', ');
+      const message = `"${variable.name}" is used by ${usedBy}. Remove it anyway? Those fields keep their current values.`;
+      if (!window.confirm(message)) return;
+    }
+    removeVariable(variable.id);
+  };
+
+  const handleAdd = () => {
+    const variable: ProjectVariable = {
+      id: `variable-${Date.now()}`,
+      name: newName.trim(),
+      expression: newExpression.trim() || '0',
+      value: 0,
+    };
+    const result = validateVariables([...variables, variable]);
+    if (!result.valid) {
+      setError(result.error ?? 'Invalid variable');
+      return;
+    }
+
+    addVariable(variable);
+    setNewName('');
+    setNewExpression('');
+    setError(null);
+  };
+
+  return (
+    <div>
+      <label className={`block text-xs font-medium ${colors.text} mb-1`}>Variables</label>
+      <p className={`text-xs ${colors.textMuted} mb-2`}>
+        Use names in dimension and position fields, e.g. carcassWidth - 2*stock. Lengths are in {getLengthUnit(units)}.
+      </p>
+
+      <div className="space-y-2">
+        {variables.map((variable) => (
+          <VariableRow
+            key={variable.id}
+            variable={variable}
+            inputClass={inputClass}
+            mutedClass={colors.textMuted}
+            onCommit={(updates) => handleUpdate(variable.id, updates)}
+            onRemove={() => handleRemove(variable)}
+          />
+        ))}
+
+        {/* New variable */}
+        <div className="flex items-center gap-1">
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="name"
+            className={`w-2/5 font-mono ${inputClass}`}
+          />
+          <span className={`text-xs ${colors.textMuted}`}>=</span>
+          <input
+            type="text"
+            value={newExpression}
+            onChange={(e) => setNewExpression(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+            placeholder="0.75"
+            className={`flex-1 min-w-0 font-mono ${inputClass}`}
+          />
+          <button
+            onClick={handleAdd}
+            disabled={!newName.trim()}
+            className="px-2 py-1 text-xs bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+          >
+            Add
+          </button>
+        </div>
+        {error && <p className="text-[10px] text-red-500">{error}</p>}
+      </div>
+
+      {modelErrors.length > 0 && (
+        <div className="mt-2 space-y-0.5">
+          {modelErrors.map((modelError) => (
+            <p key={modelError} className="text-[10px] text-red-500">{modelError}</p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
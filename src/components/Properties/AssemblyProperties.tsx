@@ -0,0 +1,207 @@
+import { useState, useEffect } from 'react';
+import { useProjectStore } from '@/stores/projectStore';
+import { computeWorldTransform } from '@/lib/hierarchy/transforms';
+import { getInstanceRootId, countComponentInstances } from '@/lib/hierarchy/components';
+import { Assembly } from '@/types';
+
+interface AssemblyPropertiesProps {
+  assembly: Assembly;
+}
+
+/**
+ * Properties of an assembly selected in the tree: moving or rotating it carries its children
+ */
+export function AssemblyProperties({ assembly }: AssemblyPropertiesProps) {
+  const objects = useProjectStore((state) => state.tabs[state.activeTabIndex]?.objects || []);
+  const assemblies = useProjectStore((state) => state.tabs[state.activeTabIndex]?.assemblies || []);
+  const components = useProjectStore((state) => state.tabs[state.activeTabIndex]?.components || []);
+  const {
+    updateAssembly,
+    updateAssemblyPosition,
+    centerAssemblyPivot,
+    reparentNode,
+    saveAssemblyAsComponent,
+    detachComponentInstance,
+  } = useProjectStore();
+
+  // World position of the pivot
+  const worldTransform = computeWorldTransform(assembly.id, objects, assemblies);
+  const rotation = assembly.rotation ?? { x: 0, y: 0, z: 0 };
+
+  // Local state for position inputs (allows proper typing/deletion)
+  const [positionInputs, setPositionInputs] = useState({ x: '0', y: '0', z: '0' });
+
+  useEffect(() => {
+    setPositionInputs({
+      x: worldTransform.position.x.toString(),
+      y: worldTransform.position.y.toString(),
+      z: worldTransform.position.z.toString(),
+    });
+  }, [assembly.id, worldTransform.position.x, worldTransform.position.y, worldTransform.position.z]);
+
+  const handlePositionCommit = (axis: 'x' | 'y' | 'z') => {
+    const numValue = parseFloat(positionInputs[axis]);
+
+    if (isNaN(numValue)) {
+      // If invalid, reset to current world position
+      setPositionInputs((prev) => ({ ...prev, [axis]: worldTransform.position[axis].toString() }));
+      return;
+    }
+
+    updateAssemblyPosition(assembly.id, { ...worldTransform.position, [axis]: numValue });
+  };
+
+  const handlePositionKeyDown = (e: React.KeyboardEvent, axis: 'x' | 'y' | 'z') => {
+    if (e.key === 'Enter') {
+      handlePositionCommit(axis);
+      (e.target as HTMLInputElement).blur();
+    } else if (e.key === 'Escape') {
+      setPositionInputs((prev) => ({ ...prev, [axis]: worldTransform.position[axis].toString() }));
+      (e.target as HTMLInputElement).blur();
+    }
+  };
+
+  const handleRotationChange = (axis: 'x' | 'y' | 'z', value: string) => {
+    const numValue = parseFloat(value);
+    if (!isNaN(numValue)) {
+      updateAssembly(assembly.id, { rotation: { ...rotation, [axis]: numValue } });
+    }
+  };
+
+  const handleParentChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const newParentId = e.target.value === '' ? undefined : e.target.value;
+    reparentNode(assembly.id, newParentId);
+  };
+
+  // An assembly can't be moved under itself or one of its descendants
+  const isDescendant = (id: string): boolean => {
+    const candidate = assemblies.find((asm) => asm.id === id);
+    if (!candidate?.parentId) return false;
+    return candidate.parentId === assembly.id || isDescendant(candidate.parentId);
+  };
+  const parentOptions = assemblies.filter((asm) => asm.id !== assembly.id && !isDescendant(asm.id));
+
+  // Component link: an instance, a part inside an instance, or neither
+  const component = components.find((c) => c.id === assembly.componentId);
+  const instanceCount = component ? countComponentInstances(assemblies).get(component.id) ?? 0 : 0;
+  const isInsideInstance = getInstanceRootId(assembly.id, objects, assemblies) !== null;
+
+  const inputClass = 'w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+  return (
+    <div className="p-4 space-y-4">
+      {/* Assembly Name */}
+      <div>
+        <label className="block text-xs font-medium text-gray-700 mb-1">Assembly Name</label>
+        <input
+          type="text"
+          value={assembly.name}
+          onChange={(e) => updateAssembly(assembly.id, { name: e.target.value })}
+          className={inputClass}
+        />
+      </div>
+
+      {/* Hierarchy */}
+      <div>
+        <label className="block text-xs font-medium text-gray-700 mb-1">Parent Assembly</label>
+        <select value={assembly.parentId || ''} onChange={handleParentChange} className={inputClass}>
+          <option value="">None (Root Level)</option>
+          {parentOptions.map((option) => (
+            <option key={option.id} value={option.id}>
+              {option.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Component */}
+      {component ? (
+        <div className="p-2 bg-blue-50 border border-blue-200 rounded space-y-2">
+          <p className="text-xs text-blue-800">
+            Instance of <span className="font-semibold">{component.name}</span> ({instanceCount} {instanceCount === 1 ? 'instance' : 'instances'}).
+            Editing its parts updates every instance.
+          </p>
+          <button
+            onClick={() => detachComponentInstance(assembly.id)}
+            className="w-full px-2 py-1 text-xs border border-gray-300 rounded text-gray-700 bg-white hover:bg-gray-100"
+            title="Keep these parts but stop following the component"
+          >
+            Detach from Component
+          </button>
+        </div>
+      ) : !isInsideInstance && (
+        <button
+          onClick={() => saveAssemblyAsComponent(assembly.id)}
+          className="w-full px-2 py-1 text-xs border border-gray-300 rounded text-gray-700 hover:bg-gray-100"
+          title="Reuse this assembly as linked instances"
+        >
+          Save as Component
+        </button>
+      )}
+
+      {/* Pivot Position */}
+      <div>
+        <label className="block text-xs font-medium text-gray-700 mb-1">Pivot Position (inches)</label>
+        <div className="grid grid-cols-3 gap-2">
+          {(['x', 'y', 'z'] as const).map((axis) => (
+            <div key={axis}>
+              <label className="block text-xs text-gray-500 mb-1">{axis.toUpperCase()}</label>
+              <input
+                type="text"
+                value={positionInputs[axis]}
+                onChange={(e) => setPositionInputs((prev) => ({ ...prev, [axis]: e.target.value }))}
+                onBlur={() => handlePositionCommit(axis)}
+                onKeyDown={(e) => handlePositionKeyDown(e, axis)}
+                className={inputClass}
+              />
+            </div>
+          ))}
+        </div>
+        {/* An instance's pivot is shared through its definition, so it can't be re-centered alone */}
+        {!component && (
+          <button
+            onClick={() => centerAssemblyPivot(assembly.id)}
+            className="mt-2 w-full px-2 py-1 text-xs border border-gray-300 rounded text-gray-700 hover:bg-gray-100"
+            title="Move the pivot to the center of the parts without moving them"
+          >
+            Center Pivot on Parts
+          </button>
+        )}
+      </div>
+
+      {/* Rotation */}
+      <div>
+        <label className="block text-xs font-medium text-gray-700 mb-1">Rotation about Pivot (degrees)</label>
+        <div className="grid grid-cols-3 gap-2">
+          {(['x', 'y', 'z'] as const).map((axis) => (
+            <div key={axis}>
+              <label className="block text-xs text-gray-500 mb-1">{axis.toUpperCase()}</label>
+              <input
+                type="number"
+                value={rotation[axis]}
+                onChange={(e) => handleRotationChange(axis, e.target.value)}
+                step="15"
+                className={inputClass}
+              />
+            </div>
+          ))}
+        </div>
+        <p className="mt-1 text-xs text-gray-500">
+          Children keep their layout relative to the assembly
+        </p>
+      </div>
+
+      {/* Notes */}
+      <div>
+        <label className="block text-xs font-medium text-gray-700 mb-1">Notes</label>
+        <textarea
+          value={assembly.notes}
+          onChange={(e) => updateAssembly(assembly.id, { notes: e.target.value })}
+          rows={3}
+          placeholder="Add notes about this assembly..."
+          className={`${inputClass} resize-none`}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import { useState, useEffect, useRef } from 'react';
+
+interface ExpressionInputProps {
+  value: number;
+  expression?: string;
+  // Apply the typed text; returns an error message to show, or null when accepted
+  onCommit: (text: string) => string | null;
+  // Display a stored value, e.g. converted to the project's units
+  format?: (value: number) => string;
+  className?: string;
+}
+
+/**
+ * Text field for a number that may also be an expression over project variables
+ * Shows the expression while editing and its evaluated value underneath.
+ */
+export function ExpressionInput({ value, expression, onCommit, format, className = '' }: ExpressionInputProps) {
+  const display = expression ?? (format ? format(value) : value.toString());
+  const [text, setText] = useState(display);
+  const [error, setError] = useState<string | null>(null);
+  const cancelled = useRef(false); // Escape blurs without committing the stale text
+
+  // Sync with the stored value when it changes elsewhere
+  useEffect(() => {
+    setText(display);
+    setError(null);
+  }, [display]);
+
+  const commit = () => {
+    if (cancelled.current) {
+      cancelled.current = false;
+      return;
+    }
+    const trimmed = text.trim();
+    if (trimmed === display) {
+      setError(null);
+      return;
+    }
+    setError(onCommit(trimmed));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    // Blurring commits, so Enter only has to leave the field
+    if (e.key === 'Enter') {
+      e.currentTarget.blur();
+    } else if (e.key === 'Escape') {
+      setText(display);
+      setError(null);
+      cancelled.current = true;
+      e.currentTarget.blur();
+    }
+  };
+
+  return (
+    <div>
+      <input
+        type="text"
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onBlur={commit}
+        onKeyDown={handleKeyDown}
+        title={error ?? (expression ? `${expression} = ${format ? format(value) : value}` : undefined)}
+        className={`${className} ${error ? 'border-red-500 focus:ring-red-500' : ''} ${expression ? 'font-mono text-blue-700' : ''}`}
+      />
+      {error ? (
+        <p className="mt-0.5 text-[10px] leading-tight text-red-600">{error}</p>
+      ) : expression && (
+        <p className="mt-0.5 text-[10px] leading-tight text-gray-500">= {format ? format(value) : Number(value.toFixed(4))}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+import { useState } from 'react';
+import { useProjectStore } from '@/stores/projectStore';
+import { solveConstraints, validateConstraint, describeConstraint } from '@/lib/geometry/constraints';
+import { getLengthUnit } from '@/lib/units/units';
+import { useLengthFormat } from '@/hooks/useLengthFormat';
+import { DraftObject, PartConstraint, ConstraintType, SectionAxis } from '@/types';
+
+interface ObjectConstraintsProps {
+  object: DraftObject;
+}
+
+const FACE_LABELS: Record<SectionAxis, { min: string; max: string }> = {
+  x: { min: 'Left', max: 'Right' },
+  y: { min: 'Bottom', max: 'Top' },
+  z: { min: 'Back', max: 'Front' },
+};
+
+/**
+ * Constraints holding the selected part against other parts, and a form to add one
+ */
+export function ObjectConstraints({ object }: ObjectConstraintsProps) {
+  const objects = useProjectStore((state) => state.tabs[state.activeTabIndex]?.objects || []);
+  const assemblies = useProjectStore((state) => state.tabs[state.activeTabIndex]?.assemblies || []);
+  const constraints = useProjectStore((state) => state.tabs[state.activeTabIndex]?.constraints || []);
+  const { addConstraint, removeConstraint } = useProjectStore();
+  const lengthFormat = useLengthFormat();
+
+  const [targetId, setTargetId] = useState('');
+  const [type, setType] = useState<ConstraintType>('butt');
+  const [axis, setAxis] = useState<SectionAxis>('y');
+  const [side, setSide] = useState<'min' | 'max'>('max');
+  const [offset, setOffset] = useState('0');
+  const [error, setError] = useState<string | null>(null);
+
+  const ownConstraints = constraints.filter((c) => c.objectId === object.id);
+  const targets = objects.filter((obj) => obj.id !== object.id);
+  const { unsatisfied } = solveConstraints(objects, assemblies, constraints);
+  const nameOf = (id: string) => objects.find((obj) => obj.id === id)?.name ?? 'Unknown part';
+
+  const handleAdd = () => {
+    const gap = type === 'offset' ? lengthFormat.parse(offset) : 0;
+    if (gap === null) {
+      setError(`"${offset}" is not a length`);
+      return;
+    }
+
+    const constraint: PartConstraint = {
+      id: `constraint-${Date.now()}`,
+      type,
+      objectId: object.id,
+      targetId,
+      axis,
+      side,
+      offset: gap,
+    };
+
+    const result = validateConstraint(constraint, constraints);
+    if (!result.valid) {
+      setError(result.error ?? 'Invalid constraint');
+      return;
+    }
+
+    addConstraint(constraint);
+    setError(null);
+  };
+
+  const inputClass = 'w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+  return (
+    <div>
+      <label className="block text-xs font-medium text-gray-700 mb-1">Constraints</label>
+
+      {ownConstraints.length > 0 && (
+        <ul className="mb-2 space-y-1">
+          {ownConstraints.map((constraint) => (
+            <li key={constraint.id} className="flex items-center justify-between gap-2 text-xs text-gray-700">
+              <span className={unsatisfied.includes(constraint.id) ? 'text-red-600' : ''}>
+                {constraint.axis.toUpperCase()}: {describeConstraint(constraint, nameOf(constraint.targetId), lengthFormat.format)}
+                {unsatisfied.includes(constraint.id) && ' (conflict)'}
+              </span>
+              <button
+                onClick={() => removeConstraint(constraint.id)}
+                className="text-gray-400 hover:text-red-500"
+                title="Remove constraint"
+              >
+                ✕
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {targets.length === 0 ? (
+        <p className="text-xs text-gray-500">Add another part to constrain this one against it</p>
+      ) : (
+        <div className="space-y-2">
+          <select value={targetId} onChange={(e) => setTargetId(e.target.value)} className={inputClass}>
+            <option value="">Choose a part...</option>
+            {targets.map((target) => (
+              <option key={target.id} value={target.id}>
+                {target.name}
+              </option>
+            ))}
+          </select>
+          <div className="grid grid-cols-3 gap-2">
+            <select value={type} onChange={(e) => setType(e.target.value as ConstraintType)} className={inputClass}>
+              <option value="butt">Butt</option>
+              <option value="flush">Flush</option>
+              <option value="centered">Centered</option>
+              <option value="offset">Offset</option>
+            </select>
+            <select value={axis} onChange={(e) => setAxis(e.target.value as SectionAxis)} className={inputClass}>
+              <option value="x">X</option>
+              <option value="y">Y</option>
+              <option value="z">Z</option>
+            </select>
+            <select
+              value={side}
+              onChange={(e) => setSide(e.target.value as 'min' | 'max')}
+              disabled={type === 'centered'}
+              className={`${inputClass} disabled:bg-gray-50 disabled:text-gray-400`}
+            >
+              <option value="max">{FACE_LABELS[axis].max}</option>
+              <option value="min">{FACE_LABELS[axis].min}</option>
+            </select>
+          </div>
+          {type === 'offset' && (
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">Gap ({getLengthUnit(lengthFormat.units)})</label>
+              <input
+                type="text"
+                value={offset}
+                onChange={(e) => setOffset(e.target.value)}
+                className={inputClass}
+              />
+            </div>
+          )}
+          <button
+            onClick={handleAdd}
+            disabled={!targetId}
+            className="w-full px-2 py-1 text-xs border border-gray-300 rounded text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+          >
+            Add Constraint
+          </button>
+          {error && <p className="text-xs text-red-600">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
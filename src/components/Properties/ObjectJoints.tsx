@@ -0,0 +1,146 @@
+import { useState } from 'react';
+import { useProjectStore } from '@/stores/projectStore';
+import { JOINT_TYPES, getJointGeometry, getJointLabel, validateJoint } from '@/lib/geometry/joinery';
+import { DraftObject, Joint, JointType } from '@/types';
+
+interface ObjectJointsProps {
+  object: DraftObject;
+}
+
+/**
+ * Joints the selected part takes part in, and a form to join it to another part
+ */
+export function ObjectJoints({ object }: ObjectJointsProps) {
+  const objects = useProjectStore((state) => state.tabs[state.activeTabIndex]?.objects || []);
+  const assemblies = useProjectStore((state) => state.tabs[state.activeTabIndex]?.assemblies || []);
+  const joints = useProjectStore((state) => state.tabs[state.activeTabIndex]?.joints || []);
+  const { addJoint, updateJoint, removeJoint } = useProjectStore();
+
+  const [otherId, setOtherId] = useState('');
+  const [role, setRole] = useState<'host' | 'insert'>('insert');
+  const [type, setType] = useState<JointType>('dado');
+  const [depth, setDepth] = useState('0.25');
+  const [width, setWidth] = useState('0');
+  const [offset, setOffset] = useState('0');
+  const [error, setError] = useState<string | null>(null);
+
+  const others = objects.filter((obj) => obj.id !== object.id);
+  const nameOf = (id: string) => objects.find((obj) => obj.id === id)?.name ?? 'Unknown part';
+
+  const handleAdd = () => {
+    const joint: Joint = {
+      id: `joint-${Date.now()}`,
+      type,
+      hostId: role === 'insert' ? otherId : object.id,
+      insertId: role === 'insert' ? object.id : otherId,
+      depth: parseFloat(depth) || 0,
+      width: parseFloat(width) || 0,
+      offset: parseFloat(offset) || 0,
+      notes: '',
+    };
+
+    const result = validateJoint(joint, objects, assemblies);
+    if (!result.valid) {
+      setError(result.error ?? 'Invalid joint');
+      return;
+    }
+
+    addJoint(joint);
+    setError(null);
+  };
+
+  const inputClass = 'w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+  return (
+    <div>
+      <label className="block text-xs font-medium text-gray-700 mb-1">Joinery</label>
+
+      {joints.some((j) => j.hostId === object.id || j.insertId === object.id) && (
+        <ul className="mb-2 space-y-2">
+          {joints.map((joint, index) => {
+            if (joint.hostId !== object.id && joint.insertId !== object.id) return null;
+            const info = JOINT_TYPES[joint.type];
+            const isHost = joint.hostId === object.id;
+            const isDetached = !getJointGeometry(joint, objects, assemblies);
+
+            return (
+              <li key={joint.id} className="text-xs text-gray-700">
+                <div className="flex items-center justify-between gap-2">
+                  <span className={isDetached ? 'text-red-600' : ''}>
+                    <span className="font-semibold" style={{ color: info.color }}>{getJointLabel(index)}</span>{' '}
+                    {info.label} {isHost ? 'for' : 'into'} {nameOf(isHost ? joint.insertId : joint.hostId)}, {joint.depth}" deep
+                    {isDetached && ' (parts apart)'}
+                  </span>
+                  <button
+                    onClick={() => removeJoint(joint.id)}
+                    className="text-gray-400 hover:text-red-500"
+                    title="Remove joint"
+                  >
+                    ✕
+                  </button>
+                </div>
+                <input
+                  type="text"
+                  defaultValue={joint.notes}
+                  onBlur={(e) => e.target.value !== joint.notes && updateJoint(joint.id, { notes: e.target.value })}
+                  placeholder="Notes"
+                  className={`${inputClass} mt-1 text-xs`}
+                />
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {others.length === 0 ? (
+        <p className="text-xs text-gray-500">Add another part to join this one to it</p>
+      ) : (
+        <div className="space-y-2">
+          <select value={otherId} onChange={(e) => setOtherId(e.target.value)} className={inputClass}>
+            <option value="">Choose a part...</option>
+            {others.map((other) => (
+              <option key={other.id} value={other.id}>
+                {other.name}
+              </option>
+            ))}
+          </select>
+          <div className="grid grid-cols-2 gap-2">
+            <select value={type} onChange={(e) => setType(e.target.value as JointType)} className={inputClass}>
+              {(Object.keys(JOINT_TYPES) as JointType[]).map((jointType) => (
+                <option key={jointType} value={jointType}>
+                  {JOINT_TYPES[jointType].label}
+                </option>
+              ))}
+            </select>
+            <select value={role} onChange={(e) => setRole(e.target.value as 'host' | 'insert')} className={inputClass}>
+              <option value="insert">Fits into it</option>
+              <option value="host">Cut into this</option>
+            </select>
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">Depth</label>
+              <input type="number" value={depth} onChange={(e) => setDepth(e.target.value)} step="0.0625" min="0" className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-500 mb-1" title="0 matches the inserted part">Width</label>
+              <input type="number" value={width} onChange={(e) => setWidth(e.target.value)} step="0.0625" min="0" className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-500 mb-1" title="Setback from the ends of the joint">Offset</label>
+              <input type="number" value={offset} onChange={(e) => setOffset(e.target.value)} step="0.0625" min="0" className={inputClass} />
+            </div>
+          </div>
+          <button
+            onClick={handleAdd}
+            disabled={!otherId}
+            className="w-full px-2 py-1 text-xs border border-gray-300 rounded text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+          >
+            Add Joint
+          </button>
+          {error && <p className="text-xs text-red-600">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
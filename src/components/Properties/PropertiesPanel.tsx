@@ -1,43 +1,37 @@
-import { useState, useEffect } from 'react';
 import { useProjectStore } from '@/stores/projectStore';
 import { useUIStore } from '@/stores/uiStore';
-import { computeWorldTransform } from '@/lib/hierarchy/transforms';
+import { roundToWholeUnit } from '@/lib/units/units';
+import { useLengthFormat } from '@/hooks/useLengthFormat';
+import { evaluateVariables, evaluateFieldExpression } from '@/lib/parametric/variables';
+import { ExpressionField } from '@/types';
+import { AssemblyProperties } from './AssemblyProperties';
+import { ExpressionInput } from './ExpressionInput';
+import { ObjectConstraints } from './ObjectConstraints';
+import { ObjectJoints } from './ObjectJoints';
 
 export function PropertiesPanel() {
   // Subscribe to active tab data with proper selectors
   const objects = useProjectStore((state) => state.tabs[state.activeTabIndex]?.objects || []);
   const assemblies = useProjectStore((state) => state.tabs[state.activeTabIndex]?.assemblies || []);
   const selectedObjectIds = useProjectStore((state) => state.tabs[state.activeTabIndex]?.selectedObjectIds || []);
+  const selectedAssemblyId = useProjectStore((state) => state.tabs[state.activeTabIndex]?.selectedAssemblyId ?? null);
+  const variables = useProjectStore((state) => state.tabs[state.activeTabIndex]?.variables || []);
+  const lengthFormat = useLengthFormat();
 
   // Get actions and collapse state from UIStore
-  const { updateObject, updateObjectPosition, reparentNode } = useProjectStore();
-  const { theme, propertiesPanelCollapsed, togglePropertiesPanelCollapse } = useUIStore();
+  const { updateObject, reparentNode, setObjectExpression } = useProjectStore();
+  const { theme, propertiesPanelCollapsed, togglePropertiesPanelCollapse, toggleTemplateExportModal, openProfileEditor } = useUIStore();
   const isCollapsed = propertiesPanelCollapsed;
 
+  // Lengths are shown in the project's units; typed numbers are read in them too
+  const lengthUnit = lengthFormat.units === 'metric' ? 'mm' : 'inches';
+  const formatField = (value: number) => lengthFormat.formatValue(value);
+
   // Get the first selected object
   const selectedObject = selectedObjectIds.length > 0
     ? objects.find((obj) => obj.id === selectedObjectIds[0])
     : null;
 
-  // Get world transform for selected object
-  const worldTransform = selectedObject
-    ? computeWorldTransform(selectedObject.id, objects, assemblies)
-    : null;
-
-  // Local state for position inputs (allows proper typing/deletion)
-  const [positionInputs, setPositionInputs] = useState({ x: '0', y: '0', z: '0' });
-
-  // Sync local state with world transform when object changes
-  useEffect(() => {
-    if (worldTransform) {
-      setPositionInputs({
-        x: worldTransform.position.x.toString(),
-        y: worldTransform.position.y.toString(),
-        z: worldTransform.position.z.toString(),
-      });
-    }
-  }, [selectedObject?.id, worldTransform?.position.x, worldTransform?.position.y, worldTransform?.position.z]);
-
   // Theme-based colors for collapsed state
   const colors = {
     border: theme === 'dark' ? 'border-[#333333]' : theme === 'blueprint' ? 'border-[#1E3A8A]' : 'border-gray-300',
@@ -46,7 +40,27 @@ export function PropertiesPanel() {
     bg: theme === 'dark' ? 'bg-[#1a1a1a]' : theme === 'blueprint' ? 'bg-[#0A2463]' : 'bg-white',
   };
 
-  if (!selectedObject || !worldTransform) {
+  // An assembly picked in the tree is edited as a unit
+  const selectedAssembly = selectedAssemblyId
+    ? assemblies.find((asm) => asm.id === selectedAssemblyId)
+    : null;
+
+  if (selectedAssembly) {
+    return (
+      <div className={`flex flex-col ${isCollapsed ? 'h-auto' : 'h-full'} overflow-y-auto ${colors.bg}`}>
+        {/* Header */}
+        <div className={`p-4 border-b ${colors.border} flex items-center justify-between cursor-pointer`} onClick={togglePropertiesPanelCollapse}>
+          <h2 className={`text-sm font-semibold ${colors.text}`}>Assembly Properties</h2>
+          <button className={`text-xs ${colors.textMuted} transition-transform ${isCollapsed ? '' : 'rotate-180'}`}>
+            ▼
+          </button>
+        </div>
+        {!isCollapsed && <AssemblyProperties assembly={selectedAssembly} />}
+      </div>
+    );
+  }
+
+  if (!selectedObject) {
     return (
       <div className={`flex flex-col ${isCollapsed ? 'h-auto' : 'h-full'} ${colors.bg}`}>
         {/* Header */}
@@ -69,53 +83,41 @@ export function PropertiesPanel() {
     updateObject(selectedObject.id, { name: e.target.value });
   };
 
-  const handlePositionInputChange = (axis: 'x' | 'y' | 'z', value: string) => {
-    // Update local state immediately (allows typing/deleting)
-    setPositionInputs((prev) => ({ ...prev, [axis]: value }));
+  // Evaluate an expression typed into a field, returning its value in inches or an error message
+  const evaluateField = (text: string): { value: number | null; error?: string } => {
+    const result = evaluateFieldExpression(text, evaluateVariables(variables).values, lengthFormat.units);
+    return result.value === null ? { value: null, error: result.error ?? 'Invalid expression' } : result;
+  };
+
+  // Remove a field's expression when a plain number is typed over it
+  const withoutExpression = (field: ExpressionField) => {
+    const expressions = { ...selectedObject.expressions };
+    delete expressions[field];
+    return expressions;
   };
 
-  const handlePositionCommit = (axis: 'x' | 'y' | 'z') => {
-    // Parse and commit the value to the store
-    const value = positionInputs[axis];
-    let numValue = parseFloat(value);
-
-    if (isNaN(numValue)) {
-      // If invalid, reset to current world position
-      setPositionInputs((prev) => ({
-        ...prev,
-        [axis]: worldTransform!.position[axis].toString(),
-      }));
-      return;
+  // Positions are edited relative to the parent assembly, the space expressions are kept in
+  const handlePositionCommit = (axis: 'x' | 'y' | 'z', text: string): string | null => {
+    const field: ExpressionField = `localPosition.${axis}`;
+
+    let numValue = lengthFormat.parse(text);
+    if (numValue === null) {
+      const result = evaluateField(text);
+      if (result.value === null) return result.error!;
+      setObjectExpression(selectedObject.id, field, text);
+      return null;
     }
 
     // Apply grid snapping if enabled for this object
-    if (selectedObject!.gridSnap) {
-      numValue = Math.round(numValue); // Snap to 1-inch grid
+    if (selectedObject.gridSnap) {
+      numValue = roundToWholeUnit(numValue, lengthFormat.units); // Snap to a 1-inch (or 1 mm) grid
     }
 
-    // Get current world position and update only the changed axis
-    const currentWorldPos = worldTransform!.position;
-    const newWorldPos = {
-      x: axis === 'x' ? numValue : currentWorldPos.x,
-      y: axis === 'y' ? numValue : currentWorldPos.y,
-      z: axis === 'z' ? numValue : currentWorldPos.z,
-    };
-
-    updateObjectPosition(selectedObject!.id, newWorldPos);
-  };
-
-  const handlePositionKeyDown = (e: React.KeyboardEvent, axis: 'x' | 'y' | 'z') => {
-    if (e.key === 'Enter') {
-      handlePositionCommit(axis);
-      (e.target as HTMLInputElement).blur();
-    } else if (e.key === 'Escape') {
-      // Reset to current value
-      setPositionInputs((prev) => ({
-        ...prev,
-        [axis]: worldTransform!.position[axis].toString(),
-      }));
-      (e.target as HTMLInputElement).blur();
-    }
+    updateObject(selectedObject.id, {
+      localPosition: { ...selectedObject.localPosition, [axis]: numValue },
+      expressions: withoutExpression(field),
+    });
+    return null;
   };
 
   const handleRotationChange = (axis: 'x' | 'y' | 'z', value: string) => {
@@ -139,20 +141,76 @@ export function PropertiesPanel() {
     updateObject(selectedObject.id, { showDimensions: !selectedObject.showDimensions });
   };
 
-  const handleDimensionChange = (dimension: 'width' | 'height' | 'depth', value: string) => {
-    const numValue = parseFloat(value);
-    if (!isNaN(numValue) && numValue > 0) {
-      // Calculate the change in dimension
-      const oldDimension = selectedObject.dimensions[dimension];
-      const dimensionDelta = numValue - oldDimension;
-
-      // Update dimensions without moving the object's center
-      // Since BoxGeometry is centered at origin, we don't need to adjust position
-      // The geometry will scale from center automatically
-      updateObject(selectedObject.id, {
-        dimensions: { ...selectedObject.dimensions, [dimension]: numValue },
-      });
+  const handleDimensionCommit = (dimension: 'width' | 'height' | 'depth', text: string): string | null => {
+    const field: ExpressionField = `dimensions.${dimension}`;
+
+    const numValue = lengthFormat.parse(text);
+    if (numValue === null) {
+      const result = evaluateField(text);
+      if (result.value === null) return result.error!;
+      if (result.value <= 0) return `Evaluates to ${lengthFormat.format(result.value)}; must be greater than zero`;
+      setObjectExpression(selectedObject.id, field, text);
+      return null;
     }
+
+    if (numValue <= 0) return 'Must be greater than zero';
+
+    // Update dimensions without moving the object's center
+    // Since BoxGeometry is centered at origin, the geometry scales from center automatically
+    updateObject(selectedObject.id, {
+      dimensions: { ...selectedObject.dimensions, [dimension]: numValue },
+      expressions: withoutExpression(field),
+    });
+    return null;
+  };
+
+  // Round parts keep width and height equal: both are the diameter
+  const handleDiameterCommit = (text: string): string | null => {
+    const typed = lengthFormat.parse(text);
+    const result = typed !== null ? { value: typed } : evaluateField(text);
+    if (result.value === null) return result.error!;
+    if (result.value <= 0) {
+      return typed !== null
+        ? 'Must be greater than zero'
+        : `Evaluates to ${lengthFormat.format(result.value)}; must be greater than zero`;
+    }
+
+    // A taper can only narrow the part, so drop one the new diameter no longer exceeds
+    const endDiameter = selectedObject.round?.endDiameter;
+    const round = endDiameter !== undefined && endDiameter >= result.value ? {} : selectedObject.round;
+
+    if (typed === null) {
+      setObjectExpression(selectedObject.id, ['dimensions.width', 'dimensions.height'], text, { round });
+      return null;
+    }
+
+    const expressions = { ...selectedObject.expressions };
+    delete expressions['dimensions.width'];
+    delete expressions['dimensions.height'];
+    updateObject(selectedObject.id, {
+      dimensions: { ...selectedObject.dimensions, width: typed, height: typed },
+      expressions,
+      round,
+    });
+    return null;
+  };
+
+  const handleEndDiameterCommit = (text: string): string | null => {
+    if (text === '') {
+      updateObject(selectedObject.id, { round: {} });
+      return null;
+    }
+
+    const length = lengthFormat.parse(text);
+    const result = length !== null ? { value: length } : evaluateField(text);
+    if (result.value === null) return result.error!;
+    if (result.value <= 0) return 'Must be greater than zero';
+    if (result.value > selectedObject.dimensions.width) return 'Must not exceed the diameter';
+
+    updateObject(selectedObject.id, {
+      round: result.value === selectedObject.dimensions.width ? {} : { endDiameter: result.value },
+    });
+    return null;
   };
 
   const handleParentChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
@@ -223,38 +281,37 @@ export function PropertiesPanel() {
 
         {/* Position */}
         <div>
-          <label className="block text-xs font-medium text-gray-700 mb-1">Position (inches)</label>
+          <label className="block text-xs font-medium text-gray-700 mb-1">
+            Position ({lengthUnit}{selectedObject.parentId ? ', within its assembly' : ''})
+          </label>
           <div className="grid grid-cols-3 gap-2">
             <div>
               <label className="block text-xs text-gray-500 mb-1">X</label>
-              <input
-                type="text"
-                value={positionInputs.x}
-                onChange={(e) => handlePositionInputChange('x', e.target.value)}
-                onBlur={() => handlePositionCommit('x')}
-                onKeyDown={(e) => handlePositionKeyDown(e, 'x')}
+              <ExpressionInput
+                value={selectedObject.localPosition.x}
+                expression={selectedObject.expressions?.['localPosition.x']}
+                format={formatField}
+                onCommit={(text) => handlePositionCommit('x', text)}
                 className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
               />
             </div>
             <div>
               <label className="block text-xs text-gray-500 mb-1">Y</label>
-              <input
-                type="text"
-                value={positionInputs.y}
-                onChange={(e) => handlePositionInputChange('y', e.target.value)}
-                onBlur={() => handlePositionCommit('y')}
-                onKeyDown={(e) => handlePositionKeyDown(e, 'y')}
+              <ExpressionInput
+                value={selectedObject.localPosition.y}
+                expression={selectedObject.expressions?.['localPosition.y']}
+                format={formatField}
+                onCommit={(text) => handlePositionCommit('y', text)}
                 className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
               />
             </div>
             <div>
               <label className="block text-xs text-gray-500 mb-1">Z</label>
-              <input
-                type="text"
-                value={positionInputs.z}
-                onChange={(e) => handlePositionInputChange('z', e.target.value)}
-                onBlur={() => handlePositionCommit('z')}
-                onKeyDown={(e) => handlePositionKeyDown(e, 'z')}
+              <ExpressionInput
+                value={selectedObject.localPosition.z}
+                expression={selectedObject.expressions?.['localPosition.z']}
+                format={formatField}
+                onCommit={(text) => handlePositionCommit('z', text)}
                 className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
               />
             </div>
@@ -319,44 +376,93 @@ export function PropertiesPanel() {
         </div>
 
         {/* Dimensions */}
-        <div>
-          <label className="block text-xs font-medium text-gray-700 mb-1">Dimensions (inches)</label>
-          <div className="grid grid-cols-3 gap-2">
-            <div>
-              <label className="block text-xs text-gray-500 mb-1">Width</label>
-              <input
-                type="number"
-                value={selectedObject.dimensions.width}
-                onChange={(e) => handleDimensionChange('width', e.target.value)}
-                step="0.0625"
-                min="0.0625"
-                className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
-              />
-            </div>
-            <div>
-              <label className="block text-xs text-gray-500 mb-1">Height</label>
-              <input
-                type="number"
-                value={selectedObject.dimensions.height}
-                onChange={(e) => handleDimensionChange('height', e.target.value)}
-                step="0.0625"
-                min="0.0625"
-                className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
-              />
+        {selectedObject.round ? (
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Dimensions ({lengthUnit})</label>
+            <div className="grid grid-cols-3 gap-2">
+              <div>
+                <label className="block text-xs text-gray-500 mb-1">Diameter</label>
+                <ExpressionInput
+                  value={selectedObject.dimensions.width}
+                  expression={selectedObject.expressions?.['dimensions.width']}
+                  format={formatField}
+                  onCommit={handleDiameterCommit}
+                  className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-gray-500 mb-1" title="Diameter at the far end; leave empty for a straight part">
+                  End ⌀
+                </label>
+                <ExpressionInput
+                  value={selectedObject.round.endDiameter ?? selectedObject.dimensions.width}
+                  format={formatField}
+                  onCommit={handleEndDiameterCommit}
+                  className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-gray-500 mb-1">Length</label>
+                <ExpressionInput
+                  value={selectedObject.dimensions.depth}
+                  expression={selectedObject.expressions?.['dimensions.depth']}
+                  format={formatField}
+                  onCommit={(text) => handleDimensionCommit('depth', text)}
+                  className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+                />
+              </div>
             </div>
-            <div>
-              <label className="block text-xs text-gray-500 mb-1">Length</label>
-              <input
-                type="number"
-                value={selectedObject.dimensions.depth}
-                onChange={(e) => handleDimensionChange('depth', e.target.value)}
-                step="0.0625"
-                min="0.0625"
-                className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
-              />
+          </div>
+        ) : (
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Dimensions ({lengthUnit})</label>
+            <div className="grid grid-cols-3 gap-2">
+              <div>
+                <label className="block text-xs text-gray-500 mb-1">Width</label>
+                <ExpressionInput
+                  value={selectedObject.dimensions.width}
+                  expression={selectedObject.expressions?.['dimensions.width']}
+                  format={formatField}
+                  onCommit={(text) => handleDimensionCommit('width', text)}
+                  className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-gray-500 mb-1">Height</label>
+                <ExpressionInput
+                  value={selectedObject.dimensions.height}
+                  expression={selectedObject.expressions?.['dimensions.height']}
+                  format={formatField}
+                  onCommit={(text) => handleDimensionCommit('height', text)}
+                  className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-gray-500 mb-1">Length</label>
+                <ExpressionInput
+                  value={selectedObject.dimensions.depth}
+                  expression={selectedObject.expressions?.['dimensions.depth']}
+                  format={formatField}
+                  onCommit={(text) => handleDimensionCommit('depth', text)}
+                  className="w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+                />
+              </div>
             </div>
+            <button
+              onClick={() => openProfileEditor(selectedObject.id)}
+              className="w-full mt-2 px-2 py-1 text-xs border border-gray-300 rounded text-gray-700 hover:bg-gray-100"
+              title="Width and height are the bounds of the profile; length is its thickness"
+            >
+              {selectedObject.profile ? 'Edit Profile' : 'Convert to Profile'}
+            </button>
           </div>
-        </div>
+        )}
+
+        {/* Constraints */}
+        <ObjectConstraints object={selectedObject} />
+
+        {/* Joinery */}
+        <ObjectJoints object={selectedObject} />
 
         {/* Material */}
         <div>
@@ -394,6 +500,16 @@ export function PropertiesPanel() {
           </label>
         </div>
 
+        {/* Template */}
+        <div>
+          <button
+            onClick={toggleTemplateExportModal}
+            className="w-full px-2 py-1 text-xs border border-gray-300 rounded text-gray-700 hover:bg-gray-100"
+          >
+            Print Full-Size Template...
+          </button>
+        </div>
+
         {/* Notes */}
         <div>
           <label className="block text-xs font-medium text-gray-700 mb-1">Notes</label>
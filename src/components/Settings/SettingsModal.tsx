@@ -1,4 +1,8 @@
 import { useUIStore } from '@/stores/uiStore';
+import { useProjectStore, useUnitSystem } from '@/stores/projectStore';
+import { UnitSystem, LengthFormat, FractionPrecision } from '@/types';
+import { UNIT_SYSTEMS, LENGTH_FORMATS, FRACTION_PRECISIONS, METRIC_GRID_SIZES, METRIC_SNAP_INCREMENTS, MM_PER_INCH, formatLength } from '@/lib/units/units';
+import { TitleBlockSettings } from './TitleBlockSettings';
 
 export function SettingsModal() {
   const {
@@ -8,18 +12,28 @@ export function SettingsModal() {
     majorGridSize,
     minorGridVisible,
     snapIncrement,
+    objectSnap,
+    objectSnapDistance,
     autoSaveEnabled,
     autoSaveInterval,
+    lengthFormat,
+    fractionPrecision,
     setTheme,
     toggleGrid,
     toggleRulers,
     setMajorGridSize,
     toggleMinorGrid,
     setSnapIncrement,
+    toggleObjectSnap,
+    setObjectSnapDistance,
     setAutoSaveEnabled,
     setAutoSaveInterval,
+    setLengthFormat,
+    setFractionPrecision,
     toggleSettingsModal,
   } = useUIStore();
+  const units = useUnitSystem();
+  const setProjectInfo = useProjectStore((state) => state.setProjectInfo);
 
   // Theme-based colors
   const colors = {
@@ -39,10 +53,29 @@ export function SettingsModal() {
   };
 
   // Grid size options (in inches)
-  const gridSizeOptions = [0.0625, 0.125, 0.25, 0.5, 1, 2, 4];
+  const gridSizeOptions = units === 'metric'
+    ? METRIC_GRID_SIZES.map((size) => size.value)
+    : [0.0625, 0.125, 0.25, 0.5, 1, 2, 4];
 
   // Snap increment options (in inches)
-  const snapIncrementOptions = [0.0625, 0.125, 0.25, 0.5, 1, 2, 4];
+  const snapIncrementOptions = units === 'metric'
+    ? METRIC_SNAP_INCREMENTS.map((increment) => increment.value)
+    : [0.0625, 0.125, 0.25, 0.5, 1, 2, 4];
+
+  // Sixteenths below an inch, millimeters in metric projects
+  const formatOption = (size: number) =>
+    units === 'metric' ? formatLength(size, units) : size < 1 ? `${size * 16}/16"` : `${size}"`;
+
+  // Switch the project's units and move the grid and snap menus onto the new unit's options
+  const handleUnitsChange = (system: UnitSystem) => {
+    if (system === units) return;
+    setProjectInfo({ units: system });
+    setMajorGridSize(system === 'metric' ? 10 / MM_PER_INCH : 1);
+    setSnapIncrement(system === 'metric' ? 1 / MM_PER_INCH : 1);
+  };
+
+  // Object snap distance options (in screen pixels)
+  const objectSnapDistanceOptions = [4, 8, 12, 16, 24];
 
   // Auto-save interval options (in minutes)
   const autoSaveIntervalOptions = [1, 2, 5, 10, 15, 30];
@@ -149,7 +182,7 @@ export function SettingsModal() {
                 >
                   {gridSizeOptions.map((size) => (
                     <option key={size} value={size}>
-                      {size < 1 ? `${size * 16}/16"` : `${size}"`}
+                      {formatOption(size)}
                     </option>
                   ))}
                 </select>
@@ -165,7 +198,7 @@ export function SettingsModal() {
                   className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-1 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
                 />
                 <span className={`text-sm ${colors.text} ${!gridVisible ? 'opacity-50' : ''}`}>
-                  Show minor grid (1/16")
+                  Show minor grid ({units === 'metric' ? '1 mm' : '1/16"'})
                 </span>
               </label>
 
@@ -197,7 +230,7 @@ export function SettingsModal() {
                 >
                   {snapIncrementOptions.map((inc) => (
                     <option key={inc} value={inc}>
-                      {inc < 1 ? `${inc * 16}/16"` : `${inc}"`}
+                      {formatOption(inc)}
                     </option>
                   ))}
                 </select>
@@ -205,6 +238,38 @@ export function SettingsModal() {
                   Used for arrow key nudging and grid snapping
                 </p>
               </div>
+
+              {/* Object Snapping */}
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={objectSnap}
+                  onChange={toggleObjectSnap}
+                  className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-1 focus:ring-blue-500"
+                />
+                <span className={`text-sm ${colors.text}`}>Snap to faces, edges and corners of parts</span>
+              </label>
+
+              <div>
+                <label className={`block text-xs font-medium ${colors.text} mb-2`}>
+                  Object snap distance
+                </label>
+                <select
+                  value={objectSnapDistance}
+                  onChange={(e) => setObjectSnapDistance(parseInt(e.target.value))}
+                  disabled={!objectSnap}
+                  className={`w-full px-3 py-2 text-sm rounded border ${colors.border} ${colors.text} bg-transparent focus:outline-none focus:ring-1 focus:ring-blue-500 disabled:opacity-50`}
+                >
+                  {objectSnapDistanceOptions.map((distance) => (
+                    <option key={distance} value={distance}>
+                      {distance} px
+                    </option>
+                  ))}
+                </select>
+                <p className={`text-xs ${colors.textMuted} mt-1`}>
+                  Hold Alt while dragging to place a part without snapping
+                </p>
+              </div>
             </div>
           </section>
 
@@ -247,27 +312,73 @@ export function SettingsModal() {
             </div>
           </section>
 
-          {/* Units Section (Future) */}
+          {/* Title Block Section */}
+          <section>
+            <h3 className={`text-sm font-semibold ${colors.text} mb-3`}>Drawing Title Block</h3>
+            <TitleBlockSettings />
+          </section>
+
+          {/* Units Section */}
           <section>
             <h3 className={`text-sm font-semibold ${colors.text} mb-3`}>Units</h3>
             <div className={`${colors.sectionBg} rounded-lg p-4 space-y-3`}>
               <div className="flex gap-2">
-                <button
-                  className="flex-1 px-3 py-2 text-sm rounded border bg-blue-500 text-white border-blue-600"
-                  disabled
+                {UNIT_SYSTEMS.map((system) => (
+                  <button
+                    key={system.value}
+                    onClick={() => handleUnitsChange(system.value)}
+                    className={`flex-1 px-3 py-2 text-sm rounded border ${
+                      units === system.value ? 'bg-blue-500 text-white border-blue-600' : `${colors.border} ${colors.text}`
+                    }`}
+                  >
+                    {system.label}
+                  </button>
+                ))}
+              </div>
+
+              <div>
+                <label className={`block text-xs font-medium ${colors.text} mb-2`}>
+                  Inch display
+                </label>
+                <select
+                  value={lengthFormat}
+                  onChange={(e) => setLengthFormat(e.target.value as LengthFormat)}
+                  disabled={units === 'metric'}
+                  className={`w-full px-3 py-2 text-sm rounded border ${colors.border} ${colors.text} ${
+                    units === 'metric' ? 'opacity-50 cursor-not-allowed bg-gray-100' : 'bg-transparent'
+                  } focus:outline-none focus:ring-1 focus:ring-blue-500`}
                 >
-                  Imperial (inches)
-                </button>
-                <button
-                  className={`flex-1 px-3 py-2 text-sm rounded border ${colors.border} ${colors.text} opacity-50 cursor-not-allowed`}
-                  disabled
-                  title="Coming soon"
+                  {LENGTH_FORMATS.map((format) => (
+                    <option key={format.value} value={format.value}>
+                      {format.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className={`block text-xs font-medium ${colors.text} mb-2`}>
+                  Round fractions to
+                </label>
+                <select
+                  value={fractionPrecision}
+                  onChange={(e) => setFractionPrecision(parseInt(e.target.value) as FractionPrecision)}
+                  disabled={units === 'metric' || lengthFormat === 'decimal'}
+                  className={`w-full px-3 py-2 text-sm rounded border ${colors.border} ${colors.text} ${
+                    units === 'metric' || lengthFormat === 'decimal' ? 'opacity-50 cursor-not-allowed bg-gray-100' : 'bg-transparent'
+                  } focus:outline-none focus:ring-1 focus:ring-blue-500`}
                 >
-                  Metric (mm)
-                </button>
+                  {FRACTION_PRECISIONS.map((precision) => (
+                    <option key={precision} value={precision}>
+                      1/{precision}"
+                    </option>
+                  ))}
+                </select>
               </div>
+
               <p className={`text-xs ${colors.textMuted}`}>
-                Metric units support coming soon
+                Units are saved with the current project; the inch display applies everywhere.
+                Any field also accepts fractions and other units, e.g. 3 1/2, 1'6" or 18mm
               </p>
             </div>
           </section>
@@ -0,0 +1,160 @@
+import { useUIStore } from '@/stores/uiStore';
+import { useTitleBlockStore } from '@/stores/titleBlockStore';
+import { TitleBlockField } from '@/types';
+import { ALL_TITLE_BLOCK_FIELDS, DEFAULT_TITLE_BLOCK_TEMPLATES, TITLE_BLOCK_FIELD_LABELS } from '@/lib/export/titleBlock';
+
+// Title block width options (in inches)
+const widthOptions = [3, 3.5, 4, 5, 6];
+
+export function TitleBlockSettings() {
+  const { theme } = useUIStore();
+  const {
+    customTemplates,
+    activeTemplateId,
+    addTemplate,
+    updateTemplate,
+    deleteTemplate,
+    setActiveTemplate,
+    getActiveTemplate,
+  } = useTitleBlockStore();
+  const template = getActiveTemplate();
+
+  // Theme-based colors
+  const colors = {
+    border: theme === 'dark' ? 'border-[#333333]' : theme === 'blueprint' ? 'border-[#1E3A8A]' : 'border-gray-300',
+    text: theme === 'dark' ? 'text-white' : theme === 'blueprint' ? 'text-white' : 'text-gray-800',
+    textMuted: theme === 'dark' ? 'text-gray-400' : theme === 'blueprint' ? 'text-blue-200' : 'text-gray-600',
+    sectionBg: theme === 'dark' ? 'bg-[#1f1f1f]' : theme === 'blueprint' ? 'bg-[#163567]' : 'bg-gray-50',
+  };
+
+  // Built-in templates are read-only; copying one creates an editable template
+  const handleDuplicate = () => {
+    const id = addTemplate({
+      name: `${template.name} Copy`,
+      companyName: template.companyName,
+      fields: [...template.fields],
+      showBorder: template.showBorder,
+      width: template.width,
+    });
+    setActiveTemplate(id);
+  };
+
+  const toggleField = (field: TitleBlockField) => {
+    const fields = template.fields.includes(field)
+      ? template.fields.filter((f) => f !== field)
+      : ALL_TITLE_BLOCK_FIELDS.filter((f) => f === field || template.fields.includes(f));
+    updateTemplate(template.id, { fields });
+  };
+
+  const inputClass = `w-full px-3 py-2 text-sm rounded border ${colors.border} ${colors.text} bg-transparent focus:outline-none focus:ring-1 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed`;
+
+  return (
+    <div className={`${colors.sectionBg} rounded-lg p-4 space-y-3`}>
+      <div>
+        <label className={`block text-xs font-medium ${colors.text} mb-2`}>
+          Template
+        </label>
+        <div className="flex gap-2">
+          <select
+            value={activeTemplateId}
+            onChange={(e) => setActiveTemplate(e.target.value)}
+            className={inputClass}
+          >
+            {[...DEFAULT_TITLE_BLOCK_TEMPLATES, ...customTemplates].map((t) => (
+              <option key={t.id} value={t.id}>
+                {t.name}{t.isCustom ? '' : ' (built-in)'}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={handleDuplicate}
+            className={`px-3 py-2 text-sm rounded border ${colors.border} ${colors.text} hover:bg-opacity-10 hover:bg-white transition-colors whitespace-nowrap`}
+          >
+            Duplicate
+          </button>
+          {template.isCustom && (
+            <button
+              onClick={() => deleteTemplate(template.id)}
+              className="px-3 py-2 text-sm rounded border border-red-500 text-red-500 hover:bg-red-500 hover:text-white transition-colors"
+            >
+              Delete
+            </button>
+          )}
+        </div>
+        {!template.isCustom && (
+          <p className={`text-xs ${colors.textMuted} mt-1`}>
+            Duplicate a built-in template to customize it
+          </p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className={`block text-xs font-medium ${colors.text} mb-2`}>Name</label>
+          <input
+            type="text"
+            value={template.name}
+            onChange={(e) => updateTemplate(template.id, { name: e.target.value })}
+            disabled={!template.isCustom}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className={`block text-xs font-medium ${colors.text} mb-2`}>Company / shop name</label>
+          <input
+            type="text"
+            value={template.companyName}
+            onChange={(e) => updateTemplate(template.id, { companyName: e.target.value })}
+            disabled={!template.isCustom}
+            placeholder="Optional"
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className={`block text-xs font-medium ${colors.text} mb-2`}>Fields</label>
+        <div className="grid grid-cols-2 gap-2">
+          {ALL_TITLE_BLOCK_FIELDS.map((field) => (
+            <label key={field} className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={template.fields.includes(field)}
+                onChange={() => toggleField(field)}
+                disabled={!template.isCustom}
+                className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-1 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+              />
+              <span className={`text-sm ${colors.text}`}>{TITLE_BLOCK_FIELD_LABELS[field]}</span>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-end gap-3">
+        <div className="flex-1">
+          <label className={`block text-xs font-medium ${colors.text} mb-2`}>Block width</label>
+          <select
+            value={template.width}
+            onChange={(e) => updateTemplate(template.id, { width: parseFloat(e.target.value) })}
+            disabled={!template.isCustom}
+            className={inputClass}
+          >
+            {widthOptions.map((width) => (
+              <option key={width} value={width}>{width}"</option>
+            ))}
+          </select>
+        </div>
+        <label className="flex-1 flex items-center gap-2 cursor-pointer pb-2">
+          <input
+            type="checkbox"
+            checked={template.showBorder}
+            onChange={(e) => updateTemplate(template.id, { showBorder: e.target.checked })}
+            disabled={!template.isCustom}
+            className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-1 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+          />
+          <span className={`text-sm ${colors.text}`}>Sheet border</span>
+        </label>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,331 @@
+import { useRef, useState } from 'react';
+import { useProjectStore } from '@/stores/projectStore';
+import { useUIStore } from '@/stores/uiStore';
+import { DraftObject, PartProfile, Vector3D } from '@/types';
+import {
+  createRectangleProfile,
+  getPolygonBounds,
+  normalizeProfile,
+  tessellateProfile,
+  validateProfile,
+} from '@/lib/geometry/profiles';
+
+interface ProfileEditorModalProps {
+  objectId: string | null; // Part whose profile is edited, or null to create a new profiled part
+  onClose: () => void;
+}
+
+interface VertexRow {
+  x: string;
+  y: string;
+  bow: string; // How far the edge to the next corner bows out at its middle; 0 is straight
+}
+
+type DrawingView = 'front' | 'top' | 'right';
+
+// Rotation that turns a profile drawn on the part's front face toward each view
+const VIEW_ROTATIONS: Record<DrawingView, Vector3D> = {
+  front: { x: 0, y: 0, z: 0 },
+  top: { x: -90, y: 0, z: 0 },
+  right: { x: 0, y: 90, z: 0 },
+};
+
+const PAD_SNAP = 0.25; // Inches
+const PAD_PADDING = 2; // Inches around the outline
+const PAD_MIN_SIZE = 12; // Inches
+
+/**
+ * Bulge of an edge from its bow (sagitta) and chord length
+ */
+function bowToBulge(bow: number, chord: number): number {
+  return chord > 0 ? (2 * bow) / chord : 0;
+}
+
+/**
+ * A part's profile at its current size, which may have been stretched since it was drawn
+ */
+function getScaledProfile(obj: DraftObject): PartProfile {
+  if (!obj.profile) return createRectangleProfile(obj.dimensions.width, obj.dimensions.height);
+
+  const bounds = getPolygonBounds(tessellateProfile(obj.profile));
+  const scaleX = obj.dimensions.width / (bounds.maxX - bounds.minX || 1);
+  const scaleY = obj.dimensions.height / (bounds.maxY - bounds.minY || 1);
+  return {
+    vertices: obj.profile.vertices.map((v) => ({
+      ...v,
+      x: Number(((v.x - bounds.minX) * scaleX).toFixed(4)),
+      y: Number(((v.y - bounds.minY) * scaleY).toFixed(4)),
+    })),
+  };
+}
+
+/**
+ * Draw or type the closed outline of a profile-extrusion part, with arcs, and extrude it
+ */
+export function ProfileEditorModal({ objectId, onClose }: ProfileEditorModalProps) {
+  const objects = useProjectStore((state) => state.tabs[state.activeTabIndex]?.objects || []);
+  const { addObject, updateObject, clearSelection, selectObject } = useProjectStore();
+  const { theme } = useUIStore();
+  const existing = objects.find((obj) => obj.id === objectId) ?? null;
+
+  const [rows, setRows] = useState<VertexRow[]>(() => {
+    const profile = existing ? getScaledProfile(existing) : { vertices: [] };
+    return profile.vertices.map((v, i) => {
+      const next = profile.vertices[(i + 1) % profile.vertices.length];
+      const chord = Math.hypot(next.x - v.x, next.y - v.y);
+      return { x: String(v.x), y: String(v.y), bow: String(Number((((v.bulge ?? 0) * chord) / 2).toFixed(4))) };
+    });
+  });
+  const [thickness, setThickness] = useState(String(existing?.dimensions.depth ?? 0.75));
+  const [name, setName] = useState('Profiled Part');
+  const [material, setMaterial] = useState('Plywood');
+  const [category, setCategory] = useState('Sheet Goods');
+  const [view, setView] = useState<DrawingView>('front');
+  const padRef = useRef<SVGGElement>(null);
+
+  // Theme-based colors
+  const colors = {
+    backdrop: 'bg-black bg-opacity-50',
+    modalBg: theme === 'dark' ? 'bg-[#2a2a2a]' : theme === 'blueprint' ? 'bg-[#1E3A8A]' : 'bg-white',
+    border: theme === 'dark' ? 'border-[#333333]' : theme === 'blueprint' ? 'border-[#1E3A8A]' : 'border-gray-300',
+    text: theme === 'dark' ? 'text-white' : theme === 'blueprint' ? 'text-white' : 'text-gray-800',
+    textMuted: theme === 'dark' ? 'text-gray-400' : theme === 'blueprint' ? 'text-blue-200' : 'text-gray-600',
+    inputBg: theme === 'dark' ? 'bg-[#1a1a1a]' : theme === 'blueprint' ? 'bg-[#0A2463]' : 'bg-gray-50',
+    inputBorder: theme === 'dark' ? 'border-[#333333]' : theme === 'blueprint' ? 'border-blue-800' : 'border-gray-300',
+    pad: theme === 'dark' ? '#1a1a1a' : theme === 'blueprint' ? '#0A2463' : '#f9fafb',
+    grid: theme === 'dark' ? '#333333' : theme === 'blueprint' ? '#1E3A8A' : '#e5e7eb',
+    outline: theme === 'blueprint' ? '#ffffff' : '#2563eb',
+    buttonPrimary: theme === 'dark' ? 'bg-blue-600 hover:bg-blue-700' : theme === 'blueprint' ? 'bg-blue-500 hover:bg-blue-600' : 'bg-blue-600 hover:bg-blue-700',
+    buttonSecondary: theme === 'dark' ? 'border-[#333333] hover:bg-[#3a3a3a]' : theme === 'blueprint' ? 'border-blue-800 hover:bg-[#2E4A9A]' : 'border-gray-300 hover:bg-gray-100',
+  };
+
+  // Rows as a profile; bows are turned into bulges from each edge's chord
+  const points = rows.map((row) => ({ x: parseFloat(row.x), y: parseFloat(row.y) }));
+  const profile: PartProfile = {
+    vertices: rows.map((row, i) => {
+      const next = points[(i + 1) % points.length];
+      const bulge = bowToBulge(parseFloat(row.bow) || 0, Math.hypot(next.x - points[i].x, next.y - points[i].y));
+      return bulge !== 0 ? { ...points[i], bulge } : points[i];
+    }),
+  };
+  const validation = validateProfile(profile);
+  const depth = parseFloat(thickness);
+  const error = !validation.valid
+    ? validation.error
+    : !(depth > 0) ? 'Thickness must be greater than zero' : null;
+
+  const outline = rows.length > 0 && points.every((p) => Number.isFinite(p.x) && Number.isFinite(p.y))
+    ? tessellateProfile(profile)
+    : [];
+  const bounds = outline.length > 0 ? getPolygonBounds(outline) : { minX: 0, minY: 0, maxX: 0, maxY: 0 };
+  const pad = {
+    minX: Math.min(bounds.minX, 0) - PAD_PADDING,
+    minY: Math.min(bounds.minY, 0) - PAD_PADDING,
+    size: Math.max(bounds.maxX - Math.min(bounds.minX, 0), bounds.maxY - Math.min(bounds.minY, 0), PAD_MIN_SIZE) + 2 * PAD_PADDING,
+  };
+
+  const updateRow = (index: number, field: keyof VertexRow, value: string) => {
+    setRows(rows.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+  };
+
+  // Clicking the pad adds a corner at the snapped point
+  const handlePadClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    const group = padRef.current;
+    const matrix = group?.getScreenCTM();
+    if (!group || !matrix || !group.ownerSVGElement) return;
+
+    const point = group.ownerSVGElement.createSVGPoint();
+    point.x = e.clientX;
+    point.y = e.clientY;
+    const local = point.matrixTransform(matrix.inverse());
+    const snap = (value: number) => Math.round(value / PAD_SNAP) * PAD_SNAP;
+    setRows([...rows, { x: String(snap(local.x)), y: String(snap(local.y)), bow: '0' }]);
+  };
+
+  const handleSave = () => {
+    if (error) return;
+
+    const normalized = normalizeProfile(profile);
+    const dimensions = { width: normalized.width, height: normalized.height, depth };
+
+    if (existing) {
+      updateObject(existing.id, { type: 'custom', profile: normalized.profile, dimensions });
+    } else {
+      const newObject: DraftObject = {
+        id: `obj-${Date.now()}`,
+        type: 'custom',
+        name: name.trim() || 'Profiled Part',
+        localPosition: { x: 0, y: view === 'top' ? depth / 2 : normalized.height / 2, z: 0 }, // Resting on the ground
+        dimensions,
+        rotation: VIEW_ROTATIONS[view],
+        material: material.trim() || 'Plywood',
+        category,
+        tags: ['profile'],
+        gridSnap: true,
+        showDimensions: true,
+        rotationEnabled: view !== 'front',
+        notes: '',
+        useAssemblyColor: false,
+        profile: normalized.profile,
+      };
+      addObject(newObject);
+      clearSelection();
+      selectObject(newObject.id);
+    }
+
+    onClose();
+  };
+
+  // Close modal when clicking backdrop
+  const handleBackdropClick = (e: React.MouseEvent) => {
+    if (e.target === e.currentTarget) {
+      onClose();
+    }
+  };
+
+  const inputClass = `w-full px-2 py-1 text-sm border ${colors.inputBorder} ${colors.inputBg} ${colors.text} rounded focus:outline-none focus:ring-1 focus:ring-blue-500`;
+
+  return (
+    <div
+      className={`fixed inset-0 ${colors.backdrop} flex items-center justify-center z-50 p-4`}
+      onClick={handleBackdropClick}
+    >
+      <div className={`${colors.modalBg} rounded-lg shadow-2xl border ${colors.border} w-full max-w-3xl max-h-[85vh] flex flex-col`}>
+        {/* Header */}
+        <div className={`px-6 py-4 border-b ${colors.border}`}>
+          <h2 className={`text-lg font-semibold ${colors.text}`}>
+            {existing ? `Edit Profile: ${existing.name}` : 'New Profiled Part'}
+          </h2>
+          <p className={`text-xs ${colors.textMuted} mt-1`}>
+            Click the pad to add corners, or type them. A bow bends the edge to the next corner into an arc.
+          </p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4 grid grid-cols-2 gap-4">
+          {/* Drawing pad, Y up */}
+          <svg
+            viewBox={`${pad.minX} ${-(pad.minY + pad.size)} ${pad.size} ${pad.size}`}
+            className={`w-full border ${colors.border} rounded cursor-crosshair`}
+            style={{ background: colors.pad }}
+            onClick={handlePadClick}
+          >
+            <g ref={padRef} transform="scale(1,-1)">
+              {Array.from({ length: Math.ceil(pad.size) + 1 }, (_, i) => Math.floor(pad.minX) + i).map((x) => (
+                <line key={`x${x}`} x1={x} y1={pad.minY} x2={x} y2={pad.minY + pad.size} stroke={colors.grid} strokeWidth={pad.size / 400} />
+              ))}
+              {Array.from({ length: Math.ceil(pad.size) + 1 }, (_, i) => Math.floor(pad.minY) + i).map((y) => (
+                <line key={`y${y}`} x1={pad.minX} y1={y} x2={pad.minX + pad.size} y2={y} stroke={colors.grid} strokeWidth={pad.size / 400} />
+              ))}
+              {outline.length > 1 && (
+                <polygon
+                  points={outline.map((p) => `${p.x},${p.y}`).join(' ')}
+                  fill={colors.outline}
+                  fillOpacity={0.15}
+                  stroke={error ? '#dc2626' : colors.outline}
+                  strokeWidth={pad.size / 200}
+                />
+              )}
+              {points.map((p, i) =>
+                Number.isFinite(p.x) && Number.isFinite(p.y) ? (
+                  <circle key={i} cx={p.x} cy={p.y} r={pad.size / 120} fill={colors.outline} />
+                ) : null
+              )}
+            </g>
+          </svg>
+
+          {/* Corner list */}
+          <div className="space-y-2">
+            <div className={`grid grid-cols-[1fr_1fr_1fr_auto] gap-2 text-xs ${colors.textMuted}`}>
+              <span>X (in)</span>
+              <span>Y (in)</span>
+              <span>Bow (in)</span>
+              <span />
+            </div>
+            {rows.map((row, index) => (
+              <div key={index} className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2">
+                <input type="number" step="0.0625" value={row.x} onChange={(e) => updateRow(index, 'x', e.target.value)} className={inputClass} />
+                <input type="number" step="0.0625" value={row.y} onChange={(e) => updateRow(index, 'y', e.target.value)} className={inputClass} />
+                <input type="number" step="0.0625" value={row.bow} onChange={(e) => updateRow(index, 'bow', e.target.value)} className={inputClass} />
+                <button
+                  onClick={() => setRows(rows.filter((_, i) => i !== index))}
+                  className={`px-2 text-xs ${colors.textMuted} hover:text-red-500`}
+                  title="Remove corner"
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+            <div className="flex gap-2">
+              <button
+                onClick={() => setRows([...rows, { x: '0', y: '0', bow: '0' }])}
+                className={`px-2 py-1 text-xs border rounded ${colors.buttonSecondary} ${colors.text}`}
+              >
+                + Corner
+              </button>
+              <button
+                onClick={() => setRows([])}
+                disabled={rows.length === 0}
+                className={`px-2 py-1 text-xs border rounded ${colors.buttonSecondary} ${colors.text} disabled:opacity-40`}
+              >
+                Clear
+              </button>
+            </div>
+
+            <div className="pt-2 space-y-2">
+              <label className={`block text-xs ${colors.textMuted}`}>
+                Thickness (extrusion, in)
+                <input type="number" step="0.0625" min="0" value={thickness} onChange={(e) => setThickness(e.target.value)} className={inputClass} />
+              </label>
+              {!existing && (
+                <>
+                  <label className={`block text-xs ${colors.textMuted}`}>
+                    Name
+                    <input type="text" value={name} onChange={(e) => setName(e.target.value)} className={inputClass} />
+                  </label>
+                  <div className="grid grid-cols-2 gap-2">
+                    <label className={`block text-xs ${colors.textMuted}`}>
+                      Material
+                      <input type="text" value={material} onChange={(e) => setMaterial(e.target.value)} className={inputClass} />
+                    </label>
+                    <label className={`block text-xs ${colors.textMuted}`}>
+                      Stock
+                      <select value={category} onChange={(e) => setCategory(e.target.value)} className={inputClass}>
+                        <option value="Sheet Goods">Sheet Goods</option>
+                        <option value="Dimensional Lumber">Dimensional Lumber</option>
+                      </select>
+                    </label>
+                  </div>
+                  <label className={`block text-xs ${colors.textMuted}`}>
+                    Drawn in view
+                    <select value={view} onChange={(e) => setView(e.target.value as DrawingView)} className={inputClass}>
+                      <option value="front">Front</option>
+                      <option value="top">Top</option>
+                      <option value="right">Right</option>
+                    </select>
+                  </label>
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className={`px-6 py-3 border-t ${colors.border} flex items-center justify-between gap-4`}>
+          <span className="text-xs text-red-600">{rows.length > 0 && error}</span>
+          <div className="flex gap-2">
+            <button onClick={onClose} className={`px-4 py-2 text-sm border rounded ${colors.buttonSecondary} ${colors.text}`}>
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={!!error}
+              className={`px-4 py-2 text-sm text-white rounded ${colors.buttonPrimary} disabled:opacity-50`}
+            >
+              {existing ? 'Save Profile' : 'Create Part'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+import { useMemo } from 'react';
+import { useProjectStore } from '@/stores/projectStore';
+import { useUIStore } from '@/stores/uiStore';
+import { useCustomLumberStore } from '@/stores/customLumberStore';
+import { usePriceStore } from '@/stores/priceStore';
+import { aggregateByMaterial, MaterialGroup } from '@/lib/cutlist/aggregator';
+import { optimizeLinearCuts, LinearCutPlan } from '@/lib/cutlist/optimizer';
+import { nestSheetParts, SheetNestingPlan } from '@/lib/cutlist/nesting';
+import { getStockLengths, getSheetSize } from '@/lib/cutlist/stock';
+import { applyPrices, priceMaterialGroup, estimateProjectCost, CostEstimate, DEFAULT_COST_SETTINGS } from '@/lib/cutlist/pricing';
+import { LUMBER_LIBRARY } from '@/lib/data/lumber';
+import { getCutListObjects, buildJoinerySchedule, JointScheduleRow } from '@/lib/geometry/joinery';
+import { CostSettings } from '@/types';
+
+export interface CutList {
+  materialGroups: MaterialGroup[];
+  cutPlans: (LinearCutPlan | undefined)[];     // Per group, for dimensional lumber and round stock
+  sheetPlans: (SheetNestingPlan | undefined)[]; // Per group, for sheet goods
+  jointRows: JointScheduleRow[];
+  costSettings: CostSettings;
+  estimate: CostEstimate;
+}
+
+/**
+ * Material groups, stock layouts and cost estimate for the active tab
+ */
+export function useCutList(): CutList {
+  const objects = useProjectStore((state) => state.tabs[state.activeTabIndex]?.objects);
+  const assemblies = useProjectStore((state) => state.tabs[state.activeTabIndex]?.assemblies);
+  const joints = useProjectStore((state) => state.tabs[state.activeTabIndex]?.joints);
+  const costs = useProjectStore((state) => state.tabs[state.activeTabIndex]?.projectInfo.costs);
+  const sawKerf = useUIStore((state) => state.sawKerf);
+  const trimAllowance = useUIStore((state) => state.trimAllowance);
+  const respectGrain = useUIStore((state) => state.respectGrain);
+  const customItems = useCustomLumberStore((state) => state.customItems);
+  const prices = usePriceStore((state) => state.prices);
+
+  return useMemo(() => {
+    const parts = objects ?? [];
+    const partAssemblies = assemblies ?? [];
+    const partJoints = joints ?? [];
+    const costSettings = costs ?? DEFAULT_COST_SETTINGS;
+    const library = applyPrices([...LUMBER_LIBRARY, ...customItems], prices);
+
+    // Aggregate objects into material groups, lengthened where they reach into joints
+    const materialGroups = aggregateByMaterial(getCutListObjects(parts, partAssemblies, partJoints));
+
+    // Optimize stock usage for each lumber group; every piece in a group has the same
+    // cross-section, so the first piece picks the stock
+    const cutPlans = materialGroups.map((group) =>
+      group.category === 'Dimensional Lumber' || group.category === 'Round Stock'
+        ? optimizeLinearCuts(group.pieces, getStockLengths(group.pieces[0], library), {
+            kerf: sawKerf,
+            trim: trimAllowance,
+          })
+        : undefined
+    );
+
+    // Nest parts onto stock sheets for each sheet goods group
+    const sheetPlans = materialGroups.map((group) => {
+      if (group.category !== 'Sheet Goods') return undefined;
+      const sheet = getSheetSize(group.pieces[0], library);
+      return nestSheetParts(group.pieces, {
+        sheetWidth: sheet.width,
+        sheetLength: sheet.length,
+        kerf: sawKerf,
+        respectGrain,
+      });
+    });
+
+    const materials = materialGroups.map((group, index) =>
+      priceMaterialGroup(group, library, costSettings.wastePercent, cutPlans[index], sheetPlans[index])
+    );
+
+    return {
+      materialGroups,
+      cutPlans,
+      sheetPlans,
+      jointRows: buildJoinerySchedule(partJoints, parts, partAssemblies),
+      costSettings,
+      estimate: estimateProjectCost(materialGroups, materials, costSettings),
+    };
+  }, [objects, assemblies, joints, costs, sawKerf, trimAllowance, respectGrain, customItems, prices]);
+}
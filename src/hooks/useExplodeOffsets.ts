@@ -0,0 +1,20 @@
+import { useMemo } from 'react';
+import { useUIStore } from '@/stores/uiStore';
+import { useProjectStore } from '@/stores/projectStore';
+import { computeExplodeOffsets } from '@/lib/hierarchy/explode';
+import { Vector3D } from '@/types';
+
+/**
+ * Exploded-view display offsets for the active tab, keyed by node ID
+ * Empty when the model is shown assembled.
+ */
+export function useExplodeOffsets(): Map<string, Vector3D> {
+  const explode = useUIStore((state) => state.explode);
+  const objects = useProjectStore((state) => state.tabs[state.activeTabIndex]?.objects);
+  const assemblies = useProjectStore((state) => state.tabs[state.activeTabIndex]?.assemblies);
+
+  return useMemo(
+    () => computeExplodeOffsets(objects ?? [], assemblies ?? [], explode),
+    [objects, assemblies, explode]
+  );
+}
@@ -0,0 +1,17 @@
+import { useMemo } from 'react';
+import { useProjectStore } from '@/stores/projectStore';
+import { findInterferences, Interference } from '@/lib/geometry/interference';
+
+/**
+ * Overlapping part pairs in the active tab, including allowed ones
+ */
+export function useInterferences(): Interference[] {
+  const objects = useProjectStore((state) => state.tabs[state.activeTabIndex]?.objects);
+  const assemblies = useProjectStore((state) => state.tabs[state.activeTabIndex]?.assemblies);
+  const allowed = useProjectStore((state) => state.tabs[state.activeTabIndex]?.allowedInterferences);
+
+  return useMemo(
+    () => findInterferences(objects ?? [], assemblies ?? [], allowed ?? []),
+    [objects, assemblies, allowed]
+  );
+}
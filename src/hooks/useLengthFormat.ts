@@ -0,0 +1,33 @@
+import { useMemo } from 'react';
+import { useUIStore } from '@/stores/uiStore';
+import { useUnitSystem } from '@/stores/projectStore';
+import { formatLength, formatLengthValue, parseLength } from '@/lib/units/units';
+import { LengthDisplay, UnitSystem } from '@/types';
+
+export interface LengthFormatter {
+  units: UnitSystem;
+  display: LengthDisplay;
+  format: (inches: number) => string;       // With its unit, for labels
+  formatValue: (inches: number) => string;  // For editing in a text field
+  parse: (text: string) => number | null;   // Typed text to inches
+}
+
+/**
+ * Length formatting for the active project's units and the chosen inch display
+ */
+export function useLengthFormat(): LengthFormatter {
+  const units = useUnitSystem();
+  const format = useUIStore((state) => state.lengthFormat);
+  const precision = useUIStore((state) => state.fractionPrecision);
+
+  return useMemo(() => {
+    const display = { format, precision };
+    return {
+      units,
+      display,
+      format: (inches: number) => formatLength(inches, units, display),
+      formatValue: (inches: number) => formatLengthValue(inches, units, display),
+      parse: (text: string) => parseLength(text, units),
+    };
+  }, [units, format, precision]);
+}
@@ -0,0 +1,19 @@
+import { useMemo } from 'react';
+import { useProjectStore } from '@/stores/projectStore';
+import { buildPartsList, PartsListEntry } from '@/lib/cutlist/partsList';
+import { getCutListObjects } from '@/lib/geometry/joinery';
+
+/**
+ * Lettered parts list for the active tab, shared by the cut list and the canvas callouts
+ * Parts are sized as they must be cut, like the materials list in useCutList.
+ */
+export function usePartsList(): PartsListEntry[] {
+  const objects = useProjectStore((state) => state.tabs[state.activeTabIndex]?.objects);
+  const assemblies = useProjectStore((state) => state.tabs[state.activeTabIndex]?.assemblies);
+  const joints = useProjectStore((state) => state.tabs[state.activeTabIndex]?.joints);
+
+  return useMemo(
+    () => buildPartsList(getCutListObjects(objects ?? [], assemblies ?? [], joints ?? []), assemblies ?? []),
+    [objects, assemblies, joints]
+  );
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { nestSheetParts, getSheetPartFace } from '../nesting';
+import { calculateSheetCount } from '../aggregator';
+import { DraftObject } from '@/types';
+import { makePart } from '@/test/fixtures';
+
+function panel(id: string, width: number, height: number, thickness = 0.75): DraftObject {
+  return makePart({
+    id,
+    type: 'sheet',
+    name: `Panel ${id}`,
+    dimensions: { width, height, depth: thickness },
+    material: 'plywood',
+    category: 'Sheet Goods',
+  });
+}
+
+const options = { sheetWidth: 48, sheetLength: 96, kerf: 0.125, respectGrain: true };
+
+describe('Sheet Nesting', () => {
+  it('should treat the thinnest dimension as thickness', () => {
+    const shelf = { ...panel('a', 0, 0), dimensions: { width: 30, height: 0.75, depth: 11.25 } };
+    expect(getSheetPartFace(shelf)).toEqual({ width: 30, length: 11.25, thickness: 0.75 });
+  });
+
+  it('should fit several parts on one sheet', () => {
+    const pieces = [panel('a', 23, 47), panel('b', 23, 47), panel('c', 23, 47), panel('d', 23, 47)];
+    const plan = nestSheetParts(pieces, options);
+
+    expect(plan.sheets).toHaveLength(1);
+    expect(plan.sheets[0].placements).toHaveLength(4);
+  });
+
+  it('should leave kerf between parts', () => {
+    // Two 24" parts need 48.125" across a 48" sheet
+    const plan = nestSheetParts([panel('a', 24, 96), panel('b', 24, 96)], options);
+    expect(plan.sheets).toHaveLength(2);
+  });
+
+  it('should not overlap placements', () => {
+    const pieces = Array.from({ length: 9 }, (_, i) => panel(`p${i}`, 15, 20));
+    const plan = nestSheetParts(pieces, options);
+
+    plan.sheets.forEach(sheet => {
+      sheet.placements.forEach((a, i) => {
+        expect(a.x + a.width).toBeLessThanOrEqual(48);
+        expect(a.y + a.length).toBeLessThanOrEqual(96);
+        sheet.placements.slice(i + 1).forEach(b => {
+          const overlaps = a.x < b.x + b.width && b.x < a.x + a.width &&
+            a.y < b.y + b.length && b.y < a.y + a.length;
+          expect(overlaps).toBe(false);
+        });
+      });
+    });
+  });
+
+  it('should only rotate parts when grain is ignored', () => {
+    const wide = panel('a', 90, 20);
+
+    expect(nestSheetParts([wide], options).unplaced).toHaveLength(1);
+
+    const plan = nestSheetParts([wide], { ...options, respectGrain: false });
+    expect(plan.sheets[0].placements[0].rotated).toBe(true);
+  });
+
+  it('should count sheets from the nesting result', () => {
+    expect(calculateSheetCount([panel('a', 20, 20), panel('b', 20, 20), panel('c', 20, 20)])).toBe(1);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { optimizeLinearCuts } from '../optimizer';
+import { getStockLengths, DEFAULT_STOCK_LENGTHS } from '../stock';
+import { aggregateByMaterial } from '../aggregator';
+import { LUMBER_LIBRARY } from '@/lib/data/lumber';
+import { DraftObject } from '@/types';
+import { makePart } from '@/test/fixtures';
+
+function piece(id: string, length: number): DraftObject {
+  return makePart({ id, name: '2×4', dimensions: { width: 1.5, height: 3.5, depth: length } });
+}
+
+describe('Cut Optimizer', () => {
+  describe('getStockLengths', () => {
+    it('should find library lengths by material and cross-section', () => {
+      expect(getStockLengths(piece('a', 30), LUMBER_LIBRARY)).toEqual([96, 120]);
+    });
+
+    it('should fall back to default lengths when nothing matches', () => {
+      const oak = { ...piece('a', 30), material: 'oak' };
+      expect(getStockLengths(oak, LUMBER_LIBRARY)).toEqual(DEFAULT_STOCK_LENGTHS);
+    });
+  });
+
+  describe('optimizeLinearCuts', () => {
+    it('should pack pieces onto as few boards as possible', () => {
+      const pieces = [piece('a', 45), piece('b', 45), piece('c', 45), piece('d', 45)];
+      const plan = optimizeLinearCuts(pieces, [96], { kerf: 0.125, trim: 1 });
+
+      expect(plan.boards).toHaveLength(2);
+      expect(plan.boardsToBuy).toEqual([{ stockLength: 96, count: 2 }]);
+      expect(plan.unplaced).toHaveLength(0);
+    });
+
+    it('should account for kerf between cuts', () => {
+      // Two 48" pieces only fit on a 96" board with zero kerf and trim
+      const pieces = [piece('a', 48), piece('b', 48)];
+
+      expect(optimizeLinearCuts(pieces, [96], { kerf: 0, trim: 0 }).boards).toHaveLength(1);
+      expect(optimizeLinearCuts(pieces, [96], { kerf: 0.125, trim: 0 }).boards).toHaveLength(2);
+    });
+
+    it('should shrink boards to the shortest stock that fits', () => {
+      const pieces = [piece('a', 100), piece('b', 60)];
+      const plan = optimizeLinearCuts(pieces, [96, 120], { kerf: 0.125, trim: 1 });
+
+      expect(plan.boardsToBuy).toEqual([
+        { stockLength: 96, count: 1 },
+        { stockLength: 120, count: 1 },
+      ]);
+    });
+
+    it('should report pieces longer than any stock as unplaced', () => {
+      const plan = optimizeLinearCuts([piece('a', 130)], [96, 120], { kerf: 0.125, trim: 1 });
+
+      expect(plan.boards).toHaveLength(0);
+      expect(plan.unplaced.map(p => p.id)).toEqual(['a']);
+    });
+
+    it('should calculate waste percentage from stock bought', () => {
+      const plan = optimizeLinearCuts([piece('a', 72)], [96], { kerf: 0.125, trim: 0 });
+
+      expect(plan.totalStockLength).toBe(96);
+      expect(plan.wastePercent).toBeCloseTo(25);
+    });
+
+    it('should lay cuts out along the board after the trim', () => {
+      const plan = optimizeLinearCuts([piece('a', 30), piece('b', 20)], [96], { kerf: 0.125, trim: 1 });
+      const [first, second] = plan.boards[0].cuts;
+
+      expect(first.offset).toBe(0.5);
+      expect(second.offset).toBeCloseTo(0.5 + 30 + 0.125);
+      expect(plan.boards[0].offcut).toBeCloseTo(96 - 1 - 50.125);
+    });
+  });
+
+  describe('aggregateByMaterial', () => {
+    it('should split a nominal size by actual cross-section so each group has one stock', () => {
+      const ripped = { ...piece('b', 30), name: 'Pine 2x4', dimensions: { width: 1.5, height: 3, depth: 30 } };
+      const groups = aggregateByMaterial([{ ...piece('a', 30), name: 'Pine 2x4' }, ripped]);
+
+      expect(groups.map(g => g.nominalSize)).toEqual(['2x4 (1.5" × 3.5")', '2x4 (1.5" × 3")']);
+      expect(getStockLengths(groups[0].pieces[0], LUMBER_LIBRARY)).toEqual([96, 120]);
+      expect(getStockLengths(groups[1].pieces[0], LUMBER_LIBRARY)).toEqual(DEFAULT_STOCK_LENGTHS);
+    });
+  });
+});
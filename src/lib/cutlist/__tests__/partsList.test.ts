@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { buildPartsList, getPartLetter, getPartLetters } from '../partsList';
+import { Assembly, DraftObject, Dimensions } from '@/types';
+import { makePart, makeAssembly } from '@/test/fixtures';
+
+function part(id: string, name: string, dimensions: Dimensions, material = 'pine', parentId?: string): DraftObject {
+  return makePart({ id, name, dimensions, material, parentId });
+}
+
+const assemblies: Assembly[] = [
+  makeAssembly('base', ['left', 'right'], { name: 'Base' }),
+];
+
+describe('Parts List', () => {
+  it('should letter parts like spreadsheet columns', () => {
+    expect(getPartLetter(0)).toBe('A');
+    expect(getPartLetter(25)).toBe('Z');
+    expect(getPartLetter(26)).toBe('AA');
+    expect(getPartLetter(27)).toBe('AB');
+  });
+
+  it('should group identical parts and letter the largest first', () => {
+    const objects = [
+      part('rail', 'Rail', { width: 0.75, height: 3, depth: 20 }),
+      part('left', 'Left side', { width: 0.75, height: 11.25, depth: 30 }, 'pine', 'base'),
+      part('right', 'Right side', { width: 0.75, height: 11.25, depth: 30 }, 'pine', 'base'),
+      part('oak', 'Oak side', { width: 0.75, height: 11.25, depth: 30 }, 'oak'),
+    ];
+    const entries = buildPartsList(objects, assemblies);
+
+    expect(entries.map((e) => e.quantity)).toEqual([2, 1, 1]);
+    expect(entries[0]).toMatchObject({
+      letter: 'A',
+      name: 'Left side',
+      names: ['Left side', 'Right side'],
+      objectIds: ['left', 'right'],
+      assemblies: ['Base'],
+    });
+    expect(entries[2]).toMatchObject({ letter: 'C', name: 'Rail', assemblies: [] });
+    expect(entries[1]).toMatchObject({ letter: 'B', material: 'oak' });
+    expect(getPartLetters(entries).get('right')).toBe('A');
+  });
+
+  it('should match parts modeled in different orientations', () => {
+    const entries = buildPartsList(
+      [
+        part('shelf', 'Shelf', { width: 0.75, height: 24, depth: 11 }),
+        part('divider', 'Divider', { width: 24, height: 0.75, depth: 11 }),
+      ],
+      []
+    );
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({ quantity: 2, objectIds: ['shelf', 'divider'] });
+  });
+});
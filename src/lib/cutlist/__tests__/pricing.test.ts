@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { applyPrices, priceMaterialGroup, estimateProjectCost, formatCostQuantity, DEFAULT_COST_SETTINGS } from '../pricing';
+import { aggregateByMaterial } from '../aggregator';
+import { optimizeLinearCuts } from '../optimizer';
+import { nestSheetParts } from '../nesting';
+import { LUMBER_LIBRARY } from '@/lib/data/lumber';
+import { DraftObject, Dimensions } from '@/types';
+import { makePart } from '@/test/fixtures';
+
+function part(id: string, dimensions: Dimensions, material = 'pine', category = 'Dimensional Lumber'): DraftObject {
+  return makePart({ id, name: category === 'Sheet Goods' ? 'Plywood 3/4"' : 'Pine 2x4', dimensions, material, category });
+}
+
+const studs = [
+  part('a', { width: 1.5, height: 3.5, depth: 90 }),
+  part('b', { width: 1.5, height: 3.5, depth: 110 }),
+];
+
+describe('priceMaterialGroup', () => {
+  it('should price each board the cut plan buys at its own length', () => {
+    const library = applyPrices(LUMBER_LIBRARY, {
+      'lib-2x4-96': { amount: 4, unit: 'board' },
+      'lib-2x4-120': { amount: 6, unit: 'board' },
+    });
+    const [group] = aggregateByMaterial(studs);
+    const plan = optimizeLinearCuts(group.pieces, [96, 120], { kerf: 0.125, trim: 1 });
+    const line = priceMaterialGroup(group, library, 15, plan)!;
+
+    expect(line.quantity).toBe(2);
+    expect(line.cost).toBe(10);
+    expect(formatCostQuantity(line)).toBe('2 boards');
+  });
+
+  it('should price a length with no price of its own per foot at the nearest priced length', () => {
+    const library = applyPrices(LUMBER_LIBRARY, { 'lib-2x4-96': { amount: 4, unit: 'board' } });
+    const [group] = aggregateByMaterial(studs);
+    const plan = optimizeLinearCuts(group.pieces, [96, 120], { kerf: 0.125, trim: 1 });
+    const line = priceMaterialGroup(group, library, 15, plan)!;
+
+    // The 120" board costs 4 × 120/96
+    expect(line.cost).toBeCloseTo(9);
+  });
+
+  it('should add the waste factor to board-foot prices', () => {
+    const library = applyPrices(LUMBER_LIBRARY, { 'lib-2x4-96': { amount: 2, unit: 'board-foot' } });
+    const [group] = aggregateByMaterial(studs);
+    const line = priceMaterialGroup(group, library, 10)!;
+
+    expect(line.quantity).toBeCloseTo(group.totalBoardFeet! * 1.1);
+    expect(line.cost).toBeCloseTo(group.totalBoardFeet! * 1.1 * 2);
+  });
+
+  it('should price sheet goods per nested sheet', () => {
+    const library = applyPrices(LUMBER_LIBRARY, { 'lib-ply-3_4': { amount: 55, unit: 'sheet' } });
+    const panels = [
+      part('p1', { width: 40, height: 90, depth: 0.75 }, 'plywood', 'Sheet Goods'),
+      part('p2', { width: 40, height: 90, depth: 0.75 }, 'plywood', 'Sheet Goods'),
+    ];
+    const [group] = aggregateByMaterial(panels);
+    const plan = nestSheetParts(group.pieces, { sheetWidth: 48, sheetLength: 96, kerf: 0.125, respectGrain: true });
+
+    expect(priceMaterialGroup(group, library, 15, undefined, plan)!.cost).toBe(110);
+  });
+
+  it('should return null without a library price', () => {
+    const [group] = aggregateByMaterial(studs);
+    expect(priceMaterialGroup(group, LUMBER_LIBRARY, 15)).toBeNull();
+  });
+});
+
+describe('estimateProjectCost', () => {
+  it('should add extras and tax to the material cost', () => {
+    const groups = aggregateByMaterial([...studs, part('oak', { width: 0.75, height: 5.5, depth: 30 }, 'oak')]);
+    const materials = [null, { label: 'pine', quantity: 2, unit: 'board' as const, unitPrice: 5, cost: 10 }];
+    const estimate = estimateProjectCost(groups, materials, {
+      ...DEFAULT_COST_SETTINGS,
+      taxPercent: 10,
+      extras: [{ id: 'screws', label: 'Screws', quantity: 2, unitPrice: 5 }],
+    });
+
+    expect(estimate.subtotal).toBe(20);
+    expect(estimate.tax).toBe(2);
+    expect(estimate.total).toBe(22);
+    expect(estimate.unpriced).toEqual(['oak 2x4']);
+  });
+});
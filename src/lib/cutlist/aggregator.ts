@@ -1,21 +1,29 @@
 import { DraftObject } from '@/types';
+import { nestSheetParts, NestingOptions, DEFAULT_NESTING_OPTIONS } from './nesting';
+import { formatDiameter } from '@/lib/geometry/roundStock';
 
 export interface MaterialGroup {
   material: string;           // e.g., "Pine"
   nominalSize: string;        // e.g., "2x4", "Plywood 3/4\""
-  category: string;           // "Dimensional Lumber" or "Sheet Goods"
+  category: string;           // "Dimensional Lumber", "Round Stock" or "Sheet Goods"
   pieces: DraftObject[];      // All objects in this group
   quantity: number;           // Total count
   totalBoardFeet?: number;    // For lumber only
-  totalLinearFeet?: number;   // For lumber only
+  totalLinearFeet?: number;   // For lumber and round stock
   sheetCount?: number;        // For sheet goods only
+  totalArea?: number;         // Square inches of part faces, for sheet goods only
 }
 
 /**
  * Extract nominal size from object name
  * Examples: "Pine 2x4 - 96\"" -> "2x4", "Plywood 3/4\" - 4x8" -> "3/4\""
+ * Round parts are grouped by the diameter of the stock they are turned from.
  */
 function getNominalSize(obj: DraftObject): string {
+  if (obj.round) {
+    return formatDiameter(Math.max(obj.dimensions.width, obj.round.endDiameter ?? 0));
+  }
+
   // Try to extract from name
   const name = obj.name;
 
@@ -35,6 +43,18 @@ function getNominalSize(obj: DraftObject): string {
   return `${obj.dimensions.width}" × ${obj.dimensions.height}"`;
 }
 
+/**
+ * Actual cross-section a piece is cut from: the thickness of a sheet part, or the width and
+ * height of linear stock in either orientation. Pieces only share stock when this matches.
+ */
+function getCrossSection(obj: DraftObject): string {
+  const { width, height, depth } = obj.dimensions;
+  if (obj.category === 'Sheet Goods') {
+    return Math.min(width, height, depth).toFixed(4);
+  }
+  return [width, height].sort((a, b) => a - b).map(value => value.toFixed(4)).join('×');
+}
+
 /**
  * Calculate board feet for a piece of lumber
  * Formula: (width × height × depth) / 144
@@ -53,25 +73,52 @@ export function calculateLinearFeet(pieces: DraftObject[]): number {
 }
 
 /**
- * Calculate sheet count
- * For V1, simply count the number of pieces
- * Future: Could optimize by calculating how many pieces fit per sheet
+ * Calculate the total face area of sheet parts in square inches
+ * The smallest dimension of each part is its thickness
+ */
+export function calculateFaceArea(pieces: DraftObject[]): number {
+  return pieces.reduce((sum, piece) => {
+    const { width, height, depth } = piece.dimensions;
+    return sum + (width * height * depth) / Math.min(width, height, depth);
+  }, 0);
+}
+
+/**
+ * Calculate sheet count by nesting the pieces onto stock sheets
+ * Defaults to 4×8 sheets with a 1/8" kerf, respecting grain direction
  */
-export function calculateSheetCount(pieces: DraftObject[]): number {
-  return pieces.length;
+export function calculateSheetCount(
+  pieces: DraftObject[],
+  options: NestingOptions = DEFAULT_NESTING_OPTIONS
+): number {
+  const plan = nestSheetParts(pieces, options);
+  // Oversized parts still need a sheet each
+  return plan.sheets.length + plan.unplaced.length;
+}
+
+/**
+ * Profiled lumber parts are cut from a straight blank covering their bounding rectangle:
+ * the extrusion is the board thickness and the longer side of the profile its length
+ */
+export function getLumberBlank(obj: DraftObject): DraftObject {
+  if (!obj.profile || obj.category !== 'Dimensional Lumber') return obj;
+  const { width, height, depth } = obj.dimensions;
+  return { ...obj, dimensions: { width: depth, height: Math.min(width, height), depth: Math.max(width, height) } };
 }
 
 /**
  * Group objects by material type
- * Groups by: material + nominal size
+ * Groups by: material + nominal size + actual cross-section, so every piece in a group is
+ * cut from the same stock. Groups whose names give the same nominal size but whose actual
+ * sizes differ have the actual size added to their nominal size.
  */
 export function aggregateByMaterial(objects: DraftObject[]): MaterialGroup[] {
   // Group objects
   const groups = new Map<string, MaterialGroup>();
 
-  objects.forEach(obj => {
+  objects.map(getLumberBlank).forEach(obj => {
     const nominalSize = getNominalSize(obj);
-    const key = `${obj.material}-${nominalSize}`;
+    const key = `${obj.material}-${nominalSize}-${getCrossSection(obj)}`;
 
     if (!groups.has(key)) {
       groups.set(key, {
@@ -88,6 +135,22 @@ export function aggregateByMaterial(objects: DraftObject[]): MaterialGroup[] {
     group.quantity++;
   });
 
+  // Tell apart groups that share a label
+  const labels = new Map<string, number>();
+  groups.forEach(group => {
+    const label = `${group.material}-${group.nominalSize}`;
+    labels.set(label, (labels.get(label) ?? 0) + 1);
+  });
+  groups.forEach(group => {
+    if (labels.get(`${group.material}-${group.nominalSize}`)! > 1) {
+      const { width, height, depth } = group.pieces[0].dimensions;
+      const actual = group.category === 'Sheet Goods'
+        ? `${Math.min(width, height, depth)}"`
+        : [width, height].sort((a, b) => a - b).map(value => `${value}"`).join(' × ');
+      group.nominalSize = `${group.nominalSize} (${actual})`;
+    }
+  });
+
   // Calculate totals for each group
   groups.forEach(group => {
     if (group.category === 'Dimensional Lumber') {
@@ -102,9 +165,12 @@ export function aggregateByMaterial(objects: DraftObject[]): MaterialGroup[] {
 
       // Calculate linear feet
       group.totalLinearFeet = calculateLinearFeet(group.pieces);
+    } else if (group.category === 'Round Stock') {
+      group.totalLinearFeet = calculateLinearFeet(group.pieces);
     } else if (group.category === 'Sheet Goods') {
       // Calculate sheet count
       group.sheetCount = calculateSheetCount(group.pieces);
+      group.totalArea = calculateFaceArea(group.pieces);
     }
   });
 
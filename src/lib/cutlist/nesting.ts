@@ -0,0 +1,237 @@
+import { DraftObject } from '@/types';
+import { Point2D } from '@/lib/geometry/projection';
+import { getProfileOutline, getPolygonArea } from '@/lib/geometry/profiles';
+
+export interface NestingOptions {
+  sheetWidth: number;     // Across the grain, in inches
+  sheetLength: number;    // Along the grain, in inches
+  kerf: number;           // Saw blade width in inches
+  respectGrain: boolean;  // When true, parts are never rotated on the sheet
+}
+
+export const DEFAULT_NESTING_OPTIONS: NestingOptions = {
+  sheetWidth: 48,
+  sheetLength: 96,
+  kerf: 0.125,
+  respectGrain: true,
+};
+
+export interface SheetPartFace {
+  width: number;      // Across the grain
+  length: number;     // Along the grain
+  thickness: number;
+}
+
+export interface SheetPlacement {
+  pieceId: string;
+  name: string;
+  x: number;          // Offset across the sheet width
+  y: number;          // Offset along the sheet length
+  width: number;      // Placed size across the sheet (after rotation)
+  length: number;     // Placed size along the sheet (after rotation)
+  rotated: boolean;   // True when the part's grain runs across the sheet
+  outline?: Point2D[]; // Shape of a profiled part drawn inside its placement, offset from x/y
+}
+
+export interface SheetLayout {
+  sheetWidth: number;
+  sheetLength: number;
+  placements: SheetPlacement[];
+  usedArea: number;
+  wastePercent: number;
+}
+
+export interface SheetNestingPlan {
+  sheets: SheetLayout[];
+  unplaced: DraftObject[];  // Parts too large for the sheet
+  wastePercent: number;
+}
+
+interface FreeRect {
+  x: number;
+  y: number;
+  width: number;
+  length: number;
+}
+
+interface OpenSheet {
+  free: FreeRect[];
+  placements: SheetPlacement[];
+}
+
+/**
+ * Get the face of a sheet part, treating its thinnest dimension as the thickness
+ * Grain follows the library sheet: along height for a panel facing front,
+ * along depth for a panel lying flat or facing the side
+ */
+export function getSheetPartFace(obj: DraftObject): SheetPartFace {
+  const { width, height, depth } = obj.dimensions;
+  const thickness = Math.min(width, height, depth);
+
+  if (depth === thickness) return { width, length: height, thickness };
+  if (height === thickness) return { width, length: depth, thickness };
+  return { width: height, length: depth, thickness };
+}
+
+/**
+ * Outline of a profiled part on its sheet face, with x across and y along the grain
+ * Only parts whose profile lies on the sheet face (extruded through the thickness) have one.
+ */
+export function getSheetPartOutline(obj: DraftObject): Point2D[] | null {
+  const outline = getProfileOutline(obj);
+  const { width, height, depth } = obj.dimensions;
+  if (!outline || depth !== Math.min(width, height, depth)) return null;
+  return outline.map((p) => ({ x: p.x + width / 2, y: p.y + height / 2 }));
+}
+
+/**
+ * Find the best free rectangle for a part (best area fit)
+ */
+function findPosition(
+  sheet: OpenSheet,
+  face: SheetPartFace,
+  allowRotation: boolean
+): { rectIndex: number; rotated: boolean; score: number } | null {
+  let best: { rectIndex: number; rotated: boolean; score: number } | null = null;
+
+  sheet.free.forEach((rect, rectIndex) => {
+    const orientations = allowRotation ? [false, true] : [false];
+    orientations.forEach(rotated => {
+      const w = rotated ? face.length : face.width;
+      const l = rotated ? face.width : face.length;
+      if (w > rect.width + 1e-9 || l > rect.length + 1e-9) return;
+
+      const score = rect.width * rect.length - w * l;
+      if (!best || score < best.score) {
+        best = { rectIndex, rotated, score };
+      }
+    });
+  });
+
+  return best;
+}
+
+/**
+ * Place a part in a free rectangle and split the leftover space (guillotine cut)
+ * Leftovers are split along the shorter axis so the larger offcut stays whole.
+ */
+function placePart(
+  sheet: OpenSheet,
+  piece: DraftObject,
+  face: SheetPartFace,
+  rectIndex: number,
+  rotated: boolean,
+  kerf: number
+): void {
+  const rect = sheet.free[rectIndex];
+  const width = rotated ? face.length : face.width;
+  const length = rotated ? face.width : face.length;
+
+  // Turn the outline a quarter turn with the part when it is rotated
+  const outline = getSheetPartOutline(piece);
+  sheet.placements.push({
+    pieceId: piece.id,
+    name: piece.name,
+    x: rect.x,
+    y: rect.y,
+    width,
+    length,
+    rotated,
+    ...(outline && { outline: rotated ? outline.map((p) => ({ x: p.y, y: face.width - p.x })) : outline }),
+  });
+
+  const usedWidth = width + kerf;
+  const usedLength = length + kerf;
+  const leftoverWidth = rect.width - usedWidth;
+  const leftoverLength = rect.length - usedLength;
+
+  let side: FreeRect;
+  let top: FreeRect;
+  if (leftoverWidth < leftoverLength) {
+    side = { x: rect.x + usedWidth, y: rect.y, width: leftoverWidth, length };
+    top = { x: rect.x, y: rect.y + usedLength, width: rect.width, length: leftoverLength };
+  } else {
+    side = { x: rect.x + usedWidth, y: rect.y, width: leftoverWidth, length: rect.length };
+    top = { x: rect.x, y: rect.y + usedLength, width, length: leftoverLength };
+  }
+
+  sheet.free.splice(rectIndex, 1);
+  [side, top].forEach(r => {
+    if (r.width > 0 && r.length > 0) sheet.free.push(r);
+  });
+}
+
+/**
+ * Nest sheet-good parts onto stock sheets using guillotine cuts
+ * Parts are placed largest first into the tightest-fitting free space on any open sheet.
+ * Profiled parts take up their bounding rectangle, since each is cut free of the sheet with
+ * straight cuts before it is shaped; only the used area counts their outline.
+ */
+export function nestSheetParts(
+  pieces: DraftObject[],
+  options: NestingOptions = DEFAULT_NESTING_OPTIONS
+): SheetNestingPlan {
+  const { sheetWidth, sheetLength, kerf, respectGrain } = options;
+  const allowRotation = !respectGrain;
+
+  const sheets: OpenSheet[] = [];
+  const unplaced: DraftObject[] = [];
+
+  const sorted = pieces
+    .map(piece => ({ piece, face: getSheetPartFace(piece) }))
+    .sort((a, b) =>
+      Math.max(b.face.width, b.face.length) - Math.max(a.face.width, a.face.length) ||
+      b.face.width * b.face.length - a.face.width * a.face.length
+    );
+
+  sorted.forEach(({ piece, face }) => {
+    let target: { sheet: OpenSheet; rectIndex: number; rotated: boolean; score: number } | null = null;
+
+    for (const sheet of sheets) {
+      const position = findPosition(sheet, face, allowRotation);
+      if (position && (!target || position.score < target.score)) {
+        target = { sheet, ...position };
+      }
+    }
+
+    if (!target) {
+      const sheet: OpenSheet = {
+        free: [{ x: 0, y: 0, width: sheetWidth, length: sheetLength }],
+        placements: [],
+      };
+      const position = findPosition(sheet, face, allowRotation);
+      if (!position) {
+        unplaced.push(piece);
+        return;
+      }
+      sheets.push(sheet);
+      target = { sheet, ...position };
+    }
+
+    placePart(target.sheet, piece, face, target.rectIndex, target.rotated, kerf);
+  });
+
+  const sheetArea = sheetWidth * sheetLength;
+  const layouts: SheetLayout[] = sheets.map(sheet => {
+    const usedArea = sheet.placements.reduce(
+      (sum, p) => sum + (p.outline ? Math.abs(getPolygonArea(p.outline)) : p.width * p.length),
+      0
+    );
+    return {
+      sheetWidth,
+      sheetLength,
+      placements: sheet.placements,
+      usedArea,
+      wastePercent: sheetArea > 0 ? (1 - usedArea / sheetArea) * 100 : 0,
+    };
+  });
+
+  const totalUsed = layouts.reduce((sum, layout) => sum + layout.usedArea, 0);
+  const totalArea = layouts.length * sheetArea;
+
+  return {
+    sheets: layouts,
+    unplaced,
+    wastePercent: totalArea > 0 ? (1 - totalUsed / totalArea) * 100 : 0,
+  };
+}
@@ -0,0 +1,144 @@
+import { DraftObject } from '@/types';
+
+export interface CutOptions {
+  kerf: number;   // Saw blade width in inches, lost on every cut
+  trim: number;   // Length lost squaring up each board, in inches (split between both ends)
+}
+
+export const DEFAULT_CUT_OPTIONS: CutOptions = {
+  kerf: 0.125,
+  trim: 1,
+};
+
+export interface LinearCut {
+  pieceId: string;
+  name: string;
+  length: number;
+  offset: number;       // Distance from the start of the board to the start of the cut
+}
+
+export interface StockBoard {
+  stockLength: number;
+  cuts: LinearCut[];
+  usedLength: number;   // Pieces plus kerf between them (excludes trim)
+  offcut: number;       // Usable length left over at the end of the board
+}
+
+export interface BoardPurchase {
+  stockLength: number;
+  count: number;
+}
+
+export interface LinearCutPlan {
+  boards: StockBoard[];
+  boardsToBuy: BoardPurchase[];
+  totalStockLength: number;
+  totalPieceLength: number;
+  wastePercent: number;         // Everything bought but not used in a piece (kerf, trim, offcuts)
+  unplaced: DraftObject[];      // Pieces longer than the longest available stock
+}
+
+interface OpenBoard {
+  stockLength: number;
+  pieces: DraftObject[];
+  usedLength: number;
+}
+
+/**
+ * Length a board needs to hold pieces totalling `used` inches plus one more piece
+ */
+function lengthWithPiece(board: OpenBoard, pieceLength: number, kerf: number): number {
+  return board.usedLength + (board.pieces.length > 0 ? kerf : 0) + pieceLength;
+}
+
+/**
+ * Pack pieces onto stock boards (first-fit decreasing with best fit)
+ * Piece length is the depth dimension. Every board is opened at the longest
+ * stock length, then shrunk to the shortest stock length that still holds its cuts.
+ */
+export function optimizeLinearCuts(
+  pieces: DraftObject[],
+  stockLengths: number[],
+  options: CutOptions = DEFAULT_CUT_OPTIONS
+): LinearCutPlan {
+  const { kerf, trim } = options;
+  const lengths = [...stockLengths].filter(l => l > trim).sort((a, b) => a - b);
+  const longest = lengths[lengths.length - 1] ?? 0;
+
+  const unplaced: DraftObject[] = [];
+  const open: OpenBoard[] = [];
+
+  const sorted = [...pieces].sort((a, b) => b.dimensions.depth - a.dimensions.depth);
+
+  sorted.forEach(piece => {
+    const length = piece.dimensions.depth;
+    if (length > longest - trim) {
+      unplaced.push(piece);
+      return;
+    }
+
+    // Best fit: the open board with the least room left after this cut
+    let best: OpenBoard | null = null;
+    let bestRemaining = Infinity;
+    for (const board of open) {
+      const remaining = board.stockLength - trim - lengthWithPiece(board, length, kerf);
+      if (remaining >= 0 && remaining < bestRemaining) {
+        best = board;
+        bestRemaining = remaining;
+      }
+    }
+
+    const target: OpenBoard = best ?? { stockLength: longest, pieces: [], usedLength: 0 };
+    if (!best) open.push(target);
+    target.usedLength = lengthWithPiece(target, length, kerf);
+    target.pieces.push(piece);
+  });
+
+  // Shrink each board to the shortest stock that fits
+  const boards: StockBoard[] = open.map(board => {
+    const stockLength = lengths.find(l => l - trim >= board.usedLength - 1e-9) ?? board.stockLength;
+
+    let offset = trim / 2;
+    const cuts: LinearCut[] = board.pieces.map(piece => {
+      const cut: LinearCut = {
+        pieceId: piece.id,
+        name: piece.name,
+        length: piece.dimensions.depth,
+        offset,
+      };
+      offset += piece.dimensions.depth + kerf;
+      return cut;
+    });
+
+    return {
+      stockLength,
+      cuts,
+      usedLength: board.usedLength,
+      offcut: stockLength - trim - board.usedLength,
+    };
+  });
+
+  // Longest boards first so the diagrams read top-down
+  boards.sort((a, b) => b.stockLength - a.stockLength || a.offcut - b.offcut);
+
+  const counts = new Map<number, number>();
+  boards.forEach(board => counts.set(board.stockLength, (counts.get(board.stockLength) || 0) + 1));
+  const boardsToBuy = Array.from(counts.entries())
+    .map(([stockLength, count]) => ({ stockLength, count }))
+    .sort((a, b) => a.stockLength - b.stockLength);
+
+  const totalStockLength = boards.reduce((sum, board) => sum + board.stockLength, 0);
+  const totalPieceLength = boards.reduce(
+    (sum, board) => sum + board.cuts.reduce((s, cut) => s + cut.length, 0),
+    0
+  );
+
+  return {
+    boards,
+    boardsToBuy,
+    totalStockLength,
+    totalPieceLength,
+    wastePercent: totalStockLength > 0 ? ((totalStockLength - totalPieceLength) / totalStockLength) * 100 : 0,
+    unplaced,
+  };
+}
@@ -0,0 +1,92 @@
+import { DraftObject, Assembly, Dimensions } from '@/types';
+import { getAssemblyPath } from '@/lib/hierarchy/transforms';
+
+// How the cut list groups pieces: by material and nominal size, or as lettered parts
+export type CutListMode = 'materials' | 'parts';
+
+export interface PartsListEntry {
+  letter: string;             // A, B, C… largest part first
+  name: string;               // Name of the first part; identical parts may be named differently
+  names: string[];            // Distinct names of all the parts
+  dimensions: Dimensions;     // Cut size of the first part, lengthened into its joints
+  material: string;
+  category: string;
+  quantity: number;
+  objectIds: string[];
+  assemblies: string[];       // Distinct assembly paths, e.g. "Cabinet > Drawer"; loose parts add none
+}
+
+/**
+ * Letter for the part at an index: A to Z, then AA, AB… like spreadsheet columns
+ */
+export function getPartLetter(index: number): string {
+  let letter = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter;
+  }
+  return letter;
+}
+
+/**
+ * The three dimensions smallest first, so parts modeled in different orientations match
+ */
+export function getSortedSize({ width, height, depth }: Dimensions): [number, number, number] {
+  return [width, height, depth].sort((a, b) => a - b) as [number, number, number];
+}
+
+/**
+ * Key shared by parts with identical cut dimensions, material and shape, however they are turned
+ */
+function getPartKey(obj: DraftObject): string {
+  return [
+    obj.material.toLowerCase(),
+    ...getSortedSize(obj.dimensions).map(value => value.toFixed(4)),
+    obj.round ? `round:${obj.round.endDiameter ?? ''}` : '',
+    obj.profile ? JSON.stringify(obj.profile) : '',
+  ].join('|');
+}
+
+/**
+ * Group parts with identical dimensions and material, and letter them
+ * Pass the parts at their cut size (see getCutListObjects) so letters match the materials
+ * list. Letters run from the largest part by volume, so a part keeps its letter until
+ * larger parts are added.
+ */
+export function buildPartsList(objects: DraftObject[], assemblies: Assembly[]): PartsListEntry[] {
+  const entries = new Map<string, Omit<PartsListEntry, 'letter'>>();
+
+  objects.forEach(obj => {
+    const key = getPartKey(obj);
+    if (!entries.has(key)) {
+      entries.set(key, {
+        name: obj.name,
+        names: [],
+        dimensions: obj.dimensions,
+        material: obj.material,
+        category: obj.category,
+        quantity: 0,
+        objectIds: [],
+        assemblies: [],
+      });
+    }
+
+    const entry = entries.get(key)!;
+    entry.quantity++;
+    entry.objectIds.push(obj.id);
+    if (!entry.names.includes(obj.name)) entry.names.push(obj.name);
+    const path = getAssemblyPath(obj.id, objects, assemblies);
+    if (path && !entry.assemblies.includes(path)) entry.assemblies.push(path);
+  });
+
+  const volume = ({ width, height, depth }: Dimensions) => width * height * depth;
+  return Array.from(entries.values())
+    .sort((a, b) => volume(b.dimensions) - volume(a.dimensions) || a.name.localeCompare(b.name))
+    .map((entry, index) => ({ ...entry, letter: getPartLetter(index) }));
+}
+
+/**
+ * Part letter for each object in a parts list, keyed by object ID
+ */
+export function getPartLetters(entries: PartsListEntry[]): Map<string, string> {
+  return new Map(entries.flatMap(entry => entry.objectIds.map(id => [id, entry.letter] as [string, string])));
+}
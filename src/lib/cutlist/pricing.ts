@@ -0,0 +1,156 @@
+import { CostSettings, LumberLibraryItem, LumberPrice, PriceUnit } from '@/types';
+import { MaterialGroup, calculateBoardFeet, calculateLinearFeet } from './aggregator';
+import { LinearCutPlan } from './optimizer';
+import { SheetNestingPlan } from './nesting';
+import { findLinearStock, findSheetStock } from './stock';
+
+export const DEFAULT_COST_SETTINGS: CostSettings = {
+  wastePercent: 15,
+  taxPercent: 0,
+  extras: [],
+};
+
+export const PRICE_UNITS: { value: PriceUnit; label: string }[] = [
+  { value: 'board', label: 'per board' },
+  { value: 'board-foot', label: 'per board foot' },
+  { value: 'sheet', label: 'per sheet' },
+  { value: 'linear-foot', label: 'per linear foot' },
+];
+
+export interface CostLine {
+  label: string;              // e.g. "pine 2x4" or "Wood screws"
+  quantity: number;           // In the line's unit
+  unit: PriceUnit | 'each';   // Extra line items are priced each
+  unitPrice: number;
+  cost: number;
+}
+
+export interface CostEstimate {
+  materials: (CostLine | null)[];  // One per material group, null where no stock has a price
+  unpriced: string[];              // Labels of the groups without a price
+  extras: CostLine[];
+  subtotal: number;                // Materials and extras before tax
+  taxPercent: number;
+  tax: number;
+  total: number;
+}
+
+const TOLERANCE = 0.001;
+
+/**
+ * Library items with price overrides applied, keyed by library item id
+ */
+export function applyPrices(library: LumberLibraryItem[], prices: Record<string, LumberPrice>): LumberLibraryItem[] {
+  return library.map(item => (prices[item.id] ? { ...item, price: prices[item.id] } : item));
+}
+
+/**
+ * Cost of one material group at the library price of its stock
+ * The group is priced in the unit of its first priced stock item, and items priced in another
+ * unit are ignored. Board and sheet prices count the whole boards and sheets the cut plan
+ * buys, each stock length at its own price, or per foot at the nearest priced length when it
+ * has none; board-foot and linear-foot prices measure the pieces and add the waste factor.
+ * Returns null when no matching library item has a price.
+ */
+export function priceMaterialGroup(
+  group: MaterialGroup,
+  library: LumberLibraryItem[],
+  wastePercent: number,
+  cutPlan?: LinearCutPlan,
+  sheetPlan?: SheetNestingPlan
+): CostLine | null {
+  const piece = group.pieces[0]; // Groups share one cross-section, so any piece finds the stock
+  const stock = (group.category === 'Sheet Goods' ? findSheetStock(piece, library) : findLinearStock(piece, library))
+    .filter(item => item.price);
+  if (stock.length === 0) return null;
+
+  const { amount, unit } = stock[0].price!;
+  const label = `${group.material} ${group.nominalSize}`;
+  const waste = 1 + wastePercent / 100;
+  const line = (quantity: number): CostLine => ({ label, quantity, unit, unitPrice: amount, cost: quantity * amount });
+
+  if (unit === 'board-foot') {
+    const boardFeet = group.totalBoardFeet ?? group.pieces.reduce(
+      (sum, p) => sum + calculateBoardFeet(p.dimensions.width, p.dimensions.height, p.dimensions.depth),
+      0
+    );
+    return line(boardFeet * waste);
+  }
+  if (unit === 'linear-foot') {
+    return line((group.totalLinearFeet ?? calculateLinearFeet(group.pieces)) * waste);
+  }
+
+  if (sheetPlan) return line(sheetPlan.sheets.length);
+  if (group.sheetCount !== undefined) return line(group.sheetCount);
+  if (!cutPlan) return line(group.quantity);
+
+  const perBoard = stock.filter(item => item.price!.unit === unit);
+  const boardPrice = (length: number) => {
+    const nearest = perBoard.reduce((best, item) =>
+      Math.abs(item.actualDimensions.depth - length) < Math.abs(best.actualDimensions.depth - length) ? item : best
+    );
+    const nearestLength = nearest.actualDimensions.depth;
+    return Math.abs(nearestLength - length) < TOLERANCE
+      ? nearest.price!.amount
+      : (nearest.price!.amount * length) / nearestLength;
+  };
+
+  const quantity = cutPlan.boardsToBuy.reduce((sum, purchase) => sum + purchase.count, 0);
+  const cost = cutPlan.boardsToBuy.reduce((sum, purchase) => sum + purchase.count * boardPrice(purchase.stockLength), 0);
+  return { label, quantity, unit, unitPrice: quantity > 0 ? cost / quantity : amount, cost };
+}
+
+/**
+ * Total a project's material costs with its extra line items and tax
+ */
+export function estimateProjectCost(
+  groups: MaterialGroup[],
+  materials: (CostLine | null)[],
+  settings: CostSettings
+): CostEstimate {
+  const extras: CostLine[] = settings.extras.map(item => ({
+    label: item.label,
+    quantity: item.quantity,
+    unit: 'each',
+    unitPrice: item.unitPrice,
+    cost: item.quantity * item.unitPrice,
+  }));
+
+  const subtotal = [...materials, ...extras].reduce((sum, line) => sum + (line?.cost ?? 0), 0);
+  const tax = subtotal * (settings.taxPercent / 100);
+
+  return {
+    materials,
+    unpriced: groups.filter((_, i) => !materials[i]).map(group => `${group.material} ${group.nominalSize}`),
+    extras,
+    subtotal,
+    taxPercent: settings.taxPercent,
+    tax,
+    total: subtotal + tax,
+  };
+}
+
+/**
+ * Money with two decimals, e.g. $12.50
+ */
+export function formatCurrency(amount: number): string {
+  return `$${amount.toFixed(2)}`;
+}
+
+/**
+ * Quantity of a cost line with its unit, e.g. 3 boards or 12.50 bd ft
+ */
+export function formatCostQuantity(line: CostLine): string {
+  switch (line.unit) {
+    case 'board':
+      return `${line.quantity} ${line.quantity === 1 ? 'board' : 'boards'}`;
+    case 'sheet':
+      return `${line.quantity} ${line.quantity === 1 ? 'sheet' : 'sheets'}`;
+    case 'board-foot':
+      return `${line.quantity.toFixed(2)} bd ft`;
+    case 'linear-foot':
+      return `${line.quantity.toFixed(2)} lin ft`;
+    default:
+      return `${line.quantity}`;
+  }
+}
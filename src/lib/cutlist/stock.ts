@@ -0,0 +1,70 @@
+import { DraftObject, LumberLibraryItem } from '@/types';
+
+/**
+ * Standard lengths used when no library item matches a piece's cross-section
+ */
+export const DEFAULT_STOCK_LENGTHS = [96, 120, 144];
+
+const TOLERANCE = 0.001;
+
+/**
+ * Check whether two cross-sections match, ignoring orientation
+ */
+function sameCrossSection(a: [number, number], b: [number, number]): boolean {
+  const [a1, a2] = [...a].sort((x, y) => x - y);
+  const [b1, b2] = [...b].sort((x, y) => x - y);
+  return Math.abs(a1 - b1) < TOLERANCE && Math.abs(a2 - b2) < TOLERANCE;
+}
+
+/**
+ * Find library items that a piece of linear stock can be cut from
+ * Matches on material and cross-section (width × height); length is the depth
+ */
+export function findLinearStock(piece: DraftObject, library: LumberLibraryItem[]): LumberLibraryItem[] {
+  return library.filter(item =>
+    item.category !== 'Sheet Goods' &&
+    item.material.toLowerCase() === piece.material.toLowerCase() &&
+    !!item.round === !!piece.round &&
+    sameCrossSection(
+      [item.actualDimensions.width, item.actualDimensions.height],
+      [piece.dimensions.width, piece.dimensions.height]
+    )
+  );
+}
+
+/**
+ * Get the distinct stock lengths available for a piece, shortest first
+ * Falls back to DEFAULT_STOCK_LENGTHS when nothing in the library matches
+ */
+export function getStockLengths(piece: DraftObject, library: LumberLibraryItem[]): number[] {
+  const lengths = findLinearStock(piece, library).map(item => item.actualDimensions.depth);
+  const unique = Array.from(new Set(lengths)).sort((a, b) => a - b);
+  return unique.length > 0 ? unique : DEFAULT_STOCK_LENGTHS;
+}
+
+/**
+ * Find library sheets that a sheet-good part can be cut from
+ * Matches on material and thickness (the sheet's depth)
+ */
+export function findSheetStock(piece: DraftObject, library: LumberLibraryItem[]): LumberLibraryItem[] {
+  const thickness = Math.min(piece.dimensions.width, piece.dimensions.height, piece.dimensions.depth);
+  return library.filter(item =>
+    item.category === 'Sheet Goods' &&
+    item.material.toLowerCase() === piece.material.toLowerCase() &&
+    Math.abs(item.actualDimensions.depth - thickness) < TOLERANCE
+  );
+}
+
+/**
+ * Find the stock sheet size for a sheet-good part
+ * Matches on material and thickness; falls back to a 4×8 sheet
+ */
+export function getSheetSize(
+  piece: DraftObject,
+  library: LumberLibraryItem[]
+): { width: number; length: number } {
+  const match = findSheetStock(piece, library)[0];
+
+  if (!match) return { width: 48, length: 96 };
+  return { width: match.actualDimensions.width, length: match.actualDimensions.height };
+}
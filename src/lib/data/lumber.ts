@@ -1,7 +1,7 @@
 import { LumberLibraryItem } from '@/types';
 
 /**
- * Standard lumber library with common dimensional lumber and sheet goods
+ * Standard lumber library with common dimensional lumber, sheet goods and round stock
  * Based on actual dimensions (not nominal sizes)
  */
 
@@ -128,6 +128,97 @@ export const LUMBER_LIBRARY: LumberLibraryItem[] = [
     tags: ['sheet', 'panel', 'structural'],
     isCustom: false,
   },
+  // Round Stock - hardwood dowels (36") and closet rod
+  {
+    id: 'lib-dowel-1_4',
+    nominalName: 'Dowel 1/4"',
+    actualDimensions: { width: 0.25, height: 0.25, depth: 36 },
+    material: 'birch',
+    category: 'Round Stock',
+    tags: ['dowel', 'pin'],
+    isCustom: false,
+    round: {},
+  },
+  {
+    id: 'lib-dowel-5_16',
+    nominalName: 'Dowel 5/16"',
+    actualDimensions: { width: 0.3125, height: 0.3125, depth: 36 },
+    material: 'birch',
+    category: 'Round Stock',
+    tags: ['dowel', 'pin'],
+    isCustom: false,
+    round: {},
+  },
+  {
+    id: 'lib-dowel-3_8',
+    nominalName: 'Dowel 3/8"',
+    actualDimensions: { width: 0.375, height: 0.375, depth: 36 },
+    material: 'birch',
+    category: 'Round Stock',
+    tags: ['dowel', 'pin', 'joinery'],
+    isCustom: false,
+    round: {},
+  },
+  {
+    id: 'lib-dowel-1_2',
+    nominalName: 'Dowel 1/2"',
+    actualDimensions: { width: 0.5, height: 0.5, depth: 36 },
+    material: 'birch',
+    category: 'Round Stock',
+    tags: ['dowel', 'joinery', 'common'],
+    isCustom: false,
+    round: {},
+  },
+  {
+    id: 'lib-dowel-5_8',
+    nominalName: 'Dowel 5/8"',
+    actualDimensions: { width: 0.625, height: 0.625, depth: 36 },
+    material: 'birch',
+    category: 'Round Stock',
+    tags: ['dowel'],
+    isCustom: false,
+    round: {},
+  },
+  {
+    id: 'lib-dowel-3_4',
+    nominalName: 'Dowel 3/4"',
+    actualDimensions: { width: 0.75, height: 0.75, depth: 36 },
+    material: 'birch',
+    category: 'Round Stock',
+    tags: ['dowel', 'peg'],
+    isCustom: false,
+    round: {},
+  },
+  {
+    id: 'lib-dowel-1',
+    nominalName: 'Dowel 1"',
+    actualDimensions: { width: 1, height: 1, depth: 36 },
+    material: 'birch',
+    category: 'Round Stock',
+    tags: ['dowel', 'rod'],
+    isCustom: false,
+    round: {},
+  },
+  {
+    id: 'lib-dowel-1_1_4',
+    nominalName: 'Dowel 1-1/4"',
+    actualDimensions: { width: 1.25, height: 1.25, depth: 36 },
+    material: 'birch',
+    category: 'Round Stock',
+    tags: ['dowel', 'rod', 'rail'],
+    isCustom: false,
+    round: {},
+  },
+  {
+    id: 'lib-closet-rod-96',
+    nominalName: 'Closet Rod 1-5/16"',
+    actualDimensions: { width: 1.3125, height: 1.3125, depth: 96 },
+    material: 'pine',
+    category: 'Round Stock',
+    tags: ['rod', 'closet', 'hanging', '8ft'],
+    isCustom: false,
+    round: {},
+  },
 ];
 
 /**
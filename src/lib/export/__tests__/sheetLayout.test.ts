@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { composeSheet, buildSheetDrawings, constrainFrameOffset, DEFAULT_SHEET_COMPOSER_OPTIONS, ComposedSheet } from '../sheetLayout';
+import { toPagePoint } from '../vectorExport';
+import { ViewType } from '@/types';
+import { makePart } from '@/test/fixtures';
+
+const cabinet = makePart({
+  id: 'cabinet',
+  type: 'sheet',
+  name: 'Cabinet',
+  dimensions: { width: 24, height: 30, depth: 12 },
+  material: 'plywood',
+  category: 'Sheet Goods',
+});
+
+const drawings = buildSheetDrawings([cabinet], [], [], null);
+
+function frameOf(sheet: ComposedSheet, view: ViewType) {
+  return sheet.views.find((v) => v.view === view)!;
+}
+
+describe('Sheet Layout', () => {
+  it('should align top above front and right beside front in third-angle projection', () => {
+    const sheet = composeSheet(drawings, { ...DEFAULT_SHEET_COMPOSER_OPTIONS, isoView: null });
+    const front = frameOf(sheet, 'front');
+    const top = frameOf(sheet, 'top');
+    const right = frameOf(sheet, 'right');
+
+    // Same scale everywhere
+    expect(top.placement.scale).toBe(front.placement.scale);
+    expect(right.placement.scale).toBe(front.placement.scale);
+
+    // Top shares the front's left edge and sits above it
+    expect(top.placement.x).toBeCloseTo(front.placement.x);
+    expect(top.frame.y + top.frame.height).toBeLessThan(front.frame.y);
+
+    // Right shares the front's top edge and sits to its right
+    expect(right.placement.y).toBeCloseTo(front.placement.y);
+    expect(right.frame.x).toBeGreaterThan(front.frame.x + front.frame.width);
+  });
+
+  it('should mirror the arrangement in first-angle projection', () => {
+    const sheet = composeSheet(drawings, { ...DEFAULT_SHEET_COMPOSER_OPTIONS, projection: 'first-angle', isoView: null });
+    const front = frameOf(sheet, 'front');
+    const top = frameOf(sheet, 'top');
+    const right = frameOf(sheet, 'right');
+
+    expect(top.frame.y).toBeGreaterThan(front.frame.y + front.frame.height);
+    expect(right.frame.x + right.frame.width).toBeLessThan(front.frame.x);
+    expect(right.placement.y).toBeCloseTo(front.placement.y);
+  });
+
+  it('should keep front and top model X aligned on the page', () => {
+    const sheet = composeSheet(drawings, { ...DEFAULT_SHEET_COMPOSER_OPTIONS, isoView: null });
+    const front = frameOf(sheet, 'front');
+    const top = frameOf(sheet, 'top');
+
+    const frontEdge = toPagePoint({ x: 12, y: 0 }, front.drawing, front.placement);
+    const topEdge = toPagePoint({ x: 12, y: 0 }, top.drawing, top.placement);
+    expect(topEdge.x).toBeCloseTo(frontEdge.x);
+  });
+
+  it('should pick the largest standard scale that fits', () => {
+    const sheet = composeSheet(buildSheetDrawings([cabinet], [], [], 'iso-front-right'), DEFAULT_SHEET_COMPOSER_OPTIONS);
+    expect(sheet.fits).toBe(true);
+    expect(sheet.scaleLabel).not.toContain('Not to scale');
+
+    const tooBig = composeSheet(drawings, { ...DEFAULT_SHEET_COMPOSER_OPTIONS, scaleId: '1:1', isoView: null });
+    expect(tooBig.fits).toBe(false);
+  });
+
+  it('should constrain dragged views to their projection axis', () => {
+    expect(constrainFrameOffset('top', { x: 2, y: 1 })).toEqual({ x: 0, y: 1 });
+    expect(constrainFrameOffset('right', { x: 2, y: 1 })).toEqual({ x: 2, y: 0 });
+
+    const moved = composeSheet(drawings, { ...DEFAULT_SHEET_COMPOSER_OPTIONS, isoView: null }, undefined, { front: { x: 1, y: 0 } });
+    const base = composeSheet(drawings, { ...DEFAULT_SHEET_COMPOSER_OPTIONS, isoView: null });
+    // Moving the front view carries the projected views with it
+    expect(frameOf(moved, 'top').placement.x).toBeCloseTo(frameOf(base, 'top').placement.x + 1);
+  });
+});
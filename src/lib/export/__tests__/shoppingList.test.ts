@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { buildShoppingList, shoppingListToCSV, shoppingListToText } from '../shoppingList';
+import { aggregateByMaterial } from '@/lib/cutlist/aggregator';
+import { optimizeLinearCuts } from '@/lib/cutlist/optimizer';
+import { Assembly, DraftObject, Dimensions } from '@/types';
+import { makePart, makeAssembly } from '@/test/fixtures';
+
+function part(id: string, name: string, dimensions: Dimensions, category = 'Dimensional Lumber', parentId?: string): DraftObject {
+  return makePart({
+    id,
+    name,
+    dimensions,
+    material: category === 'Sheet Goods' ? 'plywood' : 'pine',
+    category,
+    parentId,
+  });
+}
+
+const assemblies: Assembly[] = [
+  makeAssembly('table', ['apron'], { name: 'Table' }),
+  makeAssembly('apron', ['a', 'b'], { name: 'Apron, front', parentId: 'table' }),
+];
+
+const objects = [
+  part('a', 'Leg 2x4', { width: 1.5, height: 3.5, depth: 30 }, 'Dimensional Lumber', 'apron'),
+  part('b', 'Leg 2x4', { width: 1.5, height: 3.5, depth: 30 }, 'Dimensional Lumber', 'apron'),
+  part('c', 'Stretcher 2x4', { width: 1.5, height: 3.5, depth: 20 }),
+  part('top', 'Top 3/4"', { width: 24, height: 36, depth: 0.75 }, 'Sheet Goods'),
+];
+
+describe('Shopping List Export', () => {
+  it('should group identical pieces by store section with their assembly path', () => {
+    const sections = buildShoppingList(aggregateByMaterial(objects), objects, assemblies);
+
+    expect(sections.map((s) => s.name)).toEqual(['Lumber', 'Sheet Goods']);
+    const [legs, stretcher] = sections[0].rows;
+    expect(legs).toMatchObject({ name: 'Leg 2x4', quantity: 2, assemblyPath: 'Table > Apron, front' });
+    expect(legs.boardFeet).toBeCloseTo((2 * 1.5 * 3.5 * 30) / 144);
+    expect(stretcher.assemblyPath).toBe('');
+    expect(sections[1].rows[0].boardFeet).toBeUndefined();
+  });
+
+  it('should list the stock to buy from the cut plans', () => {
+    const groups = aggregateByMaterial(objects);
+    const cutPlans = groups.map((group) =>
+      group.category === 'Dimensional Lumber' ? optimizeLinearCuts(group.pieces, [96], { kerf: 0.125, trim: 1 }) : undefined
+    );
+    const sections = buildShoppingList(groups, objects, assemblies, cutPlans);
+
+    expect(sections[0].purchases).toEqual(['1 × pine 2x4 @ 96"']);
+    expect(shoppingListToText(sections)).toContain('[ ] 1 × pine 2x4 @ 96"');
+  });
+
+  it('should write a CSV with quoted cells', () => {
+    const csv = shoppingListToCSV(buildShoppingList(aggregateByMaterial(objects), objects, assemblies));
+    const lines = csv.split('\n');
+
+    expect(lines[0]).toBe('Section,Part,Quantity,W × H × L,Material,Nominal Size,Board Feet,Assembly');
+    expect(lines[1]).toBe('Lumber,Leg 2x4,2,"1.5"" × 3.5"" × 30""",pine,2x4,2.19,"Table > Apron, front"');
+    expect(lines[3]).toBe('Sheet Goods,"Top 3/4""",1,"24"" × 36"" × 0.75""",plywood,"3/4""",,');
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { planTiles, getTileLabel, getTemplatePrintableArea, DEFAULT_TEMPLATE_OPTIONS } from '../templateExport';
+import { ViewDrawing } from '../vectorExport';
+
+function drawingOfSize(width: number, height: number): ViewDrawing {
+  return {
+    view: 'front',
+    lines: [],
+    hiddenLines: [],
+    sectionFaces: [],
+    dimensions: [],
+    bounds: { minX: 0, minY: 0, maxX: width, maxY: height },
+  };
+}
+
+describe('Template Export', () => {
+  it('should fit a small part on a single page', () => {
+    const grid = planTiles(drawingOfSize(4, 4), DEFAULT_TEMPLATE_OPTIONS);
+    expect(grid.rows).toBe(1);
+    expect(grid.cols).toBe(1);
+  });
+
+  it('should tile a large part across overlapping pages', () => {
+    const area = getTemplatePrintableArea('letter', 'portrait');
+    const grid = planTiles(drawingOfSize(30, 12), DEFAULT_TEMPLATE_OPTIONS);
+
+    expect(grid.stepX).toBeCloseTo(area.width - DEFAULT_TEMPLATE_OPTIONS.overlap);
+    // Every part of the padded drawing is covered by some tile
+    expect(grid.cols * grid.stepX + DEFAULT_TEMPLATE_OPTIONS.overlap).toBeGreaterThanOrEqual(30.5);
+    expect(grid.rows * grid.stepY + DEFAULT_TEMPLATE_OPTIONS.overlap).toBeGreaterThanOrEqual(12.5);
+    expect(grid.cols).toBe(5);
+  });
+
+  it('should label tiles by row letter and column number', () => {
+    expect(getTileLabel(0, 0)).toBe('A1');
+    expect(getTileLabel(1, 2)).toBe('B3');
+    expect(getTileLabel(26, 0)).toBe('AA1');
+  });
+});
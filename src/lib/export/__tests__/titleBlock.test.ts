@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import {
+  layoutTitleBlock,
+  getTitleBlockHeight,
+  getTitleBlockValue,
+  DEFAULT_TITLE_BLOCK_TEMPLATES,
+  TITLE_BLOCK_ROW_HEIGHT,
+  TitleBlockContext,
+} from '../titleBlock';
+import { getPageLayout } from '../vectorExport';
+import { TitleBlockTemplate } from '@/types';
+
+const [standard, compact] = DEFAULT_TITLE_BLOCK_TEMPLATES;
+
+const context: TitleBlockContext = {
+  projectInfo: {
+    name: 'Bookshelf',
+    created: '2025-01-01T00:00:00.000Z',
+    modified: '2025-01-01T00:00:00.000Z',
+    notes: '',
+    designer: 'J. Smith',
+    revision: 'B',
+    exteriorDimensions: { width: 36, height: 72, depth: 12 },
+  },
+  scaleLabel: '1:8',
+  sheet: 2,
+  totalSheets: 4,
+  partCount: 14,
+  date: 'Jan 1, 2025',
+};
+
+describe('Title Block', () => {
+  it('should give the project name a full row and pair the other fields', () => {
+    // Project row plus 7 paired fields in 4 rows
+    expect(getTitleBlockHeight(standard)).toBeCloseTo(5 * TITLE_BLOCK_ROW_HEIGHT);
+    // Project row plus scale and sheet side by side
+    expect(getTitleBlockHeight(compact)).toBeCloseTo(2 * TITLE_BLOCK_ROW_HEIGHT);
+
+    const withCompany: TitleBlockTemplate = { ...compact, companyName: 'Smith Woodworks' };
+    expect(getTitleBlockHeight(withCompany)).toBeCloseTo(3 * TITLE_BLOCK_ROW_HEIGHT);
+  });
+
+  it('should place the block in the lower-right corner inside the border', () => {
+    const layout = layoutTitleBlock(standard, 11, 8.5);
+
+    expect(layout.border).toBeDefined();
+    expect(layout.block.x + layout.block.width).toBeCloseTo(10.5);
+    expect(layout.block.y + layout.block.height).toBeCloseTo(8);
+    expect(layout.block.x).toBeGreaterThan(layout.border!.x);
+
+    // Cells stay within the block
+    layout.cells.forEach((cell) => {
+      expect(cell.x + cell.width).toBeLessThanOrEqual(layout.block.width + 1e-6);
+      expect(cell.y + cell.height).toBeLessThanOrEqual(layout.block.height + 1e-6);
+    });
+
+    expect(layoutTitleBlock(compact, 11, 8.5).border).toBeUndefined();
+  });
+
+  it('should fill field values from the project and sheet', () => {
+    expect(getTitleBlockValue('projectName', context)).toBe('Bookshelf');
+    expect(getTitleBlockValue('designer', context)).toBe('J. Smith');
+    expect(getTitleBlockValue('revision', context)).toBe('B');
+    expect(getTitleBlockValue('sheet', context)).toBe('2 of 4');
+    expect(getTitleBlockValue('partCount', context)).toBe('14');
+    expect(getTitleBlockValue('exteriorDimensions', context)).toBe('36" W × 72" H × 12" L');
+
+    const noDimensions = { ...context, projectInfo: { ...context.projectInfo, exteriorDimensions: undefined } };
+    expect(getTitleBlockValue('exteriorDimensions', noDimensions)).toBe('');
+  });
+
+  it('should shrink the drawing area to make room for taller title blocks', () => {
+    const standardLayout = getPageLayout('letter', 'landscape', standard);
+    const compactLayout = getPageLayout('letter', 'landscape', compact);
+
+    expect(compactLayout.drawingArea.height).toBeGreaterThan(standardLayout.drawingArea.height);
+    expect(standardLayout.drawingArea.y + standardLayout.drawingArea.height).toBeLessThanOrEqual(standardLayout.titleBlock.block.y);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { buildViewDrawing, checkDrawingsFit, getPageLayout } from '../vectorExport';
+import { findLargestFittingScale } from '../paper';
+import { buildSolids } from '@/lib/geometry/solids';
+import { DimensionLine } from '@/types';
+import { makePart } from '@/test/fixtures';
+
+const board = makePart({
+  id: 'board',
+  name: '2×4',
+  localPosition: { x: 10, y: 5, z: 0 },
+  dimensions: { width: 20, height: 4, depth: 2 },
+});
+
+const dimension: DimensionLine = {
+  id: 'dim',
+  name: 'Width',
+  startPoint: { x: 0, y: 0, z: 0 },
+  endPoint: { x: 20, y: 0, z: 0 },
+  textOffset: 20,
+  color: '#ff0000',
+  visible: true,
+  locked: false,
+  notes: '',
+};
+
+describe('Vector Export', () => {
+  it('should project a box to its outline in the front view', () => {
+    const drawing = buildViewDrawing('front', buildSolids([board], []), []);
+
+    // Front and back faces coincide, depth edges collapse to points
+    expect(drawing.lines).toHaveLength(4);
+    expect(drawing.bounds).toEqual({ minX: 0, minY: 3, maxX: 20, maxY: 7 });
+  });
+
+  it('should use depth as the vertical extent in the top view', () => {
+    const drawing = buildViewDrawing('top', buildSolids([board], []), []);
+
+    expect(drawing.bounds.maxX - drawing.bounds.minX).toBeCloseTo(20);
+    expect(drawing.bounds.maxY - drawing.bounds.minY).toBeCloseTo(2);
+  });
+
+  it('should label dimension lines with their true length', () => {
+    const drawing = buildViewDrawing('front', [], [dimension]);
+
+    expect(drawing.dimensions).toHaveLength(1);
+    expect(drawing.dimensions[0].label).toBe('20.00"');
+  });
+
+  it('should drop dimension lines seen end-on', () => {
+    const drawing = buildViewDrawing('right', [], [dimension]);
+    expect(drawing.dimensions).toHaveLength(0);
+  });
+
+  it('should flag views that do not fit at the chosen scale', () => {
+    const wide = { ...board, dimensions: { width: 60, height: 4, depth: 2 } };
+    const drawing = buildViewDrawing('front', buildSolids([wide], []), []);
+    const options = { views: ['front' as const], paper: 'letter' as const, orientation: 'landscape' as const, scaleId: '1:4' };
+
+    // 60" at 1:4 is 15" - wider than Letter
+    const [result] = checkDrawingsFit([drawing], options);
+    expect(result.fits).toBe(false);
+    expect(result.suggestedScale?.id).toBe('1:8');
+
+    expect(checkDrawingsFit([drawing], { ...options, scaleId: '1:8' })[0].fits).toBe(true);
+  });
+
+  it('should find the largest scale that fits an area', () => {
+    const layout = getPageLayout('letter', 'landscape');
+    const bounds = { minX: 0, minY: 0, maxX: 10, maxY: 5 };
+
+    expect(findLargestFittingScale(bounds, layout.drawingArea.width, layout.drawingArea.height)?.id).toBe('1:1');
+  });
+});
@@ -77,8 +77,14 @@ export async function exportMultiViewPDF(
   const pageWidth = pdf.internal.pageSize.getWidth();
   const pageHeight = pdf.internal.pageSize.getHeight();
   const margin = 15;
-  const imageWidth = pageWidth - 2 * margin;
-  const imageHeight = pageHeight - 2 * margin - 20; // Leave space for labels
+  const areaWidth = pageWidth - 2 * margin;
+  const areaHeight = pageHeight - 2 * margin - 20; // Leave space for labels
+
+  // Fit the capture inside the area without distorting it
+  const canvasAspect = renderer.domElement.width / renderer.domElement.height || 1;
+  const imageWidth = Math.min(areaWidth, areaHeight * canvasAspect);
+  const imageHeight = imageWidth / canvasAspect;
+  const imageX = margin + (areaWidth - imageWidth) / 2;
 
   // Capture each view
   for (let i = 0; i < views.length; i++) {
@@ -102,7 +108,7 @@ export async function exportMultiViewPDF(
     pdf.text(`View: ${viewLabel}`, margin, margin + 7);
 
     // Add image
-    pdf.addImage(dataURL, 'PNG', margin, margin + 12, imageWidth, imageHeight, undefined, 'FAST');
+    pdf.addImage(dataURL, 'PNG', imageX, margin + 12, imageWidth, imageHeight, undefined, 'FAST');
 
     // Add page number
     pdf.setFontSize(10);
@@ -122,7 +128,7 @@ export async function exportMultiViewPDF(
 /**
  * Get display name for a view type
  */
-function getViewDisplayName(view: ViewType): string {
+export function getViewDisplayName(view: ViewType): string {
   if (view.startsWith('iso-')) {
     const parts = view.replace('iso-', '').split('-');
     return 'Isometric ' + parts.map(p => p.charAt(0).toUpperCase() + p.slice(1)).join('-');
@@ -0,0 +1,166 @@
+import jsPDF from 'jspdf';
+import { SheetNestingPlan } from '@/lib/cutlist/nesting';
+import { formatLength } from '@/lib/units/units';
+import { CostEstimate, formatCurrency, formatCostQuantity } from '@/lib/cutlist/pricing';
+
+export interface SheetPlanExport {
+  label: string;            // e.g. "plywood Plywood 3/4\""
+  plan: SheetNestingPlan;
+}
+
+/**
+ * Export nested sheet layouts as a PDF, one page per sheet
+ * Sheets are drawn landscape with the grain running left to right.
+ */
+export function exportSheetLayoutsPDF(
+  projectName: string,
+  groups: SheetPlanExport[],
+  kerf: number,
+  format: (inches: number) => string = (inches) => formatLength(inches, 'imperial')
+): void {
+  const pdf = new jsPDF({
+    orientation: 'landscape',
+    unit: 'in',
+    format: 'letter',
+  });
+
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const margin = 0.5;
+  const headerHeight = 0.9;
+  const footerHeight = 0.4;
+
+  const pages = groups.flatMap(group =>
+    group.plan.sheets.map((layout, index) => ({ group, layout, index }))
+  );
+  if (pages.length === 0) return;
+
+  pages.forEach(({ group, layout, index }, pageIndex) => {
+    if (pageIndex > 0) {
+      pdf.addPage();
+    }
+
+    // Header
+    pdf.setFontSize(16);
+    pdf.text(projectName, margin, margin + 0.2);
+    pdf.setFontSize(11);
+    pdf.text(
+      `${group.label} - Sheet ${index + 1} of ${group.plan.sheets.length} (${format(layout.sheetWidth)} × ${format(layout.sheetLength)})`,
+      margin,
+      margin + 0.45
+    );
+    pdf.setFontSize(9);
+    pdf.text(
+      `Kerf ${format(kerf)} | ${layout.placements.length} parts | ${layout.wastePercent.toFixed(1)}% waste | Grain runs left to right`,
+      margin,
+      margin + 0.65
+    );
+
+    // Fit the sheet into the drawing area
+    const areaWidth = pageWidth - 2 * margin;
+    const areaHeight = pageHeight - 2 * margin - headerHeight - footerHeight;
+    const scale = Math.min(areaWidth / layout.sheetLength, areaHeight / layout.sheetWidth);
+    const originX = margin;
+    const originY = margin + headerHeight;
+
+    pdf.setLineWidth(0.02);
+    pdf.setDrawColor(0);
+    pdf.setFillColor(235, 235, 235);
+    pdf.rect(originX, originY, layout.sheetLength * scale, layout.sheetWidth * scale, 'FD');
+
+    pdf.setFillColor(255, 255, 255);
+    layout.placements.forEach(placement => {
+      const x = originX + placement.y * scale;
+      const y = originY + placement.x * scale;
+      const w = placement.length * scale;
+      const h = placement.width * scale;
+      if (placement.outline && placement.outline.length > 2) {
+        // Profiled parts: dashed bounding rectangle around the real outline
+        pdf.setLineDashPattern([0.05, 0.05], 0);
+        pdf.rect(x, y, w, h, 'S');
+        pdf.setLineDashPattern([], 0);
+        const points = placement.outline.map(p => ({ x: x + p.y * scale, y: y + p.x * scale }));
+        const deltas = points.slice(1).map((p, i) => [p.x - points[i].x, p.y - points[i].y]);
+        pdf.lines(deltas, points[0].x, points[0].y, [1, 1], 'FD', true);
+      } else {
+        pdf.rect(x, y, w, h, 'FD');
+      }
+
+      // Label with the part name and its size
+      const fontSize = Math.max(5, Math.min(10, h * 30, w * 12));
+      pdf.setFontSize(fontSize);
+      pdf.text(placement.name, x + w / 2, y + h / 2 - fontSize / 144, { align: 'center', baseline: 'middle' });
+      pdf.text(
+        `${format(placement.length)} × ${format(placement.width)}${placement.rotated ? ' (rotated)' : ''}`,
+        x + w / 2,
+        y + h / 2 + fontSize / 144,
+        { align: 'center', baseline: 'middle' }
+      );
+    });
+
+    // Page number
+    pdf.setFontSize(9);
+    pdf.text(`Page ${pageIndex + 1} of ${pages.length}`, pageWidth - margin, pageHeight - margin, { align: 'right' });
+  });
+
+  const filename = `${projectName.replace(/[^a-z0-9]/gi, '_')}_sheets.pdf`;
+  pdf.save(filename);
+}
+
+/**
+ * Draw a cost estimate table in a page region: a row per priced material group and extra
+ * item, groups without a price, then the subtotal, tax and project total
+ */
+export function drawCostEstimate(
+  pdf: jsPDF,
+  estimate: CostEstimate,
+  area: { x: number; y: number; width: number; height: number }
+): void {
+  const rows = [
+    ...estimate.materials.flatMap(line => (line ? [line] : [])).map(line => [
+      line.label, formatCostQuantity(line), formatCurrency(line.unitPrice), formatCurrency(line.cost),
+    ]),
+    ...estimate.unpriced.map(label => [label, '', '', 'No price']),
+    ...estimate.extras.map(line => [
+      line.label || 'Other', formatCostQuantity(line), formatCurrency(line.unitPrice), formatCurrency(line.cost),
+    ]),
+  ];
+  const totals = [
+    ['Subtotal', formatCurrency(estimate.subtotal)],
+    [`Tax (${estimate.taxPercent}%)`, formatCurrency(estimate.tax)],
+    ['Project total', formatCurrency(estimate.total)],
+  ];
+
+  // Shrink rows to fit the area: header, items, a gap and the totals
+  const rowHeight = Math.min(0.25, area.height / (rows.length + totals.length + 2));
+  const columns = [area.x, area.x + area.width * 0.5, area.x + area.width * 0.8, area.x + area.width];
+  const drawRow = (cells: string[], y: number) => {
+    pdf.text(cells[0], columns[0], y);
+    pdf.text(cells[1], columns[1], y);
+    pdf.text(cells[2], columns[2], y, { align: 'right' });
+    pdf.text(cells[3], columns[3], y, { align: 'right' });
+  };
+
+  pdf.setFontSize(Math.min(10, rowHeight * 45));
+  let y = area.y + rowHeight * 0.7;
+  pdf.setFont('helvetica', 'bold');
+  drawRow(['Item', 'Quantity', 'Unit price', 'Cost'], y);
+  pdf.setFont('helvetica', 'normal');
+  pdf.setLineWidth(0.01);
+  pdf.line(area.x, y + rowHeight * 0.3, area.x + area.width, y + rowHeight * 0.3);
+
+  rows.forEach(cells => {
+    y += rowHeight;
+    drawRow(cells, y);
+  });
+
+  y += rowHeight * 0.5;
+  pdf.line(columns[2], y, area.x + area.width, y);
+  totals.forEach(([label, value], i) => {
+    y += rowHeight;
+    if (i === totals.length - 1) pdf.setFont('helvetica', 'bold');
+    pdf.text(label, columns[2], y, { align: 'right' });
+    pdf.text(value, columns[3], y, { align: 'right' });
+  });
+  pdf.setFont('helvetica', 'normal');
+}
@@ -0,0 +1,87 @@
+import { Bounds2D } from '@/lib/geometry/projection';
+
+export type PaperSizeId = 'letter' | 'legal' | 'tabloid' | 'a4' | 'a3';
+export type PaperOrientation = 'portrait' | 'landscape';
+
+export interface PaperSize {
+  id: PaperSizeId;
+  name: string;
+  width: number;    // Portrait width in inches
+  height: number;   // Portrait height in inches
+}
+
+export const PAPER_SIZES: Record<PaperSizeId, PaperSize> = {
+  letter: { id: 'letter', name: 'Letter (8.5 × 11 in)', width: 8.5, height: 11 },
+  legal: { id: 'legal', name: 'Legal (8.5 × 14 in)', width: 8.5, height: 14 },
+  tabloid: { id: 'tabloid', name: 'Tabloid (11 × 17 in)', width: 11, height: 17 },
+  a4: { id: 'a4', name: 'A4 (210 × 297 mm)', width: 210 / 25.4, height: 297 / 25.4 },
+  a3: { id: 'a3', name: 'A3 (297 × 420 mm)', width: 297 / 25.4, height: 420 / 25.4 },
+};
+
+export interface DrawingScale {
+  id: string;
+  label: string;    // Shown in the title block, e.g. 1:4 or 1" = 1'-0"
+  ratio: number;    // Paper inches per model inch
+}
+
+export const DRAWING_SCALES: DrawingScale[] = [
+  { id: '1:1', label: '1:1', ratio: 1 },
+  { id: '1:2', label: '1:2', ratio: 1 / 2 },
+  { id: '1:4', label: '1:4', ratio: 1 / 4 },
+  { id: '1:5', label: '1:5', ratio: 1 / 5 },
+  { id: '1:8', label: '1:8', ratio: 1 / 8 },
+  { id: '1:10', label: '1:10', ratio: 1 / 10 },
+  { id: '3in-ft', label: '3" = 1\'-0"', ratio: 3 / 12 },
+  { id: '1.5in-ft', label: '1-1/2" = 1\'-0"', ratio: 1.5 / 12 },
+  { id: '1in-ft', label: '1" = 1\'-0"', ratio: 1 / 12 },
+  { id: '3/4in-ft', label: '3/4" = 1\'-0"', ratio: 0.75 / 12 },
+  { id: '1/2in-ft', label: '1/2" = 1\'-0"', ratio: 0.5 / 12 },
+  { id: '1/4in-ft', label: '1/4" = 1\'-0"', ratio: 0.25 / 12 },
+  { id: '1:20', label: '1:20', ratio: 1 / 20 },
+  { id: '1:50', label: '1:50', ratio: 1 / 50 },
+];
+
+/**
+ * Get the page size in inches for a paper and orientation
+ */
+export function getPaperDimensions(
+  paper: PaperSizeId,
+  orientation: PaperOrientation
+): { width: number; height: number } {
+  const size = PAPER_SIZES[paper];
+  return orientation === 'portrait'
+    ? { width: size.width, height: size.height }
+    : { width: size.height, height: size.width };
+}
+
+/**
+ * Find a drawing scale by id
+ */
+export function getDrawingScale(id: string): DrawingScale | undefined {
+  return DRAWING_SCALES.find(scale => scale.id === id);
+}
+
+/**
+ * Check whether a drawing fits an area at a scale (all sizes in inches)
+ */
+export function drawingFits(bounds: Bounds2D, ratio: number, areaWidth: number, areaHeight: number): boolean {
+  const epsilon = 1e-6;
+  return (
+    (bounds.maxX - bounds.minX) * ratio <= areaWidth + epsilon &&
+    (bounds.maxY - bounds.minY) * ratio <= areaHeight + epsilon
+  );
+}
+
+/**
+ * Find the largest standard scale at which a drawing fits an area
+ * Returns undefined if even the smallest scale is too large
+ */
+export function findLargestFittingScale(
+  bounds: Bounds2D,
+  areaWidth: number,
+  areaHeight: number
+): DrawingScale | undefined {
+  return [...DRAWING_SCALES]
+    .sort((a, b) => b.ratio - a.ratio)
+    .find(scale => drawingFits(bounds, scale.ratio, areaWidth, areaHeight));
+}
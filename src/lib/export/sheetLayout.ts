@@ -0,0 +1,256 @@
+import jsPDF from 'jspdf';
+import { ViewType, ProjectInfo, DraftObject, Assembly, DimensionLine, TitleBlockTemplate, RenderMode } from '@/types';
+import { buildSolids } from '@/lib/geometry/solids';
+import { Point2D } from '@/lib/geometry/projection';
+import { buildViewDrawing, drawViewDrawing, getPageLayout, PageLayout, ViewDrawing, DrawingPlacement } from './vectorExport';
+import { getViewDisplayName } from './canvasExport';
+import { DEFAULT_TITLE_BLOCK_TEMPLATES, drawTitleBlock } from './titleBlock';
+import { PaperSizeId, PaperOrientation, DRAWING_SCALES, getDrawingScale } from './paper';
+
+/**
+ * Third-angle (ANSI): top view above the front, right view to its right.
+ * First-angle (ISO): top view below the front, right view to its left.
+ */
+export type ProjectionAngle = 'third-angle' | 'first-angle';
+
+export interface SheetComposerOptions {
+  paper: PaperSizeId;
+  orientation: PaperOrientation;
+  projection: ProjectionAngle;
+  scaleId: string;              // A DRAWING_SCALES id, or 'fit' for the largest standard scale that fits
+  isoView: ViewType | null;     // Pictorial view in the free corner, or null for none
+  renderMode: RenderMode;
+  formatLength?: (inches: number) => string; // Dimension labels, defaults to decimal inches
+}
+
+export const DEFAULT_SHEET_COMPOSER_OPTIONS: SheetComposerOptions = {
+  paper: 'letter',
+  orientation: 'landscape',
+  projection: 'third-angle',
+  scaleId: 'fit',
+  isoView: 'iso-front-right',
+  renderMode: 'shaded',
+};
+
+/**
+ * A view placed on the composed sheet
+ * frame is the view's outline on the page in inches (Y down), including padding.
+ */
+export interface ComposedView {
+  view: ViewType;
+  drawing: ViewDrawing;
+  placement: DrawingPlacement;
+  frame: { x: number; y: number; width: number; height: number };
+}
+
+export interface ComposedSheet {
+  layout: PageLayout;
+  views: ComposedView[];
+  scale: number;
+  scaleLabel: string;
+  fits: boolean;              // Whether the arrangement fits the drawing area before any dragging
+}
+
+// User adjustments to view positions, in page inches
+export type ViewFrameOffsets = Partial<Record<ViewType, Point2D>>;
+
+const VIEW_GAP = 0.75;        // Paper inches between neighboring views
+const FRAME_PADDING = 0.15;
+
+/**
+ * Get the orthographic views shown on a composed sheet
+ */
+export function getSheetViews(isoView: ViewType | null): ViewType[] {
+  return isoView ? ['front', 'top', 'right', isoView] : ['front', 'top', 'right'];
+}
+
+/**
+ * Limit a dragged view's offset so projected views stay aligned with the front view
+ * The top view may only move vertically and the right view only horizontally.
+ */
+export function constrainFrameOffset(view: ViewType, offset: Point2D): Point2D {
+  if (view === 'top') return { x: 0, y: offset.y };
+  if (view === 'right') return { x: offset.x, y: 0 };
+  return offset;
+}
+
+const width = (drawing: ViewDrawing) => drawing.bounds.maxX - drawing.bounds.minX;
+const height = (drawing: ViewDrawing) => drawing.bounds.maxY - drawing.bounds.minY;
+
+/**
+ * Arrange front, top, right and optional pictorial views on one sheet at a shared scale
+ * Front and top share model X, front and right share model Y, so edges line up across views.
+ * Dragging the front view moves the whole orthographic group.
+ */
+export function composeSheet(
+  drawings: ViewDrawing[],
+  options: SheetComposerOptions,
+  template: TitleBlockTemplate = DEFAULT_TITLE_BLOCK_TEMPLATES[0],
+  offsets: ViewFrameOffsets = {}
+): ComposedSheet {
+  const layout = getPageLayout(options.paper, options.orientation, template);
+  const area = layout.drawingArea;
+  const find = (view: ViewType) => drawings.find(d => d.view === view);
+  const front = find('front');
+  const top = find('top');
+  const right = find('right');
+  const iso = options.isoView ? find(options.isoView) : undefined;
+
+  if (!front || !top || !right) {
+    throw new Error('A composed sheet needs front, top and right views');
+  }
+
+  // Model extents of the aligned bands
+  const mainMinX = Math.min(front.bounds.minX, top.bounds.minX);
+  const mainW = Math.max(front.bounds.maxX, top.bounds.maxX) - mainMinX;
+  const mainMaxY = Math.max(front.bounds.maxY, right.bounds.maxY);
+  const mainH = mainMaxY - Math.min(front.bounds.minY, right.bounds.minY);
+  const sideW = Math.max(width(right), iso ? width(iso) : 0);
+  const topH = Math.max(height(top), iso ? height(iso) : 0);
+  const modelW = mainW + sideW;
+  const modelH = mainH + topH;
+
+  const fitsAt = (ratio: number) =>
+    modelW * ratio + VIEW_GAP <= area.width + 1e-6 && modelH * ratio + VIEW_GAP <= area.height + 1e-6;
+
+  // All views share one scale
+  const fixedScale = getDrawingScale(options.scaleId);
+  const standardScale = fixedScale ?? [...DRAWING_SCALES].sort((a, b) => b.ratio - a.ratio).find(s => fitsAt(s.ratio));
+  let scale: number;
+  let scaleLabel: string;
+  if (standardScale) {
+    scale = standardScale.ratio;
+    scaleLabel = standardScale.label;
+  } else {
+    scale = Math.min(
+      modelW > 0 ? (area.width - VIEW_GAP) / modelW : Infinity,
+      modelH > 0 ? (area.height - VIEW_GAP) / modelH : Infinity,
+      1
+    );
+    scaleLabel = `Not to scale (~1:${(1 / scale).toFixed(1)})`;
+  }
+
+  // Center the arrangement in the drawing area
+  const totalW = modelW * scale + VIEW_GAP;
+  const totalH = modelH * scale + VIEW_GAP;
+  const originX = area.x + (area.width - totalW) / 2;
+  const originY = area.y + (area.height - totalH) / 2;
+
+  const thirdAngle = options.projection === 'third-angle';
+  const mainLeft = thirdAngle ? originX : originX + sideW * scale + VIEW_GAP;
+  const sideLeft = thirdAngle ? originX + mainW * scale + VIEW_GAP : originX;
+  const mainTop = thirdAngle ? originY + topH * scale + VIEW_GAP : originY;
+  const topRowTop = thirdAngle ? originY : originY + mainH * scale + VIEW_GAP;
+
+  // Views sit against the side of their cell nearest the front view
+  const positions = new Map<ViewType, Point2D>();
+  positions.set('front', {
+    x: mainLeft + (front.bounds.minX - mainMinX) * scale,
+    y: mainTop + (mainMaxY - front.bounds.maxY) * scale,
+  });
+  positions.set('top', {
+    x: mainLeft + (top.bounds.minX - mainMinX) * scale,
+    y: thirdAngle ? topRowTop + (topH - height(top)) * scale : topRowTop,
+  });
+  positions.set('right', {
+    x: thirdAngle ? sideLeft : sideLeft + (sideW - width(right)) * scale,
+    y: mainTop + (mainMaxY - right.bounds.maxY) * scale,
+  });
+  if (iso) {
+    positions.set(iso.view, {
+      x: sideLeft + (sideW - width(iso)) * scale / 2,
+      y: topRowTop + (topH - height(iso)) * scale / 2,
+    });
+  }
+
+  const groupOffset = offsets.front ?? { x: 0, y: 0 };
+  const views = [front, top, right, ...(iso ? [iso] : [])].map(drawing => {
+    const base = positions.get(drawing.view)!;
+    const own = drawing.view === 'front' ? { x: 0, y: 0 } : constrainFrameOffset(drawing.view, offsets[drawing.view] ?? { x: 0, y: 0 });
+    // The pictorial view isn't projected from the front, so it doesn't follow the group
+    const shared = drawing === iso ? { x: 0, y: 0 } : groupOffset;
+    const x = base.x + own.x + shared.x;
+    const y = base.y + own.y + shared.y;
+
+    return {
+      view: drawing.view,
+      drawing,
+      placement: { x, y, scale },
+      frame: {
+        x: x - FRAME_PADDING,
+        y: y - FRAME_PADDING,
+        width: width(drawing) * scale + 2 * FRAME_PADDING,
+        height: height(drawing) * scale + 2 * FRAME_PADDING,
+      },
+    };
+  });
+
+  return { layout, views, scale, scaleLabel, fits: fitsAt(scale) };
+}
+
+/**
+ * Build the drawings for a composed sheet from the model
+ */
+export function buildSheetDrawings(
+  objects: DraftObject[],
+  assemblies: Assembly[],
+  dimensionLines: DimensionLine[],
+  isoView: ViewType | null,
+  renderMode: RenderMode = 'shaded',
+  formatLength?: (inches: number) => string
+): ViewDrawing[] {
+  const solids = buildSolids(objects, assemblies);
+  return getSheetViews(isoView).map(view => buildViewDrawing(view, solids, dimensionLines, renderMode, formatLength));
+}
+
+/**
+ * Export a composed multi-view sheet as a single-page vector PDF
+ */
+export function exportComposedSheetPDF(
+  projectInfo: ProjectInfo,
+  objects: DraftObject[],
+  assemblies: Assembly[],
+  dimensionLines: DimensionLine[],
+  options: SheetComposerOptions = DEFAULT_SHEET_COMPOSER_OPTIONS,
+  template: TitleBlockTemplate = DEFAULT_TITLE_BLOCK_TEMPLATES[0],
+  offsets: ViewFrameOffsets = {}
+): void {
+  const drawings = buildSheetDrawings(objects, assemblies, dimensionLines, options.isoView, options.renderMode, options.formatLength);
+  const sheet = composeSheet(drawings, options, template, offsets);
+
+  const pdf = new jsPDF({
+    orientation: options.orientation,
+    unit: 'in',
+    format: options.paper,
+  });
+
+  sheet.views.forEach(({ view, drawing, placement, frame }) => {
+    drawViewDrawing(pdf, drawing, placement);
+    pdf.setFontSize(8);
+    pdf.text(getViewDisplayName(view).toUpperCase(), frame.x + frame.width / 2, frame.y + frame.height + 0.15, {
+      align: 'center',
+    });
+  });
+
+  // Projection note above the title block
+  const { block } = sheet.layout.titleBlock;
+  pdf.setFontSize(7);
+  pdf.text(
+    options.projection === 'third-angle' ? 'THIRD-ANGLE PROJECTION' : 'FIRST-ANGLE PROJECTION',
+    block.x + block.width,
+    block.y - 0.08,
+    { align: 'right' }
+  );
+
+  drawTitleBlock(pdf, sheet.layout.titleBlock, template, {
+    projectInfo,
+    scaleLabel: sheet.scaleLabel,
+    sheet: 1,
+    totalSheets: 1,
+    partCount: objects.length,
+    formatLength: options.formatLength,
+  });
+
+  const filename = `${projectInfo.name.replace(/[^a-z0-9]/gi, '_')}_sheet.pdf`;
+  pdf.save(filename);
+}
@@ -0,0 +1,254 @@
+import jsPDF from 'jspdf';
+import { DraftObject, Assembly } from '@/types';
+import { MaterialGroup, calculateBoardFeet } from '@/lib/cutlist/aggregator';
+import { LinearCutPlan } from '@/lib/cutlist/optimizer';
+import { SheetNestingPlan } from '@/lib/cutlist/nesting';
+import { getAssemblyPath } from '@/lib/hierarchy/transforms';
+import { formatLength } from '@/lib/units/units';
+
+export interface ShoppingListRow {
+  name: string;
+  quantity: number;           // Identical pieces are listed once
+  width: number;
+  height: number;
+  length: number;
+  material: string;
+  nominalSize: string;
+  boardFeet?: number;         // For all pieces in the row, dimensional lumber only
+  assemblyPath: string;       // e.g. "Cabinet > Drawer", empty for loose parts
+}
+
+export interface ShoppingListSection {
+  name: string;               // Store section, e.g. "Lumber"
+  purchases: string[];        // Stock to buy from the cut plans, e.g. "3 × pine 2x4 @ 96""
+  rows: ShoppingListRow[];
+}
+
+// Store sections for each part category, in the order they are listed
+const STORE_SECTIONS: Record<string, string> = {
+  'Dimensional Lumber': 'Lumber',
+  'Sheet Goods': 'Sheet Goods',
+  'Round Stock': 'Dowels and Rods',
+};
+
+const CSV_HEADER = ['Section', 'Part', 'Quantity', 'W × H × L', 'Material', 'Nominal Size', 'Board Feet', 'Assembly'];
+
+const decimalInches = (inches: number) => formatLength(inches, 'imperial');
+
+/**
+ * Stock to buy for a group, from its linear cut plan or sheet nesting
+ */
+function getPurchases(
+  group: MaterialGroup,
+  format: (inches: number) => string,
+  cutPlan?: LinearCutPlan,
+  sheetPlan?: SheetNestingPlan
+): string[] {
+  const label = `${group.material} ${group.nominalSize}`;
+  if (cutPlan) {
+    return cutPlan.boardsToBuy.map(b => `${b.count} × ${label} @ ${format(b.stockLength)}`);
+  }
+  if (sheetPlan && sheetPlan.sheets.length > 0) {
+    const { sheetWidth, sheetLength } = sheetPlan.sheets[0];
+    return [`${sheetPlan.sheets.length} × ${label} sheet ${format(sheetWidth)} × ${format(sheetLength)}`];
+  }
+  return [];
+}
+
+/**
+ * Build a shopping list from the cut list, grouped by store section
+ * Identical pieces (same name, size, material and assembly) share a row. Cut plans and
+ * sheet nestings, where given per group, add the stock to buy.
+ */
+export function buildShoppingList(
+  groups: MaterialGroup[],
+  objects: DraftObject[],
+  assemblies: Assembly[],
+  cutPlans: (LinearCutPlan | undefined)[] = [],
+  sheetPlans: (SheetNestingPlan | undefined)[] = [],
+  format: (inches: number) => string = decimalInches
+): ShoppingListSection[] {
+  const sections = new Map<string, ShoppingListSection>();
+
+  groups.forEach((group, index) => {
+    const name = STORE_SECTIONS[group.category] ?? group.category;
+    if (!sections.has(name)) {
+      sections.set(name, { name, purchases: [], rows: [] });
+    }
+    const section = sections.get(name)!;
+    section.purchases.push(...getPurchases(group, format, cutPlans[index], sheetPlans[index]));
+
+    const rows = new Map<string, ShoppingListRow>();
+    group.pieces.forEach(piece => {
+      const { width, height, depth } = piece.dimensions;
+      const assemblyPath = getAssemblyPath(piece.id, objects, assemblies);
+      const key = [piece.name, width.toFixed(4), height.toFixed(4), depth.toFixed(4), assemblyPath].join('|');
+
+      if (!rows.has(key)) {
+        rows.set(key, {
+          name: piece.name,
+          quantity: 0,
+          width,
+          height,
+          length: depth,
+          material: group.material,
+          nominalSize: group.nominalSize,
+          boardFeet: group.category === 'Dimensional Lumber' ? 0 : undefined,
+          assemblyPath,
+        });
+      }
+      const row = rows.get(key)!;
+      row.quantity++;
+      if (row.boardFeet !== undefined) {
+        row.boardFeet += calculateBoardFeet(width, height, depth);
+      }
+    });
+    section.rows.push(...rows.values());
+  });
+
+  const order = Object.values(STORE_SECTIONS);
+  const rank = (name: string) => (order.includes(name) ? order.indexOf(name) : order.length);
+  return Array.from(sections.values()).sort((a, b) => rank(a.name) - rank(b.name) || a.name.localeCompare(b.name));
+}
+
+/**
+ * Size of a row's pieces, e.g. 1.5" × 3.5" × 30"
+ */
+function formatRowSize(row: ShoppingListRow, format: (inches: number) => string): string {
+  return [row.width, row.height, row.length].map(format).join(' × ');
+}
+
+/**
+ * Quote a CSV cell when it holds a comma, quote or line break
+ */
+function csvCell(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * The shopping list as CSV, one row per part row
+ */
+export function shoppingListToCSV(
+  sections: ShoppingListSection[],
+  format: (inches: number) => string = decimalInches
+): string {
+  const lines = sections.flatMap(section =>
+    section.rows.map(row => [
+      section.name,
+      row.name,
+      row.quantity,
+      formatRowSize(row, format),
+      row.material,
+      row.nominalSize,
+      row.boardFeet !== undefined ? row.boardFeet.toFixed(2) : '',
+      row.assemblyPath,
+    ])
+  );
+  return [CSV_HEADER, ...lines].map(cells => cells.map(csvCell).join(',')).join('\n');
+}
+
+/**
+ * The shopping list as plain text for the clipboard
+ */
+export function shoppingListToText(
+  sections: ShoppingListSection[],
+  format: (inches: number) => string = decimalInches
+): string {
+  return sections.map(section => {
+    const lines = [section.name.toUpperCase()];
+    section.purchases.forEach(purchase => lines.push(`[ ] ${purchase}`));
+    section.rows.forEach(row => {
+      const boardFeet = row.boardFeet !== undefined ? `, ${row.boardFeet.toFixed(2)} bd ft` : '';
+      const assembly = row.assemblyPath ? ` (${row.assemblyPath})` : '';
+      lines.push(`  ${row.quantity} × ${row.name}: ${formatRowSize(row, format)}, ${row.material} ${row.nominalSize}${boardFeet}${assembly}`);
+    });
+    return lines.join('\n');
+  }).join('\n\n');
+}
+
+/**
+ * Save text as a file through a temporary download link
+ */
+export function downloadTextFile(text: string, filename: string, type = 'text/csv'): void {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const link = document.createElement('a');
+  link.download = filename;
+  link.href = url;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Export the shopping list as a printable PDF: per store section, the stock to buy with
+ * check boxes, then a table of the parts cut from it
+ */
+export function exportShoppingListPDF(
+  projectName: string,
+  sections: ShoppingListSection[],
+  format: (inches: number) => string = decimalInches
+): void {
+  const pdf = new jsPDF({ orientation: 'portrait', unit: 'in', format: 'letter' });
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const margin = 0.5;
+  const lineHeight = 0.2;
+  const columns = [margin, margin + 2.2, margin + 2.6, margin + 4.6, margin + 5.7, margin + 6.4];
+
+  let y = margin + 0.2;
+  const nextLine = (height = lineHeight) => {
+    y += height;
+    if (y > pageHeight - margin) {
+      pdf.addPage();
+      y = margin + 0.2;
+    }
+  };
+
+  pdf.setFontSize(16);
+  pdf.text(`${projectName} - Shopping List`, margin, y);
+  nextLine(0.4);
+
+  sections.forEach(section => {
+    pdf.setFontSize(12);
+    pdf.setFont('helvetica', 'bold');
+    pdf.text(section.name, margin, y);
+    pdf.setFont('helvetica', 'normal');
+    nextLine(0.25);
+
+    pdf.setFontSize(10);
+    pdf.setLineWidth(0.01);
+    section.purchases.forEach(purchase => {
+      pdf.rect(margin, y - 0.11, 0.12, 0.12, 'S');
+      pdf.text(purchase, margin + 0.2, y);
+      nextLine();
+    });
+    if (section.purchases.length > 0) nextLine(0.05);
+
+    pdf.setFontSize(8);
+    pdf.setFont('helvetica', 'bold');
+    ['Part', 'Qty', 'W × H × L', 'Material', 'Bd Ft', 'Assembly'].forEach((heading, i) => pdf.text(heading, columns[i], y));
+    pdf.setFont('helvetica', 'normal');
+    pdf.line(margin, y + 0.05, pageWidth - margin, y + 0.05);
+    nextLine();
+
+    section.rows.forEach(row => {
+      const cells = [
+        row.name,
+        String(row.quantity),
+        formatRowSize(row, format),
+        `${row.material} ${row.nominalSize}`,
+        row.boardFeet !== undefined ? row.boardFeet.toFixed(2) : '',
+        row.assemblyPath,
+      ];
+      cells.forEach((cell, i) => {
+        const width = (columns[i + 1] ?? pageWidth - margin) - columns[i] - 0.05;
+        pdf.text(pdf.splitTextToSize(cell, width)[0] ?? '', columns[i], y);
+      });
+      nextLine();
+    });
+    nextLine(0.2);
+  });
+
+  const filename = `${projectName.replace(/[^a-z0-9]/gi, '_')}_shopping_list.pdf`;
+  pdf.save(filename);
+}
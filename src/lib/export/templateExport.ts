@@ -0,0 +1,247 @@
+import jsPDF from 'jspdf';
+import { ViewType, DraftObject, Assembly } from '@/types';
+import { computeWorldTransform } from '@/lib/hierarchy/transforms';
+import { buildSolid } from '@/lib/geometry/solids';
+import { Bounds2D } from '@/lib/geometry/projection';
+import { buildViewDrawing, drawViewDrawing, ViewDrawing } from './vectorExport';
+import { getViewDisplayName } from './canvasExport';
+import { PaperSizeId, PaperOrientation, getPaperDimensions } from './paper';
+
+export interface TemplateOptions {
+  view: ViewType;
+  paper: PaperSizeId;
+  orientation: PaperOrientation;
+  overlap: number;      // Inches shared between neighboring pages for alignment
+}
+
+export const DEFAULT_TEMPLATE_OPTIONS: TemplateOptions = {
+  view: 'front',
+  paper: 'letter',
+  orientation: 'portrait',
+  overlap: 0.5,
+};
+
+/**
+ * How a full-size drawing is split across pages
+ * Tile (row, col) covers drawing X from col * stepX and drawing Y (from the top) from row * stepY.
+ */
+export interface TileGrid {
+  rows: number;
+  cols: number;
+  tileWidth: number;    // Printable width per page
+  tileHeight: number;   // Printable height per page
+  stepX: number;        // Tile width minus overlap
+  stepY: number;        // Tile height minus overlap
+  bounds: Bounds2D;     // Drawing bounds including padding
+}
+
+const PAGE_MARGIN = 0.4;
+const FOOTER_HEIGHT = 1.3;    // Room for the label and calibration square
+const DRAWING_PADDING = 0.25;
+const MARK_RADIUS = 0.15;
+const CALIBRATION_SIZE = 1;   // Inches
+
+/**
+ * Build the 1:1 drawing of a single object in a view
+ */
+export function buildObjectTemplate(
+  obj: DraftObject,
+  objects: DraftObject[],
+  assemblies: Assembly[],
+  view: ViewType
+): ViewDrawing {
+  const solid = buildSolid(obj, computeWorldTransform(obj.id, objects, assemblies));
+  return buildViewDrawing(view, [solid], []);
+}
+
+/**
+ * Get the printable area of a template page in inches
+ */
+export function getTemplatePrintableArea(
+  paper: PaperSizeId,
+  orientation: PaperOrientation
+): { x: number; y: number; width: number; height: number } {
+  const { width, height } = getPaperDimensions(paper, orientation);
+  return {
+    x: PAGE_MARGIN,
+    y: PAGE_MARGIN,
+    width: width - 2 * PAGE_MARGIN,
+    height: height - 2 * PAGE_MARGIN - FOOTER_HEIGHT,
+  };
+}
+
+/**
+ * Work out how many pages a full-size drawing needs
+ */
+export function planTiles(drawing: ViewDrawing, options: TemplateOptions): TileGrid {
+  const area = getTemplatePrintableArea(options.paper, options.orientation);
+  const bounds: Bounds2D = {
+    minX: drawing.bounds.minX - DRAWING_PADDING,
+    minY: drawing.bounds.minY - DRAWING_PADDING,
+    maxX: drawing.bounds.maxX + DRAWING_PADDING,
+    maxY: drawing.bounds.maxY + DRAWING_PADDING,
+  };
+
+  const stepX = area.width - options.overlap;
+  const stepY = area.height - options.overlap;
+  const width = bounds.maxX - bounds.minX;
+  const height = bounds.maxY - bounds.minY;
+
+  return {
+    rows: Math.max(1, Math.ceil((height - options.overlap) / stepY)),
+    cols: Math.max(1, Math.ceil((width - options.overlap) / stepX)),
+    tileWidth: area.width,
+    tileHeight: area.height,
+    stepX,
+    stepY,
+    bounds,
+  };
+}
+
+/**
+ * Letters for a tile row: A-Z, then AA, AB...
+ */
+function getRowLetters(row: number): string {
+  let letters = '';
+  let n = row + 1;
+  while (n > 0) {
+    const remainder = (n - 1) % 26;
+    letters = String.fromCharCode(65 + remainder) + letters;
+    n = Math.floor((n - 1) / 26);
+  }
+  return letters;
+}
+
+/**
+ * Label for a tile: rows are letters, columns are numbers (A1, A2, B1...)
+ */
+export function getTileLabel(row: number, col: number): string {
+  return `${getRowLetters(row)}${col + 1}`;
+}
+
+/**
+ * Draw a registration mark: a circle with a crosshair
+ */
+function drawRegistrationMark(pdf: jsPDF, x: number, y: number): void {
+  pdf.setLineWidth(0.01);
+  pdf.circle(x, y, MARK_RADIUS, 'S');
+  pdf.line(x - MARK_RADIUS * 1.6, y, x + MARK_RADIUS * 1.6, y);
+  pdf.line(x, y - MARK_RADIUS * 1.6, x, y + MARK_RADIUS * 1.6);
+}
+
+/**
+ * Export a full-size template of one object, tiled across as many pages as needed
+ * Neighboring pages overlap; matching registration marks in the overlap let the
+ * sheets be lined up and taped together.
+ */
+export function exportTiledTemplate(
+  obj: DraftObject,
+  objects: DraftObject[],
+  assemblies: Assembly[],
+  options: TemplateOptions = DEFAULT_TEMPLATE_OPTIONS
+): void {
+  const drawing = buildObjectTemplate(obj, objects, assemblies, options.view);
+  const grid = planTiles(drawing, options);
+  const area = getTemplatePrintableArea(options.paper, options.orientation);
+  const { width: pageWidth, height: pageHeight } = getPaperDimensions(options.paper, options.orientation);
+  const totalPages = grid.rows * grid.cols;
+
+  const pdf = new jsPDF({
+    orientation: options.orientation,
+    unit: 'in',
+    format: options.paper,
+  });
+
+  for (let row = 0; row < grid.rows; row++) {
+    for (let col = 0; col < grid.cols; col++) {
+      const pageNumber = row * grid.cols + col + 1;
+      if (pageNumber > 1) {
+        pdf.addPage();
+      }
+
+      // Top-left of this tile in drawing coordinates (Y up)
+      const tileLeft = grid.bounds.minX + col * grid.stepX;
+      const tileTop = grid.bounds.maxY - row * grid.stepY;
+
+      // Place the drawing so the tile corner lands on the printable area corner
+      const placement = {
+        x: area.x - (tileLeft - drawing.bounds.minX),
+        y: area.y - (drawing.bounds.maxY - tileTop),
+        scale: 1,
+      };
+
+      // Clip the drawing to the printable area
+      pdf.saveGraphicsState();
+      pdf.rect(area.x, area.y, area.width, area.height, null);
+      pdf.clip();
+      pdf.discardPath();
+
+      drawViewDrawing(pdf, drawing, placement);
+
+      // Registration marks centered in the overlap strips, so each one appears
+      // whole on every page that shares it
+      pdf.setDrawColor(120);
+      const inset = options.overlap / 2;
+      for (let r = 0; r <= grid.rows; r++) {
+        for (let c = 0; c <= grid.cols; c++) {
+          const markX = area.x + (c - col) * grid.stepX + inset;
+          const markY = area.y + (r - row) * grid.stepY + inset;
+          if (
+            markX >= area.x - 1e-6 && markX <= area.x + area.width + 1e-6 &&
+            markY >= area.y - 1e-6 && markY <= area.y + area.height + 1e-6
+          ) {
+            drawRegistrationMark(pdf, markX, markY);
+          }
+        }
+      }
+      pdf.restoreGraphicsState();
+
+      // Dashed border showing the overlap with neighboring pages
+      pdf.setDrawColor(160);
+      pdf.setLineWidth(0.005);
+      pdf.setLineDashPattern([0.05, 0.05], 0);
+      if (col < grid.cols - 1) {
+        pdf.line(area.x + grid.stepX, area.y, area.x + grid.stepX, area.y + area.height);
+      }
+      if (row < grid.rows - 1) {
+        pdf.line(area.x, area.y + grid.stepY, area.x + area.width, area.y + grid.stepY);
+      }
+      pdf.setLineDashPattern([], 0);
+      pdf.rect(area.x, area.y, area.width, area.height, 'S');
+      pdf.setDrawColor(0);
+
+      // Page label
+      const footerY = area.y + area.height + 0.25;
+      pdf.setFontSize(20);
+      pdf.text(getTileLabel(row, col), area.x, footerY + 0.15);
+      pdf.setFontSize(9);
+      pdf.text(
+        `${obj.name} - ${getViewDisplayName(options.view)} - Full size (1:1)`,
+        area.x + 0.7,
+        footerY
+      );
+      pdf.text(
+        `Row ${getRowLetters(row)} of ${grid.rows}, column ${col + 1} of ${grid.cols} | Page ${pageNumber} of ${totalPages} | Overlap ${options.overlap}"`,
+        area.x + 0.7,
+        footerY + 0.2
+      );
+
+      // Calibration square, measure before cutting
+      const squareX = pageWidth - PAGE_MARGIN - CALIBRATION_SIZE;
+      const squareY = pageHeight - PAGE_MARGIN - CALIBRATION_SIZE;
+      pdf.setLineWidth(0.01);
+      pdf.rect(squareX, squareY, CALIBRATION_SIZE, CALIBRATION_SIZE, 'S');
+      pdf.setFontSize(7);
+      pdf.text('1" × 1"', squareX + CALIBRATION_SIZE / 2, squareY + CALIBRATION_SIZE / 2, {
+        align: 'center',
+        baseline: 'middle',
+      });
+      pdf.text('Check this square measures 1 inch before taping', squareX - 0.1, squareY + CALIBRATION_SIZE, {
+        align: 'right',
+      });
+    }
+  }
+
+  const filename = `${obj.name.replace(/[^a-z0-9]/gi, '_')}_template.pdf`;
+  pdf.save(filename);
+}
@@ -0,0 +1,223 @@
+import jsPDF from 'jspdf';
+import { ProjectInfo, TitleBlockField, TitleBlockTemplate } from '@/types';
+import { formatLength } from '@/lib/units/units';
+
+export const TITLE_BLOCK_FIELD_LABELS: Record<TitleBlockField, string> = {
+  projectName: 'Project',
+  designer: 'Designer',
+  date: 'Date',
+  revision: 'Revision',
+  scale: 'Scale',
+  sheet: 'Sheet',
+  exteriorDimensions: 'Overall Size',
+  partCount: 'Parts',
+};
+
+export const ALL_TITLE_BLOCK_FIELDS: TitleBlockField[] = [
+  'projectName',
+  'designer',
+  'date',
+  'revision',
+  'scale',
+  'sheet',
+  'exteriorDimensions',
+  'partCount',
+];
+
+export const DEFAULT_TITLE_BLOCK_TEMPLATES: TitleBlockTemplate[] = [
+  {
+    id: 'standard',
+    name: 'Standard',
+    companyName: '',
+    fields: ALL_TITLE_BLOCK_FIELDS,
+    showBorder: true,
+    width: 4,
+    isCustom: false,
+  },
+  {
+    id: 'compact',
+    name: 'Compact',
+    companyName: '',
+    fields: ['projectName', 'scale', 'sheet'],
+    showBorder: false,
+    width: 3.5,
+    isCustom: false,
+  },
+];
+
+/**
+ * Values available to a title block on one sheet
+ */
+export interface TitleBlockContext {
+  projectInfo: ProjectInfo;
+  scaleLabel: string;
+  sheet: number;
+  totalSheets: number;
+  partCount: number;
+  date?: string;          // Defaults to today
+  formatLength?: (inches: number) => string; // Defaults to decimal in the project's units
+}
+
+/**
+ * A title block cell in page inches, relative to the block's top-left corner
+ */
+export interface TitleBlockCell {
+  field: TitleBlockField | 'company';
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Where the sheet border and title block sit on a page (inches, Y down)
+ */
+export interface TitleBlockLayout {
+  border?: { x: number; y: number; width: number; height: number };
+  block: { x: number; y: number; width: number; height: number };
+  cells: TitleBlockCell[];
+}
+
+export const TITLE_BLOCK_ROW_HEIGHT = 0.3;
+export const SHEET_BORDER_INSET = 0.25;
+const BLOCK_MARGIN = 0.5;
+
+/**
+ * Get the height of a template's title block in inches
+ * The project name and company name each take a full row; other fields share rows in pairs.
+ */
+export function getTitleBlockHeight(template: TitleBlockTemplate): number {
+  const fullRows = (template.fields.includes('projectName') ? 1 : 0) + (template.companyName ? 1 : 0);
+  const pairedFields = template.fields.filter(field => field !== 'projectName').length;
+  return (fullRows + Math.ceil(pairedFields / 2)) * TITLE_BLOCK_ROW_HEIGHT;
+}
+
+/**
+ * Lay out the border and title block for a template on a page
+ * The block sits in the lower-right corner, inside the page margin.
+ */
+export function layoutTitleBlock(
+  template: TitleBlockTemplate,
+  pageWidth: number,
+  pageHeight: number
+): TitleBlockLayout {
+  const width = Math.min(template.width, pageWidth - 2 * BLOCK_MARGIN);
+  const height = getTitleBlockHeight(template);
+  const cells: TitleBlockCell[] = [];
+  let y = 0;
+
+  if (template.companyName) {
+    cells.push({ field: 'company', x: 0, y, width, height: TITLE_BLOCK_ROW_HEIGHT });
+    y += TITLE_BLOCK_ROW_HEIGHT;
+  }
+  if (template.fields.includes('projectName')) {
+    cells.push({ field: 'projectName', x: 0, y, width, height: TITLE_BLOCK_ROW_HEIGHT });
+    y += TITLE_BLOCK_ROW_HEIGHT;
+  }
+
+  template.fields
+    .filter(field => field !== 'projectName')
+    .forEach((field, i) => {
+      const column = i % 2;
+      cells.push({
+        field,
+        x: column * (width / 2),
+        y: y + Math.floor(i / 2) * TITLE_BLOCK_ROW_HEIGHT,
+        width: width / 2,
+        height: TITLE_BLOCK_ROW_HEIGHT,
+      });
+    });
+
+  return {
+    border: template.showBorder
+      ? {
+          x: SHEET_BORDER_INSET,
+          y: SHEET_BORDER_INSET,
+          width: pageWidth - 2 * SHEET_BORDER_INSET,
+          height: pageHeight - 2 * SHEET_BORDER_INSET,
+        }
+      : undefined,
+    block: {
+      x: pageWidth - BLOCK_MARGIN - width,
+      y: pageHeight - BLOCK_MARGIN - height,
+      width,
+      height,
+    },
+    cells,
+  };
+}
+
+/**
+ * Get the text printed in a title block cell
+ */
+export function getTitleBlockValue(field: TitleBlockField, context: TitleBlockContext): string {
+  const { projectInfo } = context;
+
+  switch (field) {
+    case 'projectName':
+      return projectInfo.name;
+    case 'designer':
+      return projectInfo.designer || '';
+    case 'date':
+      return context.date ?? new Date().toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+    case 'revision':
+      return projectInfo.revision || '';
+    case 'scale':
+      return context.scaleLabel;
+    case 'sheet':
+      return `${context.sheet} of ${context.totalSheets}`;
+    case 'exteriorDimensions': {
+      const dims = projectInfo.exteriorDimensions;
+      if (!dims || (!dims.width && !dims.height && !dims.depth)) return '';
+      const format = context.formatLength ?? ((inches: number) => formatLength(inches, projectInfo.units || 'imperial'));
+      return `${format(dims.width)} W × ${format(dims.height)} H × ${format(dims.depth)} L`;
+    }
+    case 'partCount':
+      return String(context.partCount);
+  }
+}
+
+/**
+ * Draw the sheet border and title block on the current PDF page
+ */
+export function drawTitleBlock(
+  pdf: jsPDF,
+  layout: TitleBlockLayout,
+  template: TitleBlockTemplate,
+  context: TitleBlockContext
+): void {
+  pdf.setDrawColor(0);
+
+  if (layout.border) {
+    const { x, y, width, height } = layout.border;
+    pdf.setLineWidth(0.03);
+    pdf.rect(x, y, width, height);
+  }
+
+  const { block } = layout;
+  pdf.setLineWidth(0.015);
+  pdf.rect(block.x, block.y, block.width, block.height);
+
+  layout.cells.forEach(cell => {
+    const x = block.x + cell.x;
+    const y = block.y + cell.y;
+    pdf.rect(x, y, cell.width, cell.height);
+
+    if (cell.field === 'company') {
+      pdf.setFontSize(11);
+      pdf.text(template.companyName, x + cell.width / 2, y + cell.height / 2, {
+        align: 'center',
+        baseline: 'middle',
+        maxWidth: cell.width - 0.1,
+      });
+      return;
+    }
+
+    pdf.setFontSize(6);
+    pdf.text(TITLE_BLOCK_FIELD_LABELS[cell.field].toUpperCase(), x + 0.05, y + 0.09);
+    pdf.setFontSize(cell.field === 'projectName' ? 11 : 9);
+    pdf.text(getTitleBlockValue(cell.field, context), x + 0.05, y + cell.height - 0.05, {
+      maxWidth: cell.width - 0.1,
+    });
+  });
+}
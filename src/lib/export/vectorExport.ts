@@ -0,0 +1,482 @@
+import jsPDF from 'jspdf';
+import { ViewType, ProjectInfo, DraftObject, Assembly, DimensionLine, TitleBlockTemplate, RenderMode, SectionPlane, ExplodeSettings } from '@/types';
+import { getViewBasis, ViewBasis } from '@/lib/three/views';
+import { buildSolids, Solid, Segment3D } from '@/lib/geometry/solids';
+import { computeHiddenLines } from '@/lib/geometry/hiddenLines';
+import { computeExplodeOffsets, explodeSolids } from '@/lib/hierarchy/explode';
+import { sectionSolids, getSectionView, getSectionDisplayName, getEdgesBehindCut, hatchPolygon } from '@/lib/geometry/sections';
+import { projectPoint, getBounds2D, Point2D, Bounds2D } from '@/lib/geometry/projection';
+import { getViewDisplayName } from './canvasExport';
+import { DEFAULT_TITLE_BLOCK_TEMPLATES, TitleBlockLayout, layoutTitleBlock, drawTitleBlock } from './titleBlock';
+import { drawCostEstimate } from './cutListExport';
+import { CostEstimate } from '@/lib/cutlist/pricing';
+import {
+  PaperSizeId,
+  PaperOrientation,
+  DrawingScale,
+  getPaperDimensions,
+  getDrawingScale,
+  drawingFits,
+  findLargestFittingScale,
+} from './paper';
+
+export interface DrawingLine {
+  start: Point2D;
+  end: Point2D;
+}
+
+export interface DrawingDimension {
+  start: Point2D;
+  end: Point2D;
+  label: string;
+  textOffset: number;   // Perpendicular text offset in screen pixels (as stored on the line)
+  color: string;
+}
+
+/**
+ * A view projected to 2D drawing coordinates (inches, Y up)
+ */
+export interface ViewDrawing {
+  view: ViewType;
+  lines: DrawingLine[];
+  hiddenLines: DrawingLine[];     // Edges behind other solids, drawn dashed (hidden-line mode only)
+  sectionFaces: Point2D[][];      // Cut faces of a section view, hatched when drawn
+  dimensions: DrawingDimension[];
+  bounds: Bounds2D;
+}
+
+/**
+ * Placement of a drawing on a PDF page
+ * (x, y) is where the top-left of the drawing bounds lands, in page units
+ */
+export interface DrawingPlacement {
+  x: number;
+  y: number;
+  scale: number;        // Page units per drawing inch
+}
+
+const PIXELS_PER_INCH = 96;
+const ARROW_SIZE = 0.08; // Inches on paper
+const HATCH_SPACING = 0.06; // Inches on paper
+
+/**
+ * Project 3D segments to drawing lines, skipping points and segments already projected
+ * One projector is shared by all the segments of a drawing so repeated edges are drawn once.
+ */
+function createSegmentProjector(basis: ViewBasis): (segments: Segment3D[]) => DrawingLine[] {
+  const seen = new Set<string>();
+  const key = (p: Point2D) => `${p.x.toFixed(4)},${p.y.toFixed(4)}`;
+
+  return (segments) => {
+    const projected: DrawingLine[] = [];
+    segments.forEach(([a, b]) => {
+      const start = projectPoint(a, basis);
+      const end = projectPoint(b, basis);
+      if (Math.hypot(end.x - start.x, end.y - start.y) < 1e-6) return;
+
+      const [k1, k2] = [key(start), key(end)].sort();
+      const edgeKey = `${k1}|${k2}`;
+      if (seen.has(edgeKey)) return;
+      seen.add(edgeKey);
+
+      projected.push({ start, end });
+    });
+    return projected;
+  };
+}
+
+// Dimension labels default to decimal inches
+const formatDecimalInches = (inches: number) => `${inches.toFixed(2)}"`;
+
+/**
+ * Project the visible dimension lines into a view
+ */
+function projectDimensionLines(
+  dimensionLines: DimensionLine[],
+  basis: ViewBasis,
+  formatLength: (inches: number) => string
+): DrawingDimension[] {
+  return dimensionLines
+    .filter(line => line.visible)
+    .map(line => {
+      const start = projectPoint(line.startPoint, basis);
+      const end = projectPoint(line.endPoint, basis);
+      const distance = Math.sqrt(
+        (line.endPoint.x - line.startPoint.x) ** 2 +
+        (line.endPoint.y - line.startPoint.y) ** 2 +
+        (line.endPoint.z - line.startPoint.z) ** 2
+      );
+      return { start, end, label: formatLength(distance), textOffset: line.textOffset, color: line.color };
+    })
+    // A dimension seen end-on has no length in this view
+    .filter(dim => Math.hypot(dim.end.x - dim.start.x, dim.end.y - dim.start.y) > 1e-6);
+}
+
+/**
+ * Bounds of everything drawn in a view
+ */
+function getDrawingBounds(lines: DrawingLine[], dimensions: DrawingDimension[]): Bounds2D {
+  const points = [
+    ...lines.flatMap(line => [line.start, line.end]),
+    ...dimensions.flatMap(dim => [dim.start, dim.end]),
+  ];
+  return getBounds2D(points) ?? { minX: 0, minY: 0, maxX: 0, maxY: 0 };
+}
+
+/**
+ * Project solid edges and dimension lines into a 2D drawing for a view
+ * Edges that collapse to a point or duplicate another edge are dropped. In hidden-line
+ * mode, edges behind other solids go to hiddenLines instead of lines.
+ */
+export function buildViewDrawing(
+  view: ViewType,
+  solids: Solid[],
+  dimensionLines: DimensionLine[],
+  renderMode: RenderMode = 'shaded',
+  formatLength: (inches: number) => string = formatDecimalInches
+): ViewDrawing {
+  const basis = getViewBasis(view);
+  const projectSegments = createSegmentProjector(basis);
+
+  // Visible edges are projected first so a hidden edge never replaces one
+  let lines: DrawingLine[];
+  let hiddenLines: DrawingLine[] = [];
+  if (renderMode === 'hidden-line') {
+    const result = computeHiddenLines(solids, view);
+    lines = projectSegments(result.visible);
+    hiddenLines = projectSegments(result.hidden);
+  } else {
+    lines = projectSegments(solids.flatMap(solid => solid.edges));
+  }
+
+  const dimensions = projectDimensionLines(dimensionLines, basis, formatLength);
+  const bounds = getDrawingBounds([...lines, ...hiddenLines], dimensions);
+
+  return { view, lines, hiddenLines, sectionFaces: [], dimensions, bounds };
+}
+
+/**
+ * Draw a section view: solids cut at the plane, seen from the removed side
+ * Cut faces are outlined and hatched; edges behind them are left out, as is usual for sections.
+ */
+export function buildSectionDrawing(
+  plane: SectionPlane,
+  solids: Solid[],
+  dimensionLines: DimensionLine[],
+  formatLength: (inches: number) => string = formatDecimalInches
+): ViewDrawing {
+  const view = getSectionView(plane);
+  const basis = getViewBasis(view);
+  const projectSegments = createSegmentProjector(basis);
+  const sections = sectionSolids(solids, plane);
+
+  const faces = sections.flatMap(section => section.cutFaces);
+  const outlines = faces.flatMap(face => face.map((p, i) => [p, face[(i + 1) % face.length]] as Segment3D));
+  const lines = [
+    ...projectSegments(outlines),
+    ...projectSegments(getEdgesBehindCut(sections, plane, basis)),
+  ];
+
+  const dimensions = projectDimensionLines(dimensionLines, basis, formatLength);
+  const bounds = getDrawingBounds(lines, dimensions);
+  const sectionFaces = faces.map(face => face.map(p => projectPoint(p, basis)));
+
+  return { view, lines, hiddenLines: [], sectionFaces, dimensions, bounds };
+}
+
+/**
+ * Convert a drawing point to page coordinates (page Y runs down)
+ */
+export function toPagePoint(p: Point2D, drawing: ViewDrawing, placement: DrawingPlacement): Point2D {
+  return {
+    x: placement.x + (p.x - drawing.bounds.minX) * placement.scale,
+    y: placement.y + (drawing.bounds.maxY - p.y) * placement.scale,
+  };
+}
+
+/**
+ * Draw a projected view onto a PDF page as vector lines and text
+ * Page units are assumed to be inches.
+ */
+export function drawViewDrawing(pdf: jsPDF, drawing: ViewDrawing, placement: DrawingPlacement): void {
+  // Object edges
+  pdf.setDrawColor(0);
+  pdf.setLineWidth(0.01);
+  drawing.lines.forEach(line => {
+    const a = toPagePoint(line.start, drawing, placement);
+    const b = toPagePoint(line.end, drawing, placement);
+    pdf.line(a.x, a.y, b.x, b.y);
+  });
+
+  // Hidden edges, dashed and lighter
+  if (drawing.hiddenLines.length > 0) {
+    pdf.setDrawColor(90);
+    pdf.setLineWidth(0.007);
+    pdf.setLineDashPattern([0.06, 0.03], 0);
+    drawing.hiddenLines.forEach(line => {
+      const a = toPagePoint(line.start, drawing, placement);
+      const b = toPagePoint(line.end, drawing, placement);
+      pdf.line(a.x, a.y, b.x, b.y);
+    });
+    pdf.setLineDashPattern([], 0);
+  }
+
+  // Section hatching, alternating direction so neighboring parts read apart
+  if (drawing.sectionFaces.length > 0) {
+    pdf.setDrawColor(0);
+    pdf.setLineWidth(0.004);
+    drawing.sectionFaces.forEach((face, i) => {
+      hatchPolygon(face, HATCH_SPACING / placement.scale, i % 2 === 0 ? 45 : 135).forEach(([start, end]) => {
+        const a = toPagePoint(start, drawing, placement);
+        const b = toPagePoint(end, drawing, placement);
+        pdf.line(a.x, a.y, b.x, b.y);
+      });
+    });
+  }
+
+  // Dimension lines with arrowheads and labels
+  pdf.setLineWidth(0.006);
+  pdf.setFontSize(8);
+  drawing.dimensions.forEach(dim => {
+    const a = toPagePoint(dim.start, drawing, placement);
+    const b = toPagePoint(dim.end, drawing, placement);
+    const angle = Math.atan2(b.y - a.y, b.x - a.x);
+
+    pdf.setDrawColor(dim.color);
+    pdf.setFillColor(dim.color);
+    pdf.setTextColor(dim.color);
+    pdf.line(a.x, a.y, b.x, b.y);
+    drawArrowhead(pdf, a, angle + Math.PI);
+    drawArrowhead(pdf, b, angle);
+
+    const offset = dim.textOffset / PIXELS_PER_INCH;
+    const textX = (a.x + b.x) / 2 - Math.sin(angle) * offset;
+    const textY = (a.y + b.y) / 2 + Math.cos(angle) * offset;
+    pdf.text(dim.label, textX, textY, { align: 'center', baseline: 'middle' });
+  });
+
+  pdf.setDrawColor(0);
+  pdf.setTextColor(0);
+}
+
+/**
+ * Draw a filled arrowhead pointing along `angle` with its tip at `tip`
+ */
+function drawArrowhead(pdf: jsPDF, tip: Point2D, angle: number): void {
+  const spread = Math.PI / 6;
+  const x1 = tip.x - ARROW_SIZE * Math.cos(angle - spread);
+  const y1 = tip.y - ARROW_SIZE * Math.sin(angle - spread);
+  const x2 = tip.x - ARROW_SIZE * Math.cos(angle + spread);
+  const y2 = tip.y - ARROW_SIZE * Math.sin(angle + spread);
+  pdf.triangle(tip.x, tip.y, x1, y1, x2, y2, 'F');
+}
+
+export interface VectorExportOptions {
+  views: ViewType[];
+  paper: PaperSizeId;
+  orientation: PaperOrientation;
+  scaleId: string;      // A DRAWING_SCALES id, or 'fit' to scale each view to the page
+  renderMode?: RenderMode; // Defaults to 'shaded' (every edge drawn solid)
+  sections?: SectionPlane[]; // Section views, each on its own page after the standard views
+  explode?: ExplodeSettings; // Draw the model exploded, e.g. for assembly instructions
+  formatLength?: (inches: number) => string; // Dimension labels, defaults to decimal inches
+  estimate?: CostEstimate; // Adds a cost estimate page after the drawings
+}
+
+export const DEFAULT_VECTOR_EXPORT_OPTIONS: VectorExportOptions = {
+  views: ['front', 'top', 'right', 'iso-front-right'],
+  paper: 'letter',
+  orientation: 'landscape',
+  scaleId: 'fit',
+};
+
+/**
+ * Page regions in inches: the whole page, the area available for the drawing and the title block
+ */
+export interface PageLayout {
+  pageWidth: number;
+  pageHeight: number;
+  margin: number;
+  drawingArea: { x: number; y: number; width: number; height: number };
+  titleBlock: TitleBlockLayout;
+}
+
+const PAGE_MARGIN = 0.5;
+const HEADER_HEIGHT = 0.6;
+
+/**
+ * Lay out the regions of a drawing page
+ * The title block sits in the lower-right corner below the drawing area.
+ */
+export function getPageLayout(
+  paper: PaperSizeId,
+  orientation: PaperOrientation,
+  template: TitleBlockTemplate = DEFAULT_TITLE_BLOCK_TEMPLATES[0]
+): PageLayout {
+  const { width: pageWidth, height: pageHeight } = getPaperDimensions(paper, orientation);
+  const margin = PAGE_MARGIN;
+  const titleBlock = layoutTitleBlock(template, pageWidth, pageHeight);
+
+  return {
+    pageWidth,
+    pageHeight,
+    margin,
+    drawingArea: {
+      x: margin,
+      y: margin + HEADER_HEIGHT,
+      width: pageWidth - 2 * margin,
+      height: pageHeight - 2 * margin - HEADER_HEIGHT - titleBlock.block.height - 0.1,
+    },
+    titleBlock,
+  };
+}
+
+export interface ViewFitResult {
+  view: ViewType;
+  fits: boolean;
+  suggestedScale?: DrawingScale;  // Largest standard scale that fits, when this one doesn't
+}
+
+/**
+ * Check which drawings fit the page at the chosen scale
+ */
+export function checkDrawingsFit(
+  drawings: ViewDrawing[],
+  options: VectorExportOptions,
+  template: TitleBlockTemplate = DEFAULT_TITLE_BLOCK_TEMPLATES[0]
+): ViewFitResult[] {
+  const layout = getPageLayout(options.paper, options.orientation, template);
+  const scale = getDrawingScale(options.scaleId);
+
+  return drawings.map(drawing => {
+    if (!scale) return { view: drawing.view, fits: true };
+
+    const { width, height } = layout.drawingArea;
+    const fits = drawingFits(drawing.bounds, scale.ratio, width, height);
+    return {
+      view: drawing.view,
+      fits,
+      suggestedScale: fits ? undefined : findLargestFittingScale(drawing.bounds, width, height),
+    };
+  });
+}
+
+/**
+ * Center a drawing in the page's drawing area at a fixed scale, or scaled to fit for 'fit'
+ * Returns the placement and the scale text for the title block.
+ */
+export function placeDrawing(
+  drawing: ViewDrawing,
+  layout: PageLayout,
+  scaleId: string
+): { placement: DrawingPlacement; scaleLabel: string } {
+  const area = layout.drawingArea;
+  const fixedScale = getDrawingScale(scaleId);
+  const drawingWidth = drawing.bounds.maxX - drawing.bounds.minX;
+  const drawingHeight = drawing.bounds.maxY - drawing.bounds.minY;
+
+  let scale: number;
+  let scaleLabel: string;
+  if (fixedScale) {
+    scale = fixedScale.ratio;
+    scaleLabel = fixedScale.label;
+  } else {
+    scale = Math.min(
+      drawingWidth > 0 ? area.width / drawingWidth : Infinity,
+      drawingHeight > 0 ? area.height / drawingHeight : Infinity,
+      1 // Never enlarge past full size
+    );
+    // Plain ASCII: the PDF's built-in fonts have no ≈
+    scaleLabel = `Not to scale (~1:${(1 / scale).toFixed(1)})`;
+  }
+
+  return {
+    placement: {
+      x: area.x + (area.width - drawingWidth * scale) / 2,
+      y: area.y + (area.height - drawingHeight * scale) / 2,
+      scale,
+    },
+    scaleLabel,
+  };
+}
+
+/**
+ * Export views as a multi-page vector PDF, one view per page
+ * Views are drawn at the chosen scale (or scaled to fit) and centered in the drawing area.
+ * Views that don't fit at a fixed scale are still centered and will run off the page.
+ * Section views follow the standard views, and the cost estimate page, if any, comes last.
+ */
+export function exportVectorPDF(
+  projectInfo: ProjectInfo,
+  objects: DraftObject[],
+  assemblies: Assembly[],
+  dimensionLines: DimensionLine[],
+  options: VectorExportOptions = DEFAULT_VECTOR_EXPORT_OPTIONS,
+  template: TitleBlockTemplate = DEFAULT_TITLE_BLOCK_TEMPLATES[0]
+): void {
+  const layout = getPageLayout(options.paper, options.orientation, template);
+
+  const pdf = new jsPDF({
+    orientation: options.orientation,
+    unit: 'in',
+    format: options.paper,
+  });
+
+  const solids = options.explode
+    ? explodeSolids(buildSolids(objects, assemblies), computeExplodeOffsets(objects, assemblies, options.explode))
+    : buildSolids(objects, assemblies);
+  const pages = [
+    ...options.views.map(view => ({
+      label: getViewDisplayName(view),
+      build: () => buildViewDrawing(view, solids, dimensionLines, options.renderMode, options.formatLength),
+    })),
+    ...(options.sections ?? []).map(plane => ({
+      label: getSectionDisplayName(plane),
+      build: () => buildSectionDrawing(plane, solids, dimensionLines, options.formatLength),
+    })),
+  ];
+  const totalSheets = pages.length + (options.estimate ? 1 : 0);
+
+  pages.forEach((page, i) => {
+    if (i > 0) {
+      pdf.addPage();
+    }
+
+    // View label; the project name is in the title block
+    pdf.setFontSize(14);
+    pdf.text(page.label, layout.margin, layout.margin + 0.25);
+
+    const drawing = page.build();
+    const { placement, scaleLabel } = placeDrawing(drawing, layout, options.scaleId);
+    drawViewDrawing(pdf, drawing, placement);
+
+    drawTitleBlock(pdf, layout.titleBlock, template, {
+      projectInfo,
+      scaleLabel,
+      sheet: i + 1,
+      totalSheets,
+      partCount: objects.length,
+      formatLength: options.formatLength,
+    });
+  });
+
+  if (options.estimate) {
+    if (pages.length > 0) {
+      pdf.addPage();
+    }
+    pdf.setFontSize(14);
+    pdf.text('Cost Estimate', layout.margin, layout.margin + 0.25);
+    drawCostEstimate(pdf, options.estimate, layout.drawingArea);
+    drawTitleBlock(pdf, layout.titleBlock, template, {
+      projectInfo,
+      scaleLabel: 'Not to scale',
+      sheet: totalSheets,
+      totalSheets,
+      partCount: objects.length,
+      formatLength: options.formatLength,
+    });
+  }
+
+  const filename = `${projectInfo.name.replace(/[^a-z0-9]/gi, '_')}.pdf`;
+  pdf.save(filename);
+}
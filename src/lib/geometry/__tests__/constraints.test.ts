@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { solveConstraints, validateConstraint, describeConstraint } from '../constraints';
+import { formatLength } from '@/lib/units/units';
+import { alignObjects } from '../alignment';
+import { PartConstraint } from '@/types';
+import { makeBox, makeAssembly } from '@/test/fixtures';
+
+function makeConstraint(
+  id: string,
+  type: PartConstraint['type'],
+  objectId: string,
+  targetId: string,
+  axis: PartConstraint['axis'],
+  side: PartConstraint['side'],
+  offset = 0
+): PartConstraint {
+  return { id, type, objectId, targetId, axis, side, offset };
+}
+
+describe('solveConstraints', () => {
+  const rail = makeBox('rail', { width: 30, height: 2, depth: 1 }, { x: 0, y: 10, z: 0 });
+  const shelf = makeBox('shelf', { width: 20, height: 0.75, depth: 10 }, { x: 3, y: 0, z: 0 });
+
+  it('should butt a shelf on top of a rail', () => {
+    const { positions, unsatisfied } = solveConstraints([rail, shelf], [], [
+      makeConstraint('c1', 'butt', 'shelf', 'rail', 'y', 'max'),
+    ]);
+
+    expect(unsatisfied).toEqual([]);
+    expect(positions.get('shelf')).toEqual({ x: 3, y: 11.375, z: 0 });
+    expect(positions.has('rail')).toBe(false);
+  });
+
+  it('should make faces flush, center parts and hold offsets', () => {
+    const { positions } = solveConstraints([rail, shelf], [], [
+      makeConstraint('c1', 'flush', 'shelf', 'rail', 'x', 'min'),
+      makeConstraint('c2', 'offset', 'shelf', 'rail', 'y', 'min', 0.5),
+      makeConstraint('c3', 'centered', 'shelf', 'rail', 'z', 'max'),
+    ]);
+
+    expect(positions.get('shelf')!.x).toBe(-5);
+    expect(positions.get('shelf')!.y).toBeCloseTo(9 - 0.5 - 0.375);
+    expect(positions.get('shelf')!.z).toBe(0);
+  });
+
+  it('should settle chains and follow the target after its dimensions change', () => {
+    const leg = makeBox('leg', { width: 2, height: 30, depth: 2 }, { x: 0, y: 15, z: 0 });
+    const constraints = [
+      makeConstraint('c1', 'butt', 'shelf', 'rail', 'y', 'max'),
+      makeConstraint('c2', 'flush', 'rail', 'leg', 'y', 'max'),
+    ];
+
+    const taller = { ...leg, localPosition: { x: 0, y: 18, z: 0 }, dimensions: { ...leg.dimensions, height: 36 } };
+    const { positions } = solveConstraints([shelf, rail, taller], [], constraints);
+
+    expect(positions.get('rail')!.y).toBe(35);
+    expect(positions.get('shelf')!.y).toBe(36.375);
+  });
+
+  it('should work in world space for parts inside assemblies', () => {
+    const assembly = makeAssembly('asm', ['rail'], { name: 'Carcass', localPosition: { x: 0, y: 5, z: 0 } });
+    const nested = { ...rail, parentId: 'asm' };
+
+    const { positions } = solveConstraints([nested, shelf], [assembly], [
+      makeConstraint('c1', 'butt', 'shelf', 'rail', 'y', 'max'),
+    ]);
+
+    expect(positions.get('shelf')!.y).toBe(16.375);
+  });
+
+  it('should report constraints that conflict', () => {
+    const { unsatisfied } = solveConstraints([rail, shelf], [], [
+      makeConstraint('c1', 'butt', 'shelf', 'rail', 'y', 'max'),
+      makeConstraint('c2', 'butt', 'shelf', 'rail', 'y', 'min'),
+    ]);
+
+    expect(unsatisfied).toEqual(['c1']);
+  });
+});
+
+describe('validateConstraint', () => {
+  it('should reject a second constraint on the same axis and loops', () => {
+    const existing = [makeConstraint('c1', 'butt', 'shelf', 'rail', 'y', 'max')];
+
+    expect(validateConstraint(makeConstraint('c2', 'flush', 'shelf', 'leg', 'y', 'min'), existing).valid).toBe(false);
+    expect(validateConstraint(makeConstraint('c2', 'flush', 'rail', 'shelf', 'y', 'min'), existing).error).toBe(
+      'Constraints would form a loop'
+    );
+    expect(validateConstraint(makeConstraint('c2', 'flush', 'shelf', 'rail', 'x', 'min'), existing).valid).toBe(true);
+  });
+});
+
+describe('describeConstraint', () => {
+  it('should write offsets in the given length format', () => {
+    const constraint = makeConstraint('c1', 'offset', 'shelf', 'rail', 'y', 'max', 0.5);
+
+    expect(describeConstraint(constraint, 'Rail')).toBe('0.5" off top of Rail');
+    expect(describeConstraint(constraint, 'Rail', (inches) => formatLength(inches, 'metric'))).toBe(
+      '12.7 mm off top of Rail'
+    );
+  });
+});
+
+describe('alignObjects', () => {
+  it('should align to face extents', () => {
+    const a = makeBox('a', { width: 4, height: 1, depth: 1 }, { x: 0, y: 0, z: 0 });
+    const b = makeBox('b', { width: 2, height: 1, depth: 1 }, { x: 5, y: 0, z: 0 });
+
+    expect(alignObjects([a, b], 'left').get('b')!.x).toBe(-1);
+  });
+});
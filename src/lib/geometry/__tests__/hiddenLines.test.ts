@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { computeHiddenLines } from '../hiddenLines';
+import { buildSolid, Segment3D } from '../solids';
+import { DraftObject } from '@/types';
+import { makeBox, makePart } from '@/test/fixtures';
+
+function solidFor(obj: DraftObject) {
+  return buildSolid(obj, { position: obj.localPosition, rotation: obj.rotation });
+}
+
+const length = ([a, b]: Segment3D) => Math.hypot(b.x - a.x, b.y - a.y, b.z - a.z);
+const totalLength = (segments: Segment3D[]) => segments.reduce((sum, segment) => sum + length(segment), 0);
+
+describe('Hidden Lines', () => {
+  it('should hide the three back edges of a single box in an isometric view', () => {
+    const box = solidFor(makeBox('box', { width: 2, height: 2, depth: 2 }, { x: 0, y: 0, z: 0 }));
+    const { visible, hidden } = computeHiddenLines([box], 'iso-front-right');
+
+    expect(hidden).toHaveLength(3);
+    expect(visible).toHaveLength(9);
+    // Every hidden edge meets the far corner
+    hidden.forEach(([a, b]) => {
+      const touchesCorner = [a, b].some((p) => p.x === -1 && p.y === -1 && p.z === -1);
+      expect(touchesCorner).toBe(true);
+    });
+  });
+
+  it('should not hide anything in a box seen square-on', () => {
+    const box = solidFor(makeBox('box', { width: 4, height: 2, depth: 1 }, { x: 0, y: 0, z: 0 }));
+    const { hidden } = computeHiddenLines([box], 'front');
+    expect(hidden).toHaveLength(0);
+  });
+
+  it('should split an edge where a part in front covers it', () => {
+    const back = solidFor(makeBox('back', { width: 10, height: 10, depth: 1 }, { x: 0, y: 0, z: 0 }));
+    const front = solidFor(makeBox('front', { width: 4, height: 4, depth: 1 }, { x: 0, y: 5, z: 5 }));
+    const { visible, hidden } = computeHiddenLines([back, front], 'front', [back]);
+
+    // Both top edges of the back panel (front and back face) are covered between x = -2 and 2
+    expect(totalLength(hidden.filter(([a, b]) => a.y === 5 && b.y === 5 && a.z === b.z))).toBeCloseTo(8);
+    expect(totalLength(visible.filter(([a, b]) => a.y === 5 && b.y === 5 && a.z === b.z))).toBeCloseTo(12);
+  });
+
+  it('should leave the covering part fully visible', () => {
+    const back = solidFor(makeBox('back', { width: 10, height: 10, depth: 1 }, { x: 0, y: 0, z: 0 }));
+    const front = solidFor(makeBox('front', { width: 4, height: 4, depth: 1 }, { x: 0, y: 5, z: 5 }));
+    const { hidden } = computeHiddenLines([back, front], 'front', [front]);
+    expect(hidden).toHaveLength(0);
+  });
+
+  it('should only hide what is behind the round part itself', () => {
+    const dowel = solidFor(makePart({
+      id: 'dowel',
+      dimensions: { width: 2, height: 2, depth: 1 },
+      localPosition: { x: 0, y: 0, z: 5 },
+      round: {},
+    }));
+    // Inside the dowel's bounding square but outside its circle
+    const corner = solidFor(makeBox('corner', { width: 0.2, height: 0.2, depth: 0.2 }, { x: 0.85, y: 0.85, z: 0 }));
+    const center = solidFor(makeBox('center', { width: 0.2, height: 0.2, depth: 0.2 }, { x: 0, y: 0, z: 0 }));
+
+    expect(computeHiddenLines([dowel, corner], 'front', [corner]).hidden).toHaveLength(0);
+    expect(computeHiddenLines([dowel, center], 'front', [center]).visible).toHaveLength(0);
+  });
+
+  it('should see through the notch of a concave profile', () => {
+    // A channel with a 2" × 3" notch in its top, in front of two small blocks
+    const channel = solidFor(makePart({
+      id: 'channel',
+      dimensions: { width: 6, height: 4, depth: 1 },
+      localPosition: { x: 0, y: 0, z: 5 },
+      profile: { vertices: [
+        { x: 0, y: 0 }, { x: 6, y: 0 }, { x: 6, y: 4 }, { x: 4, y: 4 },
+        { x: 4, y: 1 }, { x: 2, y: 1 }, { x: 2, y: 4 }, { x: 0, y: 4 },
+      ] },
+    }));
+    const inNotch = solidFor(makeBox('inNotch', { width: 1, height: 1, depth: 1 }, { x: 0, y: 1, z: 0 }));
+    const behindLeg = solidFor(makeBox('behindLeg', { width: 1, height: 1, depth: 1 }, { x: 2, y: 1, z: 0 }));
+
+    expect(computeHiddenLines([channel, inNotch], 'front', [inNotch]).hidden).toHaveLength(0);
+    expect(computeHiddenLines([channel, behindLeg], 'front', [behindLeg]).visible).toHaveLength(0);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { findInterferences, getCollidingObjectIds, getInterferenceKey } from '../interference';
+import { AllowedInterference } from '@/types';
+import { makeBox } from '@/test/fixtures';
+
+describe('findInterferences', () => {
+  it('should report overlapping pairs with the overlap volume', () => {
+    const a = makeBox('a', { width: 4, height: 2, depth: 2 }, { x: 0, y: 0, z: 0 });
+    const b = makeBox('b', { width: 4, height: 2, depth: 2 }, { x: 3, y: 0, z: 0 });
+
+    const [interference, ...rest] = findInterferences([a, b], []);
+
+    expect(rest).toEqual([]);
+    expect(interference.objectIds).toEqual(['a', 'b']);
+    expect(interference.volume).toBeCloseTo(1 * 2 * 2);
+    expect(interference.overlap.min.x).toBeCloseTo(1);
+    expect(interference.overlap.max.x).toBeCloseTo(2);
+  });
+
+  it('should not report parts that only touch', () => {
+    const a = makeBox('a', { width: 4, height: 2, depth: 2 }, { x: 0, y: 0, z: 0 });
+    const b = makeBox('b', { width: 4, height: 2, depth: 2 }, { x: 4, y: 0, z: 0 });
+    const c = makeBox('c', { width: 4, height: 2, depth: 2 }, { x: 0, y: 2, z: 0 });
+
+    expect(findInterferences([a, b, c], [])).toEqual([]);
+  });
+
+  it('should use world-space boxes of rotated parts', () => {
+    const rail = makeBox('rail', { width: 10, height: 1, depth: 1 }, { x: 0, y: 0, z: 0 });
+    const post = makeBox('post', { width: 10, height: 1, depth: 1 }, { x: 0, y: 0, z: 0 }, { rotation: { x: 0, y: 0, z: 90 } });
+
+    const [interference] = findInterferences([rail, post], []);
+
+    expect(interference.volume).toBeCloseTo(1);
+  });
+
+  it('should sort by volume and flag allowed overlaps', () => {
+    const a = makeBox('a', { width: 4, height: 4, depth: 4 }, { x: 0, y: 0, z: 0 });
+    const tenon = makeBox('tenon', { width: 2, height: 1, depth: 1 }, { x: 2, y: 0, z: 0 });
+    const b = makeBox('b', { width: 4, height: 4, depth: 4 }, { x: 2, y: 0, z: 0 });
+    const allowed: AllowedInterference[] = [{ id: 'allow-1', objectIds: ['tenon', 'a'], note: 'Tenon in mortise' }];
+
+    const interferences = findInterferences([a, tenon, b], [], allowed);
+
+    expect(interferences.map((i) => i.key)).toEqual([
+      getInterferenceKey('a', 'b'),
+      getInterferenceKey('b', 'tenon'),
+      getInterferenceKey('a', 'tenon'),
+    ]);
+    expect(interferences[2].allowedId).toBe('allow-1');
+    expect(getCollidingObjectIds(interferences)).toEqual(new Set(['a', 'b', 'tenon']));
+    expect(getCollidingObjectIds(interferences.slice(2)).size).toBe(0);
+  });
+});
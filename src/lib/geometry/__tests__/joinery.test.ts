@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { getJointGeometry, validateJoint, getCutListObjects, buildJoinerySchedule } from '../joinery';
+import { Joint } from '@/types';
+import { makeBox } from '@/test/fixtures';
+
+function makeJoint(overrides: Partial<Joint>): Joint {
+  return {
+    id: 'joint-1',
+    type: 'dado',
+    hostId: 'side',
+    insertId: 'shelf',
+    depth: 0.25,
+    width: 0,
+    offset: 0,
+    notes: '',
+    ...overrides,
+  };
+}
+
+// A 3/4" side panel standing at X 0-0.75, and a shelf butting its right face
+const side = makeBox('side', { width: 0.75, height: 30, depth: 12 }, { x: 0.375, y: 15, z: 0 });
+const shelf = makeBox('shelf', { width: 20, height: 0.75, depth: 12 }, { x: 10.75, y: 10, z: 0 });
+
+describe('getJointGeometry', () => {
+  it('should cut a dado into the host face the insert butts against', () => {
+    const geometry = getJointGeometry(makeJoint({}), [side, shelf], [])!;
+
+    expect(geometry.normal).toBe('x');
+    expect(geometry.direction).toBe(1);
+    expect(geometry.cut.min.x).toBeCloseTo(0.5);
+    expect(geometry.cut.max.x).toBeCloseTo(0.75);
+    expect(geometry.cut.min.y).toBeCloseTo(9.625);
+    expect(geometry.cut.max.y).toBeCloseTo(10.375);
+    expect(geometry.cut.max.z - geometry.cut.min.z).toBeCloseTo(12);
+  });
+
+  it('should narrow the cut to the width and set it back by the offset', () => {
+    const geometry = getJointGeometry(makeJoint({ type: 'mortise-tenon', width: 0.25, offset: 1 }), [side, shelf], [])!;
+
+    expect(geometry.cut.max.y - geometry.cut.min.y).toBeCloseTo(0.25);
+    expect(geometry.cut.max.z - geometry.cut.min.z).toBeCloseTo(10);
+  });
+
+  it('should return null when the parts are apart', () => {
+    const apart = makeBox('shelf', { width: 20, height: 0.75, depth: 12 }, { x: 12, y: 10, z: 0 });
+
+    expect(getJointGeometry(makeJoint({}), [side, apart], [])).toBeNull();
+    expect(validateJoint(makeJoint({}), [side, apart], []).valid).toBe(false);
+  });
+});
+
+describe('validateJoint', () => {
+  it('should reject joints deeper than the host is thick', () => {
+    expect(validateJoint(makeJoint({ depth: 1 }), [side, shelf], []).error).toMatch(/thick/);
+    expect(validateJoint(makeJoint({ insertId: 'side' }), [side, shelf], []).valid).toBe(false);
+    expect(validateJoint(makeJoint({}), [side, shelf], []).valid).toBe(true);
+  });
+});
+
+describe('getCutListObjects', () => {
+  it('should lengthen the insert along the dimension that reaches into the host', () => {
+    const rail = makeBox('shelf', { width: 1.5, height: 3.5, depth: 20 }, { x: 10.75, y: 10, z: 0 }, { rotation: { x: 0, y: 90, z: 0 } });
+    const joints = [makeJoint({ type: 'mortise-tenon', depth: 0.5 }), makeJoint({ id: 'joint-2', type: 'dowel' })];
+
+    const [, cutRail] = getCutListObjects([side, rail], [], joints);
+
+    expect(cutRail.dimensions).toEqual({ width: 1.5, height: 3.5, depth: 20.5 });
+  });
+
+  it('should list each joint in the schedule', () => {
+    const [row] = buildJoinerySchedule([makeJoint({ notes: 'Stopped' })], [side, shelf], []);
+
+    expect(row).toMatchObject({ label: 'J1', hostName: 'side', insertName: 'shelf', depth: 0.25, notes: 'Stopped' });
+    expect(row.width).toBeCloseTo(0.75);
+    expect(row.length).toBeCloseTo(12);
+  });
+});
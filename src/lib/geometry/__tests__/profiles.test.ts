@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import {
+  tessellateProfile,
+  getPolygonArea,
+  getPolygonBounds,
+  validateProfile,
+  normalizeProfile,
+  getProfileOutline,
+} from '../profiles';
+import { buildSolid } from '../solids';
+import { getSheetPartOutline, nestSheetParts } from '@/lib/cutlist/nesting';
+import { getLumberBlank } from '@/lib/cutlist/aggregator';
+import { DraftObject, PartProfile } from '@/types';
+import { makePart } from '@/test/fixtures';
+
+// A 10" × 4" bracket with a half-round top: the edge from (10,4) back to (0,4) bows up 5"
+const archProfile: PartProfile = {
+  vertices: [
+    { x: 0, y: 0 },
+    { x: 10, y: 0 },
+    { x: 10, y: 4, bulge: 1 },
+    { x: 0, y: 4 },
+  ],
+};
+
+function makeArch(profile: PartProfile, width: number, height: number, depth: number): DraftObject {
+  return makePart({
+    id: 'part',
+    type: 'custom',
+    name: 'Arch',
+    dimensions: { width, height, depth },
+    material: 'Plywood',
+    category: 'Sheet Goods',
+    profile,
+  });
+}
+
+describe('tessellateProfile', () => {
+  it('should flatten a bulged edge into an arc', () => {
+    const points = tessellateProfile(archProfile);
+    const bounds = getPolygonBounds(points);
+
+    expect(points.length).toBeGreaterThan(10);
+    expect(bounds.maxY).toBeCloseTo(9);
+    expect(getPolygonArea(points)).toBeCloseTo(40 + (Math.PI * 25) / 2, 0);
+  });
+});
+
+describe('validateProfile', () => {
+  it('should reject outlines that cross themselves or enclose nothing', () => {
+    const bowtie = { vertices: [{ x: 0, y: 0 }, { x: 4, y: 4 }, { x: 4, y: 0 }, { x: 0, y: 4 }] };
+    const line = { vertices: [{ x: 0, y: 0 }, { x: 4, y: 0 }, { x: 8, y: 0 }] };
+
+    expect(validateProfile(bowtie).error).toMatch(/crosses/);
+    expect(validateProfile(line).valid).toBe(false);
+    expect(validateProfile(archProfile).valid).toBe(true);
+  });
+});
+
+describe('getProfileOutline', () => {
+  it('should center the outline on the part and stretch it to the part size', () => {
+    const { profile, width, height } = normalizeProfile(archProfile);
+    expect(width).toBeCloseTo(10);
+    expect(height).toBeCloseTo(9);
+
+    const outline = getProfileOutline(makeArch(profile, 20, 9, 0.75))!;
+    const bounds = getPolygonBounds(outline);
+    expect(bounds.minX).toBeCloseTo(-10);
+    expect(bounds.maxX).toBeCloseTo(10);
+    expect(bounds.maxY).toBeCloseTo(4.5);
+  });
+
+  it('should draw the extruded outline as the solid edges', () => {
+    const part = makeArch(normalizeProfile(archProfile).profile, 10, 9, 0.75);
+    const outline = getProfileOutline(part)!;
+
+    const solid = buildSolid(part, { position: { x: 0, y: 0, z: 0 }, rotation: { x: 0, y: 0, z: 0 } });
+
+    expect(solid.corners).toHaveLength(8);
+    expect(solid.edges).toHaveLength(outline.length * 2 + 4);
+  });
+});
+
+describe('profiled parts in the cut list', () => {
+  it('should nest by the bounding rectangle but count the real outline', () => {
+    const part = makeArch(normalizeProfile(archProfile).profile, 10, 9, 0.75);
+
+    const plan = nestSheetParts([part]);
+    const [placement] = plan.sheets[0].placements;
+
+    expect(placement.width).toBeCloseTo(10);
+    expect(placement.length).toBeCloseTo(9);
+    expect(placement.outline).toEqual(getSheetPartOutline(part));
+    expect(plan.sheets[0].usedArea).toBeCloseTo(40 + (Math.PI * 25) / 2, 0);
+  });
+
+  it('should cut profiled lumber from a blank covering the outline', () => {
+    const part = { ...makeArch(normalizeProfile(archProfile).profile, 10, 9, 1.5), category: 'Dimensional Lumber' };
+
+    expect(getLumberBlank(part).dimensions).toEqual({ width: 1.5, height: 9, depth: 10 });
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { ROUND_SEGMENTS, getRoundDiameters, getRoundStockEdges, formatRoundSize } from '../roundStock';
+import { buildSolid } from '../solids';
+import { aggregateByMaterial } from '@/lib/cutlist/aggregator';
+import { getStockLengths } from '@/lib/cutlist/stock';
+import { LUMBER_LIBRARY } from '@/lib/data/lumber';
+import { DraftObject, RoundStock } from '@/types';
+import { makePart } from '@/test/fixtures';
+
+function makeDowel(id: string, diameter: number, length: number, round: RoundStock = {}): DraftObject {
+  return makePart({
+    id,
+    name: `Dowel ${id}`,
+    dimensions: { width: diameter, height: diameter, depth: length },
+    material: 'birch',
+    category: 'Round Stock',
+    round,
+  });
+}
+
+describe('getRoundStockEdges', () => {
+  it('should draw both end circles and the side outlines', () => {
+    const edges = getRoundStockEdges(makeDowel('a', 1, 12))!;
+
+    expect(edges).toHaveLength(ROUND_SEGMENTS * 2 + 4);
+    const radii = edges.flat().map((p) => Math.hypot(p.x, p.y));
+    radii.forEach((r) => expect(r).toBeCloseTo(0.5));
+  });
+
+  it('should narrow a tapered part toward its far end', () => {
+    const leg = makeDowel('leg', 1.5, 18, { endDiameter: 0.75 });
+    const edges = getRoundStockEdges(leg)!;
+    const farEnd = edges.flat().filter((p) => p.z > 0);
+
+    expect(getRoundDiameters(leg)).toEqual({ start: 1.5, end: 0.75 });
+    farEnd.forEach((p) => expect(Math.hypot(p.x, p.y)).toBeCloseTo(0.375));
+    expect(formatRoundSize(leg)).toBe('1.5" -> 0.75" dia.');
+  });
+
+  it('should use the round edges for the solid', () => {
+    const solid = buildSolid(makeDowel('a', 0.5, 6), { position: { x: 0, y: 0, z: 0 }, rotation: { x: 0, y: 0, z: 0 } });
+
+    expect(solid.corners).toHaveLength(8);
+    expect(solid.edges).toHaveLength(ROUND_SEGMENTS * 2 + 4);
+  });
+});
+
+describe('round stock in the cut list', () => {
+  it('should group pieces by diameter and total their length', () => {
+    const groups = aggregateByMaterial([
+      makeDowel('a', 0.5, 6),
+      makeDowel('b', 0.5, 18),
+      makeDowel('c', 0.375, 6),
+      makeDowel('leg', 1.5, 18, { endDiameter: 0.75 }),
+    ]);
+
+    expect(groups.map((g) => g.nominalSize)).toEqual(['0.375" dia.', '0.5" dia.', '1.5" dia.']);
+    expect(groups[1].quantity).toBe(2);
+    expect(groups[1].totalLinearFeet).toBeCloseTo(2);
+    expect(groups[1].totalBoardFeet).toBeUndefined();
+  });
+
+  it('should cut dowels from dowel stock lengths', () => {
+    expect(getStockLengths(makeDowel('a', 0.5, 6), LUMBER_LIBRARY)).toEqual([36]);
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import * as THREE from 'three';
+import {
+  sectionSolid,
+  sectionSolids,
+  getSectionView,
+  getClippingPlane,
+  getSectionPlaneFromLine,
+  getNextSectionName,
+  hatchPolygon,
+} from '../sections';
+import { buildSolid } from '../solids';
+import { buildSectionDrawing } from '@/lib/export/vectorExport';
+import { DraftObject, SectionPlane } from '@/types';
+import { getPolygonArea } from '../profiles';
+import { ROUND_SEGMENTS } from '../roundStock';
+import { makeBox, makePart } from '@/test/fixtures';
+
+function solidFor(obj: DraftObject) {
+  return buildSolid(obj, { position: obj.localPosition, rotation: obj.rotation });
+}
+
+const plane = (axis: SectionPlane['axis'], offset: number, flipped = false): SectionPlane => ({
+  id: 'section',
+  name: 'A',
+  axis,
+  offset,
+  flipped,
+});
+
+describe('Sections', () => {
+  it('should cut a box into a rectangular face and keep the near half of its edges', () => {
+    const box = solidFor(makeBox('box', { width: 4, height: 2, depth: 6 }, { x: 0, y: 0, z: 0 }));
+    const { edges, cutFaces } = sectionSolid(box, plane('x', 1));
+
+    // The cut face is the 2 x 6 rectangle at x = 1
+    expect(cutFaces).toHaveLength(1);
+    expect(cutFaces[0]).toHaveLength(4);
+    cutFaces[0].forEach((p) => expect(p.x).toBeCloseTo(1));
+
+    // The four edges of the x = 2 face are cut away, the four along X are shortened
+    expect(edges).toHaveLength(8);
+    edges.flat().forEach((p) => expect(p.x).toBeLessThanOrEqual(1 + 1e-9));
+  });
+
+  it('should keep the other side when flipped', () => {
+    const box = solidFor(makeBox('box', { width: 4, height: 2, depth: 6 }, { x: 0, y: 0, z: 0 }));
+    const { edges } = sectionSolid(box, plane('x', 1, true));
+    edges.flat().forEach((p) => expect(p.x).toBeGreaterThanOrEqual(1 - 1e-9));
+    expect(getSectionView(plane('x', 1, true))).toBe('left');
+    expect(getSectionView(plane('x', 1))).toBe('right');
+  });
+
+  it('should drop solids entirely on the removed side', () => {
+    const near = solidFor(makeBox('near', { width: 2, height: 2, depth: 2 }, { x: 0, y: 0, z: 0 }));
+    const far = solidFor(makeBox('far', { width: 2, height: 2, depth: 2 }, { x: 0, y: 10, z: 0 }));
+    const result = sectionSolids([near, far], plane('y', 5));
+    expect(result.map((section) => section.solid.id)).toEqual(['near']);
+    // A solid the plane misses has no cut face
+    expect(result[0].cutFaces).toHaveLength(0);
+  });
+
+  it('should cut round stock along its circular cross-section', () => {
+    const dowel = solidFor(makePart({ id: 'dowel', dimensions: { width: 1, height: 1, depth: 12 }, round: {} }));
+    const across = sectionSolid(dowel, plane('z', 0)).cutFaces;
+
+    expect(across).toHaveLength(1);
+    expect(across[0]).toHaveLength(ROUND_SEGMENTS);
+    across[0].forEach((p) => expect(Math.hypot(p.x, p.y)).toBeCloseTo(0.5));
+
+    // Cut along its length, a tapered leg leaves a trapezoid
+    const leg = solidFor(makePart({ id: 'leg', dimensions: { width: 1.5, height: 1.5, depth: 18 }, round: { endDiameter: 0.75 } }));
+    const along = sectionSolid(leg, plane('y', 0)).cutFaces;
+    expect(along).toHaveLength(1);
+    expect(Math.abs(getPolygonArea(along[0].map((p) => ({ x: p.x, y: p.z }))))).toBeCloseTo(20.25);
+  });
+
+  it('should cut a concave profile along its real outline', () => {
+    // A 6" × 4" channel with a 2" × 3" notch in the top, 2" deep
+    const channel = solidFor(makePart({
+      id: 'channel',
+      dimensions: { width: 6, height: 4, depth: 2 },
+      profile: { vertices: [
+        { x: 0, y: 0 }, { x: 6, y: 0 }, { x: 6, y: 4 }, { x: 4, y: 4 },
+        { x: 4, y: 1 }, { x: 2, y: 1 }, { x: 2, y: 4 }, { x: 0, y: 4 },
+      ] },
+    }));
+
+    // Across the extrusion the cut face is the channel's outline, notch included
+    const across = sectionSolid(channel, plane('z', 0)).cutFaces;
+    expect(across).toHaveLength(1);
+    expect(Math.abs(getPolygonArea(across[0].map((p) => ({ x: p.x, y: p.y }))))).toBeCloseTo(18);
+
+    // Through the notch the plane only cuts the two legs
+    const legs = sectionSolid(channel, plane('y', 1.5)).cutFaces;
+    expect(legs).toHaveLength(2);
+    legs.forEach((face) => {
+      expect(Math.abs(getPolygonArea(face.map((p) => ({ x: p.x, y: p.z }))))).toBeCloseTo(4);
+    });
+  });
+
+  it('should build a clipping plane that keeps the same side as the section', () => {
+    const clip = getClippingPlane(plane('z', 3));
+    expect(clip.distanceToPoint(new THREE.Vector3(0, 0, 0))).toBeGreaterThan(0);
+    expect(clip.distanceToPoint(new THREE.Vector3(0, 0, 5))).toBeLessThan(0);
+  });
+
+  it('should pick the plane axis from a line drawn across a view', () => {
+    // A vertical line in the front view cuts across X
+    expect(getSectionPlaneFromLine({ x: 3, y: -5, z: 0 }, { x: 3, y: 5, z: 0 }, 'front')).toEqual({ axis: 'x', offset: 3 });
+    // A horizontal line in the top view cuts across Z
+    expect(getSectionPlaneFromLine({ x: -5, y: 0, z: 2 }, { x: 5, y: 0, z: 2 }, 'top')).toEqual({ axis: 'z', offset: 2 });
+  });
+
+  it('should name sections with the next free letter', () => {
+    expect(getNextSectionName([])).toBe('A');
+    expect(getNextSectionName([plane('x', 0), { ...plane('y', 0), name: 'B' }])).toBe('C');
+  });
+
+  it('should hatch a square with evenly spaced lines inside it', () => {
+    const square = [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 1, y: 1 }, { x: 0, y: 1 }];
+    const lines = hatchPolygon(square, 0.1, 45);
+    expect(lines.length).toBeGreaterThan(10);
+    lines.flat().forEach((p) => {
+      expect(p.x).toBeGreaterThanOrEqual(-1e-9);
+      expect(p.x).toBeLessThanOrEqual(1 + 1e-9);
+      expect(p.y).toBeGreaterThanOrEqual(-1e-9);
+      expect(p.y).toBeLessThanOrEqual(1 + 1e-9);
+    });
+  });
+
+  it('should outline and hatch the cut faces in a section drawing', () => {
+    // Two cabinet sides with a shelf between them, cut through the middle
+    const solids = [
+      solidFor(makeBox('left', { width: 0.75, height: 30, depth: 12 }, { x: -10, y: 0, z: 0 })),
+      solidFor(makeBox('right', { width: 0.75, height: 30, depth: 12 }, { x: 10, y: 0, z: 0 })),
+      solidFor(makeBox('shelf', { width: 19.25, height: 0.75, depth: 12 }, { x: 0, y: 0, z: 0 })),
+    ];
+    const drawing = buildSectionDrawing(plane('z', 0), solids, []);
+
+    expect(drawing.view).toBe('front');
+    expect(drawing.sectionFaces).toHaveLength(3);
+    expect(drawing.hiddenLines).toHaveLength(0);
+    expect(drawing.bounds.maxX - drawing.bounds.minX).toBeCloseTo(20.75);
+    expect(drawing.bounds.maxY - drawing.bounds.minY).toBeCloseTo(30);
+  });
+});
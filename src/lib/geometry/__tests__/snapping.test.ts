@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { getSnapAxes, snapExtents, snapPoint, SnapTarget } from '../snapping';
+import { FaceExtents } from '../alignment';
+import { Vector3D } from '@/types';
+
+function box(min: Vector3D, max: Vector3D): FaceExtents {
+  return { min, max };
+}
+
+// A 10" square panel seen in the front view, 0.75" thick
+const panel: SnapTarget = {
+  id: 'panel',
+  extents: box({ x: 0, y: 0, z: 0 }, { x: 10, y: 10, z: 0.75 }),
+};
+
+describe('getSnapAxes', () => {
+  it('should use the axes in the screen plane of orthographic views', () => {
+    expect(getSnapAxes('front')).toEqual(['x', 'y']);
+    expect(getSnapAxes('top')).toEqual(['x', 'z']);
+    expect(getSnapAxes('left')).toEqual(['y', 'z']);
+    expect(getSnapAxes('iso-front-right')).toEqual([]);
+  });
+});
+
+describe('snapExtents', () => {
+  it('should butt a dragged part against a nearby face', () => {
+    const moving = box({ x: 10.2, y: 2, z: 0 }, { x: 12.2, y: 4, z: 0.75 });
+
+    const { offset, guides } = snapExtents(moving, [panel], ['x', 'y'], 0.5);
+
+    expect(offset.x).toBeCloseTo(-0.2);
+    expect(offset.y).toBe(0);
+    expect(guides).toHaveLength(1);
+    expect(guides[0]).toMatchObject({ axis: 'x', value: 10, targetId: 'panel' });
+  });
+
+  it('should snap to a corner when two faces are in reach', () => {
+    const moving = box({ x: 10.1, y: 9.8, z: 0 }, { x: 12.1, y: 11.8, z: 0.75 });
+
+    const { offset, guides } = snapExtents(moving, [panel], ['x', 'y'], 0.5);
+
+    expect(offset.x).toBeCloseTo(-0.1);
+    expect(offset.y).toBeCloseTo(0.2);
+    expect(guides.map((guide) => guide.axis)).toEqual(['x', 'y']);
+  });
+
+  it('should ignore parts that are far away on the other axis', () => {
+    const moving = box({ x: 10.2, y: 30, z: 0 }, { x: 12.2, y: 32, z: 0.75 });
+
+    expect(snapExtents(moving, [panel], ['x', 'y'], 0.5).guides).toEqual([]);
+  });
+});
+
+describe('snapPoint', () => {
+  it('should snap to a corner, or fall back to the grid', () => {
+    expect(snapPoint({ x: 9.9, y: 10.1, z: 0 }, [panel], ['x', 'y'], 0.25, 1).point).toEqual({ x: 10, y: 10, z: 0 });
+
+    const edge = snapPoint({ x: 5.3, y: 9.9, z: 0 }, [panel], ['x', 'y'], 0.25, 1);
+    expect(edge.point).toEqual({ x: 5, y: 10, z: 0 });
+    expect(edge.guides.map((guide) => guide.axis)).toEqual(['y']);
+  });
+});
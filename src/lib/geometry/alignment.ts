@@ -1,8 +1,44 @@
-import { DraftObject, Vector3D } from '@/types';
+import { DraftObject, Vector3D, WorldTransform } from '@/types';
+import { getObjectCorners } from './solids';
 
 export type AlignmentType = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
 export type DistributionType = 'horizontal' | 'vertical';
 
+export interface FaceExtents {
+  min: Vector3D;                  // Left, bottom and back faces
+  max: Vector3D;                  // Right, top and front faces
+}
+
+/**
+ * Get the faces of an object along each axis
+ * Without a transform, faces sit half a dimension either side of the local position (the
+ * object's center). With a world transform, they bound the rotated box in world space.
+ */
+export function getFaceExtents(obj: DraftObject, transform?: WorldTransform): FaceExtents {
+  if (!transform) {
+    const { x, y, z } = obj.localPosition;
+    const { width, height, depth } = obj.dimensions;
+    return {
+      min: { x: x - width / 2, y: y - height / 2, z: z - depth / 2 },
+      max: { x: x + width / 2, y: y + height / 2, z: z + depth / 2 },
+    };
+  }
+
+  const corners = getObjectCorners(obj, transform);
+  return {
+    min: {
+      x: Math.min(...corners.map((c) => c.x)),
+      y: Math.min(...corners.map((c) => c.y)),
+      z: Math.min(...corners.map((c) => c.z)),
+    },
+    max: {
+      x: Math.max(...corners.map((c) => c.x)),
+      y: Math.max(...corners.map((c) => c.y)),
+      z: Math.max(...corners.map((c) => c.z)),
+    },
+  };
+}
+
 /**
  * Align multiple objects along a specific axis
  * Note: Object positions represent their centers
@@ -17,8 +53,8 @@ export function alignObjects(
 
   switch (alignment) {
     case 'left': {
-      // Align to the leftmost edge (minX - width/2)
-      const minLeftEdge = Math.min(...objects.map((obj) => obj.localPosition.x - obj.dimensions.width / 2));
+      // Align to the leftmost edge
+      const minLeftEdge = Math.min(...objects.map((obj) => getFaceExtents(obj).min.x));
       objects.forEach((obj) => {
         const newX = minLeftEdge + obj.dimensions.width / 2;
         updates.set(obj.id, { ...obj.localPosition, x: newX });
@@ -37,8 +73,8 @@ export function alignObjects(
     }
 
     case 'right': {
-      // Align to the rightmost edge (maxX + width/2)
-      const maxRightEdge = Math.max(...objects.map((obj) => obj.localPosition.x + obj.dimensions.width / 2));
+      // Align to the rightmost edge
+      const maxRightEdge = Math.max(...objects.map((obj) => getFaceExtents(obj).max.x));
       objects.forEach((obj) => {
         const newX = maxRightEdge - obj.dimensions.width / 2;
         updates.set(obj.id, { ...obj.localPosition, x: newX });
@@ -47,8 +83,8 @@ export function alignObjects(
     }
 
     case 'top': {
-      // Align to the topmost edge (maxY + height/2)
-      const maxTopEdge = Math.max(...objects.map((obj) => obj.localPosition.y + obj.dimensions.height / 2));
+      // Align to the topmost edge
+      const maxTopEdge = Math.max(...objects.map((obj) => getFaceExtents(obj).max.y));
       objects.forEach((obj) => {
         const newY = maxTopEdge - obj.dimensions.height / 2;
         updates.set(obj.id, { ...obj.localPosition, y: newY });
@@ -67,8 +103,8 @@ export function alignObjects(
     }
 
     case 'bottom': {
-      // Align to the bottommost edge (minY - height/2)
-      const minBottomEdge = Math.min(...objects.map((obj) => obj.localPosition.y - obj.dimensions.height / 2));
+      // Align to the bottommost edge
+      const minBottomEdge = Math.min(...objects.map((obj) => getFaceExtents(obj).min.y));
       objects.forEach((obj) => {
         const newY = minBottomEdge + obj.dimensions.height / 2;
         updates.set(obj.id, { ...obj.localPosition, y: newY });
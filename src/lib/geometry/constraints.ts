@@ -0,0 +1,153 @@
+import { DraftObject, Assembly, PartConstraint, Vector3D } from '@/types';
+import { computeWorldTransform } from '@/lib/hierarchy/transforms';
+import { getFaceExtents, FaceExtents } from './alignment';
+
+export interface ConstraintSolution {
+  positions: Map<string, Vector3D>;   // New world positions of the parts that moved
+  unsatisfied: string[];              // Constraints that conflict with others and couldn't all be met
+}
+
+const TOLERANCE = 1e-6;
+
+/**
+ * Distance a part must move along the constraint's axis to satisfy it
+ */
+export function getConstraintDelta(constraint: PartConstraint, part: FaceExtents, target: FaceExtents): number {
+  const { axis, side } = constraint;
+  const center = (extents: FaceExtents) => (extents.min[axis] + extents.max[axis]) / 2;
+
+  switch (constraint.type) {
+    case 'flush':
+      return target[side][axis] - part[side][axis];
+    case 'butt':
+      return side === 'max'
+        ? target.max[axis] - part.min[axis]
+        : target.min[axis] - part.max[axis];
+    case 'offset':
+      return side === 'max'
+        ? target.max[axis] + constraint.offset - part.min[axis]
+        : target.min[axis] - constraint.offset - part.max[axis];
+    case 'centered':
+      return center(target) - center(part);
+  }
+}
+
+/**
+ * Check a new constraint against the existing ones
+ * A part can only be held once per axis, and parts can't be held against each other in a loop.
+ */
+export function validateConstraint(
+  constraint: PartConstraint,
+  constraints: PartConstraint[]
+): { valid: boolean; error?: string } {
+  if (constraint.objectId === constraint.targetId) {
+    return { valid: false, error: 'A part cannot be constrained to itself' };
+  }
+
+  const others = constraints.filter((c) => c.id !== constraint.id);
+  if (others.some((c) => c.objectId === constraint.objectId && c.axis === constraint.axis)) {
+    return { valid: false, error: `This part is already constrained along ${constraint.axis.toUpperCase()}` };
+  }
+
+  // Walk from the target through the parts it is held against; reaching the part is a loop
+  const targetsOf = (id: string) => others.filter((c) => c.objectId === id && c.axis === constraint.axis).map((c) => c.targetId);
+  const visited = new Set<string>();
+  const stack = [constraint.targetId];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (id === constraint.objectId) {
+      return { valid: false, error: 'Constraints would form a loop' };
+    }
+    if (visited.has(id)) continue;
+    visited.add(id);
+    stack.push(...targetsOf(id));
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Move constrained parts so each constraint holds
+ * Parts are moved in world space along one axis per constraint. Constraints are applied
+ * repeatedly so chains settle (a shelf on a rail on a leg), up to one pass per constraint.
+ */
+export function solveConstraints(
+  objects: DraftObject[],
+  assemblies: Assembly[],
+  constraints: PartConstraint[]
+): ConstraintSolution {
+  const ids = new Set(objects.map((obj) => obj.id));
+  const active = constraints.filter((c) => ids.has(c.objectId) && ids.has(c.targetId) && c.objectId !== c.targetId);
+
+  const extents = new Map<string, FaceExtents>();
+  const positions = new Map<string, Vector3D>();
+  const extentsOf = (id: string) => {
+    if (!extents.has(id)) {
+      const obj = objects.find((o) => o.id === id)!;
+      const transform = computeWorldTransform(id, objects, assemblies);
+      extents.set(id, getFaceExtents(obj, transform));
+      positions.set(id, transform.position);
+    }
+    return extents.get(id)!;
+  };
+
+  const moved = new Set<string>();
+  for (let pass = 0; pass <= active.length; pass++) {
+    let changed = false;
+
+    active.forEach((constraint) => {
+      const part = extentsOf(constraint.objectId);
+      const delta = getConstraintDelta(constraint, part, extentsOf(constraint.targetId));
+      if (Math.abs(delta) < TOLERANCE) return;
+
+      const { axis } = constraint;
+      const position = positions.get(constraint.objectId)!;
+      positions.set(constraint.objectId, { ...position, [axis]: position[axis] + delta });
+      extents.set(constraint.objectId, {
+        min: { ...part.min, [axis]: part.min[axis] + delta },
+        max: { ...part.max, [axis]: part.max[axis] + delta },
+      });
+      moved.add(constraint.objectId);
+      changed = true;
+    });
+
+    if (!changed) break;
+  }
+
+  return {
+    positions: new Map(Array.from(moved, (id) => [id, positions.get(id)!])),
+    unsatisfied: active
+      .filter((c) => Math.abs(getConstraintDelta(c, extentsOf(c.objectId), extentsOf(c.targetId))) >= TOLERANCE)
+      .map((c) => c.id),
+  };
+}
+
+const formatInches = (value: number) => `${Number(value.toFixed(4))}"`;
+
+/**
+ * Describe a constraint for lists, e.g. "Butt against top of Rail"
+ * Offsets are written with the given length formatter, e.g. the project's units.
+ */
+export function describeConstraint(
+  constraint: PartConstraint,
+  targetName: string,
+  format: (inches: number) => string = formatInches
+): string {
+  const faces = {
+    x: { min: 'left', max: 'right' },
+    y: { min: 'bottom', max: 'top' },
+    z: { min: 'back', max: 'front' },
+  };
+  const face = faces[constraint.axis][constraint.side];
+
+  switch (constraint.type) {
+    case 'flush':
+      return `Flush with ${face} of ${targetName}`;
+    case 'butt':
+      return `Butt against ${face} of ${targetName}`;
+    case 'offset':
+      return `${format(constraint.offset)} off ${face} of ${targetName}`;
+    case 'centered':
+      return `Centered on ${targetName} along ${constraint.axis.toUpperCase()}`;
+  }
+}
@@ -91,6 +91,13 @@ export function snapVectorToGrid(vector: Vector3D, gridSize: number = 1): Vector
   };
 }
 
+/**
+ * Size of one screen pixel in world units, for turning pixel tolerances into inches
+ */
+export function getWorldUnitsPerPixel(camera: THREE.OrthographicCamera, canvasHeight: number): number {
+  return (camera.top - camera.bottom) / camera.zoom / canvasHeight;
+}
+
 /**
  * Convert screen-space delta (mouse movement) to world-space delta
  * This is used for dragging objects in the current view
@@ -0,0 +1,208 @@
+import * as THREE from 'three';
+import { ViewType, Vector3D } from '@/types';
+import { getViewBasis, ViewBasis } from '@/lib/three/views';
+import { Solid, Segment3D, getTransformQuaternion, getSolidOutlines } from './solids';
+import { projectPoint, getBounds2D, crossingParameter, Point2D, Bounds2D } from './projection';
+
+/**
+ * Solid edges split into the parts seen from a view and the parts behind other solids
+ * Segments stay in world space so they can be drawn on screen or projected for export.
+ */
+export interface HiddenLineResult {
+  visible: Segment3D[];
+  hidden: Segment3D[];
+}
+
+// Solids are shrunk by this much for occlusion tests so edges lying on a face aren't hidden by it
+const SURFACE_TOLERANCE = 1e-4;
+
+// A plane bounding a convex piece of a solid, in the solid's frame: points inside have normal·p <= offset
+interface BoundingPlane {
+  normal: THREE.Vector3;
+  offset: number;
+}
+
+interface Occluder {
+  center: THREE.Vector3;
+  inverseRotation: THREE.Quaternion;
+  pieces: BoundingPlane[][];   // Convex pieces that make up the solid
+  bounds: Bounds2D;          // Projected bounds in the view
+  edges: [Point2D, Point2D][]; // Projected edges in the view
+}
+
+function isConvex(outline: Point2D[]): boolean {
+  const turns = outline.map((p, i) => {
+    const q = outline[(i + 1) % outline.length];
+    const r = outline[(i + 2) % outline.length];
+    return (q.x - p.x) * (r.y - q.y) - (q.y - p.y) * (r.x - q.x);
+  });
+  return turns.every(turn => turn >= -1e-9) || turns.every(turn => turn <= 1e-9);
+}
+
+/**
+ * Bounding planes of the piece of a solid between the outline points at the given indices
+ * Planes on the solid's surface are pulled in by the tolerance; planes splitting a concave
+ * outline into pieces are left where they are so the pieces still meet.
+ */
+function getPiecePlanes(indices: number[], back: Point2D[], front: Point2D[], half: number): BoundingPlane[] {
+  const toBack = (i: number) => new THREE.Vector3(back[i].x, back[i].y, -half);
+  const toFront = (i: number) => new THREE.Vector3(front[i].x, front[i].y, half);
+  const centroid = indices
+    .reduce((sum, i) => sum.add(toBack(i)).add(toFront(i)), new THREE.Vector3())
+    .divideScalar(indices.length * 2);
+
+  const planes: BoundingPlane[] = [
+    { normal: new THREE.Vector3(0, 0, -1), offset: half - SURFACE_TOLERANCE },
+    { normal: new THREE.Vector3(0, 0, 1), offset: half - SURFACE_TOLERANCE },
+  ];
+  indices.forEach((i, k) => {
+    const j = indices[(k + 1) % indices.length];
+    const start = toBack(i);
+    const normal = toBack(j).sub(start).cross(toFront(i).sub(start)).normalize();
+    if (normal.lengthSq() === 0) return;
+    if (normal.dot(centroid.clone().sub(start)) > 0) normal.negate();
+
+    const onSurface = j === (i + 1) % back.length || i === (j + 1) % back.length;
+    planes.push({ normal, offset: normal.dot(start) - (onSurface ? SURFACE_TOLERANCE : 0) });
+  });
+  return planes;
+}
+
+function buildOccluder(solid: Solid, basis: ViewBasis): Occluder {
+  const { position } = solid.transform;
+  const { back, front } = getSolidOutlines(solid.object);
+  const projectedCorners = solid.corners.map(corner => projectPoint(corner, basis));
+
+  // Concave outlines are split into triangles, each a convex piece
+  const pieces = isConvex(back)
+    ? [back.map((_, i) => i)]
+    : THREE.ShapeUtils.triangulateShape(back.map(p => new THREE.Vector2(p.x, p.y)), []);
+
+  return {
+    center: new THREE.Vector3(position.x, position.y, position.z),
+    inverseRotation: getTransformQuaternion(solid.transform).invert(),
+    pieces: pieces.map(indices => getPiecePlanes(indices, back, front, solid.object.dimensions.depth / 2)),
+    bounds: getBounds2D(projectedCorners)!,
+    edges: solid.edges.map(([a, b]) => [projectPoint(a, basis), projectPoint(b, basis)]),
+  };
+}
+
+/**
+ * Range of t where the line origin + t·direction is inside a convex piece, or null if it misses
+ * (the slab test generalized to any bounding planes)
+ */
+function clipToPiece(origin: THREE.Vector3, direction: THREE.Vector3, planes: BoundingPlane[]): [number, number] | null {
+  let tMin = -Infinity;
+  let tMax = Infinity;
+
+  for (const { normal, offset } of planes) {
+    const facing = normal.dot(direction);
+    const room = offset - normal.dot(origin);
+    if (Math.abs(facing) < 1e-12) {
+      if (room < 0) return null;
+      continue;
+    }
+    const t = room / facing;
+    if (facing > 0) {
+      tMax = Math.min(tMax, t);
+    } else {
+      tMin = Math.max(tMin, t);
+    }
+    if (tMin > tMax) return null;
+  }
+
+  return [tMin, tMax];
+}
+
+/**
+ * Check whether a ray hits a solid at a positive distance (tested in the solid's local frame)
+ */
+function rayHitsSolid(origin: THREE.Vector3, direction: THREE.Vector3, occluder: Occluder): boolean {
+  const o = origin.clone().sub(occluder.center).applyQuaternion(occluder.inverseRotation);
+  const d = direction.clone().applyQuaternion(occluder.inverseRotation);
+  return occluder.pieces.some(planes => {
+    const range = clipToPiece(o, d, planes);
+    return range !== null && range[1] > SURFACE_TOLERANCE;
+  });
+}
+
+/**
+ * Parameters along a 3D segment where it enters or leaves a solid (for parts that interpenetrate)
+ */
+function piercingParameters(a: THREE.Vector3, b: THREE.Vector3, occluder: Occluder): number[] {
+  const o = a.clone().sub(occluder.center).applyQuaternion(occluder.inverseRotation);
+  const d = b.clone().sub(a).applyQuaternion(occluder.inverseRotation);
+  return occluder.pieces.flatMap(planes => (clipToPiece(o, d, planes) ?? []).filter(t => t > 0 && t < 1));
+}
+
+const boundsOverlap = (a: Bounds2D, b: Bounds2D) =>
+  a.minX <= b.maxX && a.maxX >= b.minX && a.minY <= b.maxY && a.maxY >= b.minY;
+
+const lerp = (a: Vector3D, b: Vector3D, t: number): Vector3D => ({
+  x: a.x + (b.x - a.x) * t,
+  y: a.y + (b.y - a.y) * t,
+  z: a.z + (b.z - a.z) * t,
+});
+
+/**
+ * Split solid edges into visible and hidden parts for a view
+ * Visibility can only change where an edge crosses another edge in projection or pierces
+ * another solid, so each edge is cut at those points and each piece is tested once by
+ * casting a ray from its midpoint toward the viewer. Only the edges of edgeSolids are
+ * classified, but every solid can hide them.
+ */
+export function computeHiddenLines(solids: Solid[], view: ViewType, edgeSolids: Solid[] = solids): HiddenLineResult {
+  const basis = getViewBasis(view);
+  const toViewer = new THREE.Vector3(-basis.forward.x, -basis.forward.y, -basis.forward.z);
+  const occluders = solids.map(solid => buildOccluder(solid, basis));
+  const visible: Segment3D[] = [];
+  const hidden: Segment3D[] = [];
+
+  edgeSolids.forEach(solid => {
+    solid.edges.forEach(([a, b]) => {
+      const p0 = projectPoint(a, basis);
+      const p1 = projectPoint(b, basis);
+      const edgeBounds = getBounds2D([p0, p1])!;
+      const a3 = new THREE.Vector3(a.x, a.y, a.z);
+      const b3 = new THREE.Vector3(b.x, b.y, b.z);
+
+      // Occluders whose projection overlaps this edge
+      const candidates = occluders.filter(occluder => boundsOverlap(occluder.bounds, edgeBounds));
+
+      const breaks = [0, 1];
+      candidates.forEach(occluder => {
+        occluder.edges.forEach(([q0, q1]) => {
+          const t = crossingParameter(p0, p1, q0, q1);
+          if (t !== null) breaks.push(t);
+        });
+        breaks.push(...piercingParameters(a3, b3, occluder));
+      });
+      breaks.sort((x, y) => x - y);
+
+      // Classify each piece, merging neighbors with the same visibility
+      let runStart = 0;
+      let runHidden: boolean | null = null;
+      for (let i = 0; i < breaks.length - 1; i++) {
+        const t0 = breaks[i];
+        const t1 = breaks[i + 1];
+        if (t1 - t0 < 1e-9) continue;
+
+        const mid = a3.clone().lerp(b3, (t0 + t1) / 2);
+        const isHidden = candidates.some(occluder => rayHitsSolid(mid, toViewer, occluder));
+
+        if (runHidden === null) {
+          runHidden = isHidden;
+        } else if (isHidden !== runHidden) {
+          (runHidden ? hidden : visible).push([lerp(a, b, runStart), lerp(a, b, t0)]);
+          runStart = t0;
+          runHidden = isHidden;
+        }
+      }
+      if (runHidden !== null) {
+        (runHidden ? hidden : visible).push([lerp(a, b, runStart), b]);
+      }
+    });
+  });
+
+  return { visible, hidden };
+}
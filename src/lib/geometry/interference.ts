@@ -0,0 +1,84 @@
+import { DraftObject, Assembly, AllowedInterference } from '@/types';
+import { computeWorldTransform } from '@/lib/hierarchy/transforms';
+import { getFaceExtents, FaceExtents } from './alignment';
+
+export interface Interference {
+  key: string;                    // Stable identifier for the pair
+  objectIds: [string, string];
+  overlap: FaceExtents;           // World-space box where the two parts overlap
+  volume: number;                 // Cubic inches
+  allowedId: string | null;       // Allowance that excuses this overlap, if any
+}
+
+// Overlaps thinner than this are parts touching face to face, not interfering
+const TOUCH_TOLERANCE = 1e-4;
+
+/**
+ * Identify a pair of parts regardless of order
+ */
+export function getInterferenceKey(a: string, b: string): string {
+  return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
+
+/**
+ * Find every pair of parts whose world-space boxes overlap
+ * Boxes are the axis-aligned bounds of each part's world transform, which is exact for
+ * parts turned in 90° steps. Pairs covered by an allowance are still reported, flagged
+ * with the allowance, so they can be reviewed. Largest overlaps come first.
+ */
+export function findInterferences(
+  objects: DraftObject[],
+  assemblies: Assembly[],
+  allowed: AllowedInterference[] = []
+): Interference[] {
+  const allowedByKey = new Map(allowed.map((a) => [getInterferenceKey(a.objectIds[0], a.objectIds[1]), a.id]));
+
+  // Sweep along X so only parts that overlap there are compared
+  const boxes = objects
+    .map((obj) => ({ id: obj.id, extents: getFaceExtents(obj, computeWorldTransform(obj.id, objects, assemblies)) }))
+    .sort((a, b) => a.extents.min.x - b.extents.min.x);
+
+  const interferences: Interference[] = [];
+  boxes.forEach((a, index) => {
+    for (const b of boxes.slice(index + 1)) {
+      if (b.extents.min.x >= a.extents.max.x - TOUCH_TOLERANCE) break;
+
+      const overlap: FaceExtents = {
+        min: {
+          x: Math.max(a.extents.min.x, b.extents.min.x),
+          y: Math.max(a.extents.min.y, b.extents.min.y),
+          z: Math.max(a.extents.min.z, b.extents.min.z),
+        },
+        max: {
+          x: Math.min(a.extents.max.x, b.extents.max.x),
+          y: Math.min(a.extents.max.y, b.extents.max.y),
+          z: Math.min(a.extents.max.z, b.extents.max.z),
+        },
+      };
+      const size = {
+        x: overlap.max.x - overlap.min.x,
+        y: overlap.max.y - overlap.min.y,
+        z: overlap.max.z - overlap.min.z,
+      };
+      if (size.x <= TOUCH_TOLERANCE || size.y <= TOUCH_TOLERANCE || size.z <= TOUCH_TOLERANCE) continue;
+
+      const key = getInterferenceKey(a.id, b.id);
+      interferences.push({
+        key,
+        objectIds: a.id < b.id ? [a.id, b.id] : [b.id, a.id],
+        overlap,
+        volume: size.x * size.y * size.z,
+        allowedId: allowedByKey.get(key) ?? null,
+      });
+    }
+  });
+
+  return interferences.sort((a, b) => b.volume - a.volume);
+}
+
+/**
+ * Collect the parts involved in overlaps that aren't allowed
+ */
+export function getCollidingObjectIds(interferences: Interference[]): Set<string> {
+  return new Set(interferences.filter((i) => !i.allowedId).flatMap((i) => i.objectIds));
+}
@@ -0,0 +1,212 @@
+import * as THREE from 'three';
+import { DraftObject, Assembly, Joint, JointType, SectionAxis, Vector3D, Dimensions } from '@/types';
+import { computeWorldTransform, rotationToQuaternion } from '@/lib/hierarchy/transforms';
+import { getFaceExtents, FaceExtents } from './alignment';
+
+export interface JointTypeInfo {
+  label: string;
+  color: string;                  // Marker color on the canvas and in the schedule
+  cut: boolean;                   // Drawn as a cut in the host rather than only a marker
+  lengthensInsert: boolean;       // Insert reaches into the host, so its cut length grows by the depth
+}
+
+export const JOINT_TYPES: Record<JointType, JointTypeInfo> = {
+  'dado': { label: 'Dado', color: '#2563eb', cut: true, lengthensInsert: true },
+  'rabbet': { label: 'Rabbet', color: '#0891b2', cut: true, lengthensInsert: true },
+  'groove': { label: 'Groove', color: '#7c3aed', cut: true, lengthensInsert: true },
+  'mortise-tenon': { label: 'Mortise & Tenon', color: '#c2410c', cut: true, lengthensInsert: true },
+  'dowel': { label: 'Dowel', color: '#16a34a', cut: false, lengthensInsert: false },
+  'pocket-hole': { label: 'Pocket Hole', color: '#ca8a04', cut: false, lengthensInsert: false },
+  'biscuit': { label: 'Biscuit', color: '#db2777', cut: false, lengthensInsert: false },
+};
+
+export interface JointGeometry {
+  normal: SectionAxis;            // Axis the insert meets the host along
+  direction: 1 | -1;              // Side of the host the insert is on
+  cut: FaceExtents;               // World-space box removed from the host
+  center: Vector3D;               // Where the joint's marker is drawn
+}
+
+export interface JointScheduleRow {
+  jointId: string;
+  label: string;                  // J1, J2, ... in joint order
+  type: JointType;
+  hostName: string;
+  insertName: string;
+  depth: number;
+  width: number | null;           // Cut size across the insert, null when the parts don't meet
+  length: number | null;          // Cut size along the joint
+  notes: string;
+}
+
+// Gaps smaller than this still count as the parts meeting
+const CONTACT_TOLERANCE = 1e-3;
+
+const AXES: SectionAxis[] = ['x', 'y', 'z'];
+
+/**
+ * Label used for a joint on the canvas and in the schedule
+ */
+export function getJointLabel(index: number): string {
+  return `J${index + 1}`;
+}
+
+/**
+ * Locate a joint's cut from where the two parts meet
+ * The axis the parts overlap least on is the one the insert meets the host along. The cut
+ * runs from that host face into the host by the joint depth, spans the contact area less the
+ * offset at each end, and is narrowed across the insert to the joint width when one is set.
+ * Returns null when the parts don't touch.
+ */
+export function getJointGeometry(joint: Joint, objects: DraftObject[], assemblies: Assembly[]): JointGeometry | null {
+  const host = objects.find((obj) => obj.id === joint.hostId);
+  const insert = objects.find((obj) => obj.id === joint.insertId);
+  if (!host || !insert || host.id === insert.id) return null;
+
+  const hostBox = getFaceExtents(host, computeWorldTransform(host.id, objects, assemblies));
+  const insertBox = getFaceExtents(insert, computeWorldTransform(insert.id, objects, assemblies));
+
+  const overlap = (axis: SectionAxis) =>
+    Math.min(hostBox.max[axis], insertBox.max[axis]) - Math.max(hostBox.min[axis], insertBox.min[axis]);
+  if (AXES.some((axis) => overlap(axis) < -CONTACT_TOLERANCE)) return null;
+
+  const normal = AXES.reduce((best, axis) => (overlap(axis) < overlap(best) ? axis : best));
+  const [thickness, along] = AXES
+    .filter((axis) => axis !== normal)
+    .sort((a, b) => (insertBox.max[a] - insertBox.min[a]) - (insertBox.max[b] - insertBox.min[b]));
+
+  const center = (box: FaceExtents, axis: SectionAxis) => (box.min[axis] + box.max[axis]) / 2;
+  const direction = center(insertBox, normal) >= center(hostBox, normal) ? 1 : -1;
+  const face = direction === 1 ? hostBox.max[normal] : hostBox.min[normal];
+
+  const span = (axis: SectionAxis) => ({
+    min: Math.max(hostBox.min[axis], insertBox.min[axis]),
+    max: Math.min(hostBox.max[axis], insertBox.max[axis]),
+  });
+  const shrink = ({ min, max }: { min: number; max: number }, amount: number) => {
+    const middle = (min + max) / 2;
+    return { min: Math.min(min + amount, middle), max: Math.max(max - amount, middle) };
+  };
+
+  const thicknessSpan = span(thickness);
+  const middle = (thicknessSpan.min + thicknessSpan.max) / 2;
+  const width = joint.width > 0 ? { min: middle - joint.width / 2, max: middle + joint.width / 2 } : thicknessSpan;
+  const length = shrink(span(along), joint.offset);
+  const depth = { min: Math.min(face, face - direction * joint.depth), max: Math.max(face, face - direction * joint.depth) };
+
+  const ranges = { [normal]: depth, [thickness]: width, [along]: length } as Record<SectionAxis, { min: number; max: number }>;
+  const cut: FaceExtents = {
+    min: { x: ranges.x.min, y: ranges.y.min, z: ranges.z.min },
+    max: { x: ranges.x.max, y: ranges.y.max, z: ranges.z.max },
+  };
+
+  return {
+    normal,
+    direction,
+    cut,
+    center: { x: center(cut, 'x'), y: center(cut, 'y'), z: center(cut, 'z') },
+  };
+}
+
+/**
+ * Check a joint before it is added
+ */
+export function validateJoint(
+  joint: Joint,
+  objects: DraftObject[],
+  assemblies: Assembly[]
+): { valid: boolean; error?: string } {
+  if (joint.hostId === joint.insertId) {
+    return { valid: false, error: 'A part cannot be joined to itself' };
+  }
+  if (!(joint.depth > 0)) {
+    return { valid: false, error: 'Depth must be greater than zero' };
+  }
+  if (joint.width < 0 || joint.offset < 0) {
+    return { valid: false, error: 'Width and offset cannot be negative' };
+  }
+
+  const geometry = getJointGeometry(joint, objects, assemblies);
+  if (!geometry) {
+    return { valid: false, error: 'The parts must touch to be joined' };
+  }
+
+  const host = objects.find((obj) => obj.id === joint.hostId)!;
+  const hostBox = getFaceExtents(host, computeWorldTransform(host.id, objects, assemblies));
+  if (joint.depth > hostBox.max[geometry.normal] - hostBox.min[geometry.normal] + CONTACT_TOLERANCE) {
+    return { valid: false, error: 'Depth is more than the host part is thick' };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Dimension of a part that lies along a world axis, given the part's world rotation
+ */
+function getDimensionAlong(obj: DraftObject, objects: DraftObject[], assemblies: Assembly[], axis: SectionAxis): keyof Dimensions {
+  const quaternion = rotationToQuaternion(computeWorldTransform(obj.id, objects, assemblies).rotation);
+  const locals: [keyof Dimensions, THREE.Vector3][] = [
+    ['width', new THREE.Vector3(1, 0, 0)],
+    ['height', new THREE.Vector3(0, 1, 0)],
+    ['depth', new THREE.Vector3(0, 0, 1)],
+  ];
+  const reach = (vector: THREE.Vector3) => Math.abs(vector.applyQuaternion(quaternion)[axis]);
+  return locals.reduce((best, local) => (reach(local[1].clone()) > reach(best[1].clone()) ? local : best))[0];
+}
+
+/**
+ * Parts as they must be cut: inserts of dados, rabbets, grooves and tenons are lengthened
+ * by the joint depth along the direction they reach into the host
+ */
+export function getCutListObjects(objects: DraftObject[], assemblies: Assembly[], joints: Joint[]): DraftObject[] {
+  const extra = new Map<string, Dimensions>();
+
+  for (const joint of joints) {
+    if (!JOINT_TYPES[joint.type].lengthensInsert) continue;
+    const insert = objects.find((obj) => obj.id === joint.insertId);
+    const geometry = getJointGeometry(joint, objects, assemblies);
+    if (!insert || !geometry) continue;
+
+    const dimension = getDimensionAlong(insert, objects, assemblies, geometry.normal);
+    const current = extra.get(insert.id) ?? { width: 0, height: 0, depth: 0 };
+    extra.set(insert.id, { ...current, [dimension]: current[dimension] + joint.depth });
+  }
+
+  return objects.map((obj) => {
+    const add = extra.get(obj.id);
+    if (!add) return obj;
+    return {
+      ...obj,
+      dimensions: {
+        width: obj.dimensions.width + add.width,
+        height: obj.dimensions.height + add.height,
+        depth: obj.dimensions.depth + add.depth,
+      },
+    };
+  });
+}
+
+/**
+ * One row per joint for the joinery schedule
+ */
+export function buildJoinerySchedule(joints: Joint[], objects: DraftObject[], assemblies: Assembly[]): JointScheduleRow[] {
+  const nameOf = (id: string) => objects.find((obj) => obj.id === id)?.name ?? 'Unknown part';
+
+  return joints.map((joint, index) => {
+    const geometry = getJointGeometry(joint, objects, assemblies);
+    const size = (axis: SectionAxis) => (geometry ? geometry.cut.max[axis] - geometry.cut.min[axis] : 0);
+    const inPlane = geometry ? AXES.filter((axis) => axis !== geometry.normal).map(size).sort((a, b) => a - b) : [];
+
+    return {
+      jointId: joint.id,
+      label: getJointLabel(index),
+      type: joint.type,
+      hostName: nameOf(joint.hostId),
+      insertName: nameOf(joint.insertId),
+      depth: joint.depth,
+      width: geometry ? inPlane[0] : null,
+      length: geometry ? inPlane[1] : null,
+      notes: joint.notes,
+    };
+  });
+}
@@ -0,0 +1,176 @@
+import { DraftObject, PartProfile, ProfileVertex } from '@/types';
+import { Point2D, Bounds2D } from './projection';
+
+// Largest angle an arc segment may sweep when arcs are flattened into straight segments
+const ARC_STEP = Math.PI / 16;
+
+const EPSILON = 1e-9;
+
+/**
+ * Points along the edge from one vertex to the next, excluding the end vertex
+ * A bulge b sweeps an arc of 4·atan(b); b = 1 is a half circle, negative bulges turn clockwise.
+ */
+function tessellateEdge(start: ProfileVertex, end: ProfileVertex): Point2D[] {
+  const bulge = start.bulge ?? 0;
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  const chord = Math.hypot(dx, dy);
+  if (Math.abs(bulge) < EPSILON || chord < EPSILON) {
+    return [{ x: start.x, y: start.y }];
+  }
+
+  // Center sits off the chord midpoint, to its left for counter-clockwise arcs
+  const sweep = 4 * Math.atan(bulge);
+  const radius = (chord * (1 + bulge * bulge)) / (4 * Math.abs(bulge));
+  const offset = (chord * (1 - bulge * bulge)) / (4 * bulge);
+  const center = {
+    x: (start.x + end.x) / 2 - (dy / chord) * offset,
+    y: (start.y + end.y) / 2 + (dx / chord) * offset,
+  };
+
+  const startAngle = Math.atan2(start.y - center.y, start.x - center.x);
+  const steps = Math.max(2, Math.ceil(Math.abs(sweep) / ARC_STEP));
+  const points: Point2D[] = [];
+  for (let i = 0; i < steps; i++) {
+    const angle = startAngle + (sweep * i) / steps;
+    points.push({ x: center.x + radius * Math.cos(angle), y: center.y + radius * Math.sin(angle) });
+  }
+  points[0] = { x: start.x, y: start.y };
+  return points;
+}
+
+/**
+ * Flatten a profile into a closed polygon, arcs replaced by short straight segments
+ */
+export function tessellateProfile(profile: PartProfile): Point2D[] {
+  const { vertices } = profile;
+  return vertices.flatMap((vertex, index) => tessellateEdge(vertex, vertices[(index + 1) % vertices.length]));
+}
+
+/**
+ * Positions of the profile's corners in its flattened polygon
+ */
+export function getProfileCornerIndices(profile: PartProfile): number[] {
+  const { vertices } = profile;
+  let index = 0;
+  return vertices.map((vertex, i) => {
+    const start = index;
+    index += tessellateEdge(vertex, vertices[(i + 1) % vertices.length]).length;
+    return start;
+  });
+}
+
+/**
+ * Bounding rectangle of a polygon
+ */
+export function getPolygonBounds(points: Point2D[]): Bounds2D {
+  return {
+    minX: Math.min(...points.map((p) => p.x)),
+    minY: Math.min(...points.map((p) => p.y)),
+    maxX: Math.max(...points.map((p) => p.x)),
+    maxY: Math.max(...points.map((p) => p.y)),
+  };
+}
+
+/**
+ * Area of a polygon, positive when its points run counter-clockwise
+ */
+export function getPolygonArea(points: Point2D[]): number {
+  return points.reduce((sum, p, i) => {
+    const next = points[(i + 1) % points.length];
+    return sum + (p.x * next.y - next.x * p.y) / 2;
+  }, 0);
+}
+
+/**
+ * Whether two segments cross, touching at an end point excluded
+ */
+function segmentsCross(a0: Point2D, a1: Point2D, b0: Point2D, b1: Point2D): boolean {
+  const cross = (o: Point2D, p: Point2D, q: Point2D) => (p.x - o.x) * (q.y - o.y) - (p.y - o.y) * (q.x - o.x);
+  const d1 = cross(b0, b1, a0);
+  const d2 = cross(b0, b1, a1);
+  const d3 = cross(a0, a1, b0);
+  const d4 = cross(a0, a1, b1);
+  return ((d1 > EPSILON && d2 < -EPSILON) || (d1 < -EPSILON && d2 > EPSILON)) &&
+    ((d3 > EPSILON && d4 < -EPSILON) || (d3 < -EPSILON && d4 > EPSILON));
+}
+
+/**
+ * Check that a profile is a closed outline that can be extruded
+ */
+export function validateProfile(profile: PartProfile): { valid: boolean; error?: string } {
+  const { vertices } = profile;
+  if (vertices.length < 2 || (vertices.length < 3 && vertices.every((v) => !v.bulge))) {
+    return { valid: false, error: 'A profile needs at least 3 corners' };
+  }
+  if (vertices.some((v) => !Number.isFinite(v.x) || !Number.isFinite(v.y) || !Number.isFinite(v.bulge ?? 0))) {
+    return { valid: false, error: 'Every corner needs a numeric position' };
+  }
+
+  const points = tessellateProfile(profile);
+  for (let i = 0; i < points.length; i++) {
+    for (let j = i + 2; j < points.length; j++) {
+      if (i === 0 && j === points.length - 1) continue;
+      const [a0, a1] = [points[i], points[(i + 1) % points.length]];
+      const [b0, b1] = [points[j], points[(j + 1) % points.length]];
+      if (segmentsCross(a0, a1, b0, b1)) {
+        return { valid: false, error: 'The outline crosses itself' };
+      }
+    }
+  }
+
+  if (Math.abs(getPolygonArea(points)) < 1e-6) {
+    return { valid: false, error: 'The profile encloses no area' };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Move a profile so its bounds start at 0,0 and report the bounds' size
+ */
+export function normalizeProfile(profile: PartProfile): { profile: PartProfile; width: number; height: number } {
+  const bounds = getPolygonBounds(tessellateProfile(profile));
+  return {
+    profile: {
+      vertices: profile.vertices.map((v) => ({ ...v, x: v.x - bounds.minX, y: v.y - bounds.minY })),
+    },
+    width: bounds.maxX - bounds.minX,
+    height: bounds.maxY - bounds.minY,
+  };
+}
+
+/**
+ * A rectangular profile matching a part's front face
+ */
+export function createRectangleProfile(width: number, height: number): PartProfile {
+  return {
+    vertices: [
+      { x: 0, y: 0 },
+      { x: width, y: 0 },
+      { x: width, y: height },
+      { x: 0, y: height },
+    ],
+  };
+}
+
+/**
+ * A profiled part's outline on its front face, centered on the part like its box
+ * The outline is stretched to the part's width and height, so resizing the part resizes
+ * the profile. Returns null for plain box parts.
+ */
+export function getProfileOutline(obj: DraftObject): Point2D[] | null {
+  if (!obj.profile || obj.profile.vertices.length === 0) return null;
+
+  const points = tessellateProfile(obj.profile);
+  const bounds = getPolygonBounds(points);
+  const sizeX = bounds.maxX - bounds.minX;
+  const sizeY = bounds.maxY - bounds.minY;
+  if (sizeX < EPSILON || sizeY < EPSILON) return null;
+
+  const { width, height } = obj.dimensions;
+  return points.map((p) => ({
+    x: ((p.x - bounds.minX) / sizeX - 0.5) * width,
+    y: ((p.y - bounds.minY) / sizeY - 0.5) * height,
+  }));
+}
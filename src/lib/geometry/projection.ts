@@ -0,0 +1,65 @@
+import { Vector3D } from '@/types';
+import { ViewBasis } from '@/lib/three/views';
+
+export interface Point2D {
+  x: number;
+  y: number;
+}
+
+export interface Bounds2D {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+/**
+ * Project a world point onto a view plane (inches, Y up)
+ */
+export function projectPoint(point: Vector3D, basis: ViewBasis): Point2D {
+  return {
+    x: point.x * basis.right.x + point.y * basis.right.y + point.z * basis.right.z,
+    y: point.x * basis.up.x + point.y * basis.up.y + point.z * basis.up.z,
+  };
+}
+
+/**
+ * Distance of a world point along the view direction (larger is farther away)
+ */
+export function getViewDepth(point: Vector3D, basis: ViewBasis): number {
+  return point.x * basis.forward.x + point.y * basis.forward.y + point.z * basis.forward.z;
+}
+
+/**
+ * Compute the bounding box of a set of 2D points
+ * Returns null for an empty set
+ */
+export function getBounds2D(points: Point2D[]): Bounds2D | null {
+  if (points.length === 0) return null;
+
+  return points.reduce<Bounds2D>(
+    (bounds, p) => ({
+      minX: Math.min(bounds.minX, p.x),
+      minY: Math.min(bounds.minY, p.y),
+      maxX: Math.max(bounds.maxX, p.x),
+      maxY: Math.max(bounds.maxY, p.y),
+    }),
+    { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity }
+  );
+}
+
+/**
+ * Parameter along segment p (0-1) where it crosses segment q in 2D, if it does
+ */
+export function crossingParameter(p0: Point2D, p1: Point2D, q0: Point2D, q1: Point2D): number | null {
+  const rx = p1.x - p0.x;
+  const ry = p1.y - p0.y;
+  const sx = q1.x - q0.x;
+  const sy = q1.y - q0.y;
+  const denominator = rx * sy - ry * sx;
+  if (Math.abs(denominator) < 1e-12) return null;
+
+  const t = ((q0.x - p0.x) * sy - (q0.y - p0.y) * sx) / denominator;
+  const u = ((q0.x - p0.x) * ry - (q0.y - p0.y) * rx) / denominator;
+  return t > 0 && t < 1 && u >= 0 && u <= 1 ? t : null;
+}
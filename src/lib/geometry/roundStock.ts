@@ -0,0 +1,71 @@
+import { DraftObject, Vector3D } from '@/types';
+import { Segment3D } from './solids';
+import { Point2D } from './projection';
+
+// Straight segments used to draw each end circle
+export const ROUND_SEGMENTS = 32;
+
+/**
+ * Diameters at the -Z (start) and +Z (end) ends of a round part, or null for other parts
+ */
+export function getRoundDiameters(obj: DraftObject): { start: number; end: number } | null {
+  if (!obj.round) return null;
+  const start = obj.dimensions.width;
+  return { start, end: obj.round.endDiameter ?? start };
+}
+
+/**
+ * Cross-section of round stock: a circle flattened into ROUND_SEGMENTS sides, matching its end edges
+ */
+export function getRoundOutline(diameter: number): Point2D[] {
+  return Array.from({ length: ROUND_SEGMENTS }, (_, i) => {
+    const angle = (i / ROUND_SEGMENTS) * Math.PI * 2;
+    return { x: (diameter / 2) * Math.cos(angle), y: (diameter / 2) * Math.sin(angle) };
+  });
+}
+
+/**
+ * Edges of a round part in its own frame: both end circles, and the four lines along the
+ * length that are the part's outline when it is seen side-on in an orthographic view
+ */
+export function getRoundStockEdges(obj: DraftObject): Segment3D[] | null {
+  const diameters = getRoundDiameters(obj);
+  if (!diameters) return null;
+
+  const half = obj.dimensions.depth / 2;
+  const start = getRoundOutline(diameters.start).map((p): Vector3D => ({ ...p, z: -half }));
+  const end = getRoundOutline(diameters.end).map((p): Vector3D => ({ ...p, z: half }));
+
+  const edges: Segment3D[] = [];
+  for (let i = 0; i < ROUND_SEGMENTS; i++) {
+    const next = (i + 1) % ROUND_SEGMENTS;
+    edges.push([start[i], start[next]], [end[i], end[next]]);
+  }
+  for (let i = 0; i < ROUND_SEGMENTS; i += ROUND_SEGMENTS / 4) {
+    edges.push([start[i], end[i]]);
+  }
+
+  return edges;
+}
+
+// Decimal inches, e.g. 0.5"
+const formatInches = (value: number) => `${Number(value.toFixed(4))}"`;
+
+/**
+ * Diameter label, e.g. 0.5" dia.
+ * Labels stay ASCII because they end up in cut-list and shopping-list PDFs, whose fonts have no ⌀.
+ */
+export function formatDiameter(diameter: number, format: (inches: number) => string = formatInches): string {
+  return `${format(diameter)} dia.`;
+}
+
+/**
+ * Size label for round stock, e.g. 0.5" dia. or 1.5" -> 0.75" dia. for a taper
+ */
+export function formatRoundSize(obj: DraftObject, format: (inches: number) => string = formatInches): string | null {
+  const diameters = getRoundDiameters(obj);
+  if (!diameters) return null;
+  return diameters.end === diameters.start
+    ? formatDiameter(diameters.start, format)
+    : `${format(diameters.start)} -> ${formatDiameter(diameters.end, format)}`;
+}
@@ -0,0 +1,313 @@
+import * as THREE from 'three';
+import { SectionPlane, SectionAxis, ViewType, Vector3D } from '@/types';
+import { getViewBasis, ViewBasis } from '@/lib/three/views';
+import { Solid, Segment3D, getSolidFaces } from './solids';
+import { projectPoint, crossingParameter, Point2D } from './projection';
+
+/**
+ * A solid cut by a section plane
+ * edges are the parts of the solid's edges on the kept side; cutFaces are the outlines where
+ * the plane passes through the solid, one per separate piece (none when the plane misses it).
+ */
+export interface SectionedSolid {
+  solid: Solid;
+  edges: Segment3D[];
+  cutFaces: Vector3D[][];
+}
+
+// Points this close to the plane count as lying on it
+const PLANE_TOLERANCE = 1e-6;
+
+const AXIS_VECTORS: Record<SectionAxis, Vector3D> = {
+  x: { x: 1, y: 0, z: 0 },
+  y: { x: 0, y: 1, z: 0 },
+  z: { x: 0, y: 0, z: 1 },
+};
+
+/**
+ * Get the orthographic view that looks at a section plane from the removed side
+ */
+export function getSectionView(plane: SectionPlane): ViewType {
+  switch (plane.axis) {
+    case 'x':
+      return plane.flipped ? 'left' : 'right';
+    case 'y':
+      return plane.flipped ? 'bottom' : 'top';
+    case 'z':
+      return plane.flipped ? 'back' : 'front';
+  }
+}
+
+/**
+ * Display name for a section, e.g. "Section A-A"
+ */
+export function getSectionDisplayName(plane: SectionPlane): string {
+  return `Section ${plane.name}-${plane.name}`;
+}
+
+/**
+ * Next unused section letter (A, B, ... Z, then AA, AB, ...)
+ */
+export function getNextSectionName(planes: SectionPlane[]): string {
+  const used = new Set(planes.map(plane => plane.name));
+  for (let i = 0; ; i++) {
+    const name = i < 26
+      ? String.fromCharCode(65 + i)
+      : String.fromCharCode(65 + Math.floor(i / 26) - 1) + String.fromCharCode(65 + (i % 26));
+    if (!used.has(name)) return name;
+  }
+}
+
+/**
+ * Signed distance of a point from the plane, positive on the kept side
+ */
+export function getKeptSideDistance(point: Vector3D, plane: SectionPlane): number {
+  const distance = point[plane.axis] - plane.offset;
+  return plane.flipped ? distance : -distance;
+}
+
+/**
+ * Build the THREE clipping plane for a section
+ * THREE keeps fragments on the side the normal points to, which is the kept side here.
+ */
+export function getClippingPlane(plane: SectionPlane): THREE.Plane {
+  const axis = AXIS_VECTORS[plane.axis];
+  const sign = plane.flipped ? 1 : -1;
+  return new THREE.Plane(new THREE.Vector3(axis.x * sign, axis.y * sign, axis.z * sign), -sign * plane.offset);
+}
+
+/**
+ * Work out the section plane for a line drawn across an orthographic view
+ * The plane contains the line and the view direction, so a line that runs mostly across the
+ * view cuts along the view's up axis and a mostly upright line cuts along its right axis.
+ */
+export function getSectionPlaneFromLine(
+  start: Vector3D,
+  end: Vector3D,
+  view: ViewType
+): { axis: SectionAxis; offset: number } {
+  const basis = getViewBasis(view);
+  const a = projectPoint(start, basis);
+  const b = projectPoint(end, basis);
+  const normal = Math.abs(b.x - a.x) >= Math.abs(b.y - a.y) ? basis.up : basis.right;
+
+  const axis = (['x', 'y', 'z'] as const).reduce((best, candidate) =>
+    Math.abs(normal[candidate]) > Math.abs(normal[best]) ? candidate : best
+  );
+  return { axis, offset: start[axis] };
+}
+
+const lerp = (a: Vector3D, b: Vector3D, t: number): Vector3D => ({
+  x: a.x + (b.x - a.x) * t,
+  y: a.y + (b.y - a.y) * t,
+  z: a.z + (b.z - a.z) * t,
+});
+
+/**
+ * Cut a solid with a section plane
+ * Each face of the solid is cut where the plane crosses it and the cuts are joined end to end,
+ * so a concave profile can leave more than one cut face.
+ */
+export function sectionSolid(solid: Solid, plane: SectionPlane): SectionedSolid {
+  const edges: Segment3D[] = [];
+
+  solid.edges.forEach(([a, b]) => {
+    const da = getKeptSideDistance(a, plane);
+    const db = getKeptSideDistance(b, plane);
+
+    if (da >= -PLANE_TOLERANCE && db >= -PLANE_TOLERANCE) {
+      edges.push([a, b]);
+    } else if (da > PLANE_TOLERANCE || db > PLANE_TOLERANCE) {
+      // One end on each side: keep the part on the kept side
+      const hit = lerp(a, b, da / (da - db));
+      edges.push(da > 0 ? [a, hit] : [hit, b]);
+    }
+  });
+
+  const cuts = getSolidFaces(solid).flatMap(face => cutFace(face, plane));
+  return { solid, edges, cutFaces: joinCuts(cuts, plane) };
+}
+
+/**
+ * Cut every solid with a section plane, dropping solids entirely on the removed side
+ */
+export function sectionSolids(solids: Solid[], plane: SectionPlane): SectionedSolid[] {
+  return solids
+    .map(solid => sectionSolid(solid, plane))
+    .filter(section => section.edges.length > 0);
+}
+
+// Where the plane crosses a face: the points where its outline crosses, paired in order along the cut
+function cutFace(face: Vector3D[], plane: SectionPlane): Segment3D[] {
+  // Points on the plane count as removed, so a face resting on the plane from the kept side is cut along it
+  const kept = face.map(p => getKeptSideDistance(p, plane) > PLANE_TOLERANCE);
+  const crossings: Vector3D[] = [];
+  face.forEach((a, i) => {
+    const next = (i + 1) % face.length;
+    if (kept[i] === kept[next]) return;
+    const da = getKeptSideDistance(a, plane);
+    crossings.push(lerp(a, face[next], da / (da - getKeptSideDistance(face[next], plane))));
+  });
+  if (crossings.length < 2) return [];
+
+  // Crossings all lie on one line, so sorting along the axis they spread furthest on orders them
+  const spread = (axis: SectionAxis) =>
+    Math.max(...crossings.map(p => p[axis])) - Math.min(...crossings.map(p => p[axis]));
+  const axis = (['x', 'y', 'z'] as const).reduce((best, candidate) => spread(candidate) > spread(best) ? candidate : best);
+  crossings.sort((p, q) => p[axis] - q[axis]);
+
+  const cuts: Segment3D[] = [];
+  for (let i = 0; i + 1 < crossings.length; i += 2) {
+    cuts.push([crossings[i], crossings[i + 1]]);
+  }
+  return cuts;
+}
+
+// Join face cuts end to end into closed outlines, dropping slivers left by a plane that only grazes the solid
+function joinCuts(cuts: Segment3D[], plane: SectionPlane): Vector3D[][] {
+  const key = (p: Vector3D) => `${p.x.toFixed(5)},${p.y.toFixed(5)},${p.z.toFixed(5)}`;
+  const basis = getViewBasis(getSectionView(plane));
+  const remaining = cuts.filter(([a, b]) => key(a) !== key(b));
+  const outlines: Vector3D[][] = [];
+
+  while (remaining.length > 0) {
+    const [start, second] = remaining.pop()!;
+    const outline = [start];
+    let end = second;
+    while (key(end) !== key(start)) {
+      const index = remaining.findIndex(([a, b]) => key(a) === key(end) || key(b) === key(end));
+      if (index === -1) break;
+      const [a, b] = remaining.splice(index, 1)[0];
+      outline.push(end);
+      end = key(a) === key(end) ? b : a;
+    }
+
+    const closed = key(end) === key(start);
+    if (closed && Math.abs(polygonArea(outline.map(p => projectPoint(p, basis)))) > PLANE_TOLERANCE) {
+      outlines.push(outline);
+    }
+  }
+
+  return outlines;
+}
+
+function polygonArea(polygon: Point2D[]): number {
+  let area = 0;
+  polygon.forEach((p, i) => {
+    const q = polygon[(i + 1) % polygon.length];
+    area += p.x * q.y - q.x * p.y;
+  });
+  return area / 2;
+}
+
+/**
+ * Check whether a point is inside a polygon (even-odd rule)
+ */
+export function isPointInPolygon(point: Point2D, polygon: Point2D[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > point.y) !== (b.y > point.y) && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Fill a polygon with parallel hatch lines
+ * angle is in degrees from the +X axis; spacing is measured between lines.
+ */
+export function hatchPolygon(polygon: Point2D[], spacing: number, angle = 45): [Point2D, Point2D][] {
+  if (polygon.length < 3 || spacing <= 0) return [];
+
+  const radians = THREE.MathUtils.degToRad(angle);
+  const direction = { x: Math.cos(radians), y: Math.sin(radians) };
+  const normal = { x: -direction.y, y: direction.x };
+  const along = (p: Point2D) => p.x * direction.x + p.y * direction.y;
+  const across = (p: Point2D) => p.x * normal.x + p.y * normal.y;
+
+  const offsets = polygon.map(across);
+  const min = Math.min(...offsets);
+  const max = Math.max(...offsets);
+  const lines: [Point2D, Point2D][] = [];
+
+  // Center the hatch so small faces still get lines
+  const count = Math.floor((max - min) / spacing);
+  const first = min + (max - min - count * spacing) / 2;
+
+  for (let k = 0; k <= count; k++) {
+    const c = first + k * spacing;
+    if (c <= min + PLANE_TOLERANCE || c >= max - PLANE_TOLERANCE) continue;
+
+    // Where this hatch line crosses the polygon outline
+    const hits: number[] = [];
+    polygon.forEach((p, i) => {
+      const q = polygon[(i + 1) % polygon.length];
+      const cp = offsets[i];
+      const cq = offsets[(i + 1) % polygon.length];
+      if ((cp <= c) === (cq <= c)) return;
+      const t = (c - cp) / (cq - cp);
+      hits.push(along(p) + (along(q) - along(p)) * t);
+    });
+    hits.sort((x, y) => x - y);
+
+    for (let i = 0; i + 1 < hits.length; i += 2) {
+      const toPoint = (s: number): Point2D => ({
+        x: direction.x * s + normal.x * c,
+        y: direction.y * s + normal.y * c,
+      });
+      lines.push([toPoint(hits[i]), toPoint(hits[i + 1])]);
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Split clipped edges into the parts not covered by cut faces in the section view
+ * Everything left after the cut lies behind the plane, so the cut faces hide whatever they
+ * overlap. Edges lying in the plane are skipped because the cut outlines already draw them.
+ */
+export function getEdgesBehindCut(sections: SectionedSolid[], plane: SectionPlane, basis: ViewBasis): Segment3D[] {
+  const faces = sections.flatMap(section => section.cutFaces.map(face => face.map(p => projectPoint(p, basis))));
+  const result: Segment3D[] = [];
+
+  sections.forEach(section => {
+    section.edges.forEach(([a, b]) => {
+      const onPlane = (p: Vector3D) => Math.abs(getKeptSideDistance(p, plane)) <= PLANE_TOLERANCE;
+      if (onPlane(a) && onPlane(b)) return;
+
+      const p0 = projectPoint(a, basis);
+      const p1 = projectPoint(b, basis);
+
+      // Visibility can only change where the edge crosses a face outline
+      const breaks = [0, 1];
+      faces.forEach(face => {
+        face.forEach((q0, i) => {
+          const t = crossingParameter(p0, p1, q0, face[(i + 1) % face.length]);
+          if (t !== null) breaks.push(t);
+        });
+      });
+      breaks.sort((x, y) => x - y);
+
+      for (let i = 0; i < breaks.length - 1; i++) {
+        const t0 = breaks[i];
+        const t1 = breaks[i + 1];
+        if (t1 - t0 < 1e-9) continue;
+        const mid = lerp2D(p0, p1, (t0 + t1) / 2);
+        if (!faces.some(face => isPointInPolygon(mid, face))) {
+          result.push([lerp(a, b, t0), lerp(a, b, t1)]);
+        }
+      }
+    });
+  });
+
+  return result;
+}
+
+const lerp2D = (a: Point2D, b: Point2D, t: number): Point2D => ({
+  x: a.x + (b.x - a.x) * t,
+  y: a.y + (b.y - a.y) * t,
+});
@@ -0,0 +1,144 @@
+import { DraftObject, Assembly, SectionAxis, Vector3D, ViewType } from '@/types';
+import { computeWorldTransform } from '@/lib/hierarchy/transforms';
+import { getViewBasis } from '@/lib/three/views';
+import { getFaceExtents, FaceExtents } from './alignment';
+import { snapToGrid } from './coordinates';
+
+export interface SnapTarget {
+  id: string;
+  extents: FaceExtents;
+}
+
+// A face of another part that something snapped to, seen edge-on as a line in the view
+export interface SnapGuide {
+  axis: SectionAxis;
+  value: number;                  // Position of the face along the axis
+  targetId: string;
+  span: FaceExtents;              // Box around the snapped item and the target, for drawing the guide
+}
+
+export interface SnapResult {
+  offset: Vector3D;               // Shift that brings the item flush with the snapped faces
+  guides: SnapGuide[];            // One per axis that snapped; two make a corner
+}
+
+const AXES: SectionAxis[] = ['x', 'y', 'z'];
+
+/**
+ * Get the world axes that lie in the screen plane of a view
+ * Angled views have none, since a screen distance doesn't map onto a single axis there.
+ */
+export function getSnapAxes(view: ViewType): SectionAxis[] {
+  const { right, up } = getViewBasis(view);
+  return AXES.filter((axis) => Math.abs(right[axis]) > 0.99 || Math.abs(up[axis]) > 0.99);
+}
+
+/**
+ * Collect the world-space extents of the parts that can be snapped to
+ */
+export function getSnapTargets(
+  objects: DraftObject[],
+  assemblies: Assembly[],
+  excludeIds: string[] = []
+): SnapTarget[] {
+  return objects
+    .filter((obj) => !excludeIds.includes(obj.id))
+    .map((obj) => ({ id: obj.id, extents: getFaceExtents(obj, computeWorldTransform(obj.id, objects, assemblies)) }));
+}
+
+/**
+ * Combine extents into the box around all of them
+ */
+export function mergeExtents(extents: FaceExtents[]): FaceExtents {
+  const pick = (side: 'min' | 'max', axis: SectionAxis) =>
+    (side === 'min' ? Math.min : Math.max)(...extents.map((e) => e[side][axis]));
+  return {
+    min: { x: pick('min', 'x'), y: pick('min', 'y'), z: pick('min', 'z') },
+    max: { x: pick('max', 'x'), y: pick('max', 'y'), z: pick('max', 'z') },
+  };
+}
+
+/**
+ * Snap a moving box flush with the faces of nearby parts
+ * Along each view axis, the nearest face of the box within tolerance of a target's face
+ * snaps onto it. Targets only count when they are within tolerance of the box on the
+ * other view axes, so parts snap to what they are next to rather than to distant guides.
+ * Snapping on one axis lines up faces; on two it meets an edge or corner.
+ */
+export function snapExtents(
+  moving: FaceExtents,
+  targets: SnapTarget[],
+  axes: SectionAxis[],
+  tolerance: number
+): SnapResult {
+  const offset: Vector3D = { x: 0, y: 0, z: 0 };
+  const matches: { axis: SectionAxis; value: number; target: SnapTarget }[] = [];
+
+  axes.forEach((axis) => {
+    const others = axes.filter((other) => other !== axis);
+    let best: { distance: number; value: number; target: SnapTarget } | null = null;
+
+    for (const target of targets) {
+      const isNear = others.every((other) =>
+        moving.min[other] <= target.extents.max[other] + tolerance &&
+        moving.max[other] >= target.extents.min[other] - tolerance
+      );
+      if (!isNear) continue;
+
+      for (const movingSide of ['min', 'max'] as const) {
+        for (const targetSide of ['min', 'max'] as const) {
+          const value = target.extents[targetSide][axis];
+          const distance = value - moving[movingSide][axis];
+          if (Math.abs(distance) <= tolerance && (!best || Math.abs(distance) < Math.abs(best.distance))) {
+            best = { distance, value, target };
+          }
+        }
+      }
+    }
+
+    if (best) {
+      offset[axis] = best.distance;
+      matches.push({ axis, value: best.value, target: best.target });
+    }
+  });
+
+  const snapped: FaceExtents = {
+    min: { x: moving.min.x + offset.x, y: moving.min.y + offset.y, z: moving.min.z + offset.z },
+    max: { x: moving.max.x + offset.x, y: moving.max.y + offset.y, z: moving.max.z + offset.z },
+  };
+
+  return {
+    offset,
+    guides: matches.map(({ axis, value, target }) => ({
+      axis,
+      value,
+      targetId: target.id,
+      span: mergeExtents([snapped, target.extents]),
+    })),
+  };
+}
+
+/**
+ * Snap a point to the faces, edges and corners of nearby parts
+ * Axes that don't snap to a part fall back to the grid when a grid size is given.
+ */
+export function snapPoint(
+  point: Vector3D,
+  targets: SnapTarget[],
+  axes: SectionAxis[],
+  tolerance: number,
+  gridSize?: number
+): { point: Vector3D; guides: SnapGuide[] } {
+  const { offset, guides } = snapExtents({ min: point, max: point }, targets, axes, tolerance);
+  const snapped = { ...point };
+
+  AXES.forEach((axis) => {
+    if (guides.some((guide) => guide.axis === axis)) {
+      snapped[axis] = point[axis] + offset[axis];
+    } else if (gridSize) {
+      snapped[axis] = snapToGrid(point[axis], gridSize);
+    }
+  });
+
+  return { point: snapped, guides };
+}
@@ -0,0 +1,171 @@
+import * as THREE from 'three';
+import { DraftObject, Assembly, Vector3D, WorldTransform } from '@/types';
+import { computeWorldTransform, isNodeVisible, rotationToQuaternion } from '@/lib/hierarchy/transforms';
+import { getProfileOutline, getProfileCornerIndices } from './profiles';
+import { getRoundStockEdges, getRoundDiameters, getRoundOutline } from './roundStock';
+import { Point2D } from './projection';
+
+export type Segment3D = [Vector3D, Vector3D];
+
+/**
+ * An object resolved into world space, ready for projection
+ */
+export interface Solid {
+  id: string;
+  object: DraftObject;
+  transform: WorldTransform;
+  corners: Vector3D[];    // 8 box corners in world space
+  edges: Segment3D[];     // 12 box edges in world space, or the outline of a profiled or round part
+}
+
+// Corner sign pattern (x, y, z) for the 8 corners of a box
+const CORNER_SIGNS: [number, number, number][] = [
+  [-1, -1, -1], [1, -1, -1], [1, 1, -1], [-1, 1, -1],
+  [-1, -1, 1], [1, -1, 1], [1, 1, 1], [-1, 1, 1],
+];
+
+// Pairs of corner indices forming the 12 box edges
+export const BOX_EDGES: [number, number][] = [
+  [0, 1], [1, 2], [2, 3], [3, 0],   // back face
+  [4, 5], [5, 6], [6, 7], [7, 4],   // front face
+  [0, 4], [1, 5], [2, 6], [3, 7],   // connecting edges
+];
+
+/**
+ * Build the rotation quaternion for a transform (degrees, XYZ order like the mesh)
+ */
+export function getTransformQuaternion(transform: WorldTransform): THREE.Quaternion {
+  return rotationToQuaternion(transform.rotation);
+}
+
+/**
+ * Get the 8 world-space corners of an object's box
+ */
+export function getObjectCorners(obj: DraftObject, transform: WorldTransform): Vector3D[] {
+  const quaternion = getTransformQuaternion(transform);
+  const { width, height, depth } = obj.dimensions;
+
+  return CORNER_SIGNS.map(([sx, sy, sz]) => {
+    const corner = new THREE.Vector3((sx * width) / 2, (sy * height) / 2, (sz * depth) / 2)
+      .applyQuaternion(quaternion)
+      .add(new THREE.Vector3(transform.position.x, transform.position.y, transform.position.z));
+    return { x: corner.x, y: corner.y, z: corner.z };
+  });
+}
+
+/**
+ * Get the world-space edges of a profiled part: the outline on its front and back faces,
+ * joined at the profile's corners (arcs are joined only at their ends)
+ */
+function getProfileEdges(obj: DraftObject, transform: WorldTransform): Segment3D[] | null {
+  const outline = getProfileOutline(obj);
+  if (!outline || !obj.profile) return null;
+
+  const quaternion = getTransformQuaternion(transform);
+  const toWorld = (x: number, y: number, z: number): Vector3D => {
+    const point = new THREE.Vector3(x, y, z)
+      .applyQuaternion(quaternion)
+      .add(new THREE.Vector3(transform.position.x, transform.position.y, transform.position.z));
+    return { x: point.x, y: point.y, z: point.z };
+  };
+
+  const half = obj.dimensions.depth / 2;
+  const front = outline.map((p) => toWorld(p.x, p.y, half));
+  const back = outline.map((p) => toWorld(p.x, p.y, -half));
+  const edges: Segment3D[] = [];
+  outline.forEach((_, i) => {
+    const next = (i + 1) % outline.length;
+    edges.push([front[i], front[next]], [back[i], back[next]]);
+  });
+
+  getProfileCornerIndices(obj.profile).forEach((i) => edges.push([front[i], back[i]]));
+
+  return edges;
+}
+
+/**
+ * Get the world-space edges of a round part: its end circles and side outlines
+ */
+function getRoundEdges(obj: DraftObject, transform: WorldTransform): Segment3D[] | null {
+  const edges = getRoundStockEdges(obj);
+  if (!edges) return null;
+
+  const quaternion = getTransformQuaternion(transform);
+  const origin = new THREE.Vector3(transform.position.x, transform.position.y, transform.position.z);
+  const toWorld = (p: Vector3D): Vector3D => {
+    const point = new THREE.Vector3(p.x, p.y, p.z).applyQuaternion(quaternion).add(origin);
+    return { x: point.x, y: point.y, z: point.z };
+  };
+  return edges.map(([a, b]) => [toWorld(a), toWorld(b)] as Segment3D);
+}
+
+/**
+ * A part's cross-section at its back (-Z) and front (+Z) faces, in its own frame
+ * Both outlines have matching points, so the part is the solid joining them: a box, round
+ * stock (tapering when its end diameter differs), or the extruded outline of a profiled part.
+ */
+export function getSolidOutlines(obj: DraftObject): { back: Point2D[]; front: Point2D[] } {
+  const diameters = getRoundDiameters(obj);
+  if (diameters) {
+    return { back: getRoundOutline(diameters.start), front: getRoundOutline(diameters.end) };
+  }
+
+  const { width, height } = obj.dimensions;
+  const outline = getProfileOutline(obj) ?? [
+    { x: -width / 2, y: -height / 2 },
+    { x: width / 2, y: -height / 2 },
+    { x: width / 2, y: height / 2 },
+    { x: -width / 2, y: height / 2 },
+  ];
+  return { back: outline, front: outline };
+}
+
+/**
+ * Get the world-space faces of a solid: its back and front outlines and the side faces
+ * joining them
+ */
+export function getSolidFaces(solid: Solid): Vector3D[][] {
+  const { back, front } = getSolidOutlines(solid.object);
+  const quaternion = getTransformQuaternion(solid.transform);
+  const { position } = solid.transform;
+  const half = solid.object.dimensions.depth / 2;
+  const toWorld = (p: Point2D, z: number): Vector3D => {
+    const point = new THREE.Vector3(p.x, p.y, z)
+      .applyQuaternion(quaternion)
+      .add(new THREE.Vector3(position.x, position.y, position.z));
+    return { x: point.x, y: point.y, z: point.z };
+  };
+
+  const backFace = back.map((p) => toWorld(p, -half));
+  const frontFace = front.map((p) => toWorld(p, half));
+  const sides = backFace.map((_, i) => {
+    const next = (i + 1) % backFace.length;
+    return [backFace[i], backFace[next], frontFace[next], frontFace[i]];
+  });
+  return [backFace, frontFace, ...sides];
+}
+
+/**
+ * Resolve an object into a world-space solid
+ */
+export function buildSolid(obj: DraftObject, transform: WorldTransform): Solid {
+  const corners = getObjectCorners(obj, transform);
+  return {
+    id: obj.id,
+    object: obj,
+    transform,
+    corners,
+    edges: getRoundEdges(obj, transform)
+      ?? getProfileEdges(obj, transform)
+      ?? BOX_EDGES.map(([a, b]) => [corners[a], corners[b]] as Segment3D),
+  };
+}
+
+/**
+ * Resolve every visible object in the project into world-space solids
+ */
+export function buildSolids(objects: DraftObject[], assemblies: Assembly[]): Solid[] {
+  return objects
+    .filter(obj => isNodeVisible(obj.id, objects, assemblies))
+    .map(obj => buildSolid(obj, computeWorldTransform(obj.id, objects, assemblies)));
+}
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import {
+  captureComponentParts,
+  instantiateComponentParts,
+  propagateInstanceEdit,
+  getInstanceRootId,
+} from '../components';
+import { computeWorldTransform } from '../transforms';
+import { aggregateByMaterial } from '@/lib/cutlist/aggregator';
+import { DraftObject, Assembly, ComponentDefinition, Vector3D } from '@/types';
+import { makePart, makeAssembly } from '@/test/fixtures';
+
+function makeBoard(id: string, position: Vector3D, parentId?: string): DraftObject {
+  return makePart({
+    id,
+    name: `Pine 1x6 ${id}`,
+    parentId,
+    localPosition: position,
+    dimensions: { width: 5.5, height: 0.75, depth: 20 },
+    material: 'Pine',
+  });
+}
+
+// A drawer with a front and a bottom, saved as a component and placed twice
+const source = {
+  objects: [makeBoard('front', { x: 0, y: 0, z: 5 }, 'drawer'), makeBoard('bottom', { x: 0, y: -2, z: 0 }, 'drawer')],
+  assemblies: [makeAssembly('drawer', ['front', 'bottom'], { localPosition: { x: 0, y: 10, z: 0 } })],
+};
+const { parts } = captureComponentParts('drawer', source.objects, source.assemblies);
+const definition: ComponentDefinition = { id: 'component', name: 'Drawer', color: '#888888', ...parts };
+
+function placeInstances(positions: Vector3D[]) {
+  const objects: DraftObject[] = [];
+  const assemblies: Assembly[] = [];
+  positions.forEach((position, index) => {
+    const copies = instantiateComponentParts(definition, `drawer-${index + 1}`);
+    assemblies.push(makeAssembly(`drawer-${index + 1}`, copies.childIds, { localPosition: position, componentId: 'component' }), ...copies.assemblies);
+    objects.push(...copies.objects);
+  });
+  return { objects, assemblies };
+}
+
+describe('Components', () => {
+  it('should capture parts relative to the assembly pivot', () => {
+    expect(definition.childIds).toEqual(['front', 'bottom']);
+    expect(definition.objects.every((part) => part.parentId === undefined)).toBe(true);
+    expect(definition.objects[0].localPosition).toEqual({ x: 0, y: 0, z: 5 });
+  });
+
+  it('should place each instance with its own transform', () => {
+    const { objects, assemblies } = placeInstances([{ x: 0, y: 0, z: 0 }, { x: 30, y: 0, z: 0 }]);
+
+    expect(objects.map((obj) => obj.id)).toContain('drawer-2:front');
+    expect(computeWorldTransform('drawer-2:front', objects, assemblies).position).toEqual({ x: 30, y: 0, z: 5 });
+    expect(getInstanceRootId('drawer-2:front', objects, assemblies)).toBe('drawer-2');
+    expect(getInstanceRootId('drawer-2', objects, assemblies)).toBeNull();
+  });
+
+  it('should carry an edit in one instance to the definition and every other instance', () => {
+    const placed = placeInstances([{ x: 0, y: 0, z: 0 }, { x: 30, y: 0, z: 0 }]);
+    const edited = placed.objects.map((obj) =>
+      obj.id === 'drawer-1:front' ? { ...obj, dimensions: { ...obj.dimensions, depth: 22 } } : obj
+    );
+
+    const result = propagateInstanceEdit('drawer-1', edited, placed.assemblies, [definition]);
+
+    expect(result.components[0].objects.find((part) => part.id === 'front')!.dimensions.depth).toBe(22);
+    expect(result.objects.find((obj) => obj.id === 'drawer-2:front')!.dimensions.depth).toBe(22);
+    // The other instance keeps its own position
+    expect(computeWorldTransform('drawer-2:front', result.objects, result.assemblies).position.x).toBe(30);
+  });
+
+  it('should keep the IDs of parts in rebuilt instances', () => {
+    const placed = placeInstances([{ x: 0, y: 0, z: 0 }, { x: 30, y: 0, z: 0 }]);
+    // The first instance is the assembly the component was saved from, so its parts keep their own IDs
+    const original = {
+      objects: placed.objects.map((obj) =>
+        obj.id.startsWith('drawer-1:') ? { ...obj, id: obj.componentPartId!, parentId: 'drawer-1' } : obj
+      ),
+      assemblies: placed.assemblies.map((asm) => (asm.id === 'drawer-1' ? { ...asm, childIds: ['front', 'bottom'] } : asm)),
+    };
+    const edited = original.objects.map((obj) =>
+      obj.id === 'drawer-2:bottom' ? { ...obj, dimensions: { ...obj.dimensions, width: 6 } } : obj
+    );
+
+    const result = propagateInstanceEdit('drawer-2', edited, original.assemblies, [definition]);
+
+    expect(result.objects.map((obj) => obj.id).sort()).toEqual(['bottom', 'drawer-2:bottom', 'drawer-2:front', 'front']);
+    expect(result.objects.find((obj) => obj.id === 'bottom')!.dimensions.width).toBe(6);
+    expect(result.assemblies.find((asm) => asm.id === 'drawer-1')!.childIds).toEqual(['front', 'bottom']);
+  });
+
+  it('should count the parts of every instance in the cut list', () => {
+    const { objects } = placeInstances([{ x: 0, y: 0, z: 0 }, { x: 30, y: 0, z: 0 }, { x: 60, y: 0, z: 0 }]);
+    const groups = aggregateByMaterial(objects);
+
+    expect(groups).toHaveLength(1);
+    expect(groups[0].quantity).toBe(6);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { computeExplodeOffsets, explodeSolids } from '../explode';
+import { buildSolids } from '@/lib/geometry/solids';
+import { makeBox, makeAssembly } from '@/test/fixtures';
+
+// A carcass with a top and bottom panel, and a drawer assembly with a front and a box
+const objects = [
+  makeBox('bottom', { width: 20, height: 1, depth: 12 }, { x: 0, y: 0, z: 0 }),
+  makeBox('top', { width: 20, height: 1, depth: 12 }, { x: 0, y: 10, z: 0 }),
+  makeBox('front', { width: 18, height: 6, depth: 1 }, { x: 0, y: 5, z: 6 }, { parentId: 'drawer' }),
+  makeBox('box', { width: 16, height: 5, depth: 10 }, { x: 0, y: 5, z: 0 }, { parentId: 'drawer' }),
+];
+const assemblies = [makeAssembly('drawer', ['front', 'box'])];
+
+describe('Exploded View', () => {
+  it('should not move anything when the factor is zero', () => {
+    expect(computeExplodeOffsets(objects, assemblies, { axis: 'y', factor: 0 }).size).toBe(0);
+  });
+
+  it('should push parts away from the model center along the axis', () => {
+    const offsets = computeExplodeOffsets(objects, assemblies, { axis: 'y', factor: 1 });
+
+    // Model spans y = -0.5 to 10.5, so its center is 5
+    expect(offsets.get('bottom')!.y).toBeCloseTo(-5);
+    expect(offsets.get('top')!.y).toBeCloseTo(5);
+    expect(offsets.get('bottom')!.x).toBe(0);
+    expect(offsets.get('bottom')!.z).toBe(0);
+  });
+
+  it('should move an assembly as a unit and spread its parts within it', () => {
+    const offsets = computeExplodeOffsets(objects, assemblies, { axis: 'z', factor: 1 });
+
+    // The drawer spans z = -5 to 6.5 (center 0.75) and the model z = -6 to 6.5 (center 0.25)
+    expect(offsets.get('drawer')!.z).toBeCloseTo(0.5);
+    // Its parts carry the drawer's offset and spread from the drawer's own center
+    expect(offsets.get('front')!.z).toBeCloseTo(0.5 + 5.25);
+    expect(offsets.get('box')!.z).toBeCloseTo(0.5 - 0.75);
+  });
+
+  it('should leave stored positions alone and shift the solids for export', () => {
+    const offsets = computeExplodeOffsets(objects, assemblies, { axis: 'y', factor: 1 });
+    const solids = explodeSolids(buildSolids(objects, assemblies), offsets);
+    const top = solids.find((solid) => solid.id === 'top')!;
+
+    expect(top.transform.position.y).toBeCloseTo(15);
+    expect(Math.max(...top.corners.map((c) => c.y))).toBeCloseTo(15.5);
+    expect(objects.find((obj) => obj.id === 'top')!.localPosition.y).toBe(10);
+  });
+});
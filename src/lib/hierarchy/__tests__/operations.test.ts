@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { reparentNode, moveAssemblyPivot, moveNodeInWorldSpace, getNodesCenter } from '../operations';
+import { computeWorldTransform } from '../transforms';
+import { makeBox, makeAssembly, expectVector } from '@/test/fixtures';
+
+// A drawer turned a quarter turn about Y, holding a front and a back
+const size = { width: 2, height: 2, depth: 2 };
+const objects = [
+  makeBox('front', size, { x: 0, y: 0, z: 4 }, { parentId: 'drawer' }),
+  makeBox('back', size, { x: 0, y: 0, z: -4 }, { parentId: 'drawer' }),
+  makeBox('loose', size, { x: 20, y: 0, z: 0 }),
+];
+const assemblies = [
+  makeAssembly('drawer', ['front', 'back'], { localPosition: { x: 10, y: 0, z: 0 }, rotation: { x: 0, y: 90, z: 0 } }),
+];
+
+describe('Hierarchy Operations', () => {
+  it('should move an assembly and its children together', () => {
+    const moved = moveNodeInWorldSpace('drawer', { x: 0, y: 5, z: 0 }, objects, assemblies);
+    expectVector(computeWorldTransform('front', moved.objects, moved.assemblies).position, { x: 14, y: 5, z: 0 });
+  });
+
+  it('should move the pivot without moving the children', () => {
+    const before = computeWorldTransform('front', objects, assemblies);
+    const moved = moveAssemblyPivot('drawer', { x: 14, y: 0, z: 0 }, objects, assemblies);
+
+    expectVector(computeWorldTransform('drawer', moved.objects, moved.assemblies).position, { x: 14, y: 0, z: 0 });
+    expectVector(computeWorldTransform('front', moved.objects, moved.assemblies).position, before.position);
+  });
+
+  it('should keep the world transform when moving a node into a rotated assembly', () => {
+    const { objects: result, assemblies: resultAssemblies } = reparentNode('loose', 'drawer', objects, assemblies);
+    const world = computeWorldTransform('loose', result, resultAssemblies);
+
+    expectVector(world.position, { x: 20, y: 0, z: 0 });
+    expectVector(world.rotation, { x: 0, y: 0, z: 0 });
+    expect(resultAssemblies[0].childIds).toContain('loose');
+  });
+
+  it('should find the center of the parts in a set of nodes', () => {
+    // The front sits at world x = 14 and the back at x = 6
+    expectVector(getNodesCenter(['drawer'], objects, assemblies), { x: 10, y: 0, z: 0 });
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import {
+  computeWorldTransform,
+  worldToLocalPosition,
+  worldToLocalRotation,
+  quaternionToRotation,
+  rotationToQuaternion,
+  getAssemblyPath,
+} from '../transforms';
+import { Assembly } from '@/types';
+import { makeBox, makeAssembly, expectVector } from '@/test/fixtures';
+
+// A parent turned a quarter turn about Y, with a child one inch along its local X
+const cube = { width: 1, height: 1, depth: 1 };
+const objects = [
+  makeBox('parent', cube, { x: 10, y: 0, z: 0 }, { rotation: { x: 0, y: 90, z: 0 } }),
+  makeBox('child', cube, { x: 1, y: 0, z: 0 }, { parentId: 'parent' }),
+  makeBox('grandchild', cube, { x: 0, y: 2, z: 0 }, { rotation: { x: 90, y: 0, z: 0 }, parentId: 'child' }),
+];
+
+describe('Hierarchy Transforms', () => {
+  it('should rotate a child offset into the parent frame', () => {
+    const world = computeWorldTransform('child', objects, []);
+    expectVector(world.position, { x: 10, y: 0, z: -1 });
+    expect(world.rotation).toEqual({ x: 0, y: 90, z: 0 });
+  });
+
+  it('should compose nested rotations rather than adding the angles', () => {
+    const world = computeWorldTransform('grandchild', objects, []);
+    expectVector(world.position, { x: 10, y: 2, z: -1 });
+
+    // Turning about X inside a Y quarter turn is a turn about world Z
+    const expected = rotationToQuaternion({ x: 0, y: 90, z: 0 }).multiply(rotationToQuaternion({ x: 90, y: 0, z: 0 }));
+    expect(rotationToQuaternion(world.rotation).angleTo(expected)).toBeCloseTo(0);
+  });
+
+  it('should round-trip world positions and rotations through a rotated parent', () => {
+    const world = computeWorldTransform('grandchild', objects, []);
+    expectVector(worldToLocalPosition(world.position, 'child', objects, []), { x: 0, y: 2, z: 0 });
+    expectVector(worldToLocalRotation(world.rotation, 'child', objects, []), { x: 90, y: 0, z: 0 });
+  });
+
+  it('should keep exact angles exact when converting back from a quaternion', () => {
+    expect(quaternionToRotation(rotationToQuaternion({ x: 0, y: 45, z: 0 }))).toEqual({ x: 0, y: 45, z: 0 });
+  });
+
+  it('should place children relative to an assembly pivot and rotation', () => {
+    const drawer = makeAssembly('drawer', ['front'], {
+      localPosition: { x: 5, y: 3, z: 0 },
+      rotation: { x: 0, y: 0, z: 90 },
+    });
+    const front = makeBox('front', cube, { x: 2, y: 0, z: 0 }, { parentId: 'drawer' });
+
+    const world = computeWorldTransform('front', [front], [drawer]);
+    expectVector(world.position, { x: 5, y: 5, z: 0 });
+    expect(world.rotation).toEqual({ x: 0, y: 0, z: 90 });
+
+    // Assemblies from older files have no transform and stay at their parent's origin
+    const legacy: Assembly = { ...drawer, localPosition: undefined, rotation: undefined };
+    expectVector(computeWorldTransform('front', [front], [legacy]).position, { x: 2, y: 0, z: 0 });
+  });
+
+  it('should name only the assemblies a part sits in, not the parts it is attached to', () => {
+    const cabinet = makeAssembly('cabinet', ['parent'], { name: 'Cabinet' });
+    const nested = objects.map((obj) => (obj.id === 'parent' ? { ...obj, parentId: 'cabinet' } : obj));
+
+    expect(getAssemblyPath('grandchild', nested, [cabinet])).toBe('Cabinet');
+    expect(getAssemblyPath('grandchild', objects, [])).toBe('');
+  });
+});
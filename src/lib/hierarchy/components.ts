@@ -0,0 +1,191 @@
+import { DraftObject, Assembly, ComponentDefinition } from '@/types';
+import { computeWorldTransform, getDescendants } from './transforms';
+import { getObjectCorners } from '@/lib/geometry/solids';
+
+/**
+ * Capture the parts under an assembly as component definition parts
+ * Parts keep the part ID they were copied from, so instance copies map back onto the
+ * definition. Returns the parts and a map from each captured node ID to its part ID.
+ */
+export function captureComponentParts(
+  rootId: string,
+  objects: DraftObject[],
+  assemblies: Assembly[]
+): { parts: Pick<ComponentDefinition, 'objects' | 'assemblies' | 'childIds'>; partIds: Map<string, string> } {
+  const root = assemblies.find((asm) => asm.id === rootId);
+  const ids = new Set(getDescendants(rootId, objects, assemblies));
+  const partObjects = objects.filter((obj) => ids.has(obj.id));
+  const partAssemblies = assemblies.filter((asm) => ids.has(asm.id));
+
+  // A part moved in from another instance may repeat a part ID, so fall back to its own ID
+  const partIds = new Map<string, string>();
+  const used = new Set<string>();
+  [...partObjects, ...partAssemblies].forEach((node) => {
+    const partId = node.componentPartId && !used.has(node.componentPartId) ? node.componentPartId : node.id;
+    partIds.set(node.id, partId);
+    used.add(partId);
+  });
+
+  const toPartParent = (parentId?: string) => (parentId && parentId !== rootId ? partIds.get(parentId) : undefined);
+
+  return {
+    parts: {
+      objects: partObjects.map(({ componentPartId: _, ...obj }) => ({
+        ...JSON.parse(JSON.stringify(obj)),
+        id: partIds.get(obj.id)!,
+        parentId: toPartParent(obj.parentId),
+      })),
+      assemblies: partAssemblies.map(({ componentPartId: _, componentId: __, ...asm }) => ({
+        ...JSON.parse(JSON.stringify(asm)),
+        id: partIds.get(asm.id)!,
+        parentId: toPartParent(asm.parentId),
+        childIds: asm.childIds.flatMap((id) => partIds.get(id) ?? []),
+      })),
+      childIds: (root?.childIds ?? []).flatMap((id) => partIds.get(id) ?? []),
+    },
+    partIds,
+  };
+}
+
+/**
+ * Create copies of a definition's parts under an instance assembly
+ * New copy IDs are derived from the instance and part IDs; pass the IDs of copies already in
+ * the instance, keyed by part ID, to keep them when rebuilding.
+ */
+export function instantiateComponentParts(
+  definition: ComponentDefinition,
+  instanceId: string,
+  existingIds: Map<string, string> = new Map()
+): { objects: DraftObject[]; assemblies: Assembly[]; childIds: string[] } {
+  const toId = (partId: string) => existingIds.get(partId) ?? `${instanceId}:${partId}`;
+  const toParent = (parentId?: string) => (parentId ? toId(parentId) : instanceId);
+
+  return {
+    objects: definition.objects.map((part) => ({
+      ...JSON.parse(JSON.stringify(part)),
+      id: toId(part.id),
+      parentId: toParent(part.parentId),
+      componentPartId: part.id,
+    })),
+    assemblies: definition.assemblies.map((part) => ({
+      ...JSON.parse(JSON.stringify(part)),
+      id: toId(part.id),
+      parentId: toParent(part.parentId),
+      childIds: part.childIds.map(toId),
+      componentPartId: part.id,
+    })),
+    childIds: definition.childIds.map(toId),
+  };
+}
+
+/**
+ * Rebuild every instance of a definition from its parts, keeping each instance's own transform
+ * Parts still in the definition keep their IDs, so constraints, joints and selections on them hold.
+ */
+export function syncComponentInstances(
+  definition: ComponentDefinition,
+  objects: DraftObject[],
+  assemblies: Assembly[],
+  skipInstanceId?: string
+): { objects: DraftObject[]; assemblies: Assembly[] } {
+  let updatedObjects = objects;
+  let updatedAssemblies = assemblies;
+
+  assemblies
+    .filter((asm) => asm.componentId === definition.id && asm.id !== skipInstanceId)
+    .forEach((instance) => {
+      const stale = new Set(getDescendants(instance.id, updatedObjects, updatedAssemblies));
+      const existingIds = new Map<string, string>();
+      [...updatedObjects, ...updatedAssemblies].forEach((node) => {
+        if (stale.has(node.id) && node.componentPartId && !existingIds.has(node.componentPartId)) {
+          existingIds.set(node.componentPartId, node.id);
+        }
+      });
+      const copies = instantiateComponentParts(definition, instance.id, existingIds);
+
+      updatedObjects = [...updatedObjects.filter((obj) => !stale.has(obj.id)), ...copies.objects];
+      updatedAssemblies = [
+        ...updatedAssemblies
+          .filter((asm) => !stale.has(asm.id))
+          .map((asm) => (asm.id === instance.id ? { ...asm, childIds: copies.childIds } : asm)),
+        ...copies.assemblies,
+      ];
+    });
+
+  return { objects: updatedObjects, assemblies: updatedAssemblies };
+}
+
+/**
+ * Find the component instance a node belongs to, if any
+ * The instance assembly itself is not part of its own component, so only ancestors count.
+ */
+export function getInstanceRootId(
+  nodeId: string,
+  objects: DraftObject[],
+  assemblies: Assembly[]
+): string | null {
+  const node = objects.find((obj) => obj.id === nodeId) ?? assemblies.find((asm) => asm.id === nodeId);
+  let parentId = node?.parentId;
+
+  while (parentId) {
+    const parent = assemblies.find((asm) => asm.id === parentId);
+    if (!parent) return null;
+    if (parent.componentId) return parent.id;
+    parentId = parent.parentId;
+  }
+
+  return null;
+}
+
+/**
+ * Make an instance's current parts the definition of its component and rebuild the other instances
+ */
+export function propagateInstanceEdit(
+  instanceId: string,
+  objects: DraftObject[],
+  assemblies: Assembly[],
+  components: ComponentDefinition[]
+): { objects: DraftObject[]; assemblies: Assembly[]; components: ComponentDefinition[] } {
+  const instance = assemblies.find((asm) => asm.id === instanceId);
+  const definition = components.find((component) => component.id === instance?.componentId);
+  if (!instance || !definition) {
+    return { objects, assemblies, components };
+  }
+
+  const { parts, partIds } = captureComponentParts(instanceId, objects, assemblies);
+  const updatedDefinition: ComponentDefinition = { ...definition, ...parts };
+
+  // Parts added to this instance become parts of the definition
+  const tagged = {
+    objects: objects.map((obj) => (partIds.has(obj.id) ? { ...obj, componentPartId: partIds.get(obj.id) } : obj)),
+    assemblies: assemblies.map((asm) => (partIds.has(asm.id) ? { ...asm, componentPartId: partIds.get(asm.id) } : asm)),
+  };
+
+  return {
+    ...syncComponentInstances(updatedDefinition, tagged.objects, tagged.assemblies, instanceId),
+    components: components.map((component) => (component.id === definition.id ? updatedDefinition : component)),
+  };
+}
+
+/**
+ * Count the instances of each component definition
+ */
+export function countComponentInstances(assemblies: Assembly[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  assemblies.forEach((asm) => {
+    if (asm.componentId) {
+      counts.set(asm.componentId, (counts.get(asm.componentId) ?? 0) + 1);
+    }
+  });
+  return counts;
+}
+
+/**
+ * Width of a component's parts along X, used to place new instances side by side
+ */
+export function getComponentWidth(definition: ComponentDefinition): number {
+  const xs = definition.objects.flatMap((part) =>
+    getObjectCorners(part, computeWorldTransform(part.id, definition.objects, definition.assemblies)).map((c) => c.x)
+  );
+  return xs.length > 0 ? Math.max(...xs) - Math.min(...xs) : 0;
+}
@@ -0,0 +1,77 @@
+import { DraftObject, Assembly, Vector3D, ExplodeSettings, TreeNode } from '@/types';
+import { Solid, getObjectCorners } from '@/lib/geometry/solids';
+import { computeWorldTransform, buildHierarchyTree } from './transforms';
+
+/**
+ * Compute the display offset of every node in an exploded view
+ * Each node moves away from its parent's center by factor times its own distance from it,
+ * measured along the axis between the centers of their parts. A node's offset carries its
+ * children with it, so assemblies separate as units and their parts spread out within them.
+ * Stored positions are never changed. Returns offsets keyed by object and assembly ID.
+ */
+export function computeExplodeOffsets(
+  objects: DraftObject[],
+  assemblies: Assembly[],
+  settings: ExplodeSettings
+): Map<string, Vector3D> {
+  const offsets = new Map<string, Vector3D>();
+  const { axis, factor } = settings;
+  if (factor === 0 || objects.length === 0) return offsets;
+
+  // Extent of each object along the axis
+  const extents = new Map<string, [number, number]>();
+  objects.forEach((obj) => {
+    const values = getObjectCorners(obj, computeWorldTransform(obj.id, objects, assemblies)).map((c) => c[axis]);
+    extents.set(obj.id, [Math.min(...values), Math.max(...values)]);
+  });
+
+  // Center of all the parts in a subtree, or null for an empty assembly
+  const getCenter = (node: TreeNode): number | null => {
+    let min = Infinity;
+    let max = -Infinity;
+    const collect = (current: TreeNode) => {
+      const extent = extents.get(current.id);
+      if (current.type === 'object' && extent) {
+        min = Math.min(min, extent[0]);
+        max = Math.max(max, extent[1]);
+      }
+      current.children.forEach(collect);
+    };
+    collect(node);
+    return min <= max ? (min + max) / 2 : null;
+  };
+
+  const visit = (node: TreeNode, parentCenter: number, inherited: number) => {
+    const center = getCenter(node);
+    const offset = center === null ? inherited : inherited + factor * (center - parentCenter);
+    offsets.set(node.id, { x: 0, y: 0, z: 0, [axis]: offset });
+    node.children.forEach((child) => visit(child, center ?? parentCenter, offset));
+  };
+
+  const roots = buildHierarchyTree(objects, assemblies);
+  const all = Array.from(extents.values());
+  const modelCenter = (Math.min(...all.map(([min]) => min)) + Math.max(...all.map(([, max]) => max))) / 2;
+  roots.forEach((root) => visit(root, modelCenter, 0));
+
+  return offsets;
+}
+
+/**
+ * Shift solids by their exploded-view offsets
+ */
+export function explodeSolids(solids: Solid[], offsets: Map<string, Vector3D>): Solid[] {
+  if (offsets.size === 0) return solids;
+
+  return solids.map((solid) => {
+    const offset = offsets.get(solid.id);
+    if (!offset) return solid;
+
+    const shift = (p: Vector3D): Vector3D => ({ x: p.x + offset.x, y: p.y + offset.y, z: p.z + offset.z });
+    return {
+      ...solid,
+      transform: { ...solid.transform, position: shift(solid.transform.position) },
+      corners: solid.corners.map(shift),
+      edges: solid.edges.map(([a, b]) => [shift(a), shift(b)]),
+    };
+  });
+}
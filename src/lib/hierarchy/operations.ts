@@ -2,9 +2,11 @@ import { DraftObject, Assembly, Vector3D } from '@/types';
 import {
   computeWorldTransform,
   worldToLocalPosition,
+  worldToLocalRotation,
   getDescendants,
   validateHierarchy,
 } from './transforms';
+import { getObjectCorners } from '@/lib/geometry/solids';
 
 /**
  * Move a node to a new parent (updates local position to maintain world position)
@@ -33,29 +35,37 @@ export function reparentNode(
   let updatedObjects = [...objects];
   let updatedAssemblies = [...assemblies];
 
-  if ('localPosition' in node) {
-    // It's a DraftObject
-    // Compute current world position before changing parent
-    const worldTransform = computeWorldTransform(nodeId, objects, assemblies);
-
-    // Calculate new local position relative to new parent
-    const newLocalPosition = worldToLocalPosition(
-      worldTransform.position,
-      newParentId,
-      objects,
-      assemblies
-    );
+  // Compute current world transform before changing parent
+  const worldTransform = computeWorldTransform(nodeId, objects, assemblies);
 
+  // Calculate new local position and rotation relative to new parent
+  const newLocalPosition = worldToLocalPosition(
+    worldTransform.position,
+    newParentId,
+    objects,
+    assemblies
+  );
+  const newLocalRotation = worldToLocalRotation(
+    worldTransform.rotation,
+    newParentId,
+    objects,
+    assemblies
+  );
+
+  if ('childIds' in node) {
+    // It's an Assembly
+    updatedAssemblies = assemblies.map((asm) =>
+      asm.id === nodeId
+        ? { ...asm, parentId: newParentId, localPosition: newLocalPosition, rotation: newLocalRotation }
+        : asm
+    );
+  } else {
+    // It's a DraftObject
     updatedObjects = objects.map((obj) =>
       obj.id === nodeId
-        ? { ...obj, parentId: newParentId, localPosition: newLocalPosition }
+        ? { ...obj, parentId: newParentId, localPosition: newLocalPosition, rotation: newLocalRotation }
         : obj
     );
-  } else {
-    // It's an Assembly
-    updatedAssemblies = assemblies.map((asm) =>
-      asm.id === nodeId ? { ...asm, parentId: newParentId } : asm
-    );
   }
 
   // Update old parent's childIds (remove this node)
@@ -111,7 +121,7 @@ export function deleteNodeCascade(
 
 /**
  * Move a node in world space (updates local position to maintain world position)
- * This is used when dragging objects on the canvas
+ * This is used when dragging objects or assemblies on the canvas
  */
 export function moveNodeInWorldSpace(
   nodeId: string,
@@ -119,9 +129,8 @@ export function moveNodeInWorldSpace(
   objects: DraftObject[],
   assemblies: Assembly[]
 ): { objects: DraftObject[]; assemblies: Assembly[] } {
-  const object = objects.find((obj) => obj.id === nodeId);
-  if (!object) {
-    // Only objects can be moved (assemblies don't have positions)
+  const node = findNode(nodeId, objects, assemblies);
+  if (!node) {
     return { objects, assemblies };
   }
 
@@ -138,17 +147,81 @@ export function moveNodeInWorldSpace(
   // Convert new world position to local position
   const newLocalPosition = worldToLocalPosition(
     newWorldPosition,
-    object.parentId,
+    node.parentId,
     objects,
     assemblies
   );
 
-  // Update the object
-  const updatedObjects = objects.map((obj) =>
-    obj.id === nodeId ? { ...obj, localPosition: newLocalPosition } : obj
+  // Update the node (moving an assembly carries its children with it)
+  return {
+    objects: objects.map((obj) => (obj.id === nodeId ? { ...obj, localPosition: newLocalPosition } : obj)),
+    assemblies: assemblies.map((asm) => (asm.id === nodeId ? { ...asm, localPosition: newLocalPosition } : asm)),
+  };
+}
+
+/**
+ * Get the world-space center of the bounding box around the parts in a set of nodes
+ * Returns the world origin when the nodes contain no objects.
+ */
+export function getNodesCenter(
+  nodeIds: string[],
+  objects: DraftObject[],
+  assemblies: Assembly[]
+): Vector3D {
+  const ids = new Set(nodeIds.flatMap((id) => [id, ...getDescendants(id, objects, assemblies)]));
+  const corners = objects
+    .filter((obj) => ids.has(obj.id))
+    .flatMap((obj) => getObjectCorners(obj, computeWorldTransform(obj.id, objects, assemblies)));
+
+  if (corners.length === 0) {
+    return { x: 0, y: 0, z: 0 };
+  }
+
+  const center = (axis: 'x' | 'y' | 'z') =>
+    (Math.min(...corners.map((c) => c[axis])) + Math.max(...corners.map((c) => c[axis]))) / 2;
+  return { x: center('x'), y: center('y'), z: center('z') };
+}
+
+/**
+ * Move an assembly's pivot to a new world position without moving its children
+ */
+export function moveAssemblyPivot(
+  assemblyId: string,
+  worldPivot: Vector3D,
+  objects: DraftObject[],
+  assemblies: Assembly[]
+): { objects: DraftObject[]; assemblies: Assembly[] } {
+  const assembly = assemblies.find((asm) => asm.id === assemblyId);
+  if (!assembly) {
+    return { objects, assemblies };
+  }
+
+  // Remember where the direct children are before the pivot moves
+  const childWorldPositions = new Map(
+    assembly.childIds.map((id) => [id, computeWorldTransform(id, objects, assemblies).position])
+  );
+
+  const newPivot = worldToLocalPosition(worldPivot, assembly.parentId, objects, assemblies);
+  const movedAssemblies = assemblies.map((asm) =>
+    asm.id === assemblyId ? { ...asm, localPosition: newPivot } : asm
   );
 
-  return { objects: updatedObjects, assemblies };
+  // Re-express each child relative to the new pivot
+  const toLocal = (id: string, localPosition: Vector3D) => {
+    const world = childWorldPositions.get(id);
+    return world ? worldToLocalPosition(world, assemblyId, objects, movedAssemblies) : localPosition;
+  };
+
+  return {
+    objects: objects.map((obj) =>
+      childWorldPositions.has(obj.id) ? { ...obj, localPosition: toLocal(obj.id, obj.localPosition) } : obj
+    ),
+    assemblies: movedAssemblies.map((asm) =>
+      childWorldPositions.has(asm.id)
+        ? { ...asm, localPosition: toLocal(asm.id, asm.localPosition ?? { x: 0, y: 0, z: 0 }) }
+        : asm
+    ),
+  };
 }
 
 /**
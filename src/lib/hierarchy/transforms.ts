@@ -1,5 +1,34 @@
+import * as THREE from 'three';
 import { DraftObject, Assembly, Vector3D, WorldTransform, TreeNode } from '@/types';
 
+/**
+ * Convert a rotation in degrees (XYZ order, as used by the meshes) to a quaternion
+ */
+export function rotationToQuaternion(rotation: Vector3D): THREE.Quaternion {
+  const euler = new THREE.Euler(
+    THREE.MathUtils.degToRad(rotation.x),
+    THREE.MathUtils.degToRad(rotation.y),
+    THREE.MathUtils.degToRad(rotation.z),
+    'XYZ'
+  );
+  return new THREE.Quaternion().setFromEuler(euler);
+}
+
+/**
+ * Convert a quaternion back to a rotation in degrees (XYZ order)
+ * Values within a tiny tolerance of a whole degree are rounded so exact angles stay exact.
+ */
+export function quaternionToRotation(quaternion: THREE.Quaternion): Vector3D {
+  const euler = new THREE.Euler().setFromQuaternion(quaternion, 'XYZ');
+  const toDegrees = (radians: number) => {
+    const degrees = THREE.MathUtils.radToDeg(radians);
+    const rounded = Math.round(degrees);
+    const value = Math.abs(degrees - rounded) < 1e-9 ? rounded : degrees;
+    return value === 0 ? 0 : value; // Avoid -0
+  };
+  return { x: toDegrees(euler.x), y: toDegrees(euler.y), z: toDegrees(euler.z) };
+}
+
 /**
  * Compute absolute world transform by traversing the parent hierarchy
  * and composing local transforms
@@ -14,31 +43,30 @@ export function computeWorldTransform(
     return { position: { x: 0, y: 0, z: 0 }, rotation: { x: 0, y: 0, z: 0 } };
   }
 
-  // If node is an assembly, it doesn't have a position - return zero transform
-  if ('childIds' in node) {
-    return { position: { x: 0, y: 0, z: 0 }, rotation: { x: 0, y: 0, z: 0 } };
-  }
+  const local = getLocalTransform(node);
 
   // Base case: no parent, local position IS world position
   if (!node.parentId) {
     return {
-      position: { ...node.localPosition },
-      rotation: { ...node.rotation },
+      position: { ...local.position },
+      rotation: { ...local.rotation },
     };
   }
 
   // Recursive case: get parent's world transform
   const parentTransform = computeWorldTransform(node.parentId, objects, assemblies);
 
-  // Compose transforms: parent world transform + this node's local transform
-  const worldPosition = addVectors(parentTransform.position, node.localPosition);
-
-  // Rotation composes additively (simplified - no quaternions for now)
-  const worldRotation = addVectors(parentTransform.rotation, node.rotation);
+  // Compose transforms: the local offset is rotated into the parent's frame, and the
+  // local rotation is applied inside the parent's rotation
+  const parentQuaternion = rotationToQuaternion(parentTransform.rotation);
+  const rotatedOffset = toVector3D(
+    new THREE.Vector3(local.position.x, local.position.y, local.position.z).applyQuaternion(parentQuaternion)
+  );
+  const worldQuaternion = parentQuaternion.multiply(rotationToQuaternion(local.rotation));
 
   return {
-    position: worldPosition,
-    rotation: worldRotation,
+    position: addVectors(parentTransform.position, rotatedOffset),
+    rotation: quaternionToRotation(worldQuaternion),
   };
 }
 
@@ -59,8 +87,28 @@ export function worldToLocalPosition(
   // Get parent's world transform
   const parentTransform = computeWorldTransform(parentId, objects, assemblies);
 
-  // Subtract parent's world position to get local offset
-  return subtractVectors(worldPos, parentTransform.position);
+  // Undo the parent's translation, then its rotation
+  const offset = subtractVectors(worldPos, parentTransform.position);
+  const inverseRotation = rotationToQuaternion(parentTransform.rotation).invert();
+  return toVector3D(new THREE.Vector3(offset.x, offset.y, offset.z).applyQuaternion(inverseRotation));
+}
+
+/**
+ * Convert a world rotation to a rotation local to a parent
+ */
+export function worldToLocalRotation(
+  worldRotation: Vector3D,
+  parentId: string | undefined,
+  objects: DraftObject[],
+  assemblies: Assembly[]
+): Vector3D {
+  if (!parentId) {
+    return { ...worldRotation };
+  }
+
+  const parentTransform = computeWorldTransform(parentId, objects, assemblies);
+  const inverseParent = rotationToQuaternion(parentTransform.rotation).invert();
+  return quaternionToRotation(inverseParent.multiply(rotationToQuaternion(worldRotation)));
 }
 
 /**
@@ -92,7 +140,7 @@ export function getDescendants(
     }
 
     // If it's an object with children (objects can parent other objects), add them
-    if ('localPosition' in currentNode) {
+    if (!('childIds' in currentNode)) {
       const childObjects = objects.filter((obj) => obj.parentId === currentId);
       const childAssemblies = assemblies.filter((asm) => asm.parentId === currentId);
 
@@ -130,6 +178,22 @@ export function getAncestors(
   return ancestors;
 }
 
+/**
+ * Names of the assemblies a node sits in, outermost first, e.g. "Cabinet > Drawer"
+ * Objects the node is parented to are skipped; empty for nodes outside any assembly.
+ */
+export function getAssemblyPath(
+  nodeId: string,
+  objects: DraftObject[],
+  assemblies: Assembly[]
+): string {
+  return getAncestors(nodeId, objects, assemblies)
+    .map(id => assemblies.find(asm => asm.id === id)?.name)
+    .filter(Boolean)
+    .reverse()
+    .join(' > ');
+}
+
 /**
  * Check if node is visible (accounting for parent visibility cascade)
  */
@@ -306,6 +370,17 @@ function findNode(
   return null;
 }
 
+/**
+ * Get a node's transform relative to its parent
+ * Assemblies from older files have no transform and sit at their parent's origin.
+ */
+function getLocalTransform(node: DraftObject | Assembly): WorldTransform {
+  return {
+    position: node.localPosition ?? { x: 0, y: 0, z: 0 },
+    rotation: node.rotation ?? { x: 0, y: 0, z: 0 },
+  };
+}
+
 /**
  * Add two Vector3D objects
  */
@@ -317,6 +392,13 @@ function addVectors(a: Vector3D, b: Vector3D): Vector3D {
   };
 }
 
+/**
+ * Convert a THREE vector to a plain Vector3D
+ */
+function toVector3D(v: THREE.Vector3): Vector3D {
+  return { x: v.x, y: v.y, z: v.z };
+}
+
 /**
  * Subtract two Vector3D objects (a - b)
  */
@@ -0,0 +1,188 @@
+import { describe, it, expect } from 'vitest';
+import { evaluateExpression, getExpressionVariables, renameExpressionVariable } from '../expressions';
+import {
+  evaluateVariables,
+  validateVariables,
+  findVariableCycle,
+  evaluateModel,
+  dropOverriddenExpressions,
+  renameVariableReferences,
+  findVariableReferences,
+  evaluateFieldExpression,
+  convertExpressionUnits,
+} from '../variables';
+import { DraftObject, ProjectVariable } from '@/types';
+import { makePart } from '@/test/fixtures';
+
+function makeVariable(name: string, expression: string): ProjectVariable {
+  return { id: `variable-${name}`, name, expression, value: 0 };
+}
+
+function makePanel(id: string, expressions?: DraftObject['expressions']): DraftObject {
+  return makePart({
+    id,
+    name: `Panel ${id}`,
+    dimensions: { width: 10, height: 0.75, depth: 20 },
+    material: 'Plywood',
+    category: 'Sheet Goods',
+    expressions,
+  });
+}
+
+describe('evaluateExpression', () => {
+  const scope = new Map([
+    ['carcassWidth', 30],
+    ['stock', 0.75],
+  ]);
+
+  it('should respect operator precedence and parentheses', () => {
+    expect(evaluateExpression('2 + 3 * 4', scope).value).toBe(14);
+    expect(evaluateExpression('(2 + 3) * 4', scope).value).toBe(20);
+    expect(evaluateExpression('-2 * -3', scope).value).toBe(6);
+  });
+
+  it('should substitute variables and call functions', () => {
+    expect(evaluateExpression('carcassWidth - 2*stock', scope).value).toBe(28.5);
+    expect(evaluateExpression('max(stock, 1) / 2', scope).value).toBe(0.5);
+  });
+
+  it('should report unknown variables and syntax errors', () => {
+    expect(evaluateExpression('shelfDepth + 1', scope)).toEqual({ value: null, error: 'Unknown variable "shelfDepth"' });
+    expect(evaluateExpression('(1 + 2', scope).error).toBe('Missing closing parenthesis');
+    expect(evaluateExpression('4 / 0', scope).error).toBe('Division by zero');
+  });
+
+  it('should list the variables an expression refers to', () => {
+    expect(getExpressionVariables('carcassWidth - 2*stock + min(stock, gap)')).toEqual(['carcassWidth', 'stock', 'gap']);
+  });
+
+  it('should rename a variable without touching similar names or the rest of the text', () => {
+    expect(renameExpressionVariable('stock + 2*stock - stockWidth', 'stock', 'thickness')).toBe(
+      'thickness + 2*thickness - stockWidth'
+    );
+    expect(renameExpressionVariable('(1 + ', 'stock', 'thickness')).toBe('(1 + ');
+  });
+});
+
+describe('evaluateVariables', () => {
+  it('should evaluate variables in dependency order regardless of list order', () => {
+    const { values, errors } = evaluateVariables([
+      makeVariable('shelfWidth', 'innerWidth - 1/8'),
+      makeVariable('innerWidth', 'carcassWidth - 2*stock'),
+      makeVariable('carcassWidth', '30'),
+      makeVariable('stock', '0.75'),
+    ]);
+
+    expect(errors.size).toBe(0);
+    expect(values.get('innerWidth')).toBe(28.5);
+    expect(values.get('shelfWidth')).toBe(28.375);
+  });
+
+  it('should detect cycles', () => {
+    const variables = [makeVariable('a', 'b + 1'), makeVariable('b', 'c * 2'), makeVariable('c', 'a')];
+
+    expect(findVariableCycle(variables)).toEqual(['a', 'b', 'c', 'a']);
+    expect(validateVariables(variables)).toEqual({ valid: false, error: 'Circular reference: a → b → c → a' });
+  });
+
+  it('should reject duplicate and invalid names', () => {
+    expect(validateVariables([makeVariable('stock', '1'), makeVariable('stock', '2')]).valid).toBe(false);
+    expect(validateVariables([makeVariable('2x', '1')]).valid).toBe(false);
+    expect(validateVariables([makeVariable('max', '1')]).valid).toBe(false);
+  });
+});
+
+describe('evaluateModel', () => {
+  it('should re-evaluate object fields from changed variables', () => {
+    const objects = [makePanel('shelf', { 'dimensions.width': 'carcassWidth - 2*stock', 'localPosition.x': 'stock' })];
+    const variables = [makeVariable('carcassWidth', '36'), makeVariable('stock', '0.75')];
+
+    const result = evaluateModel(objects, variables);
+
+    expect(result.errors).toEqual([]);
+    expect(result.variables.map((v) => v.value)).toEqual([36, 0.75]);
+    expect(result.objects[0].dimensions.width).toBe(34.5);
+    expect(result.objects[0].localPosition.x).toBe(0.75);
+  });
+
+  it('should keep the last value when an expression refers to a removed variable', () => {
+    const objects = [makePanel('shelf', { 'dimensions.width': 'carcassWidth - 2*stock' })];
+
+    const result = evaluateModel(objects, [makeVariable('stock', '0.75')]);
+
+    expect(result.objects[0].dimensions.width).toBe(10);
+    expect(result.errors).toHaveLength(1);
+  });
+
+  it('should drop expressions of fields that were edited directly', () => {
+    const before = makePanel('shelf', { 'dimensions.width': 'carcassWidth', 'dimensions.depth': 'depth' });
+    const after = { ...before, dimensions: { ...before.dimensions, width: 12 } };
+
+    expect(dropOverriddenExpressions(before, after).expressions).toEqual({ 'dimensions.depth': 'depth' });
+  });
+});
+
+describe('variable references', () => {
+  const objects = [makePanel('shelf', { 'dimensions.width': 'carcassWidth - 2*stock', 'localPosition.x': 'stock' })];
+  const variables = [makeVariable('stock', '0.75'), makeVariable('carcassWidth', '36'), makeVariable('gap', 'stock / 4')];
+
+  it('should rewrite object and variable expressions when a variable is renamed', () => {
+    const renamed = renameVariableReferences(objects, variables, 'stock', 'thickness');
+
+    expect(renamed.objects[0].expressions).toEqual({
+      'dimensions.width': 'carcassWidth - 2*thickness',
+      'localPosition.x': 'thickness',
+    });
+    expect(renamed.variables.map((v) => v.expression)).toEqual(['0.75', '36', 'thickness / 4']);
+  });
+
+  it('should list what still refers to a variable', () => {
+    expect(findVariableReferences('stock', objects, variables)).toEqual([
+      'gap',
+      'Panel shelf dimensions.width',
+      'Panel shelf localPosition.x',
+    ]);
+    expect(findVariableReferences('gap', objects, variables)).toEqual([]);
+  });
+});
+
+describe('metric expressions', () => {
+  it('should subtract a spaced fraction rather than read it as a mixed number', () => {
+    expect(evaluateFieldExpression('30 - 1/2', new Map()).value).toBe(29.5);
+  });
+
+  it('should read field expressions and variables in millimeters', () => {
+    expect(evaluateFieldExpression('600-36', new Map(), 'metric').value).toBeCloseTo(564 / 25.4);
+
+    const objects = [makePanel('shelf', { 'dimensions.width': 'carcassWidth - 2*stock' })];
+    const variables = [makeVariable('carcassWidth', '600'), makeVariable('stock', '18')];
+    const result = evaluateModel(objects, variables, 'metric');
+
+    expect(result.variables.map((v) => v.value)).toEqual([600, 18]);
+    expect(result.objects[0].dimensions.width).toBeCloseTo(564 / 25.4);
+  });
+
+  it('should convert variables when the project switches units', () => {
+    const variables = [makeVariable('stock', '0.75'), makeVariable('gap', 'stock / 4')];
+
+    expect(convertExpressionUnits([], variables, 'imperial', 'metric').variables.map((v) => v.expression)).toEqual([
+      '19.05',
+      'stock / 4',
+    ]);
+  });
+
+  it('should convert lengths typed inside expressions but not counts', () => {
+    const objects = [makePanel('shelf', { 'dimensions.width': 'width + 2', 'localPosition.x': '30 - 1/2' })];
+    const variables = [makeVariable('width', '20'), makeVariable('spacing', '(width - 2) / 3')];
+    const converted = convertExpressionUnits(objects, variables, 'imperial', 'metric');
+
+    expect(converted.variables.map((v) => v.expression)).toEqual(['508', '(width - 50.8) / 3']);
+    expect(converted.objects[0].expressions).toEqual({ 'dimensions.width': 'width + 50.8', 'localPosition.x': '749.3' });
+
+    // The model keeps its size across the switch
+    const before = evaluateModel(objects, variables, 'imperial');
+    const after = evaluateModel(converted.objects, converted.variables, 'metric');
+    expect(after.objects[0].dimensions.width).toBeCloseTo(before.objects[0].dimensions.width);
+    expect(after.objects[0].localPosition.x).toBeCloseTo(29.5);
+  });
+});
@@ -0,0 +1,305 @@
+/**
+ * Arithmetic expressions over named project variables, e.g. "carcassWidth - 2*stock"
+ * Supports numbers, variables, + - * /, parentheses, unary minus and a few functions.
+ */
+
+export interface ExpressionResult {
+  value: number | null;
+  error?: string;
+}
+
+// Tokens and nodes keep where they start and end in the source text, so expressions can be rewritten in place
+interface Span {
+  start: number;
+  end: number;
+}
+
+type ExpressionNode = (
+  | { type: 'number'; value: number }
+  | { type: 'variable'; name: string }
+  | { type: 'negate'; operand: ExpressionNode }
+  | { type: 'binary'; op: '+' | '-' | '*' | '/'; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'call'; name: string; args: ExpressionNode[] }
+) & Span;
+
+type Token = ({ type: 'number'; value: number } | { type: 'name'; value: string } | { type: 'symbol'; value: string }) & Span;
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  min: Math.min,
+  max: Math.max,
+  round: Math.round,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  abs: Math.abs,
+};
+
+const NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Check whether text is a valid variable name that doesn't shadow a function
+ */
+export function isValidVariableName(name: string): boolean {
+  return NAME_PATTERN.test(name) && !(name in FUNCTIONS);
+}
+
+/**
+ * Split an expression into tokens, or return an error message
+ */
+function tokenize(expression: string): Token[] | string {
+  const tokens: Token[] = [];
+  const pattern = /\s*(?:(\d+\.?\d*|\.\d+)|([A-Za-z_][A-Za-z0-9_]*)|([-+*/(),]))/y;
+  let index = 0;
+
+  while (index < expression.length) {
+    if (expression.slice(index).trim() === '') break;
+
+    pattern.lastIndex = index;
+    const match = pattern.exec(expression);
+    if (!match) {
+      return `Unexpected character "${expression.slice(index).trim()[0]}"`;
+    }
+
+    index = pattern.lastIndex;
+    const span = { start: index - (match[1] ?? match[2] ?? match[3]).length, end: index };
+    if (match[1] !== undefined) tokens.push({ type: 'number', value: parseFloat(match[1]), ...span });
+    else if (match[2] !== undefined) tokens.push({ type: 'name', value: match[2], ...span });
+    else tokens.push({ type: 'symbol', value: match[3], ...span });
+  }
+
+  return tokens;
+}
+
+/**
+ * Parse an expression into a syntax tree, or return an error message
+ */
+function parse(expression: string): ExpressionNode | string {
+  const tokens = tokenize(expression);
+  if (typeof tokens === 'string') return tokens;
+  if (tokens.length === 0) return 'Expression is empty';
+
+  let position = 0;
+  let error: string | null = null;
+  const peek = () => tokens[position];
+  const isSymbol = (value: string) => peek()?.type === 'symbol' && peek().value === value;
+  const fail = (message: string): ExpressionNode => {
+    error = error ?? message;
+    return { type: 'number', value: NaN, start: 0, end: 0 };
+  };
+
+  // expression := term (('+' | '-') term)*
+  const parseExpression = (): ExpressionNode => {
+    let node = parseTerm();
+    while (isSymbol('+') || isSymbol('-')) {
+      const op = tokens[position++].value as '+' | '-';
+      const right = parseTerm();
+      node = { type: 'binary', op, left: node, right, start: node.start, end: right.end };
+    }
+    return node;
+  };
+
+  // term := factor (('*' | '/') factor)*
+  const parseTerm = (): ExpressionNode => {
+    let node = parseFactor();
+    while (isSymbol('*') || isSymbol('/')) {
+      const op = tokens[position++].value as '*' | '/';
+      const right = parseFactor();
+      node = { type: 'binary', op, left: node, right, start: node.start, end: right.end };
+    }
+    return node;
+  };
+
+  // factor := '-' factor | '+' factor | number | name | name '(' args ')' | '(' expression ')'
+  const parseFactor = (): ExpressionNode => {
+    const token = tokens[position++];
+    if (!token) return fail('Expression ends unexpectedly');
+
+    if (token.type === 'number') return { type: 'number', value: token.value, start: token.start, end: token.end };
+
+    if (token.type === 'name') {
+      if (!isSymbol('(')) return { type: 'variable', name: token.value, start: token.start, end: token.end };
+      if (!(token.value in FUNCTIONS)) return fail(`Unknown function "${token.value}"`);
+
+      position++;
+      const args: ExpressionNode[] = [];
+      if (!isSymbol(')')) {
+        args.push(parseExpression());
+        while (isSymbol(',')) {
+          position++;
+          args.push(parseExpression());
+        }
+      }
+      if (!isSymbol(')')) return fail('Missing closing parenthesis');
+      return { type: 'call', name: token.value, args, start: token.start, end: tokens[position++].end };
+    }
+
+    if (token.value === '-') {
+      const operand = parseFactor();
+      return { type: 'negate', operand, start: token.start, end: operand.end };
+    }
+    if (token.value === '+') return parseFactor();
+    if (token.value === '(') {
+      const node = parseExpression();
+      if (!isSymbol(')')) return fail('Missing closing parenthesis');
+      return { ...node, start: token.start, end: tokens[position++].end };
+    }
+
+    return fail(`Unexpected "${token.value}"`);
+  };
+
+  const tree = parseExpression();
+  if (error) return error;
+  if (position < tokens.length) return `Unexpected "${String(peek().value)}"`;
+  return tree;
+}
+
+/**
+ * Collect the variable names a syntax tree refers to
+ */
+function collectVariables(node: ExpressionNode, names: Set<string>): void {
+  switch (node.type) {
+    case 'variable':
+      names.add(node.name);
+      break;
+    case 'negate':
+      collectVariables(node.operand, names);
+      break;
+    case 'binary':
+      collectVariables(node.left, names);
+      collectVariables(node.right, names);
+      break;
+    case 'call':
+      node.args.forEach((arg) => collectVariables(arg, names));
+      break;
+  }
+}
+
+/**
+ * Get the names of the variables an expression refers to
+ * Returns an empty list for expressions that don't parse.
+ */
+export function getExpressionVariables(expression: string): string[] {
+  const tree = parse(expression);
+  if (typeof tree === 'string') return [];
+
+  const names = new Set<string>();
+  collectVariables(tree, names);
+  return Array.from(names);
+}
+
+/**
+ * Rewrite references to a renamed variable, leaving the rest of the text as typed
+ * Expressions that don't tokenize are returned unchanged.
+ */
+export function renameExpressionVariable(expression: string, from: string, to: string): string {
+  const tokens = tokenize(expression);
+  if (typeof tokens === 'string') return expression;
+
+  // Replace from the end so earlier positions stay valid; function names are never variables
+  return tokens.reduceRight((text, token, i) => {
+    const next = tokens[i + 1];
+    const isCall = next?.type === 'symbol' && next.value === '(';
+    if (token.type !== 'name' || token.value !== from || isCall) return text;
+    return text.slice(0, token.end - from.length) + to + text.slice(token.end);
+  }, expression);
+}
+
+// What a part of an expression measures; constants are bare numbers that could be either
+type Dimension = 'length' | 'ratio' | 'constant';
+
+/**
+ * Rewrite the lengths typed into an expression, e.g. when a project switches units
+ * Variables are lengths, so a constant added to, subtracted from or compared with one is a
+ * length too, as is a whole expression of constants; "width + 2" becomes "width + 50.8" in
+ * millimeters while the 2 in "width / 2" is a count and stays. Expressions that don't parse
+ * are returned unchanged.
+ */
+export function convertExpressionLengths(expression: string, convert: (value: number) => number): string {
+  const tree = parse(expression);
+  if (typeof tree === 'string') return expression;
+
+  const lengths: ExpressionNode[] = [];
+  const measure = (node: ExpressionNode): Dimension => {
+    switch (node.type) {
+      case 'number':
+        return 'constant';
+      case 'variable':
+        return 'length';
+      case 'negate':
+        return measure(node.operand);
+      case 'binary': {
+        const left = measure(node.left);
+        const right = measure(node.right);
+        if ((node.op === '+' || node.op === '-') && (left === 'length' || right === 'length')) {
+          if (left === 'constant') lengths.push(node.left);
+          if (right === 'constant') lengths.push(node.right);
+          return 'length';
+        }
+        if (node.op === '*' && (left === 'length' || right === 'length')) return 'length';
+        if (node.op === '/' && left === 'length') return right === 'length' ? 'ratio' : 'length';
+        return left === 'constant' && right === 'constant' ? 'constant' : 'ratio';
+      }
+      case 'call': {
+        const args = node.args.map(measure);
+        if (args.includes('length')) {
+          node.args.forEach((arg, i) => {
+            if (args[i] === 'constant') lengths.push(arg);
+          });
+          return 'length';
+        }
+        return args.includes('ratio') ? 'ratio' : 'constant';
+      }
+    }
+  };
+  if (measure(tree) === 'constant') lengths.push(tree);
+
+  // Replace from the end so earlier positions stay valid
+  return lengths
+    .sort((a, b) => b.start - a.start)
+    .reduce((text, node) => {
+      const value = evaluateExpression(expression.slice(node.start, node.end), new Map()).value;
+      if (value === null) return text;
+      return text.slice(0, node.start) + Number(convert(value).toFixed(4)).toString() + text.slice(node.end);
+    }, expression);
+}
+
+/**
+ * Evaluate an expression against variable values
+ */
+export function evaluateExpression(expression: string, scope: Map<string, number>): ExpressionResult {
+  const tree = parse(expression);
+  if (typeof tree === 'string') return { value: null, error: tree };
+
+  let error: string | null = null;
+  const evaluate = (node: ExpressionNode): number => {
+    switch (node.type) {
+      case 'number':
+        return node.value;
+      case 'variable': {
+        const value = scope.get(node.name);
+        if (value === undefined) {
+          error = error ?? `Unknown variable "${node.name}"`;
+          return NaN;
+        }
+        return value;
+      }
+      case 'negate':
+        return -evaluate(node.operand);
+      case 'binary': {
+        const left = evaluate(node.left);
+        const right = evaluate(node.right);
+        if (node.op === '+') return left + right;
+        if (node.op === '-') return left - right;
+        if (node.op === '*') return left * right;
+        if (right === 0) error = error ?? 'Division by zero';
+        return left / right;
+      }
+      case 'call':
+        return FUNCTIONS[node.name](...node.args.map(evaluate));
+    }
+  };
+
+  const value = evaluate(tree);
+  if (error) return { value: null, error };
+  if (!Number.isFinite(value)) return { value: null, error: 'Result is not a number' };
+  return { value };
+}
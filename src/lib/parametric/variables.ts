@@ -0,0 +1,283 @@
+import { DraftObject, ProjectVariable, ExpressionField, Dimensions, Vector3D, UnitSystem } from '@/types';
+import {
+  ExpressionResult,
+  evaluateExpression,
+  getExpressionVariables,
+  isValidVariableName,
+  renameExpressionVariable,
+  convertExpressionLengths,
+} from './expressions';
+import { fromDisplayLength, toDisplayLength } from '@/lib/units/units';
+
+export interface ModelEvaluation {
+  variables: ProjectVariable[];
+  objects: DraftObject[];
+  errors: string[];               // Expressions that failed, e.g. after a variable was deleted
+}
+
+/**
+ * Find a chain of variables that refer to each other in a loop
+ * Returns the names around the loop with the first repeated at the end, or null.
+ */
+export function findVariableCycle(variables: ProjectVariable[]): string[] | null {
+  const dependencies = new Map(variables.map((v) => [v.name, getExpressionVariables(v.expression)]));
+  const state = new Map<string, 'visiting' | 'done'>();
+  const path: string[] = [];
+
+  const visit = (name: string): string[] | null => {
+    if (state.get(name) === 'done') return null;
+    if (state.get(name) === 'visiting') return [...path.slice(path.indexOf(name)), name];
+
+    state.set(name, 'visiting');
+    path.push(name);
+    for (const dependency of dependencies.get(name) ?? []) {
+      if (!dependencies.has(dependency)) continue;
+      const cycle = visit(dependency);
+      if (cycle) return cycle;
+    }
+    path.pop();
+    state.set(name, 'done');
+    return null;
+  };
+
+  for (const variable of variables) {
+    const cycle = visit(variable.name);
+    if (cycle) return cycle;
+  }
+  return null;
+}
+
+/**
+ * Check a set of variables for bad names, duplicates, broken expressions and cycles
+ */
+export function validateVariables(variables: ProjectVariable[]): { valid: boolean; error?: string } {
+  const names = new Set<string>();
+  for (const variable of variables) {
+    if (!isValidVariableName(variable.name)) {
+      return { valid: false, error: `"${variable.name}" is not a valid name` };
+    }
+    if (names.has(variable.name)) {
+      return { valid: false, error: `"${variable.name}" is already defined` };
+    }
+    names.add(variable.name);
+  }
+
+  const cycle = findVariableCycle(variables);
+  if (cycle) {
+    return { valid: false, error: `Circular reference: ${cycle.join(' → ')}` };
+  }
+
+  const { errors } = evaluateVariables(variables);
+  if (errors.size > 0) {
+    const [name, error] = errors.entries().next().value!;
+    return { valid: false, error: `${name}: ${error}` };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Evaluate variables in dependency order
+ * Returns the values by name, and errors by name for variables that couldn't be evaluated.
+ */
+export function evaluateVariables(variables: ProjectVariable[]): {
+  values: Map<string, number>;
+  errors: Map<string, string>;
+} {
+  const byName = new Map(variables.map((v) => [v.name, v]));
+  const values = new Map<string, number>();
+  const errors = new Map<string, string>();
+  const visiting = new Set<string>();
+
+  const resolve = (name: string) => {
+    if (values.has(name) || errors.has(name)) return;
+    const variable = byName.get(name)!;
+
+    if (visiting.has(name)) {
+      errors.set(name, 'Circular reference');
+      return;
+    }
+
+    // Evaluate what this variable depends on first
+    visiting.add(name);
+    getExpressionVariables(variable.expression)
+      .filter((dependency) => byName.has(dependency))
+      .forEach(resolve);
+    visiting.delete(name);
+
+    if (errors.has(name)) return;
+    const result = evaluateExpression(variable.expression, values);
+    if (result.value === null) {
+      errors.set(name, result.error ?? 'Invalid expression');
+    } else {
+      values.set(name, result.value);
+    }
+  };
+
+  variables.forEach((variable) => resolve(variable.name));
+  return { values, errors };
+}
+
+/**
+ * Rewrite variable and object field expressions that refer to a renamed variable
+ */
+export function renameVariableReferences(
+  objects: DraftObject[],
+  variables: ProjectVariable[],
+  from: string,
+  to: string
+): { objects: DraftObject[]; variables: ProjectVariable[] } {
+  const rename = (expression: string) => renameExpressionVariable(expression, from, to);
+
+  return {
+    objects: objects.map((obj) => {
+      if (!obj.expressions) return obj;
+      const expressions = Object.fromEntries(
+        Object.entries(obj.expressions).map(([field, expression]) => [field, rename(expression)])
+      );
+      return { ...obj, expressions };
+    }),
+    variables: variables.map((v) => ({ ...v, expression: rename(v.expression) })),
+  };
+}
+
+/**
+ * Describe the variables and object fields whose expressions refer to a variable
+ */
+export function findVariableReferences(name: string, objects: DraftObject[], variables: ProjectVariable[]): string[] {
+  const refersTo = (expression: string) => getExpressionVariables(expression).includes(name);
+
+  return [
+    ...variables.filter((v) => v.name !== name && refersTo(v.expression)).map((v) => v.name),
+    ...objects.flatMap((obj) =>
+      Object.entries(obj.expressions ?? {})
+        .filter(([, expression]) => refersTo(expression))
+        .map(([field]) => `${obj.name} ${field}`)
+    ),
+  ];
+}
+
+// An expression field split into the object property and the key within it
+type FieldPath = ['dimensions', keyof Dimensions] | ['localPosition', keyof Vector3D];
+
+function splitField(field: ExpressionField): FieldPath {
+  return field.split('.') as FieldPath;
+}
+
+/**
+ * Read a parametric field from an object
+ */
+export function getFieldValue(obj: DraftObject, field: ExpressionField): number {
+  const [group, key] = splitField(field);
+  return group === 'dimensions' ? obj.dimensions[key] : obj.localPosition[key];
+}
+
+/**
+ * Return a copy of an object with a parametric field set
+ */
+export function setFieldValue(obj: DraftObject, field: ExpressionField, value: number): DraftObject {
+  const [group, key] = splitField(field);
+  return group === 'dimensions'
+    ? { ...obj, dimensions: { ...obj.dimensions, [key]: value } }
+    : { ...obj, localPosition: { ...obj.localPosition, [key]: value } };
+}
+
+/**
+ * Drop the expressions of fields an edit changed directly, so they don't snap back later
+ */
+export function dropOverriddenExpressions(before: DraftObject, after: DraftObject): DraftObject {
+  if (!after.expressions) return after;
+
+  const expressions = { ...after.expressions };
+  (Object.keys(expressions) as ExpressionField[]).forEach((field) => {
+    if (getFieldValue(before, field) !== getFieldValue(after, field)) {
+      delete expressions[field];
+    }
+  });
+  return { ...after, expressions };
+}
+
+/**
+ * Evaluate a field expression and return the length in inches
+ * Variables and numbers in expressions are in the project's unit, e.g. millimeters in metric projects.
+ */
+export function evaluateFieldExpression(
+  expression: string,
+  values: Map<string, number>,
+  units: UnitSystem = 'imperial'
+): ExpressionResult {
+  const result = evaluateExpression(expression, values);
+  return result.value === null ? result : { value: fromDisplayLength(result.value, units) };
+}
+
+/**
+ * Re-evaluate objects' field expressions against variable values
+ * Fields whose expressions fail keep their last value.
+ */
+export function evaluateObjects(
+  objects: DraftObject[],
+  values: Map<string, number>,
+  units: UnitSystem = 'imperial'
+): { objects: DraftObject[]; errors: string[] } {
+  const errors: string[] = [];
+
+  const evaluated = objects.map((obj) => {
+    if (!obj.expressions) return obj;
+
+    return (Object.entries(obj.expressions) as [ExpressionField, string][]).reduce((current, [field, expression]) => {
+      const result = evaluateFieldExpression(expression, values, units);
+      if (result.value === null) {
+        errors.push(`${obj.name} ${field}: ${result.error}`);
+        return current;
+      }
+      return getFieldValue(current, field) === result.value ? current : setFieldValue(current, field, result.value);
+    }, obj);
+  });
+
+  return { objects: evaluated, errors };
+}
+
+/**
+ * Re-evaluate the whole model: variables in dependency order, then every object expression
+ */
+export function evaluateModel(
+  objects: DraftObject[],
+  variables: ProjectVariable[],
+  units: UnitSystem = 'imperial'
+): ModelEvaluation {
+  const { values, errors: variableErrors } = evaluateVariables(variables);
+  const evaluated = evaluateObjects(objects, values, units);
+
+  return {
+    variables: variables.map((v) => (values.has(v.name) ? { ...v, value: values.get(v.name)! } : v)),
+    objects: evaluated.objects,
+    errors: [...Array.from(variableErrors, ([name, error]) => `${name}: ${error}`), ...evaluated.errors],
+  };
+}
+
+/**
+ * Convert variable and object field expressions when the project switches units
+ * Lengths typed into them are rewritten in the new unit so the model keeps its size; counts,
+ * ratios and variable references are left as typed.
+ */
+export function convertExpressionUnits(
+  objects: DraftObject[],
+  variables: ProjectVariable[],
+  from: UnitSystem,
+  to: UnitSystem
+): { objects: DraftObject[]; variables: ProjectVariable[] } {
+  if (from === to) return { objects, variables };
+  const convert = (expression: string) =>
+    convertExpressionLengths(expression, (value) => toDisplayLength(fromDisplayLength(value, from), to));
+
+  return {
+    objects: objects.map((obj) => {
+      if (!obj.expressions) return obj;
+      const expressions = Object.fromEntries(
+        Object.entries(obj.expressions).map(([field, expression]) => [field, convert(expression)])
+      );
+      return { ...obj, expressions };
+    }),
+    variables: variables.map((v) => ({ ...v, expression: convert(v.expression) })),
+  };
+}
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { VIEW_CONFIGS, setupCameraForView, createOrthographicCamera } from '../views';
+import { VIEW_CONFIGS, setupCameraForView, createOrthographicCamera, getViewBasis } from '../views';
 import * as THREE from 'three';
 
 describe('View System', () => {
@@ -75,4 +75,26 @@ describe('View System', () => {
       expect(camera.up.y).toBe(1);
     });
   });
+
+  describe('getViewBasis', () => {
+    it('should map front view to world X/Y', () => {
+      const basis = getViewBasis('front');
+      expect(basis.right.x).toBeCloseTo(1);
+      expect(basis.up.y).toBeCloseTo(1);
+      expect(basis.forward.z).toBeCloseTo(-1);
+    });
+
+    it('should map top view with -Z as screen-up', () => {
+      const basis = getViewBasis('top');
+      expect(basis.right.x).toBeCloseTo(1);
+      expect(basis.up.z).toBeCloseTo(-1);
+      expect(basis.forward.y).toBeCloseTo(-1);
+    });
+
+    it('should map left view with Z as screen-right', () => {
+      const basis = getViewBasis('left');
+      expect(basis.right.z).toBeCloseTo(1);
+      expect(basis.forward.x).toBeCloseTo(1);
+    });
+  });
 });
@@ -1,4 +1,4 @@
-import { ViewType, ViewConfig } from '@/types';
+import { ViewType, ViewConfig, Vector3D } from '@/types';
 import * as THREE from 'three';
 
 /**
@@ -196,3 +196,32 @@ export function createOrthographicCamera(
 
   return camera;
 }
+
+export interface ViewBasis {
+  right: Vector3D;    // World direction of screen-right
+  up: Vector3D;       // World direction of screen-up
+  forward: Vector3D;  // World direction the camera looks along (into the screen)
+}
+
+/**
+ * Get the world-space screen axes for a view
+ * Derived from VIEW_CONFIGS the same way setupCameraForView orients the camera,
+ * so projected drawings match what is on screen.
+ */
+export function getViewBasis(view: ViewType): ViewBasis {
+  const config = VIEW_CONFIGS[view];
+  const eye = new THREE.Vector3(config.cameraPosition.x, config.cameraPosition.y, config.cameraPosition.z);
+  const up = new THREE.Vector3(config.upVector.x, config.upVector.y, config.upVector.z);
+
+  const matrix = new THREE.Matrix4().lookAt(eye, new THREE.Vector3(0, 0, 0), up);
+  const xAxis = new THREE.Vector3();
+  const yAxis = new THREE.Vector3();
+  const zAxis = new THREE.Vector3();
+  matrix.extractBasis(xAxis, yAxis, zAxis);
+
+  return {
+    right: { x: xAxis.x, y: xAxis.y, z: xAxis.z },
+    up: { x: yAxis.x, y: yAxis.y, z: yAxis.z },
+    forward: { x: -zAxis.x, y: -zAxis.y, z: -zAxis.z },
+  };
+}
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseLength,
+  formatLength,
+  formatLengthValue,
+  formatFraction,
+  formatFeetInches,
+  formatLumberVolume,
+  formatArea,
+  formatVolume,
+  getGridSpacing,
+  roundToWholeUnit,
+  MM_PER_INCH,
+} from '../units';
+
+describe('parseLength', () => {
+  it('should read bare numbers in the project unit', () => {
+    expect(parseLength('12.5', 'imperial')).toBe(12.5);
+    expect(parseLength('254', 'metric')).toBeCloseTo(10);
+    expect(parseLength('-3', 'imperial')).toBe(-3);
+  });
+
+  it('should read explicit units in either system', () => {
+    expect(parseLength('18mm', 'imperial')).toBeCloseTo(18 / MM_PER_INCH);
+    expect(parseLength('2.54 cm', 'imperial')).toBeCloseTo(1);
+    expect(parseLength('1m', 'imperial')).toBeCloseTo(39.37, 2);
+    expect(parseLength('3"', 'metric')).toBe(3);
+    expect(parseLength('2\' 6"', 'metric')).toBe(30);
+    expect(parseLength('4ft', 'metric')).toBe(48);
+  });
+
+  it('should read fractions, mixed numbers and feet-inches', () => {
+    expect(parseLength('3 1/2', 'imperial')).toBe(3.5);
+    expect(parseLength('11-1/4', 'imperial')).toBe(11.25);
+    expect(parseLength('30-1/2', 'imperial')).toBe(30.5);
+    expect(parseLength('30 1/2', 'imperial')).toBe(30.5);
+    expect(parseLength('3/8"', 'metric')).toBe(0.375);
+    expect(parseLength('1\'6"', 'imperial')).toBe(18);
+    expect(parseLength('3\' 4-1/2"', 'imperial')).toBe(40.5);
+    expect(parseLength('-1/2', 'imperial')).toBe(-0.5);
+    expect(parseLength('1/0', 'imperial')).toBeNull();
+  });
+
+  it('should return null for expressions', () => {
+    expect(parseLength('width / 2', 'imperial')).toBeNull();
+    expect(parseLength('30 - 1/2', 'imperial')).toBeNull();
+    expect(parseLength('30 -1/2', 'imperial')).toBeNull();
+    expect(parseLength('', 'metric')).toBeNull();
+  });
+});
+
+describe('formatLength', () => {
+  it('should show inches or millimeters', () => {
+    expect(formatLength(12.5, 'imperial')).toBe('12.5"');
+    expect(formatLength(0.3333333, 'imperial')).toBe('0.333"');
+    expect(formatLength(12.5, 'metric')).toBe('317.5 mm');
+    expect(formatLengthValue(0.75, 'metric')).toBe('19.05');
+  });
+
+  it('should show fractions rounded to the chosen precision', () => {
+    expect(formatFraction(11.25, 16)).toBe('11-1/4');
+    expect(formatFraction(0.375, 16)).toBe('3/8');
+    expect(formatFraction(0.1, 16)).toBe('1/8');
+    expect(formatFraction(0.1, 64)).toBe('3/32');
+    expect(formatFraction(11.999, 16)).toBe('12');
+    expect(formatFeetInches(40.5, 16)).toBe('3\' 4-1/2"');
+    expect(formatFeetInches(36, 16)).toBe('3\' 0"');
+    expect(formatLength(11.25, 'imperial', { format: 'fractional', precision: 16 })).toBe('11-1/4"');
+    expect(formatLengthValue(40.5, 'imperial', { format: 'feet-inches', precision: 32 })).toBe('3\' 4-1/2"');
+  });
+
+  it('should read back the fractional values it shows', () => {
+    const display = { format: 'feet-inches' as const, precision: 64 as const };
+    [0.015625, 11.25, 40.5, 97.375].forEach((inches) => {
+      expect(parseLength(formatLengthValue(inches, 'imperial', display), 'imperial')).toBe(inches);
+    });
+  });
+
+  it('should round typed positions to whole units', () => {
+    expect(roundToWholeUnit(12.4, 'imperial')).toBe(12);
+    expect(roundToWholeUnit(12.4, 'metric') * MM_PER_INCH).toBeCloseTo(315);
+  });
+});
+
+describe('material totals', () => {
+  it('should report volume and area in metric units', () => {
+    expect(formatLumberVolume(12, 'imperial')).toBe('12.00 board feet');
+    expect(formatLumberVolume(1, 'metric')).toBe('0.0024 m³');
+    expect(formatArea(48 * 96, 'imperial')).toBe('32.00 ft²');
+    expect(formatArea(48 * 96, 'metric')).toBe('2.97 m²');
+    expect(formatVolume(0.5, 'imperial')).toBe('0.5 in³');
+    expect(formatVolume(0.01, 'metric')).toBe('163.9 mm³');
+    expect(formatVolume(2, 'metric')).toBe('32.77 cm³');
+  });
+});
+
+describe('getGridSpacing', () => {
+  it('should step metric grids in round millimeters', () => {
+    const close = getGridSpacing(10, 'metric');
+    const far = getGridSpacing(0.1, 'metric');
+
+    expect(close.minor * MM_PER_INCH).toBeCloseTo(1);
+    expect(close.major * MM_PER_INCH).toBeCloseTo(10);
+    expect(far.major * MM_PER_INCH).toBeCloseTo(1000);
+    expect(getGridSpacing(10)).toEqual({ major: 1, minor: 0.0625 });
+  });
+});
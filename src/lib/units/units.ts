@@ -0,0 +1,237 @@
+import { UnitSystem, LengthDisplay, LengthFormat, FractionPrecision } from '@/types';
+
+export const MM_PER_INCH = 25.4;
+
+export const DECIMAL_DISPLAY: LengthDisplay = { format: 'decimal', precision: 16 };
+
+export const LENGTH_FORMATS: { value: LengthFormat; label: string }[] = [
+  { value: 'fractional', label: 'Fractions (11-1/4")' },
+  { value: 'feet-inches', label: 'Feet and inches (3\' 4-1/2")' },
+  { value: 'decimal', label: 'Decimal (11.25")' },
+];
+
+export const FRACTION_PRECISIONS: FractionPrecision[] = [16, 32, 64];
+
+export const UNIT_SYSTEMS: { value: UnitSystem; label: string }[] = [
+  { value: 'imperial', label: 'Imperial (inches)' },
+  { value: 'metric', label: 'Metric (millimeters)' },
+];
+
+// Inches in one of each unit a length may be typed in
+const INCHES_PER_UNIT: Record<string, number> = {
+  mm: 1 / MM_PER_INCH,
+  cm: 10 / MM_PER_INCH,
+  m: 1000 / MM_PER_INCH,
+  in: 1,
+  '"': 1,
+  ft: 12,
+  "'": 12,
+};
+
+const LENGTH = /^(.+?)\s*(mm|cm|m|in|"|ft|')?$/;
+const FEET_INCHES = /^(.+?)\s*(?:'|ft)\s*(.+?)\s*(?:"|in)?$/;
+
+// Metric options for the grid and snap menus, stored in inches like the imperial ones
+const mm = (value: number) => ({ value: value / MM_PER_INCH, label: `${value} mm` });
+export const METRIC_GRID_SIZES = [1, 5, 10, 50, 100, 300].map(mm);
+export const METRIC_SNAP_INCREMENTS = [0.5, 1, 2, 5, 10, 25].map(mm);
+
+/**
+ * Short name of the unit lengths are shown in
+ */
+export function getLengthUnit(system: UnitSystem): string {
+  return system === 'metric' ? 'mm' : 'in';
+}
+
+/**
+ * Convert a stored length in inches to the project's unit
+ */
+export function toDisplayLength(inches: number, system: UnitSystem): number {
+  return system === 'metric' ? inches * MM_PER_INCH : inches;
+}
+
+/**
+ * Convert a length in the project's unit back to inches
+ */
+export function fromDisplayLength(value: number, system: UnitSystem): number {
+  return system === 'metric' ? value / MM_PER_INCH : value;
+}
+
+/**
+ * Whole inches and a reduced fraction, e.g. 11-1/4, 3/8 or 12, rounded to the precision
+ */
+export function formatFraction(inches: number, precision: FractionPrecision): string {
+  const steps = Math.round(Math.abs(inches) * precision);
+  const sign = inches < 0 && steps > 0 ? '-' : '';
+  const whole = Math.floor(steps / precision);
+  let numerator = steps % precision;
+  let denominator: number = precision;
+  while (numerator > 0 && numerator % 2 === 0) {
+    numerator /= 2;
+    denominator /= 2;
+  }
+
+  if (numerator === 0) return `${sign}${whole}`;
+  return whole > 0 ? `${sign}${whole}-${numerator}/${denominator}` : `${sign}${numerator}/${denominator}`;
+}
+
+/**
+ * Feet and fractional inches, e.g. 3' 4-1/2"; lengths under a foot show inches only
+ */
+export function formatFeetInches(inches: number, precision: FractionPrecision): string {
+  const steps = Math.round(Math.abs(inches) * precision);
+  const sign = inches < 0 && steps > 0 ? '-' : '';
+  const feet = Math.floor(steps / (12 * precision));
+  const rest = formatFraction((steps - feet * 12 * precision) / precision, precision);
+  return feet > 0 ? `${sign}${feet}' ${rest}"` : `${sign}${rest}"`;
+}
+
+/**
+ * A length as a bare number in the project's unit, for editing in a text field
+ * Fractional formats give the text the parser reads back, e.g. 11-1/4 or 3' 4-1/2".
+ */
+export function formatLengthValue(inches: number, system: UnitSystem, display: LengthDisplay = DECIMAL_DISPLAY): string {
+  if (system === 'metric' || display.format === 'decimal') {
+    return String(Number(toDisplayLength(inches, system).toFixed(system === 'metric' ? 2 : 4)));
+  }
+  return display.format === 'feet-inches'
+    ? formatFeetInches(inches, display.precision)
+    : formatFraction(inches, display.precision);
+}
+
+/**
+ * A length with its unit, e.g. 12.5", 12-1/2", 1' 1/2" or 317.5 mm
+ */
+export function formatLength(inches: number, system: UnitSystem, display: LengthDisplay = DECIMAL_DISPLAY): string {
+  if (system === 'metric') return `${Number((inches * MM_PER_INCH).toFixed(1))} mm`;
+  switch (display.format) {
+    case 'fractional':
+      return `${formatFraction(inches, display.precision)}"`;
+    case 'feet-inches':
+      return formatFeetInches(inches, display.precision);
+    default:
+      return `${Number(inches.toFixed(3))}"`;
+  }
+}
+
+/**
+ * Read an unsigned number written as a decimal, a fraction or a mixed number (3 1/2, 3-1/2)
+ */
+function parseQuantity(text: string): number | null {
+  const decimal = text.match(/^(\d+(?:\.\d*)?|\.\d+)$/);
+  if (decimal) return parseFloat(decimal[1]);
+
+  // Whole and fraction split by spaces or a bare hyphen, 3 1/2 or 11-1/4; "30 - 1/2" is a subtraction
+  const fraction = text.match(/^(?:(\d+)(?:\s+|-))?(\d+)\/(\d+)$/);
+  if (!fraction || parseInt(fraction[3]) === 0) return null;
+  return parseInt(fraction[1] ?? '0') + parseInt(fraction[2]) / parseInt(fraction[3]);
+}
+
+/**
+ * Read a typed length and return it in inches, or null when the text is not a length
+ * A bare number is in the project's unit; any other unit may be given explicitly, e.g.
+ * 18mm in an imperial project, 2' 6" in a metric one. Inches may be fractions: 3 1/2, 1'6-1/4".
+ */
+export function parseLength(text: string, system: UnitSystem): number | null {
+  const trimmed = text.trim().toLowerCase();
+  const sign = trimmed.startsWith('-') ? -1 : 1;
+  const body = trimmed.replace(/^-\s*/, '');
+
+  const length = body.match(LENGTH);
+  const value = length ? parseQuantity(length[1]) : null;
+  if (length && value !== null) {
+    return sign * value * INCHES_PER_UNIT[length[2] ?? getLengthUnit(system)];
+  }
+
+  const feetInches = body.match(FEET_INCHES);
+  if (!feetInches) return null;
+  const feet = parseQuantity(feetInches[1]);
+  const inches = parseQuantity(feetInches[2]);
+  if (feet === null || inches === null) return null;
+  return sign * (feet * 12 + inches);
+}
+
+/**
+ * Round a typed position to the nearest whole inch or millimeter
+ */
+export function roundToWholeUnit(inches: number, system: UnitSystem): number {
+  return fromDisplayLength(Math.round(toDisplayLength(inches, system)), system);
+}
+
+/**
+ * Total lumber volume, in board feet or cubic meters
+ */
+export function formatLumberVolume(boardFeet: number, system: UnitSystem): string {
+  return system === 'metric'
+    ? `${(boardFeet * 144 * Math.pow(MM_PER_INCH / 1000, 3)).toFixed(4)} m³`
+    : `${boardFeet.toFixed(2)} board feet`;
+}
+
+/**
+ * Total length of stock, in linear feet or meters
+ */
+export function formatLinearTotal(feet: number, system: UnitSystem): string {
+  return system === 'metric'
+    ? `${((feet * 12 * MM_PER_INCH) / 1000).toFixed(2)} linear meters`
+    : `${feet.toFixed(2)} linear feet`;
+}
+
+/**
+ * Total face area of parts, in square feet or square meters
+ */
+export function formatArea(squareInches: number, system: UnitSystem): string {
+  return system === 'metric'
+    ? `${(squareInches * Math.pow(MM_PER_INCH / 1000, 2)).toFixed(2)} m²`
+    : `${(squareInches / 144).toFixed(2)} ft²`;
+}
+
+/**
+ * Small solid volume such as an overlap, in cubic inches, or cubic centimeters (mm³ under 1 cm³)
+ */
+export function formatVolume(cubicInches: number, system: UnitSystem): string {
+  if (system === 'imperial') return `${Number(cubicInches.toFixed(3))} in³`;
+  const cubicMillimeters = cubicInches * Math.pow(MM_PER_INCH, 3);
+  return cubicMillimeters < 1000
+    ? `${Number(cubicMillimeters.toFixed(1))} mm³`
+    : `${Number((cubicMillimeters / 1000).toFixed(2))} cm³`;
+}
+
+/**
+ * Determine grid spacing based on zoom level
+ * Returns { major, minor } spacing in inches; metric tiers fall on round millimeters.
+ */
+export function getGridSpacing(zoom: number, system: UnitSystem = 'imperial'): { major: number; minor: number } {
+  if (system === 'metric') {
+    const tier = (major: number, minor: number) => ({ major: major / MM_PER_INCH, minor: minor / MM_PER_INCH });
+    if (zoom > 8) return tier(10, 1);
+    if (zoom > 4) return tier(10, 2);
+    if (zoom > 2) return tier(10, 5);
+    if (zoom > 1) return tier(50, 10);
+    if (zoom > 0.5) return tier(100, 10);
+    if (zoom > 0.25) return tier(500, 100);
+    return tier(1000, 500);
+  }
+
+  if (zoom > 8) {
+    // Very zoomed in: 1/16" minor, 1" major
+    return { major: 1, minor: 0.0625 };
+  } else if (zoom > 4) {
+    // Zoomed in: 1/8" minor, 1" major
+    return { major: 1, minor: 0.125 };
+  } else if (zoom > 2) {
+    // Medium-close: 1/4" minor, 1" major
+    return { major: 1, minor: 0.25 };
+  } else if (zoom > 1) {
+    // Medium: 1/2" minor, 1" major
+    return { major: 1, minor: 0.5 };
+  } else if (zoom > 0.5) {
+    // Medium-far: 1" minor, 12" major
+    return { major: 12, minor: 1 };
+  } else if (zoom > 0.25) {
+    // Far: 3" minor, 12" major
+    return { major: 12, minor: 3 };
+  } else {
+    // Very far: 12" minor, 24" major
+    return { major: 24, minor: 12 };
+  }
+}
@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { useProjectStore } from '../projectStore';
+import { computeWorldTransform } from '@/lib/hierarchy/transforms';
+import { makeBox } from '@/test/fixtures';
+
+const initialState = useProjectStore.getState();
+const activeTab = () => {
+  const { tabs, activeTabIndex } = useProjectStore.getState();
+  return tabs[activeTabIndex];
+};
+
+describe('component instances', () => {
+  beforeEach(() => {
+    useProjectStore.setState(initialState, true);
+    // Generated IDs come from the clock, so give each action its own tick
+    let now = 1000;
+    vi.spyOn(Date, 'now').mockImplementation(() => now++);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should keep a constrained part and its constraint when another instance edits the definition', () => {
+    const store = useProjectStore.getState();
+    store.addObject(makeBox('rail', { width: 30, height: 2, depth: 1 }, { x: 0, y: 10, z: 0 }));
+    store.addObject(makeBox('shelf', { width: 20, height: 0.75, depth: 10 }, { x: 0, y: 11.375, z: 0 }));
+    store.createAssembly('Cabinet', ['rail', 'shelf']);
+    const cabinetId = activeTab().assemblies[0].id;
+    store.saveAssemblyAsComponent(cabinetId);
+    store.placeComponentInstance(activeTab().components[0].id);
+    store.addConstraint({
+      id: 'c1', type: 'butt', objectId: 'shelf', targetId: 'rail', axis: 'y', side: 'max', offset: 0,
+    });
+
+    // Make the rail taller through the second instance
+    const copy = activeTab().objects.find((obj) => obj.componentPartId === 'rail' && obj.id !== 'rail')!;
+    store.updateObject(copy.id, { dimensions: { width: 30, height: 4, depth: 1 } });
+
+    const { objects, assemblies, constraints } = activeTab();
+    const rail = objects.find((obj) => obj.id === 'rail');
+    expect(rail?.dimensions.height).toBe(4);
+    expect(objects.some((obj) => obj.id === 'shelf')).toBe(true);
+    expect(constraints).toHaveLength(1);
+    expect(computeWorldTransform('shelf', objects, assemblies).position.y).toBeCloseTo(12.375);
+  });
+
+  it('should drop constraints on parts removed from the definition through another instance', () => {
+    const store = useProjectStore.getState();
+    store.addObject(makeBox('rail', { width: 30, height: 2, depth: 1 }, { x: 0, y: 10, z: 0 }));
+    store.addObject(makeBox('shelf', { width: 20, height: 0.75, depth: 10 }, { x: 0, y: 11.375, z: 0 }));
+    store.createAssembly('Cabinet', ['rail', 'shelf']);
+    store.saveAssemblyAsComponent(activeTab().assemblies[0].id);
+    store.placeComponentInstance(activeTab().components[0].id);
+    store.addConstraint({
+      id: 'c1', type: 'butt', objectId: 'shelf', targetId: 'rail', axis: 'y', side: 'max', offset: 0,
+    });
+    store.selectObject('shelf');
+
+    const copy = activeTab().objects.find((obj) => obj.componentPartId === 'shelf' && obj.id !== 'shelf')!;
+    store.removeObject(copy.id);
+
+    const { objects, constraints, selectedObjectIds } = activeTab();
+    expect(objects.some((obj) => obj.id === 'shelf')).toBe(false);
+    expect(constraints).toEqual([]);
+    expect(selectedObjectIds).toEqual([]);
+  });
+});
+
+describe('setObjectExpression', () => {
+  beforeEach(() => {
+    useProjectStore.setState(initialState, true);
+  });
+
+  it('should set a round part\'s diameter expression on both fields in one undo step', () => {
+    const store = useProjectStore.getState();
+    store.addObject(makeBox('dowel', { width: 1, height: 1, depth: 12 }, { x: 0, y: 0, z: 0 }, { round: { endDiameter: 0.75 } }));
+    const undoDepth = activeTab().undoStack.length;
+
+    store.setObjectExpression('dowel', ['dimensions.width', 'dimensions.height'], '1/4 + 1/4', { round: {} });
+
+    const dowel = activeTab().objects[0];
+    expect(dowel.dimensions).toEqual({ width: 0.5, height: 0.5, depth: 12 });
+    expect(dowel.expressions).toEqual({ 'dimensions.width': '1/4 + 1/4', 'dimensions.height': '1/4 + 1/4' });
+    expect(dowel.round).toEqual({});
+    expect(activeTab().undoStack).toHaveLength(undoDepth + 1);
+  });
+});
@@ -0,0 +1,54 @@
+import { create } from 'zustand';
+import { LumberPrice } from '@/types';
+
+const STORAGE_KEY = 'draftplan-lumber-prices';
+
+interface PriceState {
+  prices: Record<string, LumberPrice>; // Keyed by library item id
+  setPrice: (id: string, price: LumberPrice | null) => void;
+  loadFromStorage: () => void;
+}
+
+// Load prices from localStorage
+const loadPrices = (): Record<string, LumberPrice> => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+    }
+  } catch (error) {
+    console.error('Failed to load lumber prices from localStorage:', error);
+  }
+  return {};
+};
+
+// Save prices to localStorage
+const savePrices = (prices: Record<string, LumberPrice>) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(prices));
+  } catch (error) {
+    console.error('Failed to save lumber prices to localStorage:', error);
+  }
+};
+
+export const usePriceStore = create<PriceState>((set) => ({
+  prices: loadPrices(),
+
+  setPrice: (id, price) => {
+    set((state) => {
+      const prices = { ...state.prices };
+      if (price) {
+        prices[id] = price;
+      } else {
+        delete prices[id];
+      }
+      savePrices(prices);
+      return { prices };
+    });
+  },
+
+  loadFromStorage: () => {
+    set({ prices: loadPrices() });
+  },
+}));
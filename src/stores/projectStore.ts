@@ -1,22 +1,50 @@
 import { create } from 'zustand';
-import { DraftObject, Assembly, DimensionLine, CameraState, ViewType, ProjectInfo, ProjectFile, Vector3D } from '@/types';
+import { DraftObject, Assembly, ComponentDefinition, ProjectVariable, ExpressionField, PartConstraint, AllowedInterference, Joint, DimensionLine, SectionPlane, CameraState, ViewType, ProjectInfo, ProjectFile, Vector3D } from '@/types';
 import {
   computeWorldTransform,
   worldToLocalPosition,
   isNodeVisible,
+  getDescendants,
 } from '@/lib/hierarchy/transforms';
 import {
   reparentNode as reparentNodeUtil,
   deleteNodeCascade,
   moveNodeInWorldSpace,
   reorderChildren as reorderChildrenUtil,
+  addChildToAssembly,
+  getNodesCenter,
+  moveAssemblyPivot,
 } from '@/lib/hierarchy/operations';
+import {
+  captureComponentParts,
+  instantiateComponentParts,
+  getInstanceRootId,
+  propagateInstanceEdit,
+  getComponentWidth,
+} from '@/lib/hierarchy/components';
+import {
+  evaluateModel,
+  evaluateObjects,
+  evaluateVariables,
+  evaluateFieldExpression,
+  convertExpressionUnits,
+  setFieldValue,
+  dropOverriddenExpressions,
+  renameVariableReferences,
+} from '@/lib/parametric/variables';
+import { solveConstraints } from '@/lib/geometry/constraints';
 import { addRecentProject } from '@/lib/storage/recentProjects';
 
 interface HistorySnapshot {
   objects: DraftObject[];
   assemblies: Assembly[];
   dimensionLines: DimensionLine[];
+  sectionPlanes: SectionPlane[];
+  components: ComponentDefinition[];
+  variables: ProjectVariable[];
+  constraints: PartConstraint[];
+  allowedInterferences: AllowedInterference[];
+  joints: Joint[];
 }
 
 // Individual project tab state
@@ -28,8 +56,15 @@ interface ProjectTab {
   objects: DraftObject[];
   assemblies: Assembly[];
   dimensionLines: DimensionLine[];
+  sectionPlanes: SectionPlane[];
+  components: ComponentDefinition[];
+  variables: ProjectVariable[];
+  constraints: PartConstraint[];
+  allowedInterferences: AllowedInterference[];
+  joints: Joint[];
   camera: CameraState;
   selectedObjectIds: string[];
+  selectedAssemblyId: string | null; // Assembly picked in the tree, edited as a unit
   undoStack: HistorySnapshot[];
   redoStack: HistorySnapshot[];
 }
@@ -46,6 +81,12 @@ interface ProjectState {
   get objects(): DraftObject[];
   get assemblies(): Assembly[];
   get dimensionLines(): DimensionLine[];
+  get sectionPlanes(): SectionPlane[];
+  get components(): ComponentDefinition[];
+  get variables(): ProjectVariable[];
+  get constraints(): PartConstraint[];
+  get allowedInterferences(): AllowedInterference[];
+  get joints(): Joint[];
   get camera(): CameraState;
   get selectedObjectIds(): string[];
 
@@ -68,7 +109,9 @@ interface ProjectState {
 
   // Assembly management (hierarchical)
   createAssembly: (name: string, childIds: string[], color?: string, parentId?: string) => void;
-  updateAssembly: (id: string, updates: Partial<Assembly>) => void;
+  updateAssembly: (id: string, updates: Partial<Assembly>, skipHistory?: boolean) => void;
+  updateAssemblyPosition: (id: string, worldPosition: Vector3D, skipHistory?: boolean) => void;
+  centerAssemblyPivot: (id: string) => void;
   deleteNode: (id: string) => void;
   toggleNodeVisibility: (id: string) => void;
   toggleAssemblyExpansion: (id: string) => void;
@@ -76,6 +119,37 @@ interface ProjectState {
   reparentNode: (nodeId: string, newParentId?: string) => void;
   reorderChildren: (parentId: string | undefined, fromIndex: number, toIndex: number) => void;
 
+  // Reusable components
+  saveAssemblyAsComponent: (assemblyId: string) => void;
+  placeComponentInstance: (componentId: string) => void;
+  detachComponentInstance: (instanceId: string) => void;
+  removeComponent: (componentId: string) => void;
+
+  // Parametric variables and expressions
+  addVariable: (variable: ProjectVariable) => void;
+  updateVariable: (id: string, updates: Partial<ProjectVariable>) => void;
+  removeVariable: (id: string) => void;
+  setObjectExpression: (
+    id: string,
+    field: ExpressionField | ExpressionField[],
+    expression: string,
+    updates?: Partial<DraftObject>
+  ) => void;
+
+  // Part constraints
+  addConstraint: (constraint: PartConstraint) => void;
+  updateConstraint: (id: string, updates: Partial<PartConstraint>) => void;
+  removeConstraint: (id: string) => void;
+
+  // Interference checks
+  allowInterference: (objectIds: [string, string], note?: string) => void;
+  removeAllowedInterference: (id: string) => void;
+
+  // Joinery
+  addJoint: (joint: Joint) => void;
+  updateJoint: (id: string, updates: Partial<Joint>) => void;
+  removeJoint: (id: string) => void;
+
   // Array tool
   createArray: (objectId: string, direction: 'x' | 'y' | 'z', count: number, spacing: number, createAsAssembly: boolean) => void;
 
@@ -88,6 +162,11 @@ interface ProjectState {
   updateDimensionLine: (id: string, updates: Partial<DimensionLine>) => void;
   removeDimensionLine: (id: string) => void;
 
+  // Section plane management
+  addSectionPlane: (plane: SectionPlane) => void;
+  updateSectionPlane: (id: string, updates: Partial<SectionPlane>) => void;
+  removeSectionPlane: (id: string) => void;
+
   // Undo/Redo
   undo: () => void;
   redo: () => void;
@@ -116,21 +195,99 @@ const createEmptyTab = (name?: string, id?: string): ProjectTab => ({
   objects: [],
   assemblies: [],
   dimensionLines: [],
+  sectionPlanes: [],
+  components: [],
+  variables: [],
+  constraints: [],
+  allowedInterferences: [],
+  joints: [],
   camera: {
     currentView: 'front',
     zoom: 1.0,
     panOffset: { x: 0, y: 0 },
   },
   selectedObjectIds: [],
+  selectedAssemblyId: null,
   undoStack: [],
   redoStack: [],
 });
 
-// Helper function to create a deep copy of objects, assemblies, and dimension lines
+// Push edits made inside component instances to their definitions and the other instances
+const syncEditedInstances = (
+  instanceIds: (string | null)[],
+  objects: DraftObject[],
+  assemblies: Assembly[],
+  components: ComponentDefinition[]
+) =>
+  instanceIds.reduce(
+    (result, instanceId) =>
+      instanceId ? propagateInstanceEdit(instanceId, result.objects, result.assemblies, result.components) : result,
+    { objects, assemblies, components }
+  );
+
+// Move constrained parts back into place after an edit, carrying the moves into component instances
+const applyConstraints = (
+  objects: DraftObject[],
+  assemblies: Assembly[],
+  components: ComponentDefinition[],
+  constraints: PartConstraint[]
+) => {
+  const { positions } = solveConstraints(objects, assemblies, constraints);
+  if (positions.size === 0) {
+    return { objects, assemblies, components };
+  }
+
+  const solved = objects.map((obj) =>
+    positions.has(obj.id)
+      ? { ...obj, localPosition: worldToLocalPosition(positions.get(obj.id)!, obj.parentId, objects, assemblies) }
+      : obj
+  );
+  return syncEditedInstances(
+    Array.from(positions.keys(), (id) => getInstanceRootId(id, objects, assemblies)),
+    solved,
+    assemblies,
+    components
+  );
+};
+
+// Drop constraints, joints, allowed interferences and selections on parts no longer in the model
+const pruneReferences = (tab: ProjectTab, objects: DraftObject[]) => {
+  const ids = new Set(objects.map((obj) => obj.id));
+  return {
+    constraints: tab.constraints.filter((c) => ids.has(c.objectId) && ids.has(c.targetId)),
+    allowedInterferences: tab.allowedInterferences.filter((a) => a.objectIds.every((objectId) => ids.has(objectId))),
+    joints: tab.joints.filter((j) => ids.has(j.hostId) && ids.has(j.insertId)),
+    selectedObjectIds: tab.selectedObjectIds.filter((selectedId) => ids.has(selectedId)),
+  };
+};
+
+// Re-evaluate the model after the variables change, including component definition parts
+const applyVariables = (tab: ProjectTab, variables: ProjectVariable[]) => {
+  const units = tab.projectInfo.units || 'imperial';
+  const model = evaluateModel(tab.objects, variables, units);
+  const { values } = evaluateVariables(variables);
+  const components = tab.components.map((component) => ({
+    ...component,
+    objects: evaluateObjects(component.objects, values, units).objects,
+  }));
+
+  return {
+    variables: model.variables,
+    ...applyConstraints(model.objects, tab.assemblies, components, tab.constraints),
+  };
+};
+
+// Helper function to create a deep copy of the undoable project data
 const createSnapshot = (tab: ProjectTab): HistorySnapshot => ({
   objects: JSON.parse(JSON.stringify(tab.objects)),
   assemblies: JSON.parse(JSON.stringify(tab.assemblies)),
   dimensionLines: JSON.parse(JSON.stringify(tab.dimensionLines)),
+  sectionPlanes: JSON.parse(JSON.stringify(tab.sectionPlanes)),
+  components: JSON.parse(JSON.stringify(tab.components)),
+  variables: JSON.parse(JSON.stringify(tab.variables)),
+  constraints: JSON.parse(JSON.stringify(tab.constraints)),
+  allowedInterferences: JSON.parse(JSON.stringify(tab.allowedInterferences)),
+  joints: JSON.parse(JSON.stringify(tab.joints)),
 });
 
 export const useProjectStore = create<ProjectState>((set, get) => ({
@@ -163,6 +320,30 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
     const state = get();
     return state.tabs[state.activeTabIndex]?.dimensionLines || [];
   },
+  get sectionPlanes() {
+    const state = get();
+    return state.tabs[state.activeTabIndex]?.sectionPlanes || [];
+  },
+  get components() {
+    const state = get();
+    return state.tabs[state.activeTabIndex]?.components || [];
+  },
+  get variables() {
+    const state = get();
+    return state.tabs[state.activeTabIndex]?.variables || [];
+  },
+  get constraints() {
+    const state = get();
+    return state.tabs[state.activeTabIndex]?.constraints || [];
+  },
+  get allowedInterferences() {
+    const state = get();
+    return state.tabs[state.activeTabIndex]?.allowedInterferences || [];
+  },
+  get joints() {
+    const state = get();
+    return state.tabs[state.activeTabIndex]?.joints || [];
+  },
   get camera() {
     const state = get();
     return state.tabs[state.activeTabIndex]?.camera || createEmptyTab().camera;
@@ -184,8 +365,15 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
             objects: project.objects,
             assemblies: project.assemblies,
             dimensionLines: project.dimensionLines || [], // Support older files without dimensionLines
+            sectionPlanes: project.sectionPlanes || [],
+            components: project.components || [],
+            variables: project.variables || [],
+            constraints: project.constraints || [],
+            allowedInterferences: project.allowedInterferences || [],
+            joints: project.joints || [],
             camera: project.camera,
             selectedObjectIds: [],
+            selectedAssemblyId: null,
             undoStack: [],
             redoStack: [],
           }
@@ -262,12 +450,18 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
         activeTab.objects,
         activeTab.assemblies
       );
+      const synced = syncEditedInstances(
+        [getInstanceRootId(id, activeTab.objects, activeTab.assemblies)],
+        updatedObjects,
+        updatedAssemblies,
+        activeTab.components
+      );
 
       tabs[state.activeTabIndex] = {
         ...activeTab,
-        objects: updatedObjects,
-        assemblies: updatedAssemblies,
-        selectedObjectIds: activeTab.selectedObjectIds.filter((selectedId) => selectedId !== id),
+        ...synced,
+        // Drop references to the object, any children removed with it and its copies in other instances
+        ...pruneReferences(activeTab, synced.objects),
         hasUnsavedChanges: true,
         undoStack: [...activeTab.undoStack, snapshot],
         redoStack: [],
@@ -286,12 +480,22 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
       const objectIndex = activeTab.objects.findIndex((obj) => obj.id === id);
       if (objectIndex === -1) return state;
 
+      // Values typed or dragged directly replace the expressions they came from
       const updatedObjects = [...activeTab.objects];
-      updatedObjects[objectIndex] = { ...updatedObjects[objectIndex], ...updates };
+      updatedObjects[objectIndex] = dropOverriddenExpressions(
+        updatedObjects[objectIndex],
+        { ...updatedObjects[objectIndex], ...updates }
+      );
+      const synced = syncEditedInstances(
+        [getInstanceRootId(id, activeTab.objects, activeTab.assemblies)],
+        updatedObjects,
+        activeTab.assemblies,
+        activeTab.components
+      );
 
       tabs[state.activeTabIndex] = {
         ...activeTab,
-        objects: updatedObjects,
+        ...applyConstraints(synced.objects, synced.assemblies, synced.components, activeTab.constraints),
         hasUnsavedChanges: true,
         undoStack: snapshot ? [...activeTab.undoStack, snapshot] : activeTab.undoStack,
         redoStack: snapshot ? [] : activeTab.redoStack,
@@ -318,6 +522,7 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
       tabs[state.activeTabIndex] = {
         ...activeTab,
         selectedObjectIds: newSelection,
+        selectedAssemblyId: null,
       };
 
       return { tabs };
@@ -332,6 +537,7 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
       tabs[state.activeTabIndex] = {
         ...activeTab,
         selectedObjectIds: [],
+        selectedAssemblyId: null,
       };
 
       return { tabs };
@@ -401,12 +607,29 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
       const activeTab = tabs[state.activeTabIndex];
       if (!activeTab) return state;
 
+      const projectInfo = { ...activeTab.projectInfo, ...info, modified: new Date().toISOString() };
       tabs[state.activeTabIndex] = {
         ...activeTab,
-        projectInfo: { ...activeTab.projectInfo, ...info, modified: new Date().toISOString() },
+        projectInfo,
         hasUnsavedChanges: true,
       };
 
+      // Expressions are in the project's unit, so a unit switch converts them to keep the model's size
+      const from = activeTab.projectInfo.units || 'imperial';
+      const to = projectInfo.units || 'imperial';
+      if (from !== to) {
+        const converted = convertExpressionUnits(activeTab.objects, activeTab.variables, from, to);
+        const tab = {
+          ...tabs[state.activeTabIndex],
+          objects: converted.objects,
+          components: activeTab.components.map((component) => ({
+            ...component,
+            objects: convertExpressionUnits(component.objects, [], from, to).objects,
+          })),
+        };
+        tabs[state.activeTabIndex] = { ...tab, ...applyVariables(tab, converted.variables) };
+      }
+
       return { tabs };
     }),
 
@@ -427,10 +650,17 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
           objects: project.objects,
           assemblies: project.assemblies,
           dimensionLines: project.dimensionLines || [], // Support older files without dimensionLines
+          sectionPlanes: project.sectionPlanes || [],
+          components: project.components || [],
+          variables: project.variables || [],
+          constraints: project.constraints || [],
+          allowedInterferences: project.allowedInterferences || [],
+          joints: project.joints || [],
           camera: project.camera,
           currentFilePath: filePath || null,
           hasUnsavedChanges: false,
           selectedObjectIds: [],
+          selectedAssemblyId: null,
           undoStack: [],
           redoStack: [],
         };
@@ -449,6 +679,12 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
       objects: [],
       assemblies: [],
       dimensionLines: [],
+      sectionPlanes: [],
+      components: [],
+      variables: [],
+      constraints: [],
+      allowedInterferences: [],
+      joints: [],
       camera: createEmptyTab().camera,
       settings: { gridVisible: true, rulersVisible: true, theme: 'light' }
     };
@@ -459,6 +695,12 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
       objects: activeTab.objects,
       assemblies: activeTab.assemblies,
       dimensionLines: activeTab.dimensionLines,
+      sectionPlanes: activeTab.sectionPlanes,
+      components: activeTab.components,
+      variables: activeTab.variables,
+      constraints: activeTab.constraints,
+      allowedInterferences: activeTab.allowedInterferences,
+      joints: activeTab.joints,
       camera: activeTab.camera,
       settings: { gridVisible: true, rulersVisible: true, theme: 'light' },
     };
@@ -504,32 +746,37 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
       if (!activeTab) return state;
 
       const snapshot = createSnapshot(activeTab);
+
+      // Put the pivot at the center of the grouped parts so the assembly rotates about its middle
+      const center = getNodesCenter(childIds, activeTab.objects, activeTab.assemblies);
       const newAssembly: Assembly = {
         id: `assembly-${Date.now()}`,
         name,
         color: color || `#${Math.floor(Math.random() * 16777215).toString(16)}`,
         visible: true,
         notes: '',
-        children: childIds,
+        childIds: [],
         parentId: parentId,
-        expanded: true,
-        localPosition: { x: 0, y: 0, z: 0 },
+        isExpanded: true,
+        localPosition: worldToLocalPosition(center, parentId, activeTab.objects, activeTab.assemblies),
         rotation: { x: 0, y: 0, z: 0 },
       };
 
-      // Update children's parentId
-      const updatedObjects = activeTab.objects.map((obj) =>
-        childIds.includes(obj.id) ? { ...obj, parentId: newAssembly.id } : obj
-      );
+      let objects = activeTab.objects;
+      let assemblies = [...activeTab.assemblies, newAssembly];
+      if (parentId) {
+        assemblies = addChildToAssembly(parentId, newAssembly.id, assemblies);
+      }
 
-      const updatedAssemblies = activeTab.assemblies.map((asm) =>
-        childIds.includes(asm.id) ? { ...asm, parentId: newAssembly.id } : asm
-      );
+      // Move the children under the new assembly, keeping their world transforms
+      childIds.forEach((childId) => {
+        ({ objects, assemblies } = reparentNodeUtil(childId, newAssembly.id, objects, assemblies));
+      });
 
       tabs[state.activeTabIndex] = {
         ...activeTab,
-        assemblies: [...updatedAssemblies, newAssembly],
-        objects: updatedObjects,
+        assemblies,
+        objects,
         hasUnsavedChanges: true,
         undoStack: [...activeTab.undoStack, snapshot],
         redoStack: [],
@@ -538,22 +785,236 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
       return { tabs };
     }),
 
-  updateAssembly: (id, updates) =>
+  updateAssembly: (id, updates, skipHistory = false) =>
     set((state) => {
       const tabs = [...state.tabs];
       const activeTab = tabs[state.activeTabIndex];
       if (!activeTab) return state;
 
-      const snapshot = createSnapshot(activeTab);
+      const snapshot = skipHistory ? null : createSnapshot(activeTab);
       const assemblyIndex = activeTab.assemblies.findIndex((asm) => asm.id === id);
       if (assemblyIndex === -1) return state;
 
       const updatedAssemblies = [...activeTab.assemblies];
       updatedAssemblies[assemblyIndex] = { ...updatedAssemblies[assemblyIndex], ...updates };
+      const synced = syncEditedInstances(
+        [getInstanceRootId(id, activeTab.objects, activeTab.assemblies)],
+        activeTab.objects,
+        updatedAssemblies,
+        activeTab.components
+      );
 
       tabs[state.activeTabIndex] = {
         ...activeTab,
-        assemblies: updatedAssemblies,
+        ...applyConstraints(synced.objects, synced.assemblies, synced.components, activeTab.constraints),
+        hasUnsavedChanges: true,
+        undoStack: snapshot ? [...activeTab.undoStack, snapshot] : activeTab.undoStack,
+        redoStack: snapshot ? [] : activeTab.redoStack,
+      };
+
+      return { tabs };
+    }),
+
+  updateAssemblyPosition: (id, worldPosition, skipHistory = false) =>
+    set((state) => {
+      const tabs = [...state.tabs];
+      const activeTab = tabs[state.activeTabIndex];
+      if (!activeTab) return state;
+
+      const snapshot = skipHistory ? null : createSnapshot(activeTab);
+      const assembly = activeTab.assemblies.find((asm) => asm.id === id);
+      if (!assembly) return state;
+
+      // Convert the pivot's world position to local position; children follow the pivot
+      const localPos = worldToLocalPosition(worldPosition, assembly.parentId, activeTab.objects, activeTab.assemblies);
+
+      const synced = syncEditedInstances(
+        [getInstanceRootId(id, activeTab.objects, activeTab.assemblies)],
+        activeTab.objects,
+        activeTab.assemblies.map((asm) => (asm.id === id ? { ...asm, localPosition: localPos } : asm)),
+        activeTab.components
+      );
+
+      tabs[state.activeTabIndex] = {
+        ...activeTab,
+        ...applyConstraints(synced.objects, synced.assemblies, synced.components, activeTab.constraints),
+        hasUnsavedChanges: true,
+        undoStack: snapshot ? [...activeTab.undoStack, snapshot] : activeTab.undoStack,
+        redoStack: snapshot ? [] : activeTab.redoStack,
+      };
+
+      return { tabs };
+    }),
+
+  centerAssemblyPivot: (id) =>
+    set((state) => {
+      const tabs = [...state.tabs];
+      const activeTab = tabs[state.activeTabIndex];
+      if (!activeTab) return state;
+
+      const snapshot = createSnapshot(activeTab);
+      const center = getNodesCenter([id], activeTab.objects, activeTab.assemblies);
+      const moved = moveAssemblyPivot(id, center, activeTab.objects, activeTab.assemblies);
+      const synced = syncEditedInstances(
+        [getInstanceRootId(id, activeTab.objects, activeTab.assemblies)],
+        moved.objects,
+        moved.assemblies,
+        activeTab.components
+      );
+
+      tabs[state.activeTabIndex] = {
+        ...activeTab,
+        ...synced,
+        hasUnsavedChanges: true,
+        undoStack: [...activeTab.undoStack, snapshot],
+        redoStack: [],
+      };
+
+      return { tabs };
+    }),
+
+  saveAssemblyAsComponent: (assemblyId) =>
+    set((state) => {
+      const tabs = [...state.tabs];
+      const activeTab = tabs[state.activeTabIndex];
+      if (!activeTab) return state;
+
+      const assembly = activeTab.assemblies.find((asm) => asm.id === assemblyId);
+      if (!assembly || assembly.componentId) return state;
+
+      const snapshot = createSnapshot(activeTab);
+      const { parts, partIds } = captureComponentParts(assemblyId, activeTab.objects, activeTab.assemblies);
+      const component: ComponentDefinition = {
+        id: `component-${Date.now()}`,
+        name: assembly.name,
+        color: assembly.color,
+        ...parts,
+      };
+
+      // The assembly becomes the first instance, and its parts are linked to the definition
+      tabs[state.activeTabIndex] = {
+        ...activeTab,
+        objects: activeTab.objects.map((obj) =>
+          partIds.has(obj.id) ? { ...obj, componentPartId: partIds.get(obj.id) } : obj
+        ),
+        assemblies: activeTab.assemblies.map((asm) =>
+          asm.id === assemblyId
+            ? { ...asm, componentId: component.id }
+            : partIds.has(asm.id)
+              ? { ...asm, componentPartId: partIds.get(asm.id) }
+              : asm
+        ),
+        components: [...activeTab.components, component],
+        hasUnsavedChanges: true,
+        undoStack: [...activeTab.undoStack, snapshot],
+        redoStack: [],
+      };
+
+      return { tabs };
+    }),
+
+  placeComponentInstance: (componentId) =>
+    set((state) => {
+      const tabs = [...state.tabs];
+      const activeTab = tabs[state.activeTabIndex];
+      if (!activeTab) return state;
+
+      const component = activeTab.components.find((c) => c.id === componentId);
+      if (!component) return state;
+
+      const snapshot = createSnapshot(activeTab);
+
+      // Place the new instance beside the last one, with a 2" gap
+      const instances = activeTab.assemblies.filter((asm) => asm.componentId === componentId);
+      const last = instances[instances.length - 1];
+      const lastPosition = last
+        ? computeWorldTransform(last.id, activeTab.objects, activeTab.assemblies).position
+        : { x: 0, y: 0, z: 0 };
+
+      const instanceId = `assembly-${Date.now()}`;
+      const copies = instantiateComponentParts(component, instanceId);
+      const instance: Assembly = {
+        id: instanceId,
+        name: `${component.name} ${instances.length + 1}`,
+        color: component.color,
+        visible: true,
+        notes: '',
+        childIds: copies.childIds,
+        isExpanded: false,
+        localPosition: { ...lastPosition, x: lastPosition.x + (last ? getComponentWidth(component) + 2 : 0) },
+        rotation: { x: 0, y: 0, z: 0 },
+        componentId,
+      };
+
+      tabs[state.activeTabIndex] = {
+        ...activeTab,
+        objects: [...activeTab.objects, ...copies.objects],
+        assemblies: [...activeTab.assemblies, instance, ...copies.assemblies],
+        selectedObjectIds: copies.objects.map((obj) => obj.id),
+        selectedAssemblyId: instanceId,
+        hasUnsavedChanges: true,
+        undoStack: [...activeTab.undoStack, snapshot],
+        redoStack: [],
+      };
+
+      return { tabs };
+    }),
+
+  detachComponentInstance: (instanceId) =>
+    set((state) => {
+      const tabs = [...state.tabs];
+      const activeTab = tabs[state.activeTabIndex];
+      if (!activeTab) return state;
+
+      const snapshot = createSnapshot(activeTab);
+      const partIds = new Set(getDescendants(instanceId, activeTab.objects, activeTab.assemblies));
+
+      // The parts stay where they are but no longer follow the definition
+      tabs[state.activeTabIndex] = {
+        ...activeTab,
+        objects: activeTab.objects.map((obj) =>
+          partIds.has(obj.id) ? { ...obj, componentPartId: undefined } : obj
+        ),
+        assemblies: activeTab.assemblies.map((asm) =>
+          asm.id === instanceId
+            ? { ...asm, componentId: undefined }
+            : partIds.has(asm.id)
+              ? { ...asm, componentPartId: undefined }
+              : asm
+        ),
+        hasUnsavedChanges: true,
+        undoStack: [...activeTab.undoStack, snapshot],
+        redoStack: [],
+      };
+
+      return { tabs };
+    }),
+
+  removeComponent: (componentId) =>
+    set((state) => {
+      const tabs = [...state.tabs];
+      const activeTab = tabs[state.activeTabIndex];
+      if (!activeTab) return state;
+
+      const snapshot = createSnapshot(activeTab);
+
+      // Existing instances are kept as ordinary assemblies
+      const instanceIds = activeTab.assemblies.filter((asm) => asm.componentId === componentId).map((asm) => asm.id);
+      const partIds = new Set(instanceIds.flatMap((id) => getDescendants(id, activeTab.objects, activeTab.assemblies)));
+
+      tabs[state.activeTabIndex] = {
+        ...activeTab,
+        objects: activeTab.objects.map((obj) =>
+          partIds.has(obj.id) ? { ...obj, componentPartId: undefined } : obj
+        ),
+        assemblies: activeTab.assemblies.map((asm) =>
+          asm.componentId === componentId
+            ? { ...asm, componentId: undefined }
+            : partIds.has(asm.id)
+              ? { ...asm, componentPartId: undefined }
+              : asm
+        ),
+        components: activeTab.components.filter((c) => c.id !== componentId),
         hasUnsavedChanges: true,
         undoStack: [...activeTab.undoStack, snapshot],
         redoStack: [],
@@ -571,17 +1032,27 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
       const snapshot = createSnapshot(activeTab);
 
       // Use deleteNodeCascade to properly remove the node and all its children
-      const { objects: updatedObjects, assemblies: updatedAssemblies } = deleteNodeCascade(
+      const { objects: cascadedObjects, assemblies: cascadedAssemblies } = deleteNodeCascade(
         id,
         activeTab.objects,
         activeTab.assemblies
       );
+      const { objects: updatedObjects, assemblies: updatedAssemblies, components } = syncEditedInstances(
+        [getInstanceRootId(id, activeTab.objects, activeTab.assemblies)],
+        cascadedObjects,
+        cascadedAssemblies,
+        activeTab.components
+      );
 
       tabs[state.activeTabIndex] = {
         ...activeTab,
         objects: updatedObjects,
         assemblies: updatedAssemblies,
-        selectedObjectIds: activeTab.selectedObjectIds.filter((selectedId) => selectedId !== id),
+        components,
+        ...pruneReferences(activeTab, updatedObjects),
+        selectedAssemblyId: updatedAssemblies.some((asm) => asm.id === activeTab.selectedAssemblyId)
+          ? activeTab.selectedAssemblyId
+          : null,
         hasUnsavedChanges: true,
         undoStack: [...activeTab.undoStack, snapshot],
         redoStack: [],
@@ -645,7 +1116,7 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
       const updatedAssemblies = [...activeTab.assemblies];
       updatedAssemblies[assemblyIndex] = {
         ...updatedAssemblies[assemblyIndex],
-        expanded: !updatedAssemblies[assemblyIndex].expanded,
+        isExpanded: !updatedAssemblies[assemblyIndex].isExpanded,
       };
 
       tabs[state.activeTabIndex] = {
@@ -685,6 +1156,7 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
       tabs[state.activeTabIndex] = {
         ...activeTab,
         selectedObjectIds: objectIds,
+        selectedAssemblyId: id,
       };
 
       return { tabs };
@@ -698,17 +1170,31 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
 
       const snapshot = createSnapshot(activeTab);
 
-      const { objects, assemblies } = reparentNodeUtil(
+      const reparented = reparentNodeUtil(
         nodeId,
         newParentId,
         activeTab.objects,
         activeTab.assemblies
       );
 
+      // Both the instance the node left and the one it joined change
+      const { objects, assemblies, components } = syncEditedInstances(
+        [
+          getInstanceRootId(nodeId, activeTab.objects, activeTab.assemblies),
+          getInstanceRootId(nodeId, reparented.objects, reparented.assemblies),
+        ],
+        reparented.objects,
+        reparented.assemblies,
+        activeTab.components
+      );
+
       tabs[state.activeTabIndex] = {
         ...activeTab,
         objects,
         assemblies,
+        components,
+        // Copies of a part moved out of an instance leave the other instances
+        ...pruneReferences(activeTab, objects),
         hasUnsavedChanges: true,
         undoStack: [...activeTab.undoStack, snapshot],
         redoStack: [],
@@ -777,51 +1263,51 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
         newObjectIds.push(newObject.id);
       }
 
-      const updatedObjects = [...activeTab.objects, ...newObjects];
-      let updatedAssemblies = activeTab.assemblies;
+      let objects = [...activeTab.objects, ...newObjects];
+      let assemblies = activeTab.assemblies;
 
       // Create assembly if requested
       if (createAsAssembly) {
         const allObjectIds = [objectId, ...newObjectIds];
-        const assemblyName = `${sourceObject.name} Array (${count})`;
+        const parentId = sourceObject.parentId;
         const newAssembly: Assembly = {
           id: `assembly-${Date.now()}`,
-          name: assemblyName,
+          name: `${sourceObject.name} Array (${count})`,
           color: `#${Math.floor(Math.random() * 16777215).toString(16).padStart(6, '0')}`,
           visible: true,
           notes: `Array of ${count} copies along ${direction.toUpperCase()} axis with ${spacing}" spacing`,
-          children: allObjectIds,
-          parentId: sourceObject.parentId,
-          expanded: true,
-          localPosition: { x: 0, y: 0, z: 0 },
+          childIds: [],
+          parentId,
+          isExpanded: true,
+          localPosition: worldToLocalPosition(getNodesCenter(allObjectIds, objects, assemblies), parentId, objects, assemblies),
           rotation: { x: 0, y: 0, z: 0 },
         };
 
-        // Update parent IDs for all objects in the array
-        const finalObjects = updatedObjects.map((obj) =>
-          allObjectIds.includes(obj.id) ? { ...obj, parentId: newAssembly.id } : obj
-        );
-
-        updatedAssemblies = [...activeTab.assemblies, newAssembly];
-
-        tabs[state.activeTabIndex] = {
-          ...activeTab,
-          objects: finalObjects,
-          assemblies: updatedAssemblies,
-          hasUnsavedChanges: true,
-          undoStack: [...activeTab.undoStack, snapshot],
-          redoStack: [],
-        };
-      } else {
-        tabs[state.activeTabIndex] = {
-          ...activeTab,
-          objects: updatedObjects,
-          hasUnsavedChanges: true,
-          undoStack: [...activeTab.undoStack, snapshot],
-          redoStack: [],
-        };
+        assemblies = [...assemblies, newAssembly];
+        if (parentId) {
+          assemblies = addChildToAssembly(parentId, newAssembly.id, assemblies);
+        }
+
+        // Move every copy under the array assembly, keeping their world positions
+        allObjectIds.forEach((id) => {
+          ({ objects, assemblies } = reparentNodeUtil(id, newAssembly.id, objects, assemblies));
+        });
+      } else if (sourceObject.parentId) {
+        // Copies join the source object's assembly
+        newObjectIds.forEach((id) => {
+          assemblies = addChildToAssembly(sourceObject.parentId!, id, assemblies);
+        });
       }
 
+      tabs[state.activeTabIndex] = {
+        ...activeTab,
+        objects,
+        assemblies,
+        hasUnsavedChanges: true,
+        undoStack: [...activeTab.undoStack, snapshot],
+        redoStack: [],
+      };
+
       return { tabs };
     }),
 
@@ -836,15 +1322,21 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
       if (!obj) return state;
 
       // Convert world position to local position
-      const localPos = worldToLocalPosition(worldPosition, obj.id, activeTab.objects, activeTab.assemblies);
+      const localPos = worldToLocalPosition(worldPosition, obj.parentId, activeTab.objects, activeTab.assemblies);
 
       const updatedObjects = activeTab.objects.map((o) =>
-        o.id === id ? { ...o, localPosition: localPos } : o
+        o.id === id ? dropOverriddenExpressions(o, { ...o, localPosition: localPos }) : o
+      );
+      const synced = syncEditedInstances(
+        [getInstanceRootId(id, activeTab.objects, activeTab.assemblies)],
+        updatedObjects,
+        activeTab.assemblies,
+        activeTab.components
       );
 
       tabs[state.activeTabIndex] = {
         ...activeTab,
-        objects: updatedObjects,
+        ...applyConstraints(synced.objects, synced.assemblies, synced.components, activeTab.constraints),
         hasUnsavedChanges: true,
         undoStack: snapshot ? [...activeTab.undoStack, snapshot] : activeTab.undoStack,
         redoStack: snapshot ? [] : activeTab.redoStack,
@@ -864,10 +1356,292 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
       const updatedObjects = activeTab.objects.map((obj) =>
         obj.id === id ? { ...obj, rotation } : obj
       );
+      const synced = syncEditedInstances(
+        [getInstanceRootId(id, activeTab.objects, activeTab.assemblies)],
+        updatedObjects,
+        activeTab.assemblies,
+        activeTab.components
+      );
 
       tabs[state.activeTabIndex] = {
         ...activeTab,
-        objects: updatedObjects,
+        ...applyConstraints(synced.objects, synced.assemblies, synced.components, activeTab.constraints),
+        hasUnsavedChanges: true,
+        undoStack: [...activeTab.undoStack, snapshot],
+        redoStack: [],
+      };
+
+      return { tabs };
+    }),
+
+  // Parametric variables and expressions
+  addVariable: (variable) =>
+    set((state) => {
+      const tabs = [...state.tabs];
+      const activeTab = tabs[state.activeTabIndex];
+      if (!activeTab) return state;
+
+      const snapshot = createSnapshot(activeTab);
+      tabs[state.activeTabIndex] = {
+        ...activeTab,
+        ...applyVariables(activeTab, [...activeTab.variables, variable]),
+        hasUnsavedChanges: true,
+        undoStack: [...activeTab.undoStack, snapshot],
+        redoStack: [],
+      };
+
+      return { tabs };
+    }),
+
+  updateVariable: (id, updates) =>
+    set((state) => {
+      const tabs = [...state.tabs];
+      const activeTab = tabs[state.activeTabIndex];
+      if (!activeTab) return state;
+
+      const previous = activeTab.variables.find((variable) => variable.id === id);
+      if (!previous) return state;
+
+      // A rename rewrites every expression that used the old name, including component parts
+      let renamed = activeTab;
+      if (updates.name !== undefined && updates.name !== previous.name) {
+        const rename = (objects: DraftObject[], variables: ProjectVariable[] = []) =>
+          renameVariableReferences(objects, variables, previous.name, updates.name!);
+        const references = rename(activeTab.objects, activeTab.variables);
+        renamed = {
+          ...activeTab,
+          objects: references.objects,
+          variables: references.variables,
+          components: activeTab.components.map((component) => ({
+            ...component,
+            objects: rename(component.objects).objects,
+          })),
+        };
+      }
+
+      const snapshot = createSnapshot(activeTab);
+      const variables = renamed.variables.map((variable) =>
+        variable.id === id ? { ...variable, ...updates } : variable
+      );
+
+      tabs[state.activeTabIndex] = {
+        ...renamed,
+        ...applyVariables(renamed, variables),
+        hasUnsavedChanges: true,
+        undoStack: [...activeTab.undoStack, snapshot],
+        redoStack: [],
+      };
+
+      return { tabs };
+    }),
+
+  removeVariable: (id) =>
+    set((state) => {
+      const tabs = [...state.tabs];
+      const activeTab = tabs[state.activeTabIndex];
+      if (!activeTab) return state;
+
+      const snapshot = createSnapshot(activeTab);
+      tabs[state.activeTabIndex] = {
+        ...activeTab,
+        ...applyVariables(activeTab, activeTab.variables.filter((variable) => variable.id !== id)),
+        hasUnsavedChanges: true,
+        undoStack: [...activeTab.undoStack, snapshot],
+        redoStack: [],
+      };
+
+      return { tabs };
+    }),
+
+  // Several fields can share one expression, e.g. a round part's width and height, in a single undo step
+  setObjectExpression: (id, field, expression, updates = {}) =>
+    set((state) => {
+      const tabs = [...state.tabs];
+      const activeTab = tabs[state.activeTabIndex];
+      if (!activeTab) return state;
+
+      const obj = activeTab.objects.find((o) => o.id === id);
+      const { values } = evaluateVariables(activeTab.variables);
+      const result = evaluateFieldExpression(expression, values, activeTab.projectInfo.units);
+      if (!obj || result.value === null) return state;
+
+      const snapshot = createSnapshot(activeTab);
+      const fields = Array.isArray(field) ? field : [field];
+      const updatedObjects = activeTab.objects.map((o) =>
+        o.id === id
+          ? {
+              ...fields.reduce((updated, f) => setFieldValue(updated, f, result.value!), { ...o, ...updates }),
+              expressions: { ...o.expressions, ...Object.fromEntries(fields.map((f) => [f, expression])) },
+            }
+          : o
+      );
+      const synced = syncEditedInstances(
+        [getInstanceRootId(id, activeTab.objects, activeTab.assemblies)],
+        updatedObjects,
+        activeTab.assemblies,
+        activeTab.components
+      );
+
+      tabs[state.activeTabIndex] = {
+        ...activeTab,
+        ...applyConstraints(synced.objects, synced.assemblies, synced.components, activeTab.constraints),
+        hasUnsavedChanges: true,
+        undoStack: [...activeTab.undoStack, snapshot],
+        redoStack: [],
+      };
+
+      return { tabs };
+    }),
+
+  // Part constraints
+  addConstraint: (constraint) =>
+    set((state) => {
+      const tabs = [...state.tabs];
+      const activeTab = tabs[state.activeTabIndex];
+      if (!activeTab) return state;
+
+      const snapshot = createSnapshot(activeTab);
+      const constraints = [...activeTab.constraints, constraint];
+      tabs[state.activeTabIndex] = {
+        ...activeTab,
+        ...applyConstraints(activeTab.objects, activeTab.assemblies, activeTab.components, constraints),
+        constraints,
+        hasUnsavedChanges: true,
+        undoStack: [...activeTab.undoStack, snapshot],
+        redoStack: [],
+      };
+
+      return { tabs };
+    }),
+
+  updateConstraint: (id, updates) =>
+    set((state) => {
+      const tabs = [...state.tabs];
+      const activeTab = tabs[state.activeTabIndex];
+      if (!activeTab) return state;
+
+      const snapshot = createSnapshot(activeTab);
+      const constraints = activeTab.constraints.map((constraint) =>
+        constraint.id === id ? { ...constraint, ...updates } : constraint
+      );
+      tabs[state.activeTabIndex] = {
+        ...activeTab,
+        ...applyConstraints(activeTab.objects, activeTab.assemblies, activeTab.components, constraints),
+        constraints,
+        hasUnsavedChanges: true,
+        undoStack: [...activeTab.undoStack, snapshot],
+        redoStack: [],
+      };
+
+      return { tabs };
+    }),
+
+  // Removing a constraint leaves the part where it is
+  removeConstraint: (id) =>
+    set((state) => {
+      const tabs = [...state.tabs];
+      const activeTab = tabs[state.activeTabIndex];
+      if (!activeTab) return state;
+
+      const snapshot = createSnapshot(activeTab);
+      tabs[state.activeTabIndex] = {
+        ...activeTab,
+        constraints: activeTab.constraints.filter((constraint) => constraint.id !== id),
+        hasUnsavedChanges: true,
+        undoStack: [...activeTab.undoStack, snapshot],
+        redoStack: [],
+      };
+
+      return { tabs };
+    }),
+
+  // Interference checks
+  allowInterference: (objectIds, note = '') =>
+    set((state) => {
+      const tabs = [...state.tabs];
+      const activeTab = tabs[state.activeTabIndex];
+      if (!activeTab) return state;
+
+      const snapshot = createSnapshot(activeTab);
+      tabs[state.activeTabIndex] = {
+        ...activeTab,
+        allowedInterferences: [
+          ...activeTab.allowedInterferences,
+          { id: `interference-${Date.now()}`, objectIds, note },
+        ],
+        hasUnsavedChanges: true,
+        undoStack: [...activeTab.undoStack, snapshot],
+        redoStack: [],
+      };
+
+      return { tabs };
+    }),
+
+  removeAllowedInterference: (id) =>
+    set((state) => {
+      const tabs = [...state.tabs];
+      const activeTab = tabs[state.activeTabIndex];
+      if (!activeTab) return state;
+
+      const snapshot = createSnapshot(activeTab);
+      tabs[state.activeTabIndex] = {
+        ...activeTab,
+        allowedInterferences: activeTab.allowedInterferences.filter((allowance) => allowance.id !== id),
+        hasUnsavedChanges: true,
+        undoStack: [...activeTab.undoStack, snapshot],
+        redoStack: [],
+      };
+
+      return { tabs };
+    }),
+
+  // Joinery
+  addJoint: (joint) =>
+    set((state) => {
+      const tabs = [...state.tabs];
+      const activeTab = tabs[state.activeTabIndex];
+      if (!activeTab) return state;
+
+      const snapshot = createSnapshot(activeTab);
+      tabs[state.activeTabIndex] = {
+        ...activeTab,
+        joints: [...activeTab.joints, joint],
+        hasUnsavedChanges: true,
+        undoStack: [...activeTab.undoStack, snapshot],
+        redoStack: [],
+      };
+
+      return { tabs };
+    }),
+
+  updateJoint: (id, updates) =>
+    set((state) => {
+      const tabs = [...state.tabs];
+      const activeTab = tabs[state.activeTabIndex];
+      if (!activeTab) return state;
+
+      const snapshot = createSnapshot(activeTab);
+      tabs[state.activeTabIndex] = {
+        ...activeTab,
+        joints: activeTab.joints.map((joint) => (joint.id === id ? { ...joint, ...updates } : joint)),
+        hasUnsavedChanges: true,
+        undoStack: [...activeTab.undoStack, snapshot],
+        redoStack: [],
+      };
+
+      return { tabs };
+    }),
+
+  removeJoint: (id) =>
+    set((state) => {
+      const tabs = [...state.tabs];
+      const activeTab = tabs[state.activeTabIndex];
+      if (!activeTab) return state;
+
+      const snapshot = createSnapshot(activeTab);
+      tabs[state.activeTabIndex] = {
+        ...activeTab,
+        joints: activeTab.joints.filter((joint) => joint.id !== id),
         hasUnsavedChanges: true,
         undoStack: [...activeTab.undoStack, snapshot],
         redoStack: [],
@@ -935,6 +1709,63 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
       return { tabs };
     }),
 
+  // Section plane management
+  addSectionPlane: (plane) =>
+    set((state) => {
+      const tabs = [...state.tabs];
+      const activeTab = tabs[state.activeTabIndex];
+      if (!activeTab) return state;
+
+      const snapshot = createSnapshot(activeTab);
+      tabs[state.activeTabIndex] = {
+        ...activeTab,
+        sectionPlanes: [...activeTab.sectionPlanes, plane],
+        hasUnsavedChanges: true,
+        undoStack: [...activeTab.undoStack, snapshot],
+        redoStack: [],
+      };
+
+      return { tabs };
+    }),
+
+  updateSectionPlane: (id, updates) =>
+    set((state) => {
+      const tabs = [...state.tabs];
+      const activeTab = tabs[state.activeTabIndex];
+      if (!activeTab) return state;
+
+      const snapshot = createSnapshot(activeTab);
+      tabs[state.activeTabIndex] = {
+        ...activeTab,
+        sectionPlanes: activeTab.sectionPlanes.map((plane) =>
+          plane.id === id ? { ...plane, ...updates } : plane
+        ),
+        hasUnsavedChanges: true,
+        undoStack: [...activeTab.undoStack, snapshot],
+        redoStack: [],
+      };
+
+      return { tabs };
+    }),
+
+  removeSectionPlane: (id) =>
+    set((state) => {
+      const tabs = [...state.tabs];
+      const activeTab = tabs[state.activeTabIndex];
+      if (!activeTab) return state;
+
+      const snapshot = createSnapshot(activeTab);
+      tabs[state.activeTabIndex] = {
+        ...activeTab,
+        sectionPlanes: activeTab.sectionPlanes.filter((plane) => plane.id !== id),
+        hasUnsavedChanges: true,
+        undoStack: [...activeTab.undoStack, snapshot],
+        redoStack: [],
+      };
+
+      return { tabs };
+    }),
+
   undo: () =>
     set((state) => {
       const tabs = [...state.tabs];
@@ -949,6 +1780,12 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
         objects: previousState.objects,
         assemblies: previousState.assemblies,
         dimensionLines: previousState.dimensionLines,
+        sectionPlanes: previousState.sectionPlanes,
+        components: previousState.components,
+        variables: previousState.variables,
+        constraints: previousState.constraints,
+        allowedInterferences: previousState.allowedInterferences,
+        joints: previousState.joints,
         undoStack: activeTab.undoStack.slice(0, -1),
         redoStack: [...activeTab.redoStack, currentState],
         hasUnsavedChanges: true,
@@ -971,6 +1808,12 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
         objects: nextState.objects,
         assemblies: nextState.assemblies,
         dimensionLines: nextState.dimensionLines,
+        sectionPlanes: nextState.sectionPlanes,
+        components: nextState.components,
+        variables: nextState.variables,
+        constraints: nextState.constraints,
+        allowedInterferences: nextState.allowedInterferences,
+        joints: nextState.joints,
         undoStack: [...activeTab.undoStack, currentState],
         redoStack: activeTab.redoStack.slice(0, -1),
         hasUnsavedChanges: true,
@@ -1001,6 +1844,10 @@ export const useProjectInfo = () => {
   return useProjectStore((state) => state.tabs[state.activeTabIndex]?.projectInfo || createEmptyTab().projectInfo);
 };
 
+export const useUnitSystem = () => {
+  return useProjectStore((state) => state.tabs[state.activeTabIndex]?.projectInfo.units || 'imperial');
+};
+
 export const useCurrentFilePath = () => {
   return useProjectStore((state) => state.tabs[state.activeTabIndex]?.currentFilePath || null);
 };
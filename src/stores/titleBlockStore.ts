@@ -0,0 +1,97 @@
+import { create } from 'zustand';
+import { TitleBlockTemplate } from '@/types';
+import { DEFAULT_TITLE_BLOCK_TEMPLATES } from '@/lib/export/titleBlock';
+
+const STORAGE_KEY = 'draftplan-title-blocks';
+
+interface StoredTitleBlocks {
+  customTemplates: TitleBlockTemplate[];
+  activeTemplateId: string;
+}
+
+interface TitleBlockState extends StoredTitleBlocks {
+  addTemplate: (template: Omit<TitleBlockTemplate, 'id' | 'isCustom'>) => string;
+  updateTemplate: (id: string, updates: Partial<TitleBlockTemplate>) => void;
+  deleteTemplate: (id: string) => void;
+  setActiveTemplate: (id: string) => void;
+  getActiveTemplate: () => TitleBlockTemplate;
+}
+
+// Load title block templates from localStorage
+const loadTitleBlocks = (): StoredTitleBlocks => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored);
+      return {
+        customTemplates: Array.isArray(parsed.customTemplates) ? parsed.customTemplates : [],
+        activeTemplateId: typeof parsed.activeTemplateId === 'string' ? parsed.activeTemplateId : DEFAULT_TITLE_BLOCK_TEMPLATES[0].id,
+      };
+    }
+  } catch (error) {
+    console.error('Failed to load title blocks from localStorage:', error);
+  }
+  return { customTemplates: [], activeTemplateId: DEFAULT_TITLE_BLOCK_TEMPLATES[0].id };
+};
+
+// Save title block templates to localStorage
+const saveTitleBlocks = (data: StoredTitleBlocks) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+  } catch (error) {
+    console.error('Failed to save title blocks to localStorage:', error);
+  }
+};
+
+export const useTitleBlockStore = create<TitleBlockState>((set, get) => ({
+  ...loadTitleBlocks(),
+
+  addTemplate: (template) => {
+    const newTemplate: TitleBlockTemplate = {
+      ...template,
+      id: `titleblock-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      isCustom: true,
+    };
+
+    set((state) => {
+      const customTemplates = [...state.customTemplates, newTemplate];
+      saveTitleBlocks({ customTemplates, activeTemplateId: state.activeTemplateId });
+      return { customTemplates };
+    });
+    return newTemplate.id;
+  },
+
+  updateTemplate: (id, updates) => {
+    set((state) => {
+      const customTemplates = state.customTemplates.map((template) =>
+        template.id === id ? { ...template, ...updates } : template
+      );
+      saveTitleBlocks({ customTemplates, activeTemplateId: state.activeTemplateId });
+      return { customTemplates };
+    });
+  },
+
+  deleteTemplate: (id) => {
+    set((state) => {
+      const customTemplates = state.customTemplates.filter((template) => template.id !== id);
+      const activeTemplateId = state.activeTemplateId === id ? DEFAULT_TITLE_BLOCK_TEMPLATES[0].id : state.activeTemplateId;
+      saveTitleBlocks({ customTemplates, activeTemplateId });
+      return { customTemplates, activeTemplateId };
+    });
+  },
+
+  setActiveTemplate: (id) => {
+    set((state) => {
+      saveTitleBlocks({ customTemplates: state.customTemplates, activeTemplateId: id });
+      return { activeTemplateId: id };
+    });
+  },
+
+  getActiveTemplate: () => {
+    const { customTemplates, activeTemplateId } = get();
+    return (
+      [...DEFAULT_TITLE_BLOCK_TEMPLATES, ...customTemplates].find((template) => template.id === activeTemplateId) ||
+      DEFAULT_TITLE_BLOCK_TEMPLATES[0]
+    );
+  },
+}));
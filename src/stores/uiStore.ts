@@ -1,5 +1,8 @@
 import { create } from 'zustand';
-import { ProjectSettings } from '@/types';
+import { ProjectSettings, RenderMode, ExplodeSettings, LengthFormat, FractionPrecision } from '@/types';
+import { PaperSizeId, PaperOrientation } from '@/lib/export/paper';
+import { ProjectionAngle } from '@/lib/export/sheetLayout';
+import { CutListMode } from '@/lib/cutlist/partsList';
 
 interface UIState extends ProjectSettings {
   // UI state
@@ -7,13 +10,26 @@ interface UIState extends ProjectSettings {
   propertiesPanelOpen: boolean;
   controlsPanelOpen: boolean;
   assembliesPanelOpen: boolean;
+  interferencePanelOpen: boolean; // List of overlapping parts
   projectDetailsPanelOpen: boolean;
   cutListModalOpen: boolean;
   settingsModalOpen: boolean;
   arrayModalOpen: boolean;
+  exportPDFModalOpen: boolean;
+  templateExportModalOpen: boolean;
+  sheetComposerModalOpen: boolean;
+  profileEditorOpen: boolean;
+  profileEditorObjectId: string | null; // Part whose profile is being edited, null for a new part
   viewCubeVisible: boolean;
   gizmoVisible: boolean;
+  sheetPreviewVisible: boolean; // Paper frame and title block drawn over the canvas
+  jointMarkersVisible: boolean; // Joint cuts and labels drawn over the canvas
+  partLabelsVisible: boolean; // Parts-list letters drawn as callouts over the canvas
+  renderMode: RenderMode; // Shaded boxes, or drafting lines with hidden edges dashed
+  explode: ExplodeSettings; // Exploded view spread (factor 0 shows the model assembled)
   dimensionLineMode: boolean; // Whether we're in dimension line creation mode
+  sectionPlacementMode: boolean; // Whether clicks place a section cutting plane
+  activeSectionId: string | null; // Section plane clipping the canvas, if any
 
   // Panel collapse states
   projectDetailsPanelCollapsed: boolean;
@@ -22,14 +38,28 @@ interface UIState extends ProjectSettings {
   majorGridSize: number; // Size in inches for major grid lines
   minorGridVisible: boolean; // Toggle for 1/16" grid visibility
   snapIncrement: number; // Snap increment in inches for arrow key movement
+  objectSnap: boolean; // Whether dragged parts and dimension points snap to other parts
+  objectSnapDistance: number; // How close in screen pixels a feature must get to snap
+  lengthFormat: LengthFormat; // Decimal inches, fractions, or feet and inches
+  fractionPrecision: FractionPrecision; // Fractions round to 1/16, 1/32 or 1/64
 
   // Auto-save state
   autoSaveEnabled: boolean;
   autoSaveInterval: number; // Auto-save interval in minutes
 
+  // Cut list settings
+  sawKerf: number; // Blade width in inches lost on every cut
+  trimAllowance: number; // Inches lost squaring up the ends of each board
+  respectGrain: boolean; // Whether sheet parts keep their grain direction when nested
+  cutListMode: CutListMode; // Grouped by material and size, or a lettered parts list
+
   // Export state
   exportPNGRequested: boolean;
   exportPDFRequested: boolean;
+  pdfPaperSize: PaperSizeId; // Paper size for vector PDF export
+  pdfOrientation: PaperOrientation;
+  pdfScaleId: string; // Drawing scale id, or 'fit'
+  sheetProjection: ProjectionAngle; // View arrangement on multi-view sheets
 
   // Actions
   setTheme: (theme: 'light' | 'dark' | 'blueprint') => void;
@@ -39,24 +69,50 @@ interface UIState extends ProjectSettings {
   togglePropertiesPanel: () => void;
   toggleControlsPanel: () => void;
   toggleAssembliesPanel: () => void;
+  toggleInterferencePanel: () => void;
   toggleProjectDetailsPanel: () => void;
   toggleCutListModal: () => void;
   toggleSettingsModal: () => void;
   toggleArrayModal: () => void;
+  toggleExportPDFModal: () => void;
+  toggleTemplateExportModal: () => void;
+  toggleSheetComposerModal: () => void;
+  openProfileEditor: (objectId: string | null) => void;
+  closeProfileEditor: () => void;
   toggleViewCube: () => void;
   toggleGizmo: () => void;
+  toggleSheetPreview: () => void;
+  toggleJointMarkers: () => void;
+  togglePartLabels: () => void;
+  setRenderMode: (mode: RenderMode) => void;
+  setExplodeFactor: (factor: number) => void;
+  setExplodeAxis: (axis: ExplodeSettings['axis']) => void;
   toggleDimensionLineMode: () => void;
+  toggleSectionPlacementMode: () => void;
+  setActiveSection: (id: string | null) => void;
   toggleProjectDetailsPanelCollapse: () => void;
   togglePropertiesPanelCollapse: () => void;
   toggleAssembliesPanelCollapse: () => void;
   setMajorGridSize: (size: number) => void;
   toggleMinorGrid: () => void;
   setSnapIncrement: (increment: number) => void;
+  toggleObjectSnap: () => void;
+  setObjectSnapDistance: (distance: number) => void;
+  setLengthFormat: (format: LengthFormat) => void;
+  setFractionPrecision: (precision: FractionPrecision) => void;
   setAutoSaveEnabled: (enabled: boolean) => void;
   setAutoSaveInterval: (interval: number) => void;
+  setSawKerf: (kerf: number) => void;
+  setTrimAllowance: (trim: number) => void;
+  toggleRespectGrain: () => void;
+  setCutListMode: (mode: CutListMode) => void;
   requestExportPNG: () => void;
   requestExportPDF: () => void;
   clearExportRequests: () => void;
+  setPDFPaperSize: (paper: PaperSizeId) => void;
+  setPDFOrientation: (orientation: PaperOrientation) => void;
+  setPDFScaleId: (scaleId: string) => void;
+  setSheetProjection: (projection: ProjectionAngle) => void;
 }
 
 export const useUIStore = create<UIState>((set) => ({
@@ -67,23 +123,48 @@ export const useUIStore = create<UIState>((set) => ({
   propertiesPanelOpen: true,
   controlsPanelOpen: true, // Default to visible
   assembliesPanelOpen: true, // Default to visible
+  interferencePanelOpen: false, // Default to hidden
   projectDetailsPanelOpen: true, // Default to visible
   cutListModalOpen: false, // Default to closed
   settingsModalOpen: false, // Default to closed
   arrayModalOpen: false, // Default to closed
+  exportPDFModalOpen: false, // Default to closed
+  templateExportModalOpen: false, // Default to closed
+  sheetComposerModalOpen: false, // Default to closed
+  profileEditorOpen: false, // Default to closed
+  profileEditorObjectId: null,
   viewCubeVisible: true, // Default to visible
   gizmoVisible: true, // Default to visible
+  sheetPreviewVisible: false,
+  jointMarkersVisible: true, // Default to visible
+  partLabelsVisible: false, // Default to hidden
+  renderMode: 'shaded',
+  explode: { axis: 'y', factor: 0 },
   dimensionLineMode: false, // Default to off
+  sectionPlacementMode: false,
+  activeSectionId: null,
   projectDetailsPanelCollapsed: false, // Default to expanded
   propertiesPanelCollapsed: false, // Default to expanded
   assembliesPanelCollapsed: false, // Default to expanded
   majorGridSize: 1, // Default to 1 inch
   minorGridVisible: true, // Default to visible
   snapIncrement: 1, // Default to 1 inch
+  objectSnap: true, // Default to snapping to parts
+  objectSnapDistance: 8, // Default to 8 pixels
+  lengthFormat: 'fractional', // Default to tape-measure fractions
+  fractionPrecision: 16, // Default to 1/16 inch
   autoSaveEnabled: true, // Default to enabled
   autoSaveInterval: 5, // Default to 5 minutes
+  sawKerf: 0.125, // Default to 1/8" blade
+  trimAllowance: 1, // Default to 1 inch per board
+  respectGrain: true, // Default to keeping grain direction
+  cutListMode: 'materials', // Default to material groups
   exportPNGRequested: false,
   exportPDFRequested: false,
+  pdfPaperSize: 'letter', // Default to US Letter
+  pdfOrientation: 'landscape',
+  pdfScaleId: 'fit', // Default to scaling each view to the page
+  sheetProjection: 'third-angle',
 
   setTheme: (theme) => set({ theme }),
   toggleGrid: () => set((state) => ({ gridVisible: !state.gridVisible })),
@@ -96,6 +177,8 @@ export const useUIStore = create<UIState>((set) => ({
     set((state) => ({ controlsPanelOpen: !state.controlsPanelOpen })),
   toggleAssembliesPanel: () =>
     set((state) => ({ assembliesPanelOpen: !state.assembliesPanelOpen })),
+  toggleInterferencePanel: () =>
+    set((state) => ({ interferencePanelOpen: !state.interferencePanelOpen })),
   toggleProjectDetailsPanel: () =>
     set((state) => ({ projectDetailsPanelOpen: !state.projectDetailsPanelOpen })),
   toggleCutListModal: () =>
@@ -104,12 +187,32 @@ export const useUIStore = create<UIState>((set) => ({
     set((state) => ({ settingsModalOpen: !state.settingsModalOpen })),
   toggleArrayModal: () =>
     set((state) => ({ arrayModalOpen: !state.arrayModalOpen })),
+  toggleExportPDFModal: () =>
+    set((state) => ({ exportPDFModalOpen: !state.exportPDFModalOpen })),
+  toggleTemplateExportModal: () =>
+    set((state) => ({ templateExportModalOpen: !state.templateExportModalOpen })),
+  toggleSheetComposerModal: () =>
+    set((state) => ({ sheetComposerModalOpen: !state.sheetComposerModalOpen })),
+  openProfileEditor: (objectId) => set({ profileEditorOpen: true, profileEditorObjectId: objectId }),
+  closeProfileEditor: () => set({ profileEditorOpen: false, profileEditorObjectId: null }),
   toggleViewCube: () =>
     set((state) => ({ viewCubeVisible: !state.viewCubeVisible })),
   toggleGizmo: () =>
     set((state) => ({ gizmoVisible: !state.gizmoVisible })),
+  toggleSheetPreview: () =>
+    set((state) => ({ sheetPreviewVisible: !state.sheetPreviewVisible })),
+  toggleJointMarkers: () =>
+    set((state) => ({ jointMarkersVisible: !state.jointMarkersVisible })),
+  togglePartLabels: () =>
+    set((state) => ({ partLabelsVisible: !state.partLabelsVisible })),
+  setRenderMode: (mode) => set({ renderMode: mode }),
+  setExplodeFactor: (factor) => set((state) => ({ explode: { ...state.explode, factor } })),
+  setExplodeAxis: (axis) => set((state) => ({ explode: { ...state.explode, axis } })),
   toggleDimensionLineMode: () =>
     set((state) => ({ dimensionLineMode: !state.dimensionLineMode })),
+  toggleSectionPlacementMode: () =>
+    set((state) => ({ sectionPlacementMode: !state.sectionPlacementMode })),
+  setActiveSection: (id) => set({ activeSectionId: id }),
   toggleProjectDetailsPanelCollapse: () =>
     set((state) => ({ projectDetailsPanelCollapsed: !state.projectDetailsPanelCollapsed })),
   togglePropertiesPanelCollapse: () =>
@@ -119,9 +222,21 @@ export const useUIStore = create<UIState>((set) => ({
   setMajorGridSize: (size) => set({ majorGridSize: size }),
   toggleMinorGrid: () => set((state) => ({ minorGridVisible: !state.minorGridVisible })),
   setSnapIncrement: (increment) => set({ snapIncrement: increment }),
+  toggleObjectSnap: () => set((state) => ({ objectSnap: !state.objectSnap })),
+  setObjectSnapDistance: (distance) => set({ objectSnapDistance: distance }),
+  setLengthFormat: (format) => set({ lengthFormat: format }),
+  setFractionPrecision: (precision) => set({ fractionPrecision: precision }),
   setAutoSaveEnabled: (enabled) => set({ autoSaveEnabled: enabled }),
   setAutoSaveInterval: (interval) => set({ autoSaveInterval: interval }),
+  setSawKerf: (kerf) => set({ sawKerf: kerf }),
+  setTrimAllowance: (trim) => set({ trimAllowance: trim }),
+  toggleRespectGrain: () => set((state) => ({ respectGrain: !state.respectGrain })),
+  setCutListMode: (mode) => set({ cutListMode: mode }),
   requestExportPNG: () => set({ exportPNGRequested: true }),
   requestExportPDF: () => set({ exportPDFRequested: true }),
   clearExportRequests: () => set({ exportPNGRequested: false, exportPDFRequested: false }),
+  setPDFPaperSize: (paper) => set({ pdfPaperSize: paper }),
+  setPDFOrientation: (orientation) => set({ pdfOrientation: orientation }),
+  setPDFScaleId: (scaleId) => set({ pdfScaleId: scaleId }),
+  setSheetProjection: (projection) => set({ sheetProjection: projection }),
 }));
@@ -0,0 +1,61 @@
+import { expect } from 'vitest';
+import { Assembly, DraftObject, Dimensions, Vector3D } from '@/types';
+
+/**
+ * A part for tests: a 1" pine cube at the origin with default settings
+ * Tests override the fields they care about, e.g. makePart({ id: 'shelf', dimensions }).
+ */
+export function makePart(overrides: Partial<DraftObject> & { id: string }): DraftObject {
+  return {
+    type: 'lumber',
+    name: overrides.id,
+    localPosition: { x: 0, y: 0, z: 0 },
+    dimensions: { width: 1, height: 1, depth: 1 },
+    rotation: { x: 0, y: 0, z: 0 },
+    material: 'pine',
+    category: 'Dimensional Lumber',
+    tags: [],
+    gridSnap: true,
+    showDimensions: true,
+    rotationEnabled: false,
+    notes: '',
+    useAssemblyColor: false,
+    ...overrides,
+  };
+}
+
+/**
+ * A plywood box of a given size at a position, for geometry and hierarchy tests
+ */
+export function makeBox(
+  id: string,
+  dimensions: Dimensions,
+  position: Vector3D,
+  overrides: Partial<DraftObject> = {}
+): DraftObject {
+  return makePart({
+    id,
+    type: 'sheet',
+    dimensions,
+    localPosition: position,
+    material: 'plywood',
+    category: 'Sheet Goods',
+    ...overrides,
+  });
+}
+
+/**
+ * An expanded, visible assembly named after its id
+ */
+export function makeAssembly(id: string, childIds: string[], overrides: Partial<Assembly> = {}): Assembly {
+  return { id, name: id, color: '#888888', visible: true, notes: '', childIds, isExpanded: true, ...overrides };
+}
+
+/**
+ * Compare vectors component by component, allowing floating-point error
+ */
+export function expectVector(actual: Vector3D, expected: Vector3D) {
+  expect(actual.x).toBeCloseTo(expected.x);
+  expect(actual.y).toBeCloseTo(expected.y);
+  expect(actual.z).toBeCloseTo(expected.z);
+}
@@ -37,6 +37,43 @@ export interface DraftObject {
 
   // Color inheritance
   useAssemblyColor: boolean;      // If true, inherit parent assembly's color
+
+  componentPartId?: string;       // Part of a component definition this object is an instance copy of
+
+  // Parametric fields: the expression each listed field was evaluated from
+  expressions?: Partial<Record<ExpressionField, string>>;
+
+  profile?: PartProfile;          // Outline of a profile-extrusion part; width and height are its bounds
+  round?: RoundStock;             // Dowel, rod or turned leg instead of a box
+}
+
+// Round stock runs along the part's length (local Z) with its width as the diameter; height
+// always matches the width. A tapered part narrows to endDiameter at its +Z end.
+export interface RoundStock {
+  endDiameter?: number;           // Omitted for a straight cylinder
+}
+
+// Corner of a part profile, in inches from the bottom-left of the profile's bounds
+export interface ProfileVertex {
+  x: number;
+  y: number;
+  bulge?: number;                 // Arc to the next vertex as tan(sweep / 4); positive turns counter-clockwise
+}
+
+// Closed 2D outline drawn on a part's front face (X across, Y up) and extruded along its depth
+export interface PartProfile {
+  vertices: ProfileVertex[];
+}
+
+export type ExpressionField =
+  | 'dimensions.width' | 'dimensions.height' | 'dimensions.depth'
+  | 'localPosition.x' | 'localPosition.y' | 'localPosition.z';
+
+export interface ProjectVariable {
+  id: string;
+  name: string;                   // Identifier used in expressions, e.g. "carcassWidth"
+  expression: string;             // A number or an expression over other variables
+  value: number;                  // Last evaluated value
 }
 
 export interface Assembly {
@@ -50,6 +87,24 @@ export interface Assembly {
   parentId?: string;              // Parent assembly ID (for nested assemblies)
   childIds: string[];             // Array of child IDs (assemblies or objects)
   isExpanded: boolean;            // UI state for tree view
+
+  // Transform (absent in older files, meaning the parent's origin with no rotation)
+  localPosition?: Vector3D;       // Pivot point relative to parent; children are placed relative to it
+  rotation?: Vector3D;            // Local rotation about the pivot, relative to parent
+
+  // Reusable components
+  componentId?: string;           // Set on an instance of a component definition
+  componentPartId?: string;       // Part of a component definition this sub-assembly is a copy of
+}
+
+export interface ComponentDefinition {
+  id: string;
+  name: string;
+  color: string;
+  // Parts placed relative to an instance's pivot; IDs are part IDs and top-level parts have no parent
+  objects: DraftObject[];
+  assemblies: Assembly[];
+  childIds: string[];             // Top-level part IDs, in tree order
 }
 
 export interface DimensionLine {
@@ -64,24 +119,99 @@ export interface DimensionLine {
   notes: string;                  // User notes
 }
 
+// World axis a section plane is perpendicular to
+export type SectionAxis = 'x' | 'y' | 'z';
+
+export interface SectionPlane {
+  id: string;
+  name: string;                   // Section letter, shown as "Section A-A"
+  axis: SectionAxis;
+  offset: number;                 // Plane position along the axis in inches
+  flipped: boolean;               // Keep the + side and look from - (default keeps the - side)
+}
+
+// How a constrained part is held against its target along one world axis
+// flush: matching faces line up; butt: the part sits against the target's face;
+// centered: centers line up; offset: the part sits a set distance off the target's face
+export type ConstraintType = 'flush' | 'butt' | 'centered' | 'offset';
+
+export interface PartConstraint {
+  id: string;
+  type: ConstraintType;
+  objectId: string;               // Part that is moved to satisfy the constraint
+  targetId: string;               // Reference part that stays put
+  axis: SectionAxis;
+  side: 'min' | 'max';            // Target face used: left/bottom/back (min) or right/top/front (max)
+  offset: number;                 // Gap in inches for offset constraints
+}
+
+// A pair of parts meant to overlap, such as a tenon in its mortise, left out of interference checks
+export interface AllowedInterference {
+  id: string;
+  objectIds: [string, string];
+  note: string;
+}
+
+// Woodworking joint between two parts. Parts are drawn shoulder to shoulder; the joint
+// describes the cut in the host and any length the insert needs to reach into it
+export type JointType = 'dado' | 'rabbet' | 'groove' | 'mortise-tenon' | 'dowel' | 'pocket-hole' | 'biscuit';
+
+export interface Joint {
+  id: string;
+  type: JointType;
+  hostId: string;                 // Part the cut is made in (the mortised or dadoed part)
+  insertId: string;               // Part that fits into or against the host
+  depth: number;                  // How far the cut goes into the host, in inches
+  width: number;                  // Cut width across the insert's thickness; 0 matches the insert
+  offset: number;                 // Setback of the cut from the edges of the joint (shoulders, stopped ends)
+  notes: string;
+}
+
 export interface CameraState {
   currentView: ViewType;
   zoom: number;
   panOffset: { x: number; y: number };
 }
 
+// How objects are drawn: filled boxes, or drafting style with hidden edges dashed
+export type RenderMode = 'shaded' | 'hidden-line';
+
+// Exploded view: assemblies spread apart along a world axis, for display and export only
+export interface ExplodeSettings {
+  axis: 'x' | 'y' | 'z';
+  factor: number;                 // 0 is assembled; 1 doubles each part's distance from its parent's center
+}
+
 export interface ProjectSettings {
   gridVisible: boolean;
   rulersVisible: boolean;
   theme: 'light' | 'dark' | 'blueprint';
 }
 
+// Units lengths are shown and typed in; the model itself is always stored in inches
+export type UnitSystem = 'imperial' | 'metric';
+
+// How imperial lengths are written: 11.25", 11-1/4" or 0' 11-1/4"
+export type LengthFormat = 'decimal' | 'fractional' | 'feet-inches';
+
+// Finest fraction of an inch shown, as its denominator
+export type FractionPrecision = 16 | 32 | 64;
+
+export interface LengthDisplay {
+  format: LengthFormat;
+  precision: FractionPrecision;
+}
+
 export interface ProjectInfo {
   name: string;
   created: string;
   modified: string;
   notes: string;
   exteriorDimensions?: Dimensions;
+  designer?: string;              // Shown in the title block
+  revision?: string;              // Drawing revision, e.g. "A" or "2"
+  units?: UnitSystem;             // Defaults to imperial for files saved before metric support
+  costs?: CostSettings;           // Cost estimate settings, omitted until first edited
 }
 
 export interface ProjectFile {
@@ -90,6 +220,12 @@ export interface ProjectFile {
   objects: DraftObject[];
   assemblies: Assembly[];
   dimensionLines: DimensionLine[];
+  sectionPlanes?: SectionPlane[];   // Optional for files saved before section views
+  components?: ComponentDefinition[]; // Optional for files saved before reusable components
+  variables?: ProjectVariable[];    // Optional for files saved before parametric variables
+  constraints?: PartConstraint[];  // Optional for files saved before part constraints
+  allowedInterferences?: AllowedInterference[]; // Optional for files saved before interference checks
+  joints?: Joint[];                 // Optional for files saved before joinery
   camera: CameraState;
   settings: ProjectSettings;
 }
@@ -102,6 +238,51 @@ export interface LumberLibraryItem {
   category: string;
   tags: string[];
   isCustom: boolean;
+  round?: RoundStock;             // Dowels and rods: the width is the diameter
+  price?: LumberPrice;            // Omitted when the item has no price
+}
+
+// What a library price is charged per
+export type PriceUnit = 'board' | 'board-foot' | 'sheet' | 'linear-foot';
+
+export interface LumberPrice {
+  amount: number;                 // In the project's currency
+  unit: PriceUnit;
+}
+
+// Hardware, finish and other costs added to a project's estimate
+export interface CostLineItem {
+  id: string;
+  label: string;
+  quantity: number;
+  unitPrice: number;
+}
+
+export interface CostSettings {
+  wastePercent: number;           // Added to board-foot and linear-foot quantities
+  taxPercent: number;             // Charged on materials and extra line items
+  extras: CostLineItem[];
+}
+
+// Title block fields that can be printed on drawing sheets
+export type TitleBlockField =
+  | 'projectName'
+  | 'designer'
+  | 'date'
+  | 'revision'
+  | 'scale'
+  | 'sheet'
+  | 'exteriorDimensions'
+  | 'partCount';
+
+export interface TitleBlockTemplate {
+  id: string;
+  name: string;
+  companyName: string;            // Optional header line, empty to omit
+  fields: TitleBlockField[];      // Fields in display order
+  showBorder: boolean;            // Draw a border around the sheet
+  width: number;                  // Block width in inches
+  isCustom: boolean;
 }
 
 // View configuration for camera setup